@@ -0,0 +1,148 @@
+import type { ConnectionTestResponse } from "@/hooks/use-connectors";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+const PAGINATION_LABELS: Record<string, string> = {
+  none: "Nenhuma",
+  offset: "Offset",
+  cursor: "Cursor",
+  page: "Página",
+  link_header: "Cabeçalho Link",
+  next_url: "Próxima URL",
+  keyset: "Keyset (since_id)",
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  string: "texto",
+  number: "número",
+  boolean: "booleano",
+  object: "objeto",
+  array: "lista",
+  null: "vazio",
+};
+
+// Fields listed before the rest is summarized
+const MAX_FIELDS = 40;
+
+function Stat({ label, value, testId }: { label: string; value: string; testId: string }) {
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium" data-testid={testId}>{value}</p>
+    </div>
+  );
+}
+
+/**
+ * Outcome of a connection test: latency, records on the first page, the
+ * pagination the response suggests and the fields found in its records.
+ */
+export function ConnectionTestCard({ result }: { result: ConnectionTestResponse }) {
+  const { pagination } = result;
+  const paginationMismatch =
+    !!pagination.detected && pagination.detected !== pagination.configured;
+
+  return (
+    <Card data-testid="card-connection-test">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          {result.ok ? (
+            <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />
+          ) : (
+            <XCircle className="h-4 w-4 text-destructive" />
+          )}
+          <span data-testid="text-connection-test-status">
+            {result.ok ? "Conexão bem-sucedida" : "Falha na conexão"}
+          </span>
+          <Badge variant="outline" className="font-mono text-xs">{result.latencyMs} ms</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {result.error && (
+          <p className="text-sm text-destructive break-all" data-testid="text-connection-test-error">
+            {result.error}
+          </p>
+        )}
+
+        {result.ok && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Stat
+                label="Registros na 1ª página"
+                value={String(result.recordCount)}
+                testId="text-connection-test-records"
+              />
+              <Stat
+                label="Total informado"
+                value={result.reportedTotal !== null ? String(result.reportedTotal) : "—"}
+                testId="text-connection-test-total"
+              />
+              <Stat
+                label="Caminho dos dados"
+                value={result.dataPath || "(raiz)"}
+                testId="text-connection-test-datapath"
+              />
+              <Stat
+                label="Mais páginas"
+                value={pagination.hasMore ? "Sim" : "Não"}
+                testId="text-connection-test-has-more"
+              />
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap text-sm">
+              <span className="text-muted-foreground">Paginação configurada:</span>
+              <Badge variant="secondary">
+                {PAGINATION_LABELS[pagination.configured] ?? pagination.configured}
+              </Badge>
+              <span className="text-muted-foreground">detectada:</span>
+              <Badge
+                variant={paginationMismatch ? "destructive" : "secondary"}
+                data-testid="badge-connection-test-pagination"
+              >
+                {pagination.detected ? PAGINATION_LABELS[pagination.detected] : "Nenhum indício"}
+              </Badge>
+              {pagination.nextCursor && (
+                <code className="text-xs bg-muted px-1.5 py-0.5 rounded break-all">
+                  {pagination.nextCursor}
+                </code>
+              )}
+            </div>
+
+            {result.fields.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum registro retornado</p>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Campos encontrados ({result.fields.length})
+                </p>
+                <div className="flex flex-wrap gap-1.5" data-testid="list-connection-test-fields">
+                  {result.fields.slice(0, MAX_FIELDS).map((f) => (
+                    <code key={f.path} className="text-xs bg-muted px-1.5 py-0.5 rounded">
+                      {f.path}
+                      <span className="text-muted-foreground"> · {TYPE_LABELS[f.type] ?? f.type}</span>
+                    </code>
+                  ))}
+                  {result.fields.length > MAX_FIELDS && (
+                    <span className="text-xs text-muted-foreground">
+                      +{result.fields.length - MAX_FIELDS}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {result.sampleRecord && (
+              <pre
+                className="text-xs bg-muted p-3 rounded max-h-64 overflow-auto"
+                data-testid="text-connection-test-sample"
+              >
+                {JSON.stringify(result.sampleRecord, null, 2)}
+              </pre>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
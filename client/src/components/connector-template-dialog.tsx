@@ -0,0 +1,291 @@
+import { useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { connectorTemplateSchema, type ConnectorTemplate, type School } from "@shared/schema";
+import {
+  useConnectorTemplates,
+  useCreateConnectorFromTemplate,
+} from "@/hooks/use-connectors";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileJson, LayoutTemplate } from "lucide-react";
+
+const IMPORTED = "__imported__";
+const NO_SCHOOL = "__none__";
+
+function isApiType(type: string): boolean {
+  return type === "crm" || type === "finance" || type === "academic";
+}
+
+/**
+ * "Criar a partir de template": picks a catalog template or an exported
+ * template file, asks for what templates never carry (name, school, URL,
+ * spreadsheet, token) and opens the new connector.
+ */
+export function ConnectorTemplateDialog({
+  schools,
+  typeLabels,
+}: {
+  schools: School[] | undefined;
+  typeLabels: Record<string, string>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { data: catalog = [] } = useConnectorTemplates(open);
+  const createMutation = useCreateConnectorFromTemplate();
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const [selected, setSelected] = useState("");
+  const [imported, setImported] = useState<ConnectorTemplate | null>(null);
+  const [name, setName] = useState("");
+  const [schoolId, setSchoolId] = useState(NO_SCHOOL);
+  const [baseUrl, setBaseUrl] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [spreadsheetId, setSpreadsheetId] = useState("");
+
+  const template = selected === IMPORTED ? imported : catalog.find((t) => t.key === selected) ?? null;
+
+  function selectTemplate(next: ConnectorTemplate | null, key: string) {
+    setSelected(key);
+    setBaseUrl(typeof next?.config.baseUrl === "string" ? next.config.baseUrl : "");
+    if (next && !name) setName(next.name);
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      const parsed = connectorTemplateSchema.safeParse(JSON.parse(await file.text()));
+      if (!parsed.success) {
+        toast({ variant: "destructive", title: "Template inválido", description: parsed.error.issues[0]?.message });
+        return;
+      }
+      setImported(parsed.data);
+      selectTemplate(parsed.data, IMPORTED);
+    } catch {
+      toast({ variant: "destructive", title: "Template inválido", description: "O arquivo não é um JSON válido" });
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  function reset() {
+    setSelected("");
+    setImported(null);
+    setName("");
+    setSchoolId(NO_SCHOOL);
+    setBaseUrl("");
+    setApiKey("");
+    setSpreadsheetId("");
+  }
+
+  function handleCreate() {
+    if (!template) return;
+    const config: Record<string, unknown> = {};
+    if (isApiType(template.type)) {
+      if (baseUrl) config.baseUrl = baseUrl;
+      if (apiKey) config.apiKey = apiKey;
+    } else if (template.type === "google_sheets") {
+      config.spreadsheetId = spreadsheetId;
+    }
+    createMutation.mutate(
+      {
+        ...(selected === IMPORTED ? { template } : { templateKey: template.key }),
+        name,
+        schoolId: schoolId === NO_SCHOOL ? null : schoolId,
+        config,
+      },
+      {
+        onSuccess: (connector) => {
+          setOpen(false);
+          reset();
+          setLocation(`/integrations/${connector.id}`);
+        },
+      }
+    );
+  }
+
+  const missingSheet = template?.type === "google_sheets" && !spreadsheetId;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-create-from-template">
+          <LayoutTemplate className="h-4 w-4 mr-2" />
+          Usar template
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Criar a partir de template</DialogTitle>
+          <DialogDescription>
+            Configuração, ID de origem e mapeamentos prontos para fontes comuns
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <div className="flex gap-2">
+              <Select
+                value={selected}
+                onValueChange={(key) =>
+                  selectTemplate(
+                    key === IMPORTED ? imported : catalog.find((t) => t.key === key) ?? null,
+                    key
+                  )
+                }
+              >
+                <SelectTrigger data-testid="select-connector-template">
+                  <SelectValue placeholder="Selecione um template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {catalog.map((t) => (
+                    <SelectItem key={t.key} value={t.key!}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                  {imported && (
+                    <SelectItem value={IMPORTED}>{imported.name} (importado)</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                title="Importar template JSON"
+                onClick={() => fileRef.current?.click()}
+                data-testid="button-import-template"
+              >
+                <FileJson className="h-4 w-4" />
+              </Button>
+              <input
+                ref={fileRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          </div>
+
+          {template && (
+            <div className="rounded-md border p-3 space-y-2 text-sm" data-testid="card-template-details">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge variant="secondary">{typeLabels[template.type] || template.type}</Badge>
+                <span className="text-muted-foreground">
+                  {template.mappings.length} mapeamentos · ID de origem{" "}
+                  <code className="text-xs bg-muted px-1 py-0.5 rounded">{template.sourceIdField}</code>
+                </span>
+              </div>
+              {template.description && (
+                <p className="text-muted-foreground">{template.description}</p>
+              )}
+            </div>
+          )}
+
+          {template && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="template-connector-name">Nome</Label>
+                <Input
+                  id="template-connector-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid="input-template-connector-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Escola</Label>
+                <Select value={schoolId} onValueChange={setSchoolId}>
+                  <SelectTrigger data-testid="select-template-school">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SCHOOL}>Toda a rede</SelectItem>
+                    {schools?.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isApiType(template.type) && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-base-url">URL base</Label>
+                    <Input
+                      id="template-base-url"
+                      value={baseUrl}
+                      onChange={(e) => setBaseUrl(e.target.value)}
+                      data-testid="input-template-base-url"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-api-key">Token de acesso</Label>
+                    <Input
+                      id="template-api-key"
+                      type="password"
+                      placeholder="Pode ser informado depois"
+                      value={apiKey}
+                      onChange={(e) => setApiKey(e.target.value)}
+                      data-testid="input-template-api-key"
+                    />
+                  </div>
+                </>
+              )}
+              {template.type === "google_sheets" && (
+                <div className="space-y-2">
+                  <Label htmlFor="template-spreadsheet-id">
+                    Spreadsheet ID <span className="text-destructive">*</span>
+                  </Label>
+                  <Input
+                    id="template-spreadsheet-id"
+                    placeholder="1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgVE2upms"
+                    value={spreadsheetId}
+                    onChange={(e) => setSpreadsheetId(e.target.value)}
+                    data-testid="input-template-spreadsheet-id"
+                  />
+                </div>
+              )}
+            </>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={handleCreate}
+            disabled={!template || !name || missingSheet || createMutation.isPending}
+            data-testid="button-submit-template-connector"
+          >
+            {createMutation.isPending ? "Criando..." : "Criar conector"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
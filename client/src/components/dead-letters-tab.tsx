@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  useDeadLetters,
+  useUpdateDeadLetter,
+  useReplayDeadLetter,
+  useReplayAllDeadLetters,
+} from "@/hooks/use-connectors";
+import type { ConnectorDeadLetter } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Inbox, Pencil, RefreshCw, RotateCcw, Save, Trash2 } from "lucide-react";
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Pendente",
+  replayed: "Reprocessado",
+  discarded: "Descartado",
+};
+
+const ERROR_TYPE_LABELS: Record<string, string> = {
+  transform: "Transformação",
+  upsert: "Gravação",
+};
+
+function formatDate(d: string | Date | null | undefined): string {
+  if (!d) return "—";
+  return new Date(d).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function DeadLettersTab({ connectorId }: { connectorId: string }) {
+  const { user } = useAuth();
+  const { data: entries, isLoading } = useDeadLetters(connectorId);
+  const updateMutation = useUpdateDeadLetter(connectorId);
+  const replayMutation = useReplayDeadLetter(connectorId);
+  const replayAllMutation = useReplayAllDeadLetters(connectorId);
+
+  const canEdit = user?.role === "admin" || user?.role === "ops";
+
+  const [statusFilter, setStatusFilter] = useState("pending");
+  const [editing, setEditing] = useState<ConnectorDeadLetter | null>(null);
+  const [draft, setDraft] = useState("");
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const all = entries || [];
+  const pendingCount = all.filter((e) => e.status === "pending").length;
+  const visible =
+    statusFilter === "all" ? all : all.filter((e) => e.status === statusFilter);
+
+  function openEditor(entry: ConnectorDeadLetter) {
+    setEditing(entry);
+    setDraft(JSON.stringify(entry.rawRecord, null, 2));
+    setDraftError(null);
+  }
+
+  function handleSave() {
+    if (!editing) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(draft);
+    } catch {
+      setDraftError("JSON inválido. Verifique a sintaxe do registro.");
+      return;
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      setDraftError("O registro deve ser um objeto JSON.");
+      return;
+    }
+    updateMutation.mutate(
+      { id: editing.id, rawRecord: parsed as Record<string, unknown> },
+      { onSuccess: () => setEditing(null) }
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger
+              className="w-[180px]"
+              data-testid="select-dead-letter-status"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pendentes</SelectItem>
+              <SelectItem value="replayed">Reprocessados</SelectItem>
+              <SelectItem value="discarded">Descartados</SelectItem>
+              <SelectItem value="all">Todos</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            {pendingCount} registro(s) pendente(s)
+          </p>
+        </div>
+        {canEdit && (
+          <Button
+            size="sm"
+            onClick={() => replayAllMutation.mutate()}
+            disabled={replayAllMutation.isPending || pendingCount === 0}
+            data-testid="button-replay-all-dead-letters"
+          >
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${replayAllMutation.isPending ? "animate-spin" : ""}`}
+            />
+            Reprocessar pendentes
+          </Button>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Inbox className="h-10 w-10 text-muted-foreground/30 mb-3" />
+          <p className="text-sm text-muted-foreground">
+            Nenhum registro com falha
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID na origem</TableHead>
+                <TableHead>Etapa</TableHead>
+                <TableHead>Erro</TableHead>
+                <TableHead>Mapeamento</TableHead>
+                <TableHead>Tentativas</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((entry) => {
+                const latestError = entry.lastReplayError || entry.errors[0];
+                return (
+                  <TableRow
+                    key={entry.id}
+                    data-testid={`row-dead-letter-${entry.id}`}
+                  >
+                    <TableCell>
+                      <span className="text-sm font-mono">
+                        {entry.sourceId || "—"}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {ERROR_TYPE_LABELS[entry.errorType] || entry.errorType}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-[320px]">
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <span
+                            className="text-sm text-muted-foreground line-clamp-2"
+                            data-testid={`text-dead-letter-error-${entry.id}`}
+                          >
+                            {latestError || "—"}
+                          </span>
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-md">
+                          {[...entry.errors, entry.lastReplayError]
+                            .filter(Boolean)
+                            .join("\n")}
+                        </TooltipContent>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-xs font-mono text-muted-foreground">
+                        {entry.mappingVersion || "—"}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm font-mono">
+                        {entry.replayCount}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          entry.status === "pending" ? "secondary" : "outline"
+                        }
+                      >
+                        {STATUS_LABELS[entry.status] || entry.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">
+                        {formatDate(entry.updatedAt)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => openEditor(entry)}
+                              data-testid={`button-edit-dead-letter-${entry.id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {canEdit && entry.status === "pending"
+                              ? "Editar registro"
+                              : "Ver registro"}
+                          </TooltipContent>
+                        </Tooltip>
+                        {canEdit && entry.status === "pending" && (
+                          <>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  disabled={replayMutation.isPending}
+                                  onClick={() => replayMutation.mutate(entry.id)}
+                                  data-testid={`button-replay-dead-letter-${entry.id}`}
+                                >
+                                  <RefreshCw className="h-4 w-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Reprocessar</TooltipContent>
+                            </Tooltip>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  disabled={updateMutation.isPending}
+                                  onClick={() =>
+                                    updateMutation.mutate({
+                                      id: entry.id,
+                                      status: "discarded",
+                                    })
+                                  }
+                                  data-testid={`button-discard-dead-letter-${entry.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Descartar</TooltipContent>
+                            </Tooltip>
+                          </>
+                        )}
+                        {canEdit && entry.status === "discarded" && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                disabled={updateMutation.isPending}
+                                onClick={() =>
+                                  updateMutation.mutate({
+                                    id: entry.id,
+                                    status: "pending",
+                                  })
+                                }
+                                data-testid={`button-restore-dead-letter-${entry.id}`}
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Voltar para pendentes</TooltipContent>
+                          </Tooltip>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Registro bruto</DialogTitle>
+            <DialogDescription>
+              Corrija o registro e reprocesse-o com os mapeamentos atuais
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setDraftError(null);
+            }}
+            readOnly={!canEdit || editing?.status !== "pending"}
+            className="font-mono text-xs min-h-[320px]"
+            data-testid="textarea-dead-letter-record"
+          />
+          {draftError && (
+            <p className="text-sm text-destructive">{draftError}</p>
+          )}
+          {canEdit && editing?.status === "pending" && (
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSave}
+                disabled={updateMutation.isPending}
+                data-testid="button-save-dead-letter"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Salvar registro
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
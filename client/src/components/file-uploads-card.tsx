@@ -0,0 +1,282 @@
+import { useRef, useState } from "react";
+import {
+  useConnectorUploads,
+  useUploadConnectorFile,
+} from "@/hooks/use-connectors";
+import type { ConnectorFileUpload } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Loader2, Upload } from "lucide-react";
+
+// Parsing options of file_upload connectors; "auto" = detect from the file
+export const UPLOAD_DELIMITER_OPTIONS = [
+  { value: "auto", label: "Detectar automaticamente" },
+  { value: ",", label: "Vírgula (,)" },
+  { value: ";", label: "Ponto e vírgula (;)" },
+  { value: "\t", label: "Tabulação" },
+  { value: "|", label: "Barra vertical (|)" },
+];
+
+export const UPLOAD_ENCODING_OPTIONS = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "latin1", label: "Latin-1 (ISO-8859-1)" },
+  { value: "win1252", label: "Windows-1252" },
+];
+
+const CONNECTOR_DEFAULT = "connector";
+
+function formatDate(d: string | Date | null | undefined): string {
+  if (!d) return "—";
+  return new Date(d).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function HeaderDriftCell({ upload }: { upload: ConnectorFileUpload }) {
+  const drift = upload.headerDrift;
+  if (!drift) {
+    return (
+      <span className="text-sm text-muted-foreground">
+        {upload.headers.length} coluna(s)
+      </span>
+    );
+  }
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className="flex items-center gap-1 flex-wrap"
+          data-testid={`badge-header-drift-${upload.id}`}
+        >
+          {drift.missingMapped.length > 0 && (
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+          )}
+          {drift.added.length > 0 && (
+            <Badge variant="secondary">+{drift.added.length}</Badge>
+          )}
+          {drift.removed.length > 0 && (
+            <Badge
+              variant={drift.missingMapped.length > 0 ? "destructive" : "outline"}
+            >
+              −{drift.removed.length}
+            </Badge>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-md space-y-1">
+        {drift.added.length > 0 && <p>Novas: {drift.added.join(", ")}</p>}
+        {drift.removed.length > 0 && <p>Removidas: {drift.removed.join(", ")}</p>}
+        {drift.missingMapped.length > 0 && (
+          <p>Usadas em mapeamentos: {drift.missingMapped.join(", ")}</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+export function FileUploadsCard({
+  connectorId,
+  canUpload,
+}: {
+  connectorId: string;
+  canUpload: boolean;
+}) {
+  const { data: uploads } = useConnectorUploads(connectorId);
+  const uploadMutation = useUploadConnectorFile(connectorId);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [delimiter, setDelimiter] = useState(CONNECTOR_DEFAULT);
+  const [encoding, setEncoding] = useState(CONNECTOR_DEFAULT);
+  const [sheetName, setSheetName] = useState("");
+
+  const isCsv = !!file && !/\.xlsx?$/i.test(file.name);
+
+  function handleUpload() {
+    if (!file) return;
+    uploadMutation.mutate(
+      {
+        file,
+        delimiter: isCsv && delimiter !== CONNECTOR_DEFAULT ? delimiter : undefined,
+        encoding: isCsv && encoding !== CONNECTOR_DEFAULT ? encoding : undefined,
+        sheetName: !isCsv && sheetName ? sheetName : undefined,
+      },
+      {
+        onSuccess: () => {
+          setFile(null);
+          if (inputRef.current) inputRef.current.value = "";
+        },
+      }
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Upload className="h-4 w-4" />
+          Uploads de arquivo ({uploads?.length ?? 0})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canUpload && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1.5 md:col-span-2">
+              <Label>Arquivo (CSV ou XLSX)</Label>
+              <Input
+                ref={inputRef}
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                data-testid="input-upload-file"
+              />
+            </div>
+            {isCsv ? (
+              <>
+                <div className="space-y-1.5">
+                  <Label>Delimitador</Label>
+                  <Select value={delimiter} onValueChange={setDelimiter}>
+                    <SelectTrigger data-testid="select-upload-delimiter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CONNECTOR_DEFAULT}>
+                        Padrão do conector
+                      </SelectItem>
+                      {UPLOAD_DELIMITER_OPTIONS.filter((o) => o.value !== "auto").map(
+                        (o) => (
+                          <SelectItem key={o.value} value={o.value}>
+                            {o.label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Codificação</Label>
+                  <Select value={encoding} onValueChange={setEncoding}>
+                    <SelectTrigger data-testid="select-upload-encoding">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CONNECTOR_DEFAULT}>
+                        Padrão do conector
+                      </SelectItem>
+                      {UPLOAD_ENCODING_OPTIONS.map((o) => (
+                        <SelectItem key={o.value} value={o.value}>
+                          {o.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            ) : (
+              <div className="space-y-1.5 md:col-span-2">
+                <Label>Aba (XLSX)</Label>
+                <Input
+                  value={sheetName}
+                  onChange={(e) => setSheetName(e.target.value)}
+                  placeholder="Primeira aba"
+                  data-testid="input-upload-sheet"
+                />
+              </div>
+            )}
+            <div className="md:col-span-4 flex justify-end">
+              <Button
+                onClick={handleUpload}
+                disabled={!file || uploadMutation.isPending}
+                data-testid="button-upload-file"
+              >
+                {uploadMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Enviar arquivo
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {uploads && uploads.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Arquivo</TableHead>
+                  <TableHead>Formato</TableHead>
+                  <TableHead>Linhas</TableHead>
+                  <TableHead>Colunas</TableHead>
+                  <TableHead>Data</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {uploads.map((u) => (
+                  <TableRow key={u.id} data-testid={`row-upload-${u.id}`}>
+                    <TableCell>
+                      <span className="text-sm font-mono">{u.fileName}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="uppercase">
+                        {u.format}
+                      </Badge>
+                      {u.encoding && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {u.encoding}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm font-mono">{u.rowCount}</span>
+                    </TableCell>
+                    <TableCell>
+                      <HeaderDriftCell upload={u} />
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">
+                        {formatDate(u.createdAt)}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Nenhum arquivo enviado ainda
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
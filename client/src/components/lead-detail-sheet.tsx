@@ -21,14 +21,17 @@ import { Loader2, Phone, Mail, Globe, Calendar, User, MapPin, Building2, Externa
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
+import { LeadDuplicatesSection } from "@/components/lead-duplicates-section";
 import type { Lead } from "@shared/schema";
 
 interface LeadDetailSheetProps {
   leadId: string | null;
   onClose: () => void;
+  // Opens another lead in the sheet (e.g. a duplicate)
+  onSelectLead?: (leadId: string) => void;
 }
 
-export function LeadDetailSheet({ leadId, onClose }: LeadDetailSheetProps) {
+export function LeadDetailSheet({ leadId, onClose, onSelectLead }: LeadDetailSheetProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const { data: lead, isLoading } = useLead(leadId ?? undefined);
@@ -257,6 +260,8 @@ export function LeadDetailSheet({ leadId, onClose }: LeadDetailSheetProps) {
               </>
             )}
 
+            <LeadDuplicatesSection leadId={lead.id} onSelectLead={onSelectLead} />
+
             <Separator />
             <section className="space-y-2">
               <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
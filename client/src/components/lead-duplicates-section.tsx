@@ -0,0 +1,155 @@
+import {
+  useLeadIdentity,
+  useMergeLeads,
+  useUnmergeLead,
+  canMergeLeads,
+} from "@/hooks/use-leads";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { GitMerge, Split } from "lucide-react";
+import type { Lead } from "@shared/schema";
+
+const KEY_TYPE_LABELS: Record<string, string> = {
+  email: "E-mail",
+  phone: "Telefone",
+  cpf: "CPF",
+};
+
+function getLeadLabel(lead: Lead): string {
+  const p = lead.payload as Record<string, unknown>;
+  return String(lead.name || p.name || p.nome || lead.email || lead.sourceId);
+}
+
+/**
+ * Golden record of the lead: the leads merged with it and the leads sharing
+ * one of its keys that were not merged. Ops can split a duplicate off or
+ * merge a candidate in.
+ */
+export function LeadDuplicatesSection({
+  leadId,
+  onSelectLead,
+}: {
+  leadId: string;
+  onSelectLead?: (leadId: string) => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: identity } = useLeadIdentity(leadId);
+  const mergeMutation = useMergeLeads(leadId);
+  const unmergeMutation = useUnmergeLead();
+
+  const canManage = canMergeLeads(user?.role);
+  const isPending = mergeMutation.isPending || unmergeMutation.isPending;
+
+  if (!identity || (identity.members.length <= 1 && identity.candidates.length === 0)) {
+    return null;
+  }
+
+  const handleMerge = (candidateId: string) => {
+    mergeMutation.mutate([candidateId], {
+      onSuccess: () => toast({ title: "Leads mesclados" }),
+      onError: () => toast({ title: "Erro", description: "Falha ao mesclar leads", variant: "destructive" }),
+    });
+  };
+
+  const handleUnmerge = (memberId: string) => {
+    unmergeMutation.mutate(memberId, {
+      onSuccess: () => toast({ title: "Lead separado" }),
+      onError: () => toast({ title: "Erro", description: "Falha ao separar lead", variant: "destructive" }),
+    });
+  };
+
+  return (
+    <>
+      <Separator />
+      <section className="space-y-3" data-testid="section-lead-duplicates">
+        <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+          Duplicados
+        </h3>
+
+        {identity.members.length > 1 && (
+          <div className="space-y-2">
+            {identity.members.map(({ lead, link }) => (
+              <div
+                key={lead.id}
+                className="flex items-center justify-between gap-2"
+                data-testid={`row-lead-member-${lead.id}`}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <button
+                    type="button"
+                    className="text-sm text-primary hover:underline truncate"
+                    onClick={() => onSelectLead?.(lead.id)}
+                    disabled={lead.id === leadId}
+                  >
+                    {getLeadLabel(lead)}
+                  </button>
+                  {lead.id === identity.goldenLeadId ? (
+                    <Badge variant="default" className="text-xs">Principal</Badge>
+                  ) : link?.source === "manual" ? (
+                    <Badge variant="secondary" className="text-xs">Mesclado manualmente</Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">
+                      {KEY_TYPE_LABELS[link?.keyType ?? ""] ?? "Automático"}
+                    </Badge>
+                  )}
+                </div>
+                {canManage && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleUnmerge(lead.id)}
+                    disabled={isPending}
+                    data-testid={`button-unmerge-lead-${lead.id}`}
+                  >
+                    <Split className="h-4 w-4 mr-1" /> Separar
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {identity.candidates.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Possíveis duplicados</p>
+            {identity.candidates.map(({ lead, keyType, value }) => (
+              <div
+                key={lead.id}
+                className="flex items-center justify-between gap-2"
+                data-testid={`row-lead-candidate-${lead.id}`}
+              >
+                <div className="min-w-0">
+                  <button
+                    type="button"
+                    className="text-sm text-primary hover:underline truncate block"
+                    onClick={() => onSelectLead?.(lead.id)}
+                  >
+                    {getLeadLabel(lead)}
+                  </button>
+                  <span className="text-xs text-muted-foreground">
+                    {KEY_TYPE_LABELS[keyType] ?? keyType}: {value}
+                  </span>
+                </div>
+                {canManage && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleMerge(lead.id)}
+                    disabled={isPending}
+                    data-testid={`button-merge-lead-${lead.id}`}
+                  >
+                    <GitMerge className="h-4 w-4 mr-1" /> Mesclar
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
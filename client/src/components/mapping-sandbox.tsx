@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import {
+  useMappingPreview,
+  type MappingDraft,
+  type MappingPreviewResponse,
+} from "@/hooks/use-connectors";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { FileText, FlaskConical, Loader2 } from "lucide-react";
+
+interface MappingSandboxProps {
+  connectorId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Mappings loaded into the draft editor when the sandbox opens
+  initialMappings: MappingDraft[];
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return JSON.stringify(value);
+}
+
+function parseJson<T>(text: string, label: string): { value?: T; error?: string } {
+  try {
+    return { value: JSON.parse(text) as T };
+  } catch {
+    return { error: `${label}: JSON inválido` };
+  }
+}
+
+export function MappingSandbox({
+  connectorId,
+  open,
+  onOpenChange,
+  initialMappings,
+}: MappingSandboxProps) {
+  const previewMutation = useMappingPreview(connectorId);
+
+  const [recordText, setRecordText] = useState("");
+  const [mappingsText, setMappingsText] = useState("");
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [result, setResult] = useState<MappingPreviewResponse | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setMappingsText(JSON.stringify(initialMappings, null, 2));
+    setInputError(null);
+    setResult(null);
+    // initialMappings is only read when the dialog opens
+  }, [open]);
+
+  function readMappings(): MappingDraft[] | undefined {
+    const parsed = parseJson<MappingDraft[]>(mappingsText, "Mapeamentos");
+    if (parsed.error || !Array.isArray(parsed.value)) {
+      setInputError(parsed.error ?? "Mapeamentos: informe uma lista JSON");
+      return undefined;
+    }
+    return parsed.value;
+  }
+
+  function handlePreview() {
+    setInputError(null);
+    const mappings = readMappings();
+    if (!mappings) return;
+    const parsed = parseJson<Record<string, unknown>>(recordText, "Registro");
+    if (parsed.error || typeof parsed.value !== "object" || parsed.value === null) {
+      setInputError(parsed.error ?? "Registro: informe um objeto JSON");
+      return;
+    }
+    previewMutation.mutate(
+      { source: "record", record: parsed.value, mappings },
+      { onSuccess: setResult }
+    );
+  }
+
+  function handleLatestFile() {
+    setInputError(null);
+    const mappings = readMappings();
+    if (!mappings) return;
+    previewMutation.mutate(
+      { source: "latest_file", mappings },
+      {
+        onSuccess: (data) => {
+          setRecordText(JSON.stringify(data.sample.record, null, 2));
+          setResult(data);
+        },
+      }
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sandbox de mapeamentos</DialogTitle>
+          <DialogDescription>
+            Aplique mapeamentos em rascunho a um registro de exemplo sem salvar nada
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Registro de exemplo</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleLatestFile}
+                  disabled={previewMutation.isPending}
+                  data-testid="button-sandbox-latest-file"
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  Usar último arquivo bruto
+                </Button>
+              </div>
+              <Textarea
+                value={recordText}
+                onChange={(e) => setRecordText(e.target.value)}
+                placeholder={'{"id": 1, "nome": "Maria"}'}
+                className="font-mono text-xs min-h-[200px]"
+                data-testid="textarea-sandbox-record"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mapeamentos (rascunho)</Label>
+              <Textarea
+                value={mappingsText}
+                onChange={(e) => setMappingsText(e.target.value)}
+                className="font-mono text-xs min-h-[240px]"
+                data-testid="textarea-sandbox-mappings"
+              />
+            </div>
+            {inputError && (
+              <p className="text-sm text-destructive">{inputError}</p>
+            )}
+            <Button
+              onClick={handlePreview}
+              disabled={previewMutation.isPending}
+              className="w-full"
+              data-testid="button-sandbox-preview"
+            >
+              {previewMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <FlaskConical className="h-4 w-4 mr-2" />
+              )}
+              Pré-visualizar
+            </Button>
+          </div>
+
+          <div className="space-y-4" data-testid="panel-sandbox-result">
+            {!result ? (
+              <div className="flex flex-col items-center justify-center h-full py-12 text-center">
+                <FlaskConical className="h-10 w-10 text-muted-foreground/30 mb-3" />
+                <p className="text-sm text-muted-foreground">
+                  O resultado aparece aqui
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 flex-wrap text-sm">
+                  <span className="text-muted-foreground">Destino:</span>
+                  <Badge variant={result.targetTable ? "outline" : "destructive"}>
+                    {result.targetTable ?? "sem rota"}
+                  </Badge>
+                  <span className="text-muted-foreground">ID na origem:</span>
+                  <code className="bg-muted px-1.5 py-0.5 rounded">
+                    {result.sourceId ?? "—"}
+                  </code>
+                  {result.explodedRows !== null && (
+                    <Badge variant="secondary" data-testid="badge-sandbox-exploded-rows">
+                      {result.explodedRows > 0
+                        ? `Linha 1 de ${result.explodedRows}`
+                        : "Nenhuma linha"}
+                    </Badge>
+                  )}
+                </div>
+
+                {result.errors.length > 0 && (
+                  <div className="space-y-1" data-testid="list-sandbox-errors">
+                    <Label className="text-destructive">Erros</Label>
+                    {result.errors.map((err, i) => (
+                      <p key={i} className="text-sm text-destructive">
+                        {err}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Payload normalizado</Label>
+                  <pre
+                    className="text-xs bg-muted p-3 rounded overflow-auto max-h-[200px] font-mono"
+                    data-testid="text-sandbox-payload"
+                  >
+                    {JSON.stringify(result.payload, null, 2)}
+                  </pre>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Passo a passo</Label>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Mapeamento</TableHead>
+                          <TableHead>Entrada</TableHead>
+                          <TableHead>Transformações</TableHead>
+                          <TableHead>Saída</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.traces.map((trace, i) => (
+                          <TableRow key={i} data-testid={`row-sandbox-trace-${i}`}>
+                            <TableCell>
+                              <code className="text-xs">
+                                {trace.sourcePath} → {trace.targetField}
+                              </code>
+                            </TableCell>
+                            <TableCell>
+                              <code className="text-xs break-all">
+                                {formatValue(trace.input)}
+                              </code>
+                            </TableCell>
+                            <TableCell>
+                              {trace.steps.length === 0 ? (
+                                <span className="text-xs text-muted-foreground">—</span>
+                              ) : (
+                                <div className="space-y-1">
+                                  {trace.steps.map((step, j) => (
+                                    <div key={j} className="text-xs">
+                                      <Badge variant="secondary" className="mr-1">
+                                        {step.op}
+                                      </Badge>
+                                      <code className="break-all">
+                                        {formatValue(step.output)}
+                                      </code>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {trace.error ? (
+                                <span className="text-xs text-destructive">
+                                  {trace.error}
+                                </span>
+                              ) : (
+                                <code className="text-xs break-all">
+                                  {formatValue(trace.output)}
+                                </code>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+
+                {result.unresolvedLookups.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Consultas sem correspondência</Label>
+                    <div className="flex flex-wrap gap-1">
+                      {result.unresolvedLookups.map((u) => (
+                        <Badge
+                          key={`${u.source}:${u.targetField}:${u.value}`}
+                          variant="outline"
+                          className="font-mono"
+                          data-testid={`badge-unresolved-lookup-${u.targetField}`}
+                        >
+                          {u.targetField}: {u.value}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {result.unmappedFields.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Campos não mapeados</Label>
+                    <div className="flex flex-wrap gap-1">
+                      {result.unmappedFields.map((f) => (
+                        <Badge key={f} variant="outline" className="font-mono">
+                          {f}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,103 @@
+import { useSourceSchema, type MappingSuggestion } from "@/hooks/use-connectors";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Plus, Sparkles } from "lucide-react";
+
+const TYPE_LABELS: Record<string, string> = {
+  string: "texto",
+  number: "número",
+  boolean: "booleano",
+  null: "vazio",
+};
+
+function formatDate(d: string): string {
+  return new Date(d).toLocaleDateString("pt-BR");
+}
+
+/**
+ * Source fields seen in the raw records that no mapping reads yet, newest
+ * first, with a suggested target field. "Mapear" opens the new mapping
+ * form prefilled.
+ */
+export function MappingSuggestionsCard({
+  connectorId,
+  onUse,
+}: {
+  connectorId: string;
+  onUse: (suggestion: MappingSuggestion) => void;
+}) {
+  const { data } = useSourceSchema(connectorId);
+  const suggestions = data?.suggestions ?? [];
+  if (suggestions.length === 0) return null;
+
+  return (
+    <Card data-testid="card-mapping-suggestions">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Sparkles className="h-4 w-4" />
+          Campos da origem sem mapeamento ({suggestions.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campo na origem</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Visto desde</TableHead>
+                <TableHead>Destino sugerido</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suggestions.map((s) => (
+                <TableRow key={s.sourcePath} data-testid={`row-mapping-suggestion-${s.sourcePath}`}>
+                  <TableCell>
+                    <code className="text-sm bg-muted px-1.5 py-0.5 rounded">{s.sourcePath}</code>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm text-muted-foreground">
+                      {TYPE_LABELS[s.type] ?? s.type}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm text-muted-foreground">{formatDate(s.firstSeenAt)}</span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1.5">
+                      <code className="text-sm bg-muted px-1.5 py-0.5 rounded">{s.targetField}</code>
+                      {s.canonicalLabel && (
+                        <Badge variant="secondary" className="text-xs">{s.canonicalLabel}</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onUse(s)}
+                      data-testid={`button-use-suggestion-${s.sourcePath}`}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Mapear
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import {
+  useMappingVersions,
+  useMappingVersionDiff,
+  useRollbackMappings,
+} from "@/hooks/use-connectors";
+import type { MappingSnapshot } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+const CURRENT = "current";
+
+function formatDate(d: string | Date | null | undefined): string {
+  if (!d) return "—";
+  return new Date(d).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function describeMapping(m: MappingSnapshot): string {
+  const op = m.transform && (m.transform as Record<string, unknown>).op;
+  return `${m.sourcePath}${op ? ` (${String(op)})` : m.transform ? " (custom)" : ""}`;
+}
+
+/**
+ * Version history of the connector's mappings: every saved change is a
+ * version. Two versions (or one and the current set) can be compared, and
+ * an old version can be restored, which records it as a new version.
+ */
+export function MappingVersionsCard({ connectorId }: { connectorId: string }) {
+  const { data: versions } = useMappingVersions(connectorId);
+  const rollback = useRollbackMappings(connectorId);
+
+  const [fromId, setFromId] = useState<string | undefined>();
+  const [toId, setToId] = useState<string>(CURRENT);
+  const { data: diff, isFetching: diffLoading } = useMappingVersionDiff(
+    connectorId,
+    fromId,
+    toId === CURRENT ? undefined : toId
+  );
+
+  if (!versions || versions.length === 0) return null;
+  const latestId = versions[0].id;
+  const hasChanges =
+    !!diff && diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+  return (
+    <Card data-testid="card-mapping-versions">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Histórico de versões ({versions.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Versão</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead>Alteração</TableHead>
+                <TableHead>Mapeamentos</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((v) => (
+                <TableRow key={v.id} data-testid={`row-mapping-version-${v.id}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-1.5">
+                      <Badge variant="outline" className="font-mono">v{v.version}</Badge>
+                      {v.id === latestId && (
+                        <Badge variant="secondary" className="text-xs">Atual</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm text-muted-foreground">{formatDate(v.createdAt)}</span>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm" data-testid={`text-mapping-version-reason-${v.id}`}>
+                      {v.reason || "—"}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm font-mono">{v.mappings.length}</span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setFromId(v.id);
+                          setToId(CURRENT);
+                        }}
+                        data-testid={`button-compare-mapping-version-${v.id}`}
+                      >
+                        Comparar
+                      </Button>
+                      {v.id !== latestId && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={rollback.isPending}
+                          onClick={() => rollback.mutate(v.id)}
+                          data-testid={`button-restore-mapping-version-${v.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restaurar
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-end gap-3 flex-wrap">
+          <div className="space-y-1">
+            <Label className="text-xs">De</Label>
+            <Select value={fromId ?? ""} onValueChange={setFromId}>
+              <SelectTrigger className="w-[140px]" data-testid="select-diff-from">
+                <SelectValue placeholder="Versão" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>v{v.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Para</Label>
+            <Select value={toId} onValueChange={setToId}>
+              <SelectTrigger className="w-[140px]" data-testid="select-diff-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT}>Atual</SelectItem>
+                {versions.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>v{v.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {diffLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground mb-2" />}
+        </div>
+
+        {diff && !hasChanges && (
+          <p className="text-sm text-muted-foreground" data-testid="text-mapping-diff-empty">
+            Nenhuma diferença entre as versões
+          </p>
+        )}
+        {diff && hasChanges && (
+          <div className="space-y-1 text-sm font-mono" data-testid="list-mapping-diff">
+            {diff.added.map((m) => (
+              <div key={`added-${m.targetField}-${m.sourcePath}`} className="text-green-600 dark:text-green-400">
+                + {m.targetField} ← {describeMapping(m)}
+              </div>
+            ))}
+            {diff.removed.map((m) => (
+              <div key={`removed-${m.targetField}-${m.sourcePath}`} className="text-destructive">
+                − {m.targetField} ← {describeMapping(m)}
+              </div>
+            ))}
+            {diff.changed.map((c) => (
+              <div key={`changed-${c.targetField}-${c.before.sourcePath}`} className="text-amber-600 dark:text-amber-400">
+                ~ {c.targetField}: {describeMapping(c.before)} → {describeMapping(c.after)}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
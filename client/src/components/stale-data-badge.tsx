@@ -0,0 +1,44 @@
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AlertTriangle } from "lucide-react";
+import type { TargetTable } from "@shared/schema";
+import { useDataFreshness } from "@/hooks/use-monitoring";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+
+/**
+ * "Dados desatualizados" when a connector feeding the dashboard has gone
+ * longer than its SLA's max_staleness_hours without a successful sync.
+ * Renders nothing while the data is fresh.
+ */
+export function StaleDataBadge({ schoolId, tables }: { schoolId?: string; tables?: TargetTable[] }) {
+  const { data: stale = [] } = useDataFreshness({ schoolId, tables });
+  if (stale.length === 0) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="destructive" className="gap-1 cursor-default" data-testid="badge-stale-data">
+          <AlertTriangle className="h-3 w-3" />
+          Dados desatualizados
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-sm">
+        <ul className="space-y-1">
+          {stale.map((f) => (
+            <li key={f.connectorId}>
+              <span className="font-medium">{f.connectorName}</span>:{" "}
+              {f.lastSuccessAt
+                ? `última sincronização ${formatDistanceToNow(parseISO(f.lastSuccessAt), {
+                    addSuffix: true,
+                    locale: ptBR,
+                  })}`
+                : "nunca sincronizado"}{" "}
+              (limite {f.maxStalenessHours}h)
+            </li>
+          ))}
+        </ul>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import {
+  useConnector,
+  useRotateWebhookSecret,
+  useWebhookEvents,
+  type WebhookSecretResponse,
+} from "@/hooks/use-connectors";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound, Webhook } from "lucide-react";
+
+const EVENT_STATUS_LABELS: Record<string, string> = {
+  pending: "Na fila",
+  processed: "Processado",
+  failed: "Falhou",
+};
+
+function formatDate(d: string | Date | null | undefined): string {
+  if (!d) return "—";
+  return new Date(d).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+export function WebhookCard({
+  connectorId,
+  canManage,
+}: {
+  connectorId: string;
+  canManage: boolean;
+}) {
+  const { data: connector } = useConnector(connectorId);
+  const { data: events } = useWebhookEvents(connectorId);
+  const rotateMutation = useRotateWebhookSecret(connectorId);
+
+  // Only shown right after generation; the API never returns it again
+  const [newSecret, setNewSecret] = useState<WebhookSecretResponse | null>(null);
+
+  const config = (connector?.config || {}) as Record<string, unknown>;
+  const webhook = (config.webhook || {}) as Record<string, unknown>;
+  const hasSecret = !!webhook.secret;
+  const url = `${window.location.origin}/api/webhooks/connectors/${connectorId}`;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Webhook className="h-4 w-4" />
+          Webhook
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label>URL de entrega</Label>
+            <Input
+              readOnly
+              value={url}
+              className="font-mono text-xs"
+              data-testid="input-webhook-url"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Cabeçalho da assinatura (HMAC-SHA256)</Label>
+            <Input
+              readOnly
+              value={(webhook.signatureHeader as string) || "x-webhook-signature"}
+              className="font-mono text-xs"
+              data-testid="input-webhook-signature-header"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <p className="text-sm text-muted-foreground">
+            {hasSecret
+              ? "Segredo configurado"
+              : "Nenhum segredo configurado: os eventos serão recusados"}
+          </p>
+          {canManage && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                rotateMutation.mutate(undefined, {
+                  onSuccess: (data) => setNewSecret(data),
+                })
+              }
+              disabled={rotateMutation.isPending}
+              data-testid="button-rotate-webhook-secret"
+            >
+              <KeyRound className="h-4 w-4 mr-2" />
+              {hasSecret ? "Gerar novo segredo" : "Gerar segredo"}
+            </Button>
+          )}
+        </div>
+        {newSecret && (
+          <div className="space-y-1.5">
+            <Label>Novo segredo (copie agora, ele não será exibido novamente)</Label>
+            <Input
+              readOnly
+              value={newSecret.secret}
+              className="font-mono text-xs"
+              onFocus={(e) => e.target.select()}
+              data-testid="input-webhook-new-secret"
+            />
+            {newSecret.previousSecretExpiresAt && (
+              <p className="text-xs text-muted-foreground" data-testid="text-webhook-previous-secret">
+                O segredo anterior continua aceito até{" "}
+                {formatDate(newSecret.previousSecretExpiresAt)}; atualize o sistema de origem antes disso.
+              </p>
+            )}
+          </div>
+        )}
+
+        {events && events.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Evento</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Erro</TableHead>
+                  <TableHead>Recebido</TableHead>
+                  <TableHead>Processado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((e) => (
+                  <TableRow key={e.id} data-testid={`row-webhook-event-${e.id}`}>
+                    <TableCell>
+                      <span className="text-sm font-mono">{e.eventId}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          e.status === "failed"
+                            ? "destructive"
+                            : e.status === "processed"
+                              ? "secondary"
+                              : "outline"
+                        }
+                      >
+                        {EVENT_STATUS_LABELS[e.status] || e.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-[320px]">
+                      <span className="text-sm text-muted-foreground line-clamp-2">
+                        {e.error || "—"}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">
+                        {formatDate(e.receivedAt)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-sm text-muted-foreground">
+                        {formatDate(e.processedAt)}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Nenhum evento recebido ainda
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
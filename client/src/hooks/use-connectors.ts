@@ -3,12 +3,141 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import type {
   Connector,
   ConnectorMapping,
+  ConnectorMappingVersion,
+  ConnectorSourceSchema,
+  ConnectorTemplate,
+  CreateConnectorFromTemplate,
+  MappingTransform,
+  ConnectorWatermark,
+  ConnectorRecordTombstone,
+  ConnectorDeadLetter,
+  ConnectorFileUpload,
+  ConnectorWebhookEvent,
+  MappingSnapshot,
+  SourceFieldType,
   SyncRun,
   RawIngestFile,
   School,
 } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
+export interface DeadLetterReplayResult {
+  id: string;
+  status: "replayed" | "failed";
+  sourceId: string | null;
+  errors: string[];
+}
+
+export interface DeadLetterReplayBatchResult {
+  total: number;
+  replayed: number;
+  failed: number;
+  results: DeadLetterReplayResult[];
+}
+
+export interface MappingDraft {
+  sourcePath: string;
+  targetField: string;
+  transform?: Record<string, unknown> | Record<string, unknown>[] | null;
+}
+
+export interface MappingTrace {
+  sourcePath: string;
+  targetField: string;
+  input: unknown;
+  steps: { op: string; input: unknown; output: unknown }[];
+  output: unknown;
+  error?: string;
+}
+
+export interface MappingPreviewResponse {
+  sample: { source: string; fileName?: string; record: Record<string, unknown> };
+  sourceId: string | null;
+  sourceIdField: string;
+  targetTable: string | null;
+  payload: Record<string, unknown>;
+  traces: MappingTrace[];
+  errors: string[];
+  unmappedFields: string[];
+  unresolvedLookups: UnresolvedLookup[];
+  // Rows the sample explodes into with a "[*]" mapping; null without one
+  explodedRows: number | null;
+}
+
+export interface UnresolvedLookup {
+  source: "school" | "seller";
+  targetField: string;
+  value: string;
+  records: number;
+}
+
+export interface MappingVersionDiff {
+  from: { id: string; version: number };
+  // null = the current mappings
+  to: { id: string; version: number } | null;
+  added: MappingSnapshot[];
+  removed: MappingSnapshot[];
+  changed: { targetField: string; before: MappingSnapshot; after: MappingSnapshot }[];
+}
+
+export interface MappingSuggestion {
+  sourcePath: string;
+  type: SourceFieldType;
+  firstSeenAt: string;
+  targetField: string;
+  canonicalLabel: string | null;
+}
+
+export interface SourceSchemaResponse {
+  schema: ConnectorSourceSchema | null;
+  suggestions: MappingSuggestion[];
+}
+
+export interface ConnectionTestResponse {
+  ok: boolean;
+  error: string | null;
+  latencyMs: number;
+  recordCount: number;
+  reportedTotal: number | null;
+  dataPath: string | null;
+  pagination: {
+    configured: string;
+    detected: "cursor" | "page" | "offset" | "link_header" | "next_url" | null;
+    hasMore: boolean;
+    nextCursor: string | null;
+  };
+  fields: { path: string; type: SourceFieldType }[];
+  sampleRecord: Record<string, unknown> | null;
+}
+
+export interface FileUploadResult {
+  runId: string;
+  status: "success" | "failed";
+  recordsIn: number;
+  recordsOut: number;
+  deadLettered: number;
+  upload: ConnectorFileUpload;
+}
+
+export interface WebhookSecretResponse {
+  secret: string;
+  signatureHeader: string;
+  url: string;
+  // Until then the replaced secret is still accepted; null on first generation
+  previousSecretExpiresAt: string | null;
+}
+
+export interface ConnectorSchedule {
+  connectorId: string;
+  scheduleCron: string | null;
+  timezone: string;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastRunStatus: string | null;
+  running: boolean;
+  error?: string;
+}
+
 export function useConnectors() {
   return useQuery<Connector[]>({
     queryKey: ["/api/connectors"],
@@ -22,6 +151,14 @@ export function useConnector(id: string | undefined) {
   });
 }
 
+export function useConnectorSchedules() {
+  return useQuery<ConnectorSchedule[]>({
+    queryKey: ["/api/connector-schedules"],
+    // Scheduled runs happen in the background; keep next/last run fresh
+    refetchInterval: 60000,
+  });
+}
+
 export function useSchools() {
   return useQuery<School[]>({
     queryKey: ["/api/schools"],
@@ -35,6 +172,42 @@ export function useConnectorMappings(connectorId: string | undefined) {
   });
 }
 
+export function useMappingVersions(connectorId: string | undefined) {
+  return useQuery<ConnectorMappingVersion[]>({
+    queryKey: ["/api/connectors", connectorId, "mapping-versions"],
+    enabled: !!connectorId,
+  });
+}
+
+// Without toId the "from" version is compared with the current mappings
+export function useMappingVersionDiff(
+  connectorId: string,
+  fromId: string | undefined,
+  toId?: string
+) {
+  return useQuery<MappingVersionDiff>({
+    queryKey: ["/api/connectors", connectorId, "mapping-versions", "diff", fromId, toId ?? null],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: fromId! });
+      if (toId) params.set("to", toId);
+      const res = await fetch(
+        `/api/connectors/${connectorId}/mapping-versions/diff?${params}`,
+        { credentials: "include" }
+      );
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled: !!fromId,
+  });
+}
+
+export function useSourceSchema(connectorId: string | undefined) {
+  return useQuery<SourceSchemaResponse>({
+    queryKey: ["/api/connectors", connectorId, "source-schema"],
+    enabled: !!connectorId,
+  });
+}
+
 export function useSyncRuns(connectorId: string | undefined) {
   return useQuery<SyncRun[]>({
     queryKey: ["/api/connectors", connectorId, "sync-runs"],
@@ -42,6 +215,27 @@ export function useSyncRuns(connectorId: string | undefined) {
   });
 }
 
+export function useConnectorWatermark(connectorId: string | undefined) {
+  return useQuery<ConnectorWatermark | null>({
+    queryKey: ["/api/connectors", connectorId, "watermark"],
+    enabled: !!connectorId,
+  });
+}
+
+export function useSyncRunTombstones(runId: string | undefined) {
+  return useQuery<ConnectorRecordTombstone[]>({
+    queryKey: ["/api/sync-runs", runId, "tombstones"],
+    enabled: !!runId,
+  });
+}
+
+export function useDeadLetters(connectorId: string | undefined) {
+  return useQuery<ConnectorDeadLetter[]>({
+    queryKey: ["/api/connectors", connectorId, "dead-letters"],
+    enabled: !!connectorId,
+  });
+}
+
 export function useRawIngestFiles(connectorId: string | undefined) {
   return useQuery<RawIngestFile[]>({
     queryKey: ["/api/connectors", connectorId, "files"],
@@ -49,6 +243,98 @@ export function useRawIngestFiles(connectorId: string | undefined) {
   });
 }
 
+export function useConnectorUploads(connectorId: string | undefined) {
+  return useQuery<ConnectorFileUpload[]>({
+    queryKey: ["/api/connectors", connectorId, "uploads"],
+    enabled: !!connectorId,
+  });
+}
+
+export function useUploadConnectorFile(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data: {
+      file: File;
+      delimiter?: string;
+      encoding?: string;
+      sheetName?: string;
+    }) => {
+      const formData = new FormData();
+      formData.append("file", data.file);
+      if (data.delimiter) formData.append("delimiter", data.delimiter);
+      if (data.encoding) formData.append("encoding", data.encoding);
+      if (data.sheetName) formData.append("sheetName", data.sheetName);
+
+      // multipart body: apiRequest only sends JSON
+      const res = await fetch(`/api/connectors/${connectorId}/uploads`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+      return res.json() as Promise<FileUploadResult>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "uploads"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "sync-runs"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "files"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "dead-letters"],
+      });
+      const drift = data.upload.headerDrift;
+      toast({
+        variant: drift?.missingMapped.length ? "destructive" : undefined,
+        title: drift ? "Arquivo importado com mudança de colunas" : "Arquivo importado",
+        description: drift?.missingMapped.length
+          ? `Colunas mapeadas ausentes: ${drift.missingMapped.join(", ")}`
+          : `${data.recordsOut} de ${data.recordsIn} linhas importadas`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro no upload", description: err.message });
+    },
+  });
+}
+
+export function useWebhookEvents(connectorId: string | undefined) {
+  return useQuery<ConnectorWebhookEvent[]>({
+    queryKey: ["/api/connectors", connectorId, "webhook-events"],
+    enabled: !!connectorId,
+  });
+}
+
+export function useRotateWebhookSecret(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(
+        "POST",
+        `/api/connectors/${connectorId}/webhook/secret`
+      );
+      return res.json() as Promise<WebhookSecretResponse>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/connectors", connectorId] });
+      toast({
+        title: "Novo segredo gerado",
+        description: "Atualize o segredo no sistema de origem",
+      });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro", description: err.message });
+    },
+  });
+}
+
 export function useCreateConnector() {
   const { toast } = useToast();
   return useMutation({
@@ -63,6 +349,7 @@ export function useCreateConnector() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/connectors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/connector-schedules"] });
       toast({ title: "Conector criado", description: "O conector foi adicionado com sucesso" });
     },
     onError: (err: Error) => {
@@ -71,6 +358,55 @@ export function useCreateConnector() {
   });
 }
 
+export function useConnectorTemplates(enabled: boolean = true) {
+  return useQuery<ConnectorTemplate[]>({
+    queryKey: ["/api/connector-templates"],
+    enabled,
+  });
+}
+
+export function useCreateConnectorFromTemplate() {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data: CreateConnectorFromTemplate) => {
+      const res = await apiRequest("POST", "/api/connectors/from-template", data);
+      return res.json() as Promise<Connector>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/connectors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/connector-schedules"] });
+      toast({ title: "Conector criado", description: "O conector foi criado a partir do template" });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro", description: err.message });
+    },
+  });
+}
+
+// Downloads the connector as a template JSON file (no secrets)
+export function useExportConnectorTemplate(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/connectors/${connectorId}/template`);
+      return res.json() as Promise<ConnectorTemplate>;
+    },
+    onSuccess: (template) => {
+      const blob = new Blob([JSON.stringify(template, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      link.href = url;
+      link.download = `template-${slug || "conector"}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro ao exportar template", description: err.message });
+    },
+  });
+}
+
 export function useUpdateConnector(connectorId: string) {
   const { toast } = useToast();
   return useMutation({
@@ -87,6 +423,7 @@ export function useUpdateConnector(connectorId: string) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/connectors"] });
       queryClient.invalidateQueries({ queryKey: ["/api/connectors", connectorId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/connector-schedules"] });
       toast({ title: "Conector atualizado", description: "As alterações foram salvas" });
     },
     onError: (err: Error) => {
@@ -117,9 +454,11 @@ export function useRunConnector(connectorId: string) {
   const { toast } = useToast();
   return useMutation({
     mutationFn: async (options?: {
+      runId?: string;
       batchSize?: number;
       maxPages?: number;
       dryRun?: boolean;
+      fullResync?: boolean;
     }) => {
       const res = await apiRequest(
         "POST",
@@ -135,7 +474,14 @@ export function useRunConnector(connectorId: string) {
       queryClient.invalidateQueries({
         queryKey: ["/api/connectors", connectorId, "files"],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "watermark"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "dead-letters"],
+      });
       queryClient.invalidateQueries({ queryKey: ["/api/connectors"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/connector-schedules"] });
       toast({
         title: "Sincronização concluída",
         description: `${data.recordsOut ?? 0} registros sincronizados`,
@@ -147,13 +493,49 @@ export function useRunConnector(connectorId: string) {
   });
 }
 
+export function useReprocessRawFiles(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (options?: {
+      fileIds?: string[];
+      runId?: string;
+      useCurrentMappings?: boolean;
+    }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/connectors/${connectorId}/reprocess`,
+        options || {}
+      );
+      return res.json() as Promise<SyncRun>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "sync-runs"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "files"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "dead-letters"],
+      });
+      toast({
+        title: "Reprocessamento concluído",
+        description: `${data.recordsOut ?? 0} registros reprocessados a partir dos arquivos brutos`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro no reprocessamento", description: err.message });
+    },
+  });
+}
+
 export function useCreateMapping(connectorId: string) {
   const { toast } = useToast();
   return useMutation({
     mutationFn: async (data: {
       sourcePath: string;
       targetField: string;
-      transform?: Record<string, unknown> | null;
+      transform?: MappingTransform | null;
     }) => {
       const res = await apiRequest(
         "POST",
@@ -166,6 +548,12 @@ export function useCreateMapping(connectorId: string) {
       queryClient.invalidateQueries({
         queryKey: ["/api/connectors", connectorId, "mappings"],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "mapping-versions"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "source-schema"],
+      });
       toast({ title: "Mapeamento criado" });
     },
     onError: (err: Error) => {
@@ -185,7 +573,7 @@ export function useUpdateMapping(connectorId: string) {
       data: Partial<{
         sourcePath: string;
         targetField: string;
-        transform: Record<string, unknown> | null;
+        transform: MappingTransform | null;
       }>;
     }) => {
       const res = await apiRequest("PATCH", `/api/connector-mappings/${mappingId}`, data);
@@ -195,6 +583,12 @@ export function useUpdateMapping(connectorId: string) {
       queryClient.invalidateQueries({
         queryKey: ["/api/connectors", connectorId, "mappings"],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "mapping-versions"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "source-schema"],
+      });
       toast({ title: "Mapeamento atualizado" });
     },
     onError: (err: Error) => {
@@ -213,6 +607,12 @@ export function useDeleteMapping(connectorId: string) {
       queryClient.invalidateQueries({
         queryKey: ["/api/connectors", connectorId, "mappings"],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "mapping-versions"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "source-schema"],
+      });
       toast({ title: "Mapeamento removido" });
     },
     onError: (err: Error) => {
@@ -220,3 +620,147 @@ export function useDeleteMapping(connectorId: string) {
     },
   });
 }
+
+export function useRollbackMappings(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (versionId: string) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/connectors/${connectorId}/mapping-versions/${versionId}/rollback`
+      );
+      return res.json() as Promise<ConnectorMappingVersion>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "mappings"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "mapping-versions"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "source-schema"],
+      });
+      toast({ title: "Mapeamentos restaurados", description: `Versão atual: v${data.version}` });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro", description: err.message });
+    },
+  });
+}
+
+export function useUpdateDeadLetter(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...data
+    }: {
+      id: string;
+      rawRecord?: Record<string, unknown>;
+      status?: "pending" | "discarded";
+    }) => {
+      const res = await apiRequest("PATCH", `/api/dead-letters/${id}`, data);
+      return res.json() as Promise<ConnectorDeadLetter>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "dead-letters"],
+      });
+      toast({ title: "Registro atualizado" });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro", description: err.message });
+    },
+  });
+}
+
+export function useReplayDeadLetter(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/dead-letters/${id}/replay`);
+      return res.json() as Promise<DeadLetterReplayResult>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "dead-letters"],
+      });
+      if (data.status === "replayed") {
+        toast({ title: "Registro reprocessado" });
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Reprocessamento falhou",
+          description: data.errors.join("; "),
+        });
+      }
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro", description: err.message });
+    },
+  });
+}
+
+export function useReplayAllDeadLetters(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(
+        "POST",
+        `/api/connectors/${connectorId}/dead-letters/replay`
+      );
+      return res.json() as Promise<DeadLetterReplayBatchResult>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/connectors", connectorId, "dead-letters"],
+      });
+      toast({
+        title: "Reprocessamento concluído",
+        description: `${data.replayed} de ${data.total} registros reprocessados`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro", description: err.message });
+    },
+  });
+}
+
+export function useMappingPreview(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data: {
+      source: "record" | "latest_file";
+      record?: Record<string, unknown>;
+      mappings?: MappingDraft[];
+    }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/connectors/${connectorId}/mappings/preview`,
+        data
+      );
+      return res.json() as Promise<MappingPreviewResponse>;
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro na pré-visualização", description: err.message });
+    },
+  });
+}
+
+export function useTestConnection(connectorId: string) {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (config?: Record<string, unknown>) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/connectors/${connectorId}/test-connection`,
+        { config }
+      );
+      return res.json() as Promise<ConnectionTestResponse>;
+    },
+    onError: (err: Error) => {
+      toast({ variant: "destructive", title: "Erro ao testar conexão", description: err.message });
+    },
+  });
+}
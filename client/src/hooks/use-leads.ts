@@ -1,6 +1,6 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Lead } from "@shared/schema";
+import type { IdentityKeyType, Lead, LeadIdentityLink } from "@shared/schema";
 
 export interface LeadFilters {
   stage?: string;
@@ -132,6 +132,57 @@ export function useUpdateLead() {
   });
 }
 
+export interface LeadIdentityResponse {
+  goldenLeadId: string;
+  members: Array<{ lead: Lead; link: LeadIdentityLink | null }>;
+  candidates: Array<{ lead: Lead; keyType: IdentityKeyType; value: string }>;
+}
+
+export function useLeadIdentity(id: string | undefined) {
+  return useQuery<LeadIdentityResponse>({
+    queryKey: ["/api/leads", id, "identity"],
+    queryFn: async () => {
+      const res = await fetch(`/api/leads/${id}/identity`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    enabled: !!id,
+  });
+}
+
+function invalidateLeads() {
+  queryClient.invalidateQueries({
+    predicate: (query) =>
+      Array.isArray(query.queryKey) && query.queryKey[0] === "/api/leads",
+  });
+  queryClient.invalidateQueries({ queryKey: ["/api/pipeline/agg"] });
+}
+
+export function useMergeLeads(leadId: string) {
+  return useMutation({
+    mutationFn: async (leadIds: string[]) => {
+      const res = await apiRequest("POST", `/api/leads/${leadId}/merge`, { leadIds });
+      return res.json() as Promise<LeadIdentityResponse>;
+    },
+    onSuccess: invalidateLeads,
+  });
+}
+
+export function useUnmergeLead() {
+  return useMutation({
+    mutationFn: async (leadId: string) => {
+      const res = await apiRequest("POST", `/api/leads/${leadId}/unmerge`);
+      return res.json() as Promise<LeadIdentityResponse>;
+    },
+    onSuccess: invalidateLeads,
+  });
+}
+
+// Merging and splitting duplicates is an ops task
+export function canMergeLeads(userRole: string | undefined): boolean {
+  return userRole === "admin" || userRole === "ops";
+}
+
 export function canEditLead(userRole: string | undefined, userId: string | undefined, lead: Lead | undefined): boolean {
   if (!userRole || !lead) return false;
   if (userRole === "admin" || userRole === "ops") return true;
@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import type { ConnectorMetric, ConnectorSla, IntegrationAlert, InsertConnectorSla, InsertIntegrationAlert } from "@shared/schema";
+import type { ConnectorMetric, ConnectorSla, IntegrationAlert, InsertConnectorSla, InsertIntegrationAlert, TargetTable } from "@shared/schema";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -25,6 +25,7 @@ export function useUpdateConnectorSla() {
         },
         onSuccess: (updated: ConnectorSla) => {
             queryClient.invalidateQueries({ queryKey: ["/api/monitoring/slas"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/monitoring/health"] });
             toast({
                 title: "SLA Updated",
                 description: "Connector SLA configuration has been saved.",
@@ -40,6 +41,86 @@ export function useUpdateConnectorSla() {
     });
 }
 
+// Mirrors ConnectorHealth in server/connectors/health.ts
+export interface ConnectorHealthResponse {
+    connectorId: string;
+    status: "healthy" | "breached" | "no_data";
+    windowMinutes: number;
+    totalRuns: number;
+    failedRuns: number;
+    successRate: number | null;
+    avgLatencyMs: number | null;
+    p95LatencyMs: number | null;
+    lastRunAt: string | null;
+    breaches: string[];
+    freshness: DataFreshnessResponse | null;
+}
+
+// Mirrors DataFreshness in server/connectors/health.ts
+export interface DataFreshnessResponse {
+    connectorId: string;
+    connectorName: string;
+    schoolId: string | null;
+    tables: TargetTable[];
+    lastSuccessAt: string | null;
+    hoursSinceSuccess: number;
+    maxStalenessHours: number;
+    stale: boolean;
+}
+
+export function useConnectorHealth() {
+    return useQuery<ConnectorHealthResponse[]>({
+        queryKey: ["/api/monitoring/health"],
+        refetchInterval: 60000,
+    });
+}
+
+/**
+ * Stale connectors feeding a dashboard: those of the school (plus the
+ * network-wide ones) when schoolId is given, optionally only those writing
+ * to one of the tables.
+ */
+export function useDataFreshness(options: { schoolId?: string; tables?: TargetTable[] } = {}) {
+    const params = options.schoolId ? `?schoolId=${encodeURIComponent(options.schoolId)}` : "";
+    return useQuery<DataFreshnessResponse[]>({
+        queryKey: [`/api/data-freshness${params}`],
+        refetchInterval: 5 * 60000,
+        select: (stale) =>
+            options.tables
+                ? stale.filter((f) => f.tables.some((t) => options.tables!.includes(t)))
+                : stale,
+    });
+}
+
+export function useRunHealthCheck() {
+    const { toast } = useToast();
+    return useMutation({
+        mutationFn: async () => {
+            const res = await apiRequest("POST", "/api/monitoring/health/check");
+            return res.json() as Promise<{ evaluated: number; alertsCreated: number }>;
+        },
+        onSuccess: (result) => {
+            queryClient.invalidateQueries({ queryKey: ["/api/monitoring/health"] });
+            queryClient.invalidateQueries({
+                predicate: (query) =>
+                    typeof query.queryKey[0] === "string" &&
+                    query.queryKey[0].startsWith("/api/monitoring/alerts"),
+            });
+            toast({
+                title: "Health Check Complete",
+                description: `${result.evaluated} SLA(s) evaluated, ${result.alertsCreated} new alert(s).`,
+            });
+        },
+        onError: (err: Error) => {
+            toast({
+                title: "Health check failed",
+                description: err.message,
+                variant: "destructive",
+            });
+        }
+    });
+}
+
 export function useIntegrationAlerts(limit: number = 200) {
     return useQuery<IntegrationAlert[]>({
         queryKey: [`/api/monitoring/alerts?limit=${limit}`],
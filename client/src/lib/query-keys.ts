@@ -24,6 +24,12 @@ export const queryKeys = {
         mappings: (id: string) => ["/api/connectors", id, "mappings"] as const,
         syncRuns: (id: string) => ["/api/connectors", id, "sync-runs"] as const,
         files: (id: string) => ["/api/connectors", id, "files"] as const,
+        uploads: (id: string) => ["/api/connectors", id, "uploads"] as const,
+        webhookEvents: (id: string) => ["/api/connectors", id, "webhook-events"] as const,
+        watermark: (id: string) => ["/api/connectors", id, "watermark"] as const,
+        deadLetters: (id: string) => ["/api/connectors", id, "dead-letters"] as const,
+        tombstones: (runId: string) => ["/api/sync-runs", runId, "tombstones"] as const,
+        schedules: () => ["/api/connector-schedules"] as const,
     },
     leads: {
         all: () => ["/api/leads"] as const,
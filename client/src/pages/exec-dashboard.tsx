@@ -10,6 +10,7 @@ import {
 } from "@/hooks/use-exec-dashboard";
 import { useCeoKpis } from "@/hooks/use-ceo-kpis";
 import { SchoolComparisonHeatmap } from "@/components/school-comparison-heatmap";
+import { StaleDataBadge } from "@/components/stale-data-badge";
 import { useToast } from "@/hooks/use-toast";
 import {
     subMonths,
@@ -437,6 +438,8 @@ export default function ExecDashboardPage() {
                     </p>
                 </div>
                 <div className="flex flex-wrap items-center gap-2">
+                    <StaleDataBadge />
+
                     {/* Period */}
                     <Select
                         value={String(periodMonths)}
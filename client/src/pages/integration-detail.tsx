@@ -5,15 +5,41 @@ import {
   useConnectorMappings,
   useSyncRuns,
   useRawIngestFiles,
+  useConnectorWatermark,
+  useSyncRunTombstones,
   useSchools,
   useUpdateConnector,
   useRunConnector,
+  useReprocessRawFiles,
   useCreateMapping,
   useUpdateMapping,
   useDeleteMapping,
+  useMappingVersions,
+  useTestConnection,
+  useExportConnectorTemplate,
+  type MappingDraft,
 } from "@/hooks/use-connectors";
-import type { ConnectorMapping, SyncRun } from "@shared/schema";
-import { CONNECTOR_TYPES, SYNC_RUN_STATUSES } from "@shared/schema";
+import type { ConnectorMapping, MappingTransform, SyncRun } from "@shared/schema";
+import { DeadLettersTab } from "@/components/dead-letters-tab";
+import { MappingSandbox } from "@/components/mapping-sandbox";
+import { MappingVersionsCard } from "@/components/mapping-versions-card";
+import { MappingSuggestionsCard } from "@/components/mapping-suggestions-card";
+import {
+  FileUploadsCard,
+  UPLOAD_DELIMITER_OPTIONS,
+  UPLOAD_ENCODING_OPTIONS,
+} from "@/components/file-uploads-card";
+import { WebhookCard } from "@/components/webhook-card";
+import { ConnectionTestCard } from "@/components/connection-test-card";
+import {
+  CANONICAL_SCHEMAS,
+  CONNECTOR_TYPES,
+  NORMALIZED_TABLES,
+  REDACTED_SECRET,
+  SYNC_RUN_STATUSES,
+  TARGET_TABLES,
+} from "@shared/schema";
+import type { ConnectorType, TargetTable } from "@shared/schema";
 import {
   Table,
   TableBody,
@@ -82,14 +108,51 @@ import {
   Settings,
   Eye,
   EyeOff,
+  Inbox,
+  FlaskConical,
+  Download,
+  RotateCcw,
+  PlugZap,
 } from "lucide-react";
 
 const TYPE_LABELS: Record<string, string> = {
   crm: "CRM",
   finance: "Financeiro",
   academic: "Acadêmico",
+  google_sheets: "Google Sheets",
+  manual_input: "Input Manual",
+  file_upload: "Upload de Arquivo",
+  webhook: "Webhook",
+};
+
+const TARGET_TABLE_LABELS: Record<TargetTable, string> = {
+  leads: "Leads",
+  payments: "Pagamentos",
+  enrollments: "Matrículas",
+  contas_a_receber: "Contas a receber",
+  nps_surveys: "Pesquisas NPS",
+  manual_inputs: "Inputs manuais",
 };
 
+// One "valor=tabela" route per line
+function parseTargetRoutes(text: string): Record<string, TargetTable> | null {
+  const routes: Record<string, TargetTable> = {};
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    const idx = line.lastIndexOf("=");
+    const table = line.slice(idx + 1).trim() as TargetTable;
+    if (idx < 0 || !TARGET_TABLES.includes(table)) return null;
+    routes[line.slice(0, idx).trim()] = table;
+  }
+  return routes;
+}
+
+function formatTargetRoutes(routes: Record<string, string> | undefined): string {
+  return Object.entries(routes || {})
+    .map(([value, table]) => `${value}=${table}`)
+    .join("\n");
+}
+
 const STATUS_CONFIG: Record<
   string,
   { label: string; icon: typeof CheckCircle2; className: string }
@@ -116,13 +179,6 @@ const STATUS_CONFIG: Record<
   },
 };
 
-const SENSITIVE_KEYS = ["apiKey", "secret", "password", "token", "oauth"];
-
-function isSensitiveKey(key: string): boolean {
-  const lower = key.toLowerCase();
-  return SENSITIVE_KEYS.some((s) => lower.includes(s));
-}
-
 function SecureInput({
   value,
   onChange,
@@ -166,15 +222,39 @@ function SecureInput({
 
 const configSchema = z.object({
   name: z.string().min(1, "Nome é obrigatório"),
-  type: z.enum(["crm", "finance", "academic"]),
+  type: z.enum(CONNECTOR_TYPES),
   baseUrl: z.string().optional().or(z.literal("")),
   apiKey: z.string().optional().or(z.literal("")),
   dataPath: z.string().optional().or(z.literal("")),
   sourceIdField: z.string().optional().or(z.literal("")),
   paginationType: z.string().optional().or(z.literal("")),
   pageSize: z.string().optional().or(z.literal("")),
+  hasMorePath: z.string().optional().or(z.literal("")),
+  totalPath: z.string().optional().or(z.literal("")),
+  nextUrlPath: z.string().optional().or(z.literal("")),
+  keysetParam: z.string().optional().or(z.literal("")),
+  keysetField: z.string().optional().or(z.literal("")),
   scheduleCron: z.string().optional().or(z.literal("")),
   schoolId: z.string().optional().or(z.literal("")),
+  incrementalMode: z.string().optional().or(z.literal("")),
+  incrementalParam: z.string().optional().or(z.literal("")),
+  incrementalField: z.string().optional().or(z.literal("")),
+  reconciliationPolicy: z.string().optional().or(z.literal("")),
+  delimiter: z.string().optional().or(z.literal("")),
+  encoding: z.string().optional().or(z.literal("")),
+  sheetName: z.string().optional().or(z.literal("")),
+  targetTable: z.string().optional().or(z.literal("")),
+  discriminatorField: z.string().optional().or(z.literal("")),
+  targetRoutes: z
+    .string()
+    .optional()
+    .or(z.literal(""))
+    .refine((val) => !val || parseTargetRoutes(val) !== null, {
+      message: `Use uma rota "valor=tabela" por linha (tabelas: ${TARGET_TABLES.join(", ")})`,
+    }),
+}).refine((data) => !data.discriminatorField || !!data.targetRoutes?.trim(), {
+  message: "Informe as rotas do campo discriminador",
+  path: ["targetRoutes"],
 });
 
 type ConfigFormValues = z.infer<typeof configSchema>;
@@ -196,7 +276,7 @@ const mappingSchema = z.object({
           return false;
         }
       },
-      { message: "JSON inválido. Verifique a sintaxe do objeto de transformação." }
+      { message: "JSON inválido. Informe um objeto de transformação ou uma lista deles." }
     ),
 });
 
@@ -204,7 +284,7 @@ type MappingFormValues = z.infer<typeof mappingSchema>;
 
 function parseTransformJson(
   val: string | undefined
-): Record<string, unknown> | null {
+): MappingTransform | null {
   if (!val || !val.trim()) return null;
   try {
     const parsed = JSON.parse(val);
@@ -219,30 +299,51 @@ function ConfigTab({ connectorId }: { connectorId: string }) {
   const { data: connector, isLoading } = useConnector(connectorId);
   const { data: schools } = useSchools();
   const updateMutation = useUpdateConnector(connectorId);
+  const testMutation = useTestConnection(connectorId);
 
   const config = (connector?.config || {}) as Record<string, unknown>;
+  const incremental = (config.incremental || {}) as Record<string, unknown>;
+  const pagination = (config.pagination || {}) as Record<string, unknown>;
+  const reconciliation = (config.reconciliation || {}) as Record<string, unknown>;
+  const target = (config.target || {}) as Record<string, unknown>;
 
   const form = useForm<ConfigFormValues>({
     resolver: zodResolver(configSchema),
     values: {
       name: connector?.name || "",
-      type: (connector?.type as "crm" | "finance" | "academic") || "crm",
+      type: (connector?.type as ConnectorType) || "crm",
       baseUrl: (config.baseUrl as string) || "",
-      apiKey: config.apiKey ? "••••••••" : "",
+      // The API sends secrets redacted; the placeholder keeps the stored key
+      apiKey: config.apiKey ? REDACTED_SECRET : "",
       dataPath: (config.dataPath as string) || "",
       sourceIdField: (config.sourceIdField as string) || "",
       paginationType: (config.paginationType as string) || "",
       pageSize: config.pageSize ? String(config.pageSize) : "",
+      hasMorePath: (pagination.hasMorePath as string) || "",
+      totalPath: (pagination.totalPath as string) || "",
+      nextUrlPath: (pagination.nextUrlPath as string) || "",
+      keysetParam: (pagination.keysetParam as string) || "",
+      keysetField: (pagination.keysetField as string) || "",
       scheduleCron: connector?.scheduleCron || "",
       schoolId: (config.schoolId as string) || "",
+      incrementalMode: (incremental.mode as string) || "",
+      incrementalParam: (incremental.param as string) || "",
+      incrementalField: (incremental.field as string) || "",
+      reconciliationPolicy: (reconciliation.policy as string) || "",
+      delimiter: (config.delimiter as string) || "",
+      encoding: (config.encoding as string) || "",
+      sheetName: (config.sheetName as string) || "",
+      targetTable: (target.table as string) || "",
+      discriminatorField: (target.discriminatorField as string) || "",
+      targetRoutes: formatTargetRoutes(target.routes as Record<string, string> | undefined),
     },
   });
 
-  function handleSave(data: ConfigFormValues) {
+  function buildConfig(data: ConfigFormValues): Record<string, unknown> {
     const newConfig: Record<string, unknown> = { ...config };
     if (data.baseUrl) newConfig.baseUrl = data.baseUrl;
     else delete newConfig.baseUrl;
-    if (data.apiKey && data.apiKey !== "••••••••") newConfig.apiKey = data.apiKey;
+    if (data.apiKey && data.apiKey !== REDACTED_SECRET) newConfig.apiKey = data.apiKey;
     else if (!data.apiKey) delete newConfig.apiKey;
     if (data.dataPath) newConfig.dataPath = data.dataPath;
     else delete newConfig.dataPath;
@@ -252,17 +353,65 @@ function ConfigTab({ connectorId }: { connectorId: string }) {
     else delete newConfig.paginationType;
     if (data.pageSize) newConfig.pageSize = parseInt(data.pageSize, 10) || 100;
     else delete newConfig.pageSize;
+    const paginationPaths = {
+      hasMorePath: data.hasMorePath || undefined,
+      totalPath: data.totalPath || undefined,
+      nextUrlPath: data.paginationType === "next_url" ? data.nextUrlPath || undefined : undefined,
+      keysetParam: data.paginationType === "keyset" ? data.keysetParam || undefined : undefined,
+      keysetField: data.paginationType === "keyset" ? data.keysetField || undefined : undefined,
+    };
+    if (Object.values(paginationPaths).some(Boolean)) newConfig.pagination = paginationPaths;
+    else delete newConfig.pagination;
     if (data.schoolId) newConfig.schoolId = data.schoolId;
     else delete newConfig.schoolId;
+    if (data.incrementalMode && data.incrementalParam) {
+      newConfig.incremental = {
+        ...incremental,
+        mode: data.incrementalMode,
+        param: data.incrementalParam,
+        field: data.incrementalField || undefined,
+      };
+    } else delete newConfig.incremental;
+    if (data.reconciliationPolicy) {
+      newConfig.reconciliation = {
+        ...reconciliation,
+        policy: data.reconciliationPolicy,
+      };
+    } else delete newConfig.reconciliation;
+    if (data.targetTable || data.discriminatorField) {
+      newConfig.target = {
+        table: (data.targetTable as TargetTable) || undefined,
+        discriminatorField: data.discriminatorField || undefined,
+        routes: data.discriminatorField
+          ? parseTargetRoutes(data.targetRoutes || "") ?? undefined
+          : undefined,
+      };
+    } else delete newConfig.target;
+    if (data.type === "file_upload") {
+      if (data.delimiter) newConfig.delimiter = data.delimiter;
+      else delete newConfig.delimiter;
+      if (data.encoding) newConfig.encoding = data.encoding;
+      else delete newConfig.encoding;
+      if (data.sheetName) newConfig.sheetName = data.sheetName;
+      else delete newConfig.sheetName;
+    }
+    return newConfig;
+  }
 
+  function handleSave(data: ConfigFormValues) {
     updateMutation.mutate({
       name: data.name,
       type: data.type,
-      config: newConfig,
+      config: buildConfig(data),
       scheduleCron: data.scheduleCron || null,
     });
   }
 
+  // Tests the form as it is, saved or not
+  function handleTest() {
+    testMutation.mutate(buildConfig(form.getValues()));
+  }
+
   if (isLoading) {
     return (
       <div className="space-y-4 p-1">
@@ -410,6 +559,9 @@ function ConfigTab({ connectorId }: { connectorId: string }) {
                       <SelectItem value="offset">Offset</SelectItem>
                       <SelectItem value="cursor">Cursor</SelectItem>
                       <SelectItem value="page">Página</SelectItem>
+                      <SelectItem value="link_header">Cabeçalho Link</SelectItem>
+                      <SelectItem value="next_url">Próxima URL</SelectItem>
+                      <SelectItem value="keyset">Keyset (since_id)</SelectItem>
                     </SelectContent>
                   </Select>
                 </FormControl>
@@ -435,6 +587,106 @@ function ConfigTab({ connectorId }: { connectorId: string }) {
               </FormItem>
             )}
           />
+          {form.watch("paginationType") && form.watch("paginationType") !== "none" && (
+            <>
+              <FormField
+                control={form.control}
+                name="hasMorePath"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Caminho de "tem mais" (opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="meta.has_more"
+                        className="font-mono"
+                        data-testid="input-config-has-more-path"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="totalPath"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Caminho do total (opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="meta.total"
+                        className="font-mono"
+                        data-testid="input-config-total-path"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          )}
+          {form.watch("paginationType") === "next_url" && (
+            <FormField
+              control={form.control}
+              name="nextUrlPath"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Caminho da próxima URL</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="links.next"
+                      className="font-mono"
+                      data-testid="input-config-next-url-path"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {form.watch("paginationType") === "keyset" && (
+            <>
+              <FormField
+                control={form.control}
+                name="keysetParam"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parâmetro keyset</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="since_id"
+                        className="font-mono"
+                        data-testid="input-config-keyset-param"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="keysetField"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Campo keyset no registro</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="id"
+                        className="font-mono"
+                        data-testid="input-config-keyset-field"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          )}
         </div>
 
         <Separator />
@@ -490,6 +742,269 @@ function ConfigTab({ connectorId }: { connectorId: string }) {
           />
         </div>
 
+        {form.watch("type") === "file_upload" && (
+          <>
+            <Separator />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="delimiter"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Delimitador (CSV)</FormLabel>
+                    <FormControl>
+                      <Select
+                        value={field.value || "auto"}
+                        onValueChange={(v) =>
+                          field.onChange(v === "auto" ? "" : v)
+                        }
+                      >
+                        <SelectTrigger data-testid="select-config-delimiter">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {UPLOAD_DELIMITER_OPTIONS.map((o) => (
+                            <SelectItem key={o.value} value={o.value}>
+                              {o.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="encoding"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Codificação (CSV)</FormLabel>
+                    <FormControl>
+                      <Select
+                        value={field.value || "utf-8"}
+                        onValueChange={field.onChange}
+                      >
+                        <SelectTrigger data-testid="select-config-encoding">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {UPLOAD_ENCODING_OPTIONS.map((o) => (
+                            <SelectItem key={o.value} value={o.value}>
+                              {o.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sheetName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Aba (XLSX)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Primeira aba"
+                        data-testid="input-config-sheet-name"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </>
+        )}
+
+        <Separator />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="targetTable"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tabela de destino</FormLabel>
+                <FormControl>
+                  <Select
+                    value={field.value || "default"}
+                    onValueChange={(v) =>
+                      field.onChange(v === "default" ? "" : v)
+                    }
+                  >
+                    <SelectTrigger data-testid="select-config-target-table">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Padrão do tipo</SelectItem>
+                      {TARGET_TABLES.map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {TARGET_TABLE_LABELS[t]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="discriminatorField"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Campo discriminador (opcional)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="tipo_registro"
+                    data-testid="input-config-discriminator"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {form.watch("discriminatorField") && (
+            <FormField
+              control={form.control}
+              name="targetRoutes"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Rotas por valor</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder={"boleto=contas_a_receber\nnps=nps_surveys\n*=leads"}
+                      className="font-mono text-sm"
+                      rows={4}
+                      data-testid="textarea-config-target-routes"
+                      {...field}
+                    />
+                  </FormControl>
+                  <p className="text-xs text-muted-foreground">
+                    Uma rota "valor=tabela" por linha; "*" recebe os demais
+                    valores. Registros sem rota vão para a aba "Falhas".
+                  </p>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="reconciliationPolicy"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Registros removidos na origem</FormLabel>
+                <FormControl>
+                  <Select
+                    value={field.value || "none"}
+                    onValueChange={(v) =>
+                      field.onChange(v === "none" ? "" : v)
+                    }
+                  >
+                    <SelectTrigger data-testid="select-config-reconciliation">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Manter</SelectItem>
+                      <SelectItem value="soft_delete">
+                        Marcar como excluídos
+                      </SelectItem>
+                      <SelectItem value="tombstone">
+                        Remover (manter histórico)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="incrementalMode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Sincronização incremental</FormLabel>
+                <FormControl>
+                  <Select
+                    value={field.value || "none"}
+                    onValueChange={(v) =>
+                      field.onChange(v === "none" ? "" : v)
+                    }
+                  >
+                    <SelectTrigger data-testid="select-config-incremental">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Desativada</SelectItem>
+                      <SelectItem value="updated_since">
+                        Data de atualização
+                      </SelectItem>
+                      <SelectItem value="cursor">Cursor de sincronização</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="incrementalParam"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Parâmetro da requisição</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="updated_since"
+                    className="font-mono"
+                    data-testid="input-config-incremental-param"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="incrementalField"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Campo de atualização no registro</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="updated_at"
+                    className="font-mono"
+                    data-testid="input-config-incremental-field"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <div className="flex items-center justify-between gap-4 flex-wrap">
           <div className="flex items-center gap-2">
             <Switch
@@ -503,19 +1018,39 @@ function ConfigTab({ connectorId }: { connectorId: string }) {
               {connector?.isActive ? "Conector ativo" : "Conector inativo"}
             </Label>
           </div>
-          <Button
-            type="submit"
-            disabled={updateMutation.isPending}
-            data-testid="button-save-config"
-          >
-            {updateMutation.isPending ? (
-              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-            ) : (
-              <Save className="h-4 w-4 mr-2" />
+          <div className="flex items-center gap-2">
+            {form.watch("type") !== "file_upload" && form.watch("type") !== "webhook" && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={testMutation.isPending}
+                onClick={handleTest}
+                data-testid="button-test-connection"
+              >
+                {testMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <PlugZap className="h-4 w-4 mr-2" />
+                )}
+                Testar conexão
+              </Button>
             )}
-            Salvar Configuração
-          </Button>
+            <Button
+              type="submit"
+              disabled={updateMutation.isPending}
+              data-testid="button-save-config"
+            >
+              {updateMutation.isPending ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Salvar Configuração
+            </Button>
+          </div>
         </div>
+
+        {testMutation.data && <ConnectionTestCard result={testMutation.data} />}
       </form>
     </Form>
   );
@@ -530,9 +1065,33 @@ function MappingsTab({ connectorId }: { connectorId: string }) {
 
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [editMapping, setEditMapping] = useState<ConnectorMapping | null>(null);
+  const [sandboxMappings, setSandboxMappings] = useState<MappingDraft[] | null>(null);
 
   const isAdmin = user?.role === "admin";
 
+  function toDraft(m: ConnectorMapping): MappingDraft {
+    return {
+      sourcePath: m.sourcePath,
+      targetField: m.targetField,
+      transform: m.transform ?? null,
+    };
+  }
+
+  // Opens the sandbox with the saved mappings, the form draft replacing the
+  // mapping being edited (or appended when it is a new one)
+  function openSandbox(values?: MappingFormValues) {
+    const saved = (mappings || []).filter((m) => m.id !== editMapping?.id);
+    const drafts = saved.map(toDraft);
+    if (values?.sourcePath && values.targetField) {
+      drafts.push({
+        sourcePath: values.sourcePath,
+        targetField: values.targetField,
+        transform: parseTransformJson(values.transformJson),
+      });
+    }
+    setSandboxMappings(values ? drafts : (mappings || []).map(toDraft));
+  }
+
   const addForm = useForm<MappingFormValues>({
     resolver: zodResolver(mappingSchema),
     defaultValues: { sourcePath: "", targetField: "", transformJson: "" },
@@ -594,93 +1153,126 @@ function MappingsTab({ connectorId }: { connectorId: string }) {
 
   return (
     <div className="space-y-4">
+      {/* Target field suggestions: the canonical fields become typed columns */}
+      <datalist id="canonical-target-fields">
+        {NORMALIZED_TABLES.flatMap((table) =>
+          CANONICAL_SCHEMAS[table].map((f) => (
+            <option key={`${table}.${f.field}`} value={f.field}>
+              {`${f.label} (${TARGET_TABLE_LABELS[table]})`}
+            </option>
+          ))
+        )}
+      </datalist>
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <p className="text-sm text-muted-foreground">
           {mappings?.length || 0} mapeamento(s) configurado(s)
         </p>
-        <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button size="sm" data-testid="button-add-mapping">
-              <Plus className="h-4 w-4 mr-2" />
-              Novo Mapeamento
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Novo Mapeamento</DialogTitle>
-              <DialogDescription>
-                Defina a relação entre o campo de origem e o campo de destino
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...addForm}>
-              <form
-                onSubmit={addForm.handleSubmit(handleAdd)}
-                className="space-y-4"
-              >
-                <FormField
-                  control={addForm.control}
-                  name="sourcePath"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Caminho de origem</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="data.nome_completo"
-                          data-testid="input-mapping-source"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={addForm.control}
-                  name="targetField"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Campo de destino</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="full_name"
-                          data-testid="input-mapping-target"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={addForm.control}
-                  name="transformJson"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Transformação (JSON, opcional)</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          placeholder={'{"op": "lowercase"}'}
-                          className="font-mono text-sm resize-none min-h-[100px]"
-                          data-testid="input-mapping-transform"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button
-                  type="submit"
-                  className="w-full"
-                  disabled={createMapping.isPending}
-                  data-testid="button-submit-mapping"
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => openSandbox()}
+            data-testid="button-open-sandbox"
+          >
+            <FlaskConical className="h-4 w-4 mr-2" />
+            Sandbox
+          </Button>
+          <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" data-testid="button-add-mapping">
+                <Plus className="h-4 w-4 mr-2" />
+                Novo Mapeamento
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Novo Mapeamento</DialogTitle>
+                <DialogDescription>
+                  Defina a relação entre o campo de origem e o campo de destino
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...addForm}>
+                <form
+                  onSubmit={addForm.handleSubmit(handleAdd)}
+                  className="space-y-4"
                 >
-                  {createMapping.isPending ? "Salvando..." : "Criar Mapeamento"}
-                </Button>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  <FormField
+                    control={addForm.control}
+                    name="sourcePath"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Caminho de origem</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="data.nome_completo"
+                            data-testid="input-mapping-source"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={addForm.control}
+                    name="targetField"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Campo de destino</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="name"
+                            list="canonical-target-fields"
+                            data-testid="input-mapping-target"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={addForm.control}
+                    name="transformJson"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Transformação (JSON, opcional)</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder={'{"op": "lowercase"}'}
+                            className="font-mono text-sm resize-none min-h-[100px]"
+                            data-testid="input-mapping-transform"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => openSandbox(addForm.getValues())}
+                      data-testid="button-test-mapping"
+                    >
+                      <FlaskConical className="h-4 w-4 mr-2" />
+                      Testar
+                    </Button>
+                    <Button
+                      type="submit"
+                      className="flex-1"
+                      disabled={createMapping.isPending}
+                      data-testid="button-submit-mapping"
+                    >
+                      {createMapping.isPending ? "Salvando..." : "Criar Mapeamento"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {(!mappings || mappings.length === 0) ? (
@@ -805,6 +1397,7 @@ function MappingsTab({ connectorId }: { connectorId: string }) {
                     <FormLabel>Campo de destino</FormLabel>
                     <FormControl>
                       <Input
+                        list="canonical-target-fields"
                         data-testid="input-edit-mapping-target"
                         {...field}
                       />
@@ -830,18 +1423,50 @@ function MappingsTab({ connectorId }: { connectorId: string }) {
                   </FormItem>
                 )}
               />
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={updateMapping.isPending}
-                data-testid="button-submit-edit-mapping"
-              >
-                {updateMapping.isPending ? "Salvando..." : "Salvar Alterações"}
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => openSandbox(editForm.getValues())}
+                  data-testid="button-test-edit-mapping"
+                >
+                  <FlaskConical className="h-4 w-4 mr-2" />
+                  Testar
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1"
+                  disabled={updateMapping.isPending}
+                  data-testid="button-submit-edit-mapping"
+                >
+                  {updateMapping.isPending ? "Salvando..." : "Salvar Alterações"}
+                </Button>
+              </div>
             </form>
           </Form>
         </DialogContent>
       </Dialog>
+
+      <MappingSuggestionsCard
+        connectorId={connectorId}
+        onUse={(suggestion) => {
+          addForm.reset({
+            sourcePath: suggestion.sourcePath,
+            targetField: suggestion.targetField,
+            transformJson: "",
+          });
+          setAddDialogOpen(true);
+        }}
+      />
+
+      <MappingVersionsCard connectorId={connectorId} />
+
+      <MappingSandbox
+        connectorId={connectorId}
+        open={!!sandboxMappings}
+        onOpenChange={(open) => !open && setSandboxMappings(null)}
+        initialMappings={sandboxMappings || []}
+      />
     </div>
   );
 }
@@ -870,15 +1495,81 @@ function formatDuration(
   return `${Math.floor(secs / 60)}m ${secs % 60}s`;
 }
 
+const TOMBSTONE_POLICY_LABELS: Record<string, string> = {
+  soft_delete: "Marcado como excluído",
+  tombstone: "Removido",
+};
+
+function RunTombstones({ runId }: { runId: string }) {
+  const { data: tombstones, isLoading } = useSyncRunTombstones(runId);
+
+  if (isLoading) return <Skeleton className="h-24 w-full" />;
+  if (!tombstones || tombstones.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        Registros ausentes na origem ({tombstones.length})
+      </p>
+      <div className="max-h-[300px] overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ID na origem</TableHead>
+              <TableHead>Tabela</TableHead>
+              <TableHead>Ação</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tombstones.map((t) => (
+              <TableRow key={t.id} data-testid={`row-tombstone-${t.id}`}>
+                <TableCell>
+                  <span className="text-sm font-mono">{t.sourceId}</span>
+                </TableCell>
+                <TableCell>
+                  <span className="text-sm text-muted-foreground">
+                    {t.targetTable}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">
+                    {TOMBSTONE_POLICY_LABELS[t.policy] || t.policy}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
 function SyncRunsTab({ connectorId }: { connectorId: string }) {
   const { user } = useAuth();
+  const { data: connector } = useConnector(connectorId);
   const { data: runs, isLoading } = useSyncRuns(connectorId);
   const { data: files } = useRawIngestFiles(connectorId);
+  const { data: watermark } = useConnectorWatermark(connectorId);
   const runMutation = useRunConnector(connectorId);
+  const reprocessMutation = useReprocessRawFiles(connectorId);
 
   const isAdmin = user?.role === "admin";
   const isOps = user?.role === "ops";
+  const isOwner = !!user && connector?.ownerId === user.id;
+  // Mapping versions are readable by admins and the owner only
+  const { data: mappingVersions } = useMappingVersions(
+    isAdmin || isOwner ? connectorId : undefined
+  );
+  const versionNumbers = new Map(
+    (mappingVersions || []).map((v) => [v.id, v.version])
+  );
   const canRun = isAdmin || isOps;
+  // file_upload and webhook connectors only run when data is pushed to them
+  const isFileUpload = connector?.type === "file_upload";
+  const isWebhook = connector?.type === "webhook";
+  const canSync = canRun && !isFileUpload && !isWebhook;
+  const canUpload = canRun || (!!user && connector?.ownerId === user.id);
 
   const [errorDetail, setErrorDetail] = useState<SyncRun | null>(null);
 
@@ -899,24 +1590,60 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
 
   return (
     <div className="space-y-4">
+      {isFileUpload && (
+        <FileUploadsCard connectorId={connectorId} canUpload={canUpload} />
+      )}
+      {isWebhook && (
+        <WebhookCard connectorId={connectorId} canManage={isAdmin || (!!user && connector?.ownerId === user.id)} />
+      )}
+
       <div className="flex items-center justify-between gap-4 flex-wrap">
-        <p className="text-sm text-muted-foreground">
-          {sortedRuns.length} execução(ões) registrada(s)
-        </p>
-        {canRun && (
-          <Button
-            size="sm"
-            onClick={() => runMutation.mutate({})}
-            disabled={runMutation.isPending}
-            data-testid="button-run-sync"
-          >
-            {runMutation.isPending ? (
-              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-            ) : (
-              <Play className="h-4 w-4 mr-2" />
+        <div className="space-y-0.5">
+          <p className="text-sm text-muted-foreground">
+            {sortedRuns.length} execução(ões) registrada(s)
+          </p>
+          {watermark && (
+            <p
+              className="text-xs text-muted-foreground"
+              data-testid="text-sync-watermark"
+            >
+              Incremental desde{" "}
+              <span className="font-mono">
+                {watermark.watermarkType === "updated_since"
+                  ? formatDate(watermark.value)
+                  : watermark.value}
+              </span>
+            </p>
+          )}
+        </div>
+        {canSync && (
+          <div className="flex items-center gap-2">
+            {watermark && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => runMutation.mutate({ fullResync: true })}
+                disabled={runMutation.isPending}
+                data-testid="button-full-resync"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Ressincronização completa
+              </Button>
             )}
-            Executar agora
-          </Button>
+            <Button
+              size="sm"
+              onClick={() => runMutation.mutate({})}
+              disabled={runMutation.isPending}
+              data-testid="button-run-sync"
+            >
+              {runMutation.isPending ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Executar agora
+            </Button>
+          </div>
         )}
       </div>
 
@@ -937,6 +1664,7 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
                 <TableHead>Duração</TableHead>
                 <TableHead>Entrada</TableHead>
                 <TableHead>Saída</TableHead>
+                <TableHead>Progresso</TableHead>
                 <TableHead className="text-right">Ações</TableHead>
               </TableRow>
             </TableHeader>
@@ -948,6 +1676,9 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
                 const hasError =
                   run.error &&
                   Object.keys(run.error as Record<string, unknown>).length > 0;
+                const hasDetails = hasError || (run.recordsDeleted ?? 0) > 0;
+                const canResume =
+                  canRun && run.status === "failed" && !!run.checkpoint;
                 return (
                   <TableRow
                     key={run.id}
@@ -964,6 +1695,20 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
                         >
                           {sc.label}
                         </span>
+                        {run.mappingVersionId && versionNumbers.has(run.mappingVersionId) && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge
+                                variant="outline"
+                                className="font-mono text-xs"
+                                data-testid={`badge-run-mapping-version-${run.id}`}
+                              >
+                                v{versionNumbers.get(run.mappingVersionId)}
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent>Versão dos mapeamentos aplicada</TooltipContent>
+                          </Tooltip>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -994,10 +1739,39 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
                       >
                         {run.recordsOut ?? 0}
                       </span>
+                      {(run.recordsDeleted ?? 0) > 0 && (
+                        <span
+                          className="ml-2 text-xs text-muted-foreground"
+                          data-testid={`text-run-deleted-${run.id}`}
+                        >
+                          −{run.recordsDeleted} removido(s)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {run.checkpoint ? (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span
+                              className="text-sm text-muted-foreground"
+                              data-testid={`text-run-progress-${run.id}`}
+                            >
+                              {run.status === "failed"
+                                ? `Parou após a página ${run.checkpoint.pages}`
+                                : `${run.checkpoint.pages} página(s)`}
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            Último checkpoint: {formatDate(run.checkpoint.committedAt)}
+                          </TooltipContent>
+                        </Tooltip>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">—</span>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center justify-end gap-1">
-                        {hasError && (
+                        {hasDetails && (
                           <Tooltip>
                             <TooltipTrigger asChild>
                               <Button
@@ -1012,7 +1786,27 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
                             <TooltipContent>Ver detalhes</TooltipContent>
                           </Tooltip>
                         )}
-                        {canRun && (
+                        {canResume && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                disabled={runMutation.isPending}
+                                onClick={() =>
+                                  runMutation.mutate({ runId: run.id })
+                                }
+                                data-testid={`button-resume-${run.id}`}
+                              >
+                                <Play className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              Retomar da página {run.checkpoint!.pages + 1}
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                        {canSync && (
                           <Tooltip>
                             <TooltipTrigger asChild>
                               <Button
@@ -1042,11 +1836,43 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
 
       {files && files.length > 0 && (
         <Card>
-          <CardHeader className="pb-3">
+          <CardHeader className="pb-3 flex flex-row items-center justify-between gap-2 space-y-0">
             <CardTitle className="text-sm flex items-center gap-2">
               <FileText className="h-4 w-4" />
               Arquivos brutos ({files.length})
             </CardTitle>
+            {canRun && files.some((f) => f.storageBackend) && (
+              <div className="flex items-center gap-2">
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => reprocessMutation.mutate({ useCurrentMappings: true })}
+                      disabled={reprocessMutation.isPending}
+                      data-testid="button-reprocess-current-mappings"
+                    >
+                      Com mapeamentos atuais
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    Por padrão cada arquivo é reprocessado com a versão dos mapeamentos da sua execução
+                  </TooltipContent>
+                </Tooltip>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => reprocessMutation.mutate({})}
+                  disabled={reprocessMutation.isPending}
+                  data-testid="button-reprocess-latest-files"
+                >
+                  <RotateCcw
+                    className={`h-4 w-4 mr-2 ${reprocessMutation.isPending ? "animate-spin" : ""}`}
+                  />
+                  Reprocessar última execução
+                </Button>
+              </div>
+            )}
           </CardHeader>
           <CardContent className="p-0">
             <div className="overflow-x-auto">
@@ -1057,6 +1883,7 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
                     <TableHead>Tamanho</TableHead>
                     <TableHead>Processado</TableHead>
                     <TableHead>Data</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -1086,6 +1913,52 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
                           {formatDate(f.createdAt)}
                         </span>
                       </TableCell>
+                      <TableCell>
+                        {f.storageBackend ? (
+                          <div className="flex items-center justify-end gap-1">
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  asChild
+                                  data-testid={`button-download-file-${f.id}`}
+                                >
+                                  <a
+                                    href={`/api/connectors/${connectorId}/files/${f.id}/download`}
+                                    download={f.fileName}
+                                  >
+                                    <Download className="h-4 w-4" />
+                                  </a>
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Baixar</TooltipContent>
+                            </Tooltip>
+                            {canRun && (
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    disabled={reprocessMutation.isPending}
+                                    onClick={() =>
+                                      reprocessMutation.mutate({ fileIds: [f.id] })
+                                    }
+                                    data-testid={`button-reprocess-file-${f.id}`}
+                                  >
+                                    <RotateCcw className="h-4 w-4" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>Reprocessar arquivo</TooltipContent>
+                              </Tooltip>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="block text-right text-xs text-muted-foreground">
+                            Não armazenado
+                          </span>
+                        )}
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -1103,7 +1976,7 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
           <DialogHeader>
             <DialogTitle>Detalhes da execução</DialogTitle>
             <DialogDescription>
-              Informações sobre erros e campos não mapeados
+              Erros, campos não mapeados, consultas sem correspondência e registros removidos
             </DialogDescription>
           </DialogHeader>
           {errorDetail?.error && (
@@ -1114,12 +1987,36 @@ function SyncRunsTab({ connectorId }: { connectorId: string }) {
               {JSON.stringify(errorDetail.error, null, 2)}
             </pre>
           )}
+          {errorDetail && (errorDetail.recordsDeleted ?? 0) > 0 && (
+            <RunTombstones runId={errorDetail.id} />
+          )}
         </DialogContent>
       </Dialog>
     </div>
   );
 }
 
+// Downloads the connector as a template JSON, without secrets or instance data
+function ExportTemplateButton({ connectorId }: { connectorId: string }) {
+  const exportMutation = useExportConnectorTemplate(connectorId);
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => exportMutation.mutate()}
+      disabled={exportMutation.isPending}
+      data-testid="button-export-template"
+    >
+      {exportMutation.isPending ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <Download className="h-4 w-4 mr-2" />
+      )}
+      Exportar template
+    </Button>
+  );
+}
+
 export default function IntegrationDetailPage() {
   const [, params] = useRoute("/integrations/:id");
   const connectorId = params?.id;
@@ -1185,6 +2082,7 @@ export default function IntegrationDetailPage() {
             </span>
           </div>
         </div>
+        <ExportTemplateButton connectorId={connector.id} />
       </div>
 
       <Tabs defaultValue="config" className="space-y-4">
@@ -1201,6 +2099,10 @@ export default function IntegrationDetailPage() {
             <Play className="h-4 w-4 mr-2" />
             Execuções
           </TabsTrigger>
+          <TabsTrigger value="dead-letters" data-testid="tab-dead-letters">
+            <Inbox className="h-4 w-4 mr-2" />
+            Falhas
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="config">
@@ -1226,6 +2128,14 @@ export default function IntegrationDetailPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="dead-letters">
+          <Card>
+            <CardContent className="pt-6">
+              <DeadLettersTab connectorId={connectorId} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
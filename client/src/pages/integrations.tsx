@@ -6,9 +6,16 @@ import {
   useCreateConnector,
   useDeleteConnector,
   useRunConnector,
+  useConnectorSchedules,
+  type ConnectorSchedule,
 } from "@/hooks/use-connectors";
 import type { Connector, ConnectorType } from "@shared/schema";
 import { CONNECTOR_TYPES } from "@shared/schema";
+import { ConnectorTemplateDialog } from "@/components/connector-template-dialog";
+import {
+  UPLOAD_DELIMITER_OPTIONS,
+  UPLOAD_ENCODING_OPTIONS,
+} from "@/components/file-uploads-card";
 import {
   Table,
   TableBody,
@@ -82,6 +89,8 @@ const TYPE_LABELS: Record<string, string> = {
   academic: "Acadêmico",
   google_sheets: "Google Sheets",
   manual_input: "Input Manual",
+  file_upload: "Upload de Arquivo",
+  webhook: "Webhook",
 };
 
 const TYPE_VARIANTS: Record<string, string> = {
@@ -90,8 +99,11 @@ const TYPE_VARIANTS: Record<string, string> = {
   academic: "bg-chart-4/15 text-chart-4 border-chart-4/30",
   google_sheets: "bg-chart-3/15 text-chart-3 border-chart-3/30",
   manual_input: "bg-chart-5/15 text-chart-5 border-chart-5/30",
+  file_upload: "bg-muted text-muted-foreground border-border",
+  webhook: "bg-muted text-muted-foreground border-border",
 };
 
+
 const baseSchema = z.object({
   name: z.string().min(1, "Nome é obrigatório"),
   scheduleCron: z.string().optional().or(z.literal("")),
@@ -107,6 +119,14 @@ const createConnectorSchema = z.discriminatedUnion("type", [
   baseSchema.extend({
     type: z.literal("manual_input"),
   }),
+  baseSchema.extend({
+    type: z.literal("webhook"),
+  }),
+  baseSchema.extend({
+    type: z.literal("file_upload"),
+    delimiter: z.string().optional(),
+    encoding: z.string().optional(),
+  }),
   baseSchema.extend({
     type: z.enum(["crm", "finance", "academic"]),
     baseUrl: z.string().url("URL base inválida").optional().or(z.literal("")),
@@ -115,6 +135,78 @@ const createConnectorSchema = z.discriminatedUnion("type", [
 
 type CreateConnectorForm = z.infer<typeof createConnectorSchema>;
 
+const RUN_STATUS_LABELS: Record<string, string> = {
+  success: "sucesso",
+  failed: "falhou",
+  running: "executando",
+  pending: "pendente",
+};
+
+function formatScheduleDate(d: string | null | undefined): string {
+  if (!d) return "—";
+  return new Date(d).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function ScheduleCell({
+  connector,
+  schedule,
+}: {
+  connector: Connector;
+  schedule: ConnectorSchedule | undefined;
+}) {
+  return (
+    <div className="flex flex-col gap-0.5">
+      <span
+        className="text-sm text-muted-foreground font-mono"
+        data-testid={`text-cron-${connector.id}`}
+      >
+        {connector.scheduleCron || "—"}
+      </span>
+      {connector.scheduleCron && connector.isActive && schedule && (
+        <span
+          className="text-xs text-muted-foreground"
+          data-testid={`text-next-run-${connector.id}`}
+        >
+          {schedule.error
+            ? "Expressão inválida"
+            : `Próxima: ${formatScheduleDate(schedule.nextRunAt)}`}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function LastRunCell({
+  connectorId,
+  schedule,
+}: {
+  connectorId: string;
+  schedule: ConnectorSchedule | undefined;
+}) {
+  if (!schedule?.lastRunAt) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+  return (
+    <div className="flex flex-col gap-0.5">
+      <span className="text-sm" data-testid={`text-last-run-${connectorId}`}>
+        {formatScheduleDate(schedule.lastRunAt)}
+      </span>
+      <span
+        className={`text-xs ${schedule.lastRunStatus === "failed" ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}
+      >
+        {schedule.running
+          ? RUN_STATUS_LABELS.running
+          : RUN_STATUS_LABELS[schedule.lastRunStatus || ""] || schedule.lastRunStatus}
+      </span>
+    </div>
+  );
+}
+
 function RunButton({ connectorId }: { connectorId: string }) {
   const runMutation = useRunConnector(connectorId);
   return (
@@ -146,6 +238,7 @@ export default function IntegrationsPage() {
   const { user } = useAuth();
   const { data: connectors, isLoading } = useConnectors();
   const { data: schools } = useSchools();
+  const { data: schedules } = useConnectorSchedules();
   const createMutation = useCreateConnector();
   const deleteMutation = useDeleteConnector();
 
@@ -171,7 +264,10 @@ export default function IntegrationsPage() {
       config.sheetName = data.sheetName;
       if (data.sheetRange) config.range = data.sheetRange;
       // OAuth credentials must be added later via connector detail page / API
-    } else if (data.type !== "manual_input") {
+    } else if (data.type === "file_upload") {
+      if (data.delimiter && data.delimiter !== "auto") config.delimiter = data.delimiter;
+      if (data.encoding) config.encoding = data.encoding;
+    } else if (data.type !== "manual_input" && data.type !== "webhook") {
       if (data.baseUrl) config.baseUrl = data.baseUrl;
     }
     createMutation.mutate(
@@ -179,7 +275,10 @@ export default function IntegrationsPage() {
         name: data.name,
         type: data.type,
         config,
-        scheduleCron: data.scheduleCron || null,
+        scheduleCron:
+          data.type === "file_upload" || data.type === "webhook"
+            ? null
+            : data.scheduleCron || null,
       },
       {
         onSuccess: () => {
@@ -222,100 +321,204 @@ export default function IntegrationsPage() {
           </p>
         </div>
         {canCreate && (
-          <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-add-connector">
-                <Plus className="h-4 w-4 mr-2" />
-                Novo Conector
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Novo Conector</DialogTitle>
-                <DialogDescription>
-                  Configure uma nova integração com dados externos
-                </DialogDescription>
-              </DialogHeader>
-              <Form {...form}>
-                <form
-                  onSubmit={form.handleSubmit(handleCreate)}
-                  className="space-y-4"
-                >
-                  <FormField
-                    control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Nome</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="CRM Escola Alfa"
-                            data-testid="input-connector-name"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+          <div className="flex items-center gap-2">
+            <ConnectorTemplateDialog schools={schools} typeLabels={TYPE_LABELS} />
+            <Dialog open={addDialogOpen} onOpenChange={setAddDialogOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-connector">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Novo Conector
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Novo Conector</DialogTitle>
+                  <DialogDescription>
+                    Configure uma nova integração com dados externos
+                  </DialogDescription>
+                </DialogHeader>
+                <Form {...form}>
+                  <form
+                    onSubmit={form.handleSubmit(handleCreate)}
+                    className="space-y-4"
+                  >
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Nome</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="CRM Escola Alfa"
+                              data-testid="input-connector-name"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="type"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tipo</FormLabel>
+                          <FormControl>
+                            <Select
+                              value={field.value}
+                              onValueChange={field.onChange}
+                            >
+                              <SelectTrigger data-testid="select-connector-type">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CONNECTOR_TYPES.map((t) => (
+                                  <SelectItem key={t} value={t}>
+                                    {TYPE_LABELS[t] || t}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {/* Google Sheets fields – only shown when type is google_sheets */}
+                    {form.watch("type") === "google_sheets" && (
+                      <>
+                        <FormField
+                          control={form.control}
+                          name="spreadsheetId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Spreadsheet ID <span className="text-destructive">*</span></FormLabel>
+                              <FormControl>
+                                <Input
+                                  placeholder="1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgVE2upms"
+                                  data-testid="input-connector-spreadsheet-id"
+                                  {...field}
+                                  value={field.value ?? ""}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="sheetName"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Nome da Aba <span className="text-destructive">*</span></FormLabel>
+                              <FormControl>
+                                <Input
+                                  placeholder="Leads"
+                                  data-testid="input-connector-sheet-name"
+                                  {...field}
+                                  value={field.value ?? ""}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="sheetRange"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Intervalo (A1 notation)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  placeholder="A1:Z1000"
+                                  data-testid="input-connector-sheet-range"
+                                  {...field}
+                                  value={field.value ?? ""}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </>
                     )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="type"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Tipo</FormLabel>
-                        <FormControl>
-                          <Select
-                            value={field.value}
-                            onValueChange={field.onChange}
-                          >
-                            <SelectTrigger data-testid="select-connector-type">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {CONNECTOR_TYPES.map((t) => (
-                                <SelectItem key={t} value={t}>
-                                  {TYPE_LABELS[t] || t}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+                    {/* CSV parsing defaults – only shown when type is file_upload */}
+                    {form.watch("type") === "file_upload" && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="delimiter"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Delimitador (CSV)</FormLabel>
+                              <FormControl>
+                                <Select
+                                  value={field.value || "auto"}
+                                  onValueChange={field.onChange}
+                                >
+                                  <SelectTrigger data-testid="select-connector-delimiter">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {UPLOAD_DELIMITER_OPTIONS.map((o) => (
+                                      <SelectItem key={o.value} value={o.value}>
+                                        {o.label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="encoding"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Codificação (CSV)</FormLabel>
+                              <FormControl>
+                                <Select
+                                  value={field.value || "utf-8"}
+                                  onValueChange={field.onChange}
+                                >
+                                  <SelectTrigger data-testid="select-connector-encoding">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {UPLOAD_ENCODING_OPTIONS.map((o) => (
+                                      <SelectItem key={o.value} value={o.value}>
+                                        {o.label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
                     )}
-                  />
-                  {/* Google Sheets fields – only shown when type is google_sheets */}
-                  {form.watch("type") === "google_sheets" && (
-                    <>
-                      <FormField
-                        control={form.control}
-                        name="spreadsheetId"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Spreadsheet ID <span className="text-destructive">*</span></FormLabel>
-                            <FormControl>
-                              <Input
-                                placeholder="1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgVE2upms"
-                                data-testid="input-connector-spreadsheet-id"
-                                {...field}
-                                value={field.value ?? ""}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                    {/* Standard URL field – shown for everything except manual_input, google_sheets and push-based types */}
+                    {form.watch("type") !== "google_sheets" &&
+                      form.watch("type") !== "manual_input" &&
+                      form.watch("type") !== "file_upload" &&
+                      form.watch("type") !== "webhook" && (
                       <FormField
                         control={form.control}
-                        name="sheetName"
+                        name="baseUrl"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Nome da Aba <span className="text-destructive">*</span></FormLabel>
+                            <FormLabel>URL Base (opcional)</FormLabel>
                             <FormControl>
                               <Input
-                                placeholder="Leads"
-                                data-testid="input-connector-sheet-name"
+                                placeholder="https://api.exemplo.com"
+                                data-testid="input-connector-url"
                                 {...field}
                                 value={field.value ?? ""}
                               />
@@ -324,76 +527,40 @@ export default function IntegrationsPage() {
                           </FormItem>
                         )}
                       />
+                    )}
+                    {form.watch("type") !== "file_upload" &&
+                      form.watch("type") !== "webhook" && (
                       <FormField
                         control={form.control}
-                        name="sheetRange"
+                        name="scheduleCron"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Intervalo (A1 notation)</FormLabel>
+                            <FormLabel>Agendamento Cron (opcional)</FormLabel>
                             <FormControl>
                               <Input
-                                placeholder="A1:Z1000"
-                                data-testid="input-connector-sheet-range"
+                                placeholder="0 */6 * * *"
+                                data-testid="input-connector-cron"
                                 {...field}
-                                value={field.value ?? ""}
                               />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                    </>
-                  )}
-                  {/* Standard URL field – shown for everything except manual_input and google_sheets */}
-                  {form.watch("type") !== "google_sheets" && form.watch("type") !== "manual_input" && (
-                    <FormField
-                      control={form.control}
-                      name="baseUrl"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>URL Base (opcional)</FormLabel>
-                          <FormControl>
-                            <Input
-                              placeholder="https://api.exemplo.com"
-                              data-testid="input-connector-url"
-                              {...field}
-                              value={field.value ?? ""}
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  )}
-                  <FormField
-                    control={form.control}
-                    name="scheduleCron"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Agendamento Cron (opcional)</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="0 */6 * * *"
-                            data-testid="input-connector-cron"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
                     )}
-                  />
-                  <Button
-                    type="submit"
-                    className="w-full"
-                    disabled={createMutation.isPending}
-                    data-testid="button-submit-connector"
-                  >
-                    {createMutation.isPending ? "Criando..." : "Criar Conector"}
-                  </Button>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={createMutation.isPending}
+                      data-testid="button-submit-connector"
+                    >
+                      {createMutation.isPending ? "Criando..." : "Criar Conector"}
+                    </Button>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
         )}
       </div>
 
@@ -456,6 +623,7 @@ export default function IntegrationsPage() {
                     <TableHead>Status</TableHead>
                     <TableHead>Escola</TableHead>
                     <TableHead>Agendamento</TableHead>
+                    <TableHead>Última execução</TableHead>
                     <TableHead className="text-right">Ações</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -505,16 +673,24 @@ export default function IntegrationsPage() {
                         </span>
                       </TableCell>
                       <TableCell>
-                        <span
-                          className="text-sm text-muted-foreground font-mono"
-                          data-testid={`text-cron-${c.id}`}
-                        >
-                          {c.scheduleCron || "—"}
-                        </span>
+                        <ScheduleCell
+                          connector={c}
+                          schedule={schedules?.find((s) => s.connectorId === c.id)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <LastRunCell
+                          connectorId={c.id}
+                          schedule={schedules?.find((s) => s.connectorId === c.id)}
+                        />
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center justify-end gap-1">
-                          {canRunOrDelete && <RunButton connectorId={c.id} />}
+                          {canRunOrDelete &&
+                            c.type !== "file_upload" &&
+                            c.type !== "webhook" && (
+                            <RunButton connectorId={c.id} />
+                          )}
                           <Tooltip>
                             <TooltipTrigger asChild>
                               <Button
@@ -57,12 +57,12 @@ export default function LeadsPage() {
 
   const getLeadName = (lead: Lead) => {
     const p = lead.payload as Record<string, unknown>;
-    return String(p.name || p.nome || p.full_name || lead.sourceId || "Sem nome");
+    return String(lead.name || p.name || p.nome || p.full_name || lead.sourceId || "Sem nome");
   };
 
   const getLeadEmail = (lead: Lead) => {
     const p = lead.payload as Record<string, unknown>;
-    return String(p.email || "");
+    return String(lead.email || p.email || "");
   };
 
   const getLeadPhone = (lead: Lead) => {
@@ -233,6 +233,7 @@ export default function LeadsPage() {
       <LeadDetailSheet
         leadId={selectedLeadId}
         onClose={() => setSelectedLeadId(null)}
+        onSelectLead={setSelectedLeadId}
       />
     </div>
   );
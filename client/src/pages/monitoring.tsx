@@ -6,6 +6,7 @@ import {
     CheckCircle2,
     Clock,
     Download,
+    RefreshCw,
     ShieldAlert,
     Settings
 } from "lucide-react";
@@ -22,23 +23,75 @@ import { exportToCsv } from "@/lib/export-utils";
 import { useConnectors } from "@/hooks/use-connectors";
 import {
     useConnectorMetrics,
+    useConnectorHealth,
+    useRunHealthCheck,
     useConnectorSlas,
     useUpdateConnectorSla,
     useIntegrationAlerts,
     useUpdateIntegrationAlert,
+    type ConnectorHealthResponse,
 } from "@/hooks/use-monitoring";
 import type { Connector, ConnectorSla, IntegrationAlert } from "@shared/schema";
 
 // --- Subcomponents ---
 
-function ConnectorHealthRow({ connector }: { connector: Connector }) {
+function StaleBadge({ health }: { health: ConnectorHealthResponse }) {
+    const freshness = health.freshness;
+    if (!freshness?.stale) return null;
+    return (
+        <Badge
+            variant="destructive"
+            title={freshness.lastSuccessAt
+                ? `Last successful sync ${format(new Date(freshness.lastSuccessAt), "MMM d, HH:mm")}`
+                : "Never synced successfully"}
+        >
+            Stale · {Math.floor(freshness.hoursSinceSuccess)}h / {freshness.maxStalenessHours}h
+        </Badge>
+    );
+}
+
+function SlaStatusBadge({ health }: { health: ConnectorHealthResponse | undefined }) {
+    if (!health) return <span className="text-muted-foreground text-sm">No SLA</span>;
+    return (
+        <div className="flex flex-wrap items-center gap-1">
+            <WindowStatusBadge health={health} />
+            <StaleBadge health={health} />
+        </div>
+    );
+}
+
+function WindowStatusBadge({ health }: { health: ConnectorHealthResponse }) {
+    const window = `${health.windowMinutes} min`;
+    switch (health.status) {
+        case 'breached':
+            return (
+                <Badge variant="destructive" title={health.breaches.join(" ")}>
+                    <AlertTriangle className="w-3 h-3 mr-1" /> Breached · {window}
+                </Badge>
+            );
+        case 'healthy':
+            return (
+                <Badge variant="outline" title={`${health.totalRuns} runs, p95 ${Math.round(health.p95LatencyMs ?? 0)}ms`}>
+                    <CheckCircle2 className="w-3 h-3 mr-1" /> OK · {window}
+                </Badge>
+            );
+        default:
+            return (
+                <Badge variant="secondary" title="No runs in the SLA window">
+                    <Clock className="w-3 h-3 mr-1" /> No data · {window}
+                </Badge>
+            );
+    }
+}
+
+function ConnectorHealthRow({ connector, health }: { connector: Connector, health: ConnectorHealthResponse | undefined }) {
     const { data: metrics } = useConnectorMetrics(connector.id, 20); // Last 20 runs for sparkline
 
     if (!metrics) {
         return (
             <TableRow>
                 <TableCell className="font-medium">{connector.name}</TableCell>
-                <TableCell colSpan={4} className="text-muted-foreground text-sm">Loading metrics...</TableCell>
+                <TableCell colSpan={6} className="text-muted-foreground text-sm">Loading metrics...</TableCell>
             </TableRow>
         );
     }
@@ -47,6 +100,8 @@ function ConnectorHealthRow({ connector }: { connector: Connector }) {
     const avgLatency = metrics.length ? metrics.reduce((acc, m) => acc + m.durationMs, 0) / metrics.length : 0;
     const successCount = metrics.filter(m => m.status === 'success').length;
     const successRate = metrics.length ? (successCount / metrics.length) * 100 : 0;
+    const throttledMs = metrics.reduce((acc, m) => acc + m.throttledMs, 0);
+    const rateLimited = metrics.reduce((acc, m) => acc + m.rateLimitedResponses, 0);
 
     // Recharts expects data to go from old -> new for correct line rendering Left-to-Right
     const chartData = [...metrics].reverse().map((m, i) => ({ index: i, time: m.durationMs }));
@@ -65,6 +120,14 @@ function ConnectorHealthRow({ connector }: { connector: Connector }) {
                 {latest ? format(new Date(latest.createdAt), "MMM d, HH:mm") : "-"}
             </TableCell>
             <TableCell>{avgLatency ? `${Math.round(avgLatency)}ms` : "-"}</TableCell>
+            <TableCell data-testid={`badge-sla-${connector.id}`}>
+                <SlaStatusBadge health={health} />
+            </TableCell>
+            <TableCell className="whitespace-nowrap" data-testid={`text-throttling-${connector.id}`}>
+                {throttledMs || rateLimited
+                    ? `${(throttledMs / 1000).toFixed(1)}s${rateLimited ? ` · ${rateLimited}× 429` : ""}`
+                    : "-"}
+            </TableCell>
             <TableCell>
                 {metrics.length > 0 ? (
                     <div className="flex items-center gap-4">
@@ -93,12 +156,25 @@ function ConnectorHealthRow({ connector }: { connector: Connector }) {
 
 function ConnectorHealthTab() {
     const { data: connectors = [], isLoading } = useConnectors();
+    const { data: health = [] } = useConnectorHealth();
+    const healthCheck = useRunHealthCheck();
 
     return (
         <Card>
-            <CardHeader>
-                <CardTitle>Integrations Status</CardTitle>
-                <CardDescription>Real-time view of connector health and performance metrics.</CardDescription>
+            <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                    <CardTitle>Integrations Status</CardTitle>
+                    <CardDescription>Real-time view of connector health and performance metrics.</CardDescription>
+                </div>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => healthCheck.mutate()}
+                    disabled={healthCheck.isPending}
+                    data-testid="button-run-health-check"
+                >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${healthCheck.isPending ? "animate-spin" : ""}`} /> Run SLA Check
+                </Button>
             </CardHeader>
             <CardContent>
                 {isLoading ? (
@@ -112,19 +188,25 @@ function ConnectorHealthTab() {
                                     <TableHead>Latest Status</TableHead>
                                     <TableHead>Last Run</TableHead>
                                     <TableHead>Avg Latency</TableHead>
+                                    <TableHead>SLA</TableHead>
+                                    <TableHead>Throttling</TableHead>
                                     <TableHead>Success Rate & Latency Trend</TableHead>
                                 </TableRow>
                             </TableHeader>
                             <TableBody>
                                 {connectors.length === 0 && (
                                     <TableRow>
-                                        <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                                        <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
                                             No connectors found
                                         </TableCell>
                                     </TableRow>
                                 )}
                                 {connectors.map(c => (
-                                    <ConnectorHealthRow key={c.id} connector={c} />
+                                    <ConnectorHealthRow
+                                        key={c.id}
+                                        connector={c}
+                                        health={health.find(h => h.connectorId === c.id)}
+                                    />
                                 ))}
                             </TableBody>
                         </Table>
@@ -248,6 +330,8 @@ function SlaConfigRow({ connector, currentSla }: { connector: Connector, current
 
     const [maxLatency, setMaxLatency] = useState(currentSla?.maxLatencyMs?.toString() || "5000");
     const [successRate, setSuccessRate] = useState(currentSla?.successRateThreshold?.toString() || "95.00");
+    const [windowMinutes, setWindowMinutes] = useState(currentSla?.windowMinutes?.toString() || "15");
+    const [maxStaleness, setMaxStaleness] = useState(currentSla?.maxStalenessHours?.toString() || "");
     const [emails, setEmails] = useState(currentSla?.escalationEmails?.join(", ") || "");
 
     const handleSave = () => {
@@ -255,6 +339,9 @@ function SlaConfigRow({ connector, currentSla }: { connector: Connector, current
             connectorId: connector.id,
             maxLatencyMs: parseInt(maxLatency, 10),
             successRateThreshold: parseFloat(successRate).toString(),
+            windowMinutes: parseInt(windowMinutes, 10),
+            // Empty turns the freshness check off
+            maxStalenessHours: maxStaleness ? parseInt(maxStaleness, 10) : null,
             escalationEmails: emails.split(",").map(e => e.trim()).filter(Boolean),
         }, {
             onSuccess: () => setOpen(false)
@@ -266,6 +353,8 @@ function SlaConfigRow({ connector, currentSla }: { connector: Connector, current
             <TableCell className="font-medium">{connector.name}</TableCell>
             <TableCell>{currentSla ? `${currentSla.maxLatencyMs}ms` : <span className="text-muted-foreground">Default (5000ms)</span>}</TableCell>
             <TableCell>{currentSla ? `${currentSla.successRateThreshold}%` : <span className="text-muted-foreground">Default (95.00%)</span>}</TableCell>
+            <TableCell>{currentSla ? `${currentSla.windowMinutes} min` : <span className="text-muted-foreground">Default (15 min)</span>}</TableCell>
+            <TableCell>{currentSla?.maxStalenessHours ? `${currentSla.maxStalenessHours}h` : <span className="text-muted-foreground">Off</span>}</TableCell>
             <TableCell>
                 <Dialog open={open} onOpenChange={setOpen}>
                     <DialogTrigger asChild>
@@ -279,7 +368,7 @@ function SlaConfigRow({ connector, currentSla }: { connector: Connector, current
                         </DialogHeader>
                         <div className="grid gap-4 py-4">
                             <div className="grid gap-2">
-                                <Label htmlFor="latency">Max Latency (ms)</Label>
+                                <Label htmlFor="latency">Max Avg Page Latency (ms)</Label>
                                 <Input
                                     id="latency"
                                     type="number"
@@ -297,6 +386,27 @@ function SlaConfigRow({ connector, currentSla }: { connector: Connector, current
                                     onChange={(e) => setSuccessRate(e.target.value)}
                                 />
                             </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="windowMinutes">Evaluation Window (minutes)</Label>
+                                <Input
+                                    id="windowMinutes"
+                                    type="number"
+                                    min={1}
+                                    value={windowMinutes}
+                                    onChange={(e) => setWindowMinutes(e.target.value)}
+                                />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="maxStaleness">Max Staleness (hours without a successful sync)</Label>
+                                <Input
+                                    id="maxStaleness"
+                                    type="number"
+                                    min={1}
+                                    placeholder="Off"
+                                    value={maxStaleness}
+                                    onChange={(e) => setMaxStaleness(e.target.value)}
+                                />
+                            </div>
                             <div className="grid gap-2">
                                 <Label htmlFor="emails">Escalation Emails (comma separated)</Label>
                                 <Input
@@ -340,13 +450,15 @@ function SlaConfigTab() {
                                     <TableHead>Connector</TableHead>
                                     <TableHead>Max Latency</TableHead>
                                     <TableHead>Min Success Rate</TableHead>
+                                    <TableHead>Window</TableHead>
+                                    <TableHead>Max Staleness</TableHead>
                                     <TableHead className="w-32">Actions</TableHead>
                                 </TableRow>
                             </TableHeader>
                             <TableBody>
                                 {connectors.length === 0 && (
                                     <TableRow>
-                                        <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                                        <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
                                             No connectors found
                                         </TableCell>
                                     </TableRow>
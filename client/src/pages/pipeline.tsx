@@ -20,6 +20,7 @@ import { Button } from "@/components/ui/button";
 import { Loader2, Search, GripVertical, User, Phone, Mail, ChevronRight } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { LeadDetailSheet } from "@/components/lead-detail-sheet";
+import { StaleDataBadge } from "@/components/stale-data-badge";
 import type { Lead } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { format, startOfMonth, endOfMonth } from "date-fns";
@@ -126,12 +127,12 @@ export default function PipelinePage() {
 
   const getLeadName = (lead: Lead) => {
     const p = lead.payload as Record<string, unknown>;
-    return String(p.name || p.nome || p.full_name || lead.sourceId || "Sem nome");
+    return String(lead.name || p.name || p.nome || p.full_name || lead.sourceId || "Sem nome");
   };
 
   const getLeadEmail = (lead: Lead) => {
     const p = lead.payload as Record<string, unknown>;
-    return String(p.email || "");
+    return String(lead.email || p.email || "");
   };
 
   const getLeadPhone = (lead: Lead) => {
@@ -154,6 +155,10 @@ export default function PipelinePage() {
           Pipeline de Vendas
         </h1>
         <div className="flex flex-wrap items-center gap-2">
+          <StaleDataBadge
+            schoolId={schoolFilter !== "all" ? schoolFilter : undefined}
+            tables={["leads"]}
+          />
           <div className="relative">
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
@@ -349,6 +354,7 @@ export default function PipelinePage() {
       <LeadDetailSheet
         leadId={selectedLeadId}
         onClose={() => setSelectedLeadId(null)}
+        onSelectLead={setSelectedLeadId}
       />
     </div>
   );
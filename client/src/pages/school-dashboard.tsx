@@ -61,6 +61,7 @@ import {
     TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { SellerRankingTable } from "@/components/seller-ranking-table";
+import { StaleDataBadge } from "@/components/stale-data-badge";
 import {
     Dialog,
     DialogContent,
@@ -505,6 +506,8 @@ export default function SchoolDashboardPage() {
                         </Tooltip>
                     )}
 
+                    {effectiveSchoolId && <StaleDataBadge schoolId={effectiveSchoolId} />}
+
                     {/* Export */}
                     <div className="flex gap-1">
                         <Button
@@ -0,0 +1,11 @@
+-- Migration 030: in-process connector scheduler state
+-- last_scheduled_at: last cron window the scheduler fired (used to catch up on missed windows after restarts)
+-- next_scheduled_at: next cron window, computed in the school's timezone
+
+ALTER TABLE public.connectors
+  ADD COLUMN IF NOT EXISTS last_scheduled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS next_scheduled_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_connectors_next_scheduled_at
+  ON public.connectors (next_scheduled_at)
+  WHERE schedule_cron IS NOT NULL AND is_active = true;
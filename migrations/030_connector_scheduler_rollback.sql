@@ -0,0 +1,6 @@
+-- Rollback for migration 030
+DROP INDEX IF EXISTS public.idx_connectors_next_scheduled_at;
+
+ALTER TABLE public.connectors
+  DROP COLUMN IF EXISTS next_scheduled_at,
+  DROP COLUMN IF EXISTS last_scheduled_at;
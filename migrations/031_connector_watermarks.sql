@@ -0,0 +1,14 @@
+-- Migration 031: incremental sync high-water marks
+-- One row per connector; updated only after a successful sync_runs row.
+-- watermark_type: updated_since (max record timestamp) | cursor (last sync cursor)
+
+CREATE TABLE IF NOT EXISTS public.connector_watermarks (
+  id              uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  connector_id    uuid        NOT NULL UNIQUE REFERENCES public.connectors(id) ON DELETE CASCADE,
+  watermark_type  varchar(20) NOT NULL,
+  value           text        NOT NULL,
+  last_run_id     uuid        REFERENCES public.sync_runs(id) ON DELETE SET NULL,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT check_watermark_type CHECK (watermark_type IN ('updated_since', 'cursor'))
+);
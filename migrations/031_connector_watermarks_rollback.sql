@@ -0,0 +1,2 @@
+-- Rollback for migration 031
+DROP TABLE IF EXISTS public.connector_watermarks CASCADE;
@@ -0,0 +1,6 @@
+-- Migration 032: resumable sync runs
+-- checkpoint: cursor / offset / page and counters of the last fully committed page,
+-- written after every page so a failed run can be resumed via its runId
+
+ALTER TABLE public.sync_runs
+  ADD COLUMN IF NOT EXISTS checkpoint jsonb;
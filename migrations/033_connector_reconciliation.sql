@@ -0,0 +1,36 @@
+-- Migration 033: delete / tombstone propagation for connector records
+-- deleted_at on leads, payments and enrollments: set by reconciliation (soft_delete policy)
+-- sync_runs.records_deleted: number of rows reconciled away by the run
+-- connector_record_tombstones: history of every reconciled row, with a snapshot of it
+
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE public.enrollments
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE public.sync_runs
+  ADD COLUMN IF NOT EXISTS records_deleted integer DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.connector_record_tombstones (
+  id            uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  connector_id  uuid        NOT NULL REFERENCES public.connectors(id) ON DELETE CASCADE,
+  sync_run_id   uuid        REFERENCES public.sync_runs(id) ON DELETE SET NULL,
+  target_table  varchar(50) NOT NULL,
+  record_id     uuid        NOT NULL,
+  source_id     text        NOT NULL,
+  policy        varchar(20) NOT NULL,
+  snapshot      jsonb       NOT NULL,
+  created_at    timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT check_tombstone_target_table CHECK (target_table IN ('leads', 'payments', 'enrollments')),
+  CONSTRAINT check_tombstone_policy CHECK (policy IN ('soft_delete', 'tombstone'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_connector_record_tombstones_sync_run_id
+  ON public.connector_record_tombstones (sync_run_id);
+
+CREATE INDEX IF NOT EXISTS idx_connector_record_tombstones_connector_source
+  ON public.connector_record_tombstones (connector_id, source_id);
@@ -0,0 +1,14 @@
+-- Rollback for migration 033
+DROP TABLE IF EXISTS public.connector_record_tombstones;
+
+ALTER TABLE public.sync_runs
+  DROP COLUMN IF EXISTS records_deleted;
+
+ALTER TABLE public.enrollments
+  DROP COLUMN IF EXISTS deleted_at;
+
+ALTER TABLE public.payments
+  DROP COLUMN IF EXISTS deleted_at;
+
+ALTER TABLE public.leads
+  DROP COLUMN IF EXISTS deleted_at;
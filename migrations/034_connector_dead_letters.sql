@@ -0,0 +1,29 @@
+-- Migration 034: dead-letter queue for connector records
+-- Raw records that failed transform or upsert during a sync run, with the errors
+-- and the fingerprint of the mapping set they were processed with.
+-- status: pending (waiting for replay) | replayed | discarded
+
+CREATE TABLE IF NOT EXISTS public.connector_dead_letters (
+  id                 uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  connector_id       uuid        NOT NULL REFERENCES public.connectors(id) ON DELETE CASCADE,
+  sync_run_id        uuid        REFERENCES public.sync_runs(id) ON DELETE SET NULL,
+  source_id          text,
+  raw_record         jsonb       NOT NULL,
+  error_type         varchar(20) NOT NULL,
+  errors             jsonb       NOT NULL DEFAULT '[]'::jsonb,
+  mapping_version    varchar(64),
+  status             varchar(20) NOT NULL DEFAULT 'pending',
+  replay_count       integer     NOT NULL DEFAULT 0,
+  last_replayed_at   timestamptz,
+  last_replay_error  text,
+  created_at         timestamptz NOT NULL DEFAULT now(),
+  updated_at         timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT check_dead_letter_error_type CHECK (error_type IN ('transform', 'upsert')),
+  CONSTRAINT check_dead_letter_status CHECK (status IN ('pending', 'replayed', 'discarded'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_connector_dead_letters_connector_status
+  ON public.connector_dead_letters (connector_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_connector_dead_letters_source_id
+  ON public.connector_dead_letters (connector_id, source_id);
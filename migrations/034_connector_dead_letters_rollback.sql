@@ -0,0 +1,2 @@
+-- Rollback for migration 034
+DROP TABLE IF EXISTS public.connector_dead_letters;
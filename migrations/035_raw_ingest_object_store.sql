@@ -0,0 +1,18 @@
+-- Migration 035: raw ingest payloads in an object store
+-- raw_ingest_files rows now point at a gzipped page written to the configured
+-- backend (local filesystem or Supabase Storage) and remember the run that
+-- fetched it, so pages can be downloaded and reprocessed without calling the
+-- source again. Rows created before this migration keep storage_backend NULL:
+-- only their metadata exists.
+
+ALTER TABLE public.raw_ingest_files
+  ADD COLUMN IF NOT EXISTS sync_run_id      uuid        REFERENCES public.sync_runs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS storage_backend  varchar(20),
+  ADD COLUMN IF NOT EXISTS content_encoding varchar(20);
+
+ALTER TABLE public.raw_ingest_files
+  ADD CONSTRAINT check_raw_ingest_storage_backend
+  CHECK (storage_backend IS NULL OR storage_backend IN ('local', 'supabase'));
+
+CREATE INDEX IF NOT EXISTS idx_raw_ingest_files_sync_run_id
+  ON public.raw_ingest_files (sync_run_id);
@@ -0,0 +1,10 @@
+-- Rollback for migration 035
+DROP INDEX IF EXISTS public.idx_raw_ingest_files_sync_run_id;
+
+ALTER TABLE public.raw_ingest_files
+  DROP CONSTRAINT IF EXISTS check_raw_ingest_storage_backend;
+
+ALTER TABLE public.raw_ingest_files
+  DROP COLUMN IF EXISTS content_encoding,
+  DROP COLUMN IF EXISTS storage_backend,
+  DROP COLUMN IF EXISTS sync_run_id;
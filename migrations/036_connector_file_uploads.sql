@@ -0,0 +1,26 @@
+-- Migration 036: file_upload connectors
+-- One row per CSV/XLSX file sent to a file_upload connector. Each upload is
+-- ingested by its own sync run; the parsed page is kept in raw_ingest_files.
+-- header_drift lists the columns added/removed since the previous upload of
+-- the same connector.
+
+CREATE TABLE IF NOT EXISTS public.connector_file_uploads (
+  id            uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  connector_id  uuid        NOT NULL REFERENCES public.connectors(id) ON DELETE CASCADE,
+  sync_run_id   uuid        REFERENCES public.sync_runs(id) ON DELETE SET NULL,
+  raw_file_id   uuid        REFERENCES public.raw_ingest_files(id) ON DELETE SET NULL,
+  file_name     text        NOT NULL,
+  format        varchar(10) NOT NULL,
+  encoding      varchar(40),
+  delimiter     varchar(5),
+  sheet_name    text,
+  headers       jsonb       NOT NULL DEFAULT '[]'::jsonb,
+  header_drift  jsonb,
+  row_count     integer     NOT NULL DEFAULT 0,
+  uploaded_by   uuid        REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at    timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT check_file_upload_format CHECK (format IN ('csv', 'xlsx'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_connector_file_uploads_connector_id
+  ON public.connector_file_uploads (connector_id, created_at);
@@ -0,0 +1,2 @@
+-- Rollback for migration 036
+DROP TABLE IF EXISTS public.connector_file_uploads;
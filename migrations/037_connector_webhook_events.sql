@@ -0,0 +1,25 @@
+-- Migration 037: inbound webhook connectors
+-- Events pushed by a source to POST /api/webhooks/connectors/:id, verified with
+-- the HMAC secret in connectors.config.webhook. The unique (connector_id,
+-- event_id) index makes redelivered events idempotent. Pending events are
+-- flushed in batches; each batch is recorded as one (micro) sync run.
+-- status: pending | processed | failed
+
+CREATE TABLE IF NOT EXISTS public.connector_webhook_events (
+  id            uuid        PRIMARY KEY DEFAULT gen_random_uuid(),
+  connector_id  uuid        NOT NULL REFERENCES public.connectors(id) ON DELETE CASCADE,
+  event_id      text        NOT NULL,
+  payload       jsonb       NOT NULL,
+  status        varchar(20) NOT NULL DEFAULT 'pending',
+  sync_run_id   uuid        REFERENCES public.sync_runs(id) ON DELETE SET NULL,
+  error         text,
+  received_at   timestamptz NOT NULL DEFAULT now(),
+  processed_at  timestamptz,
+  CONSTRAINT check_webhook_event_status CHECK (status IN ('pending', 'processed', 'failed'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_connector_webhook_events_event_id
+  ON public.connector_webhook_events (connector_id, event_id);
+
+CREATE INDEX IF NOT EXISTS idx_connector_webhook_events_status
+  ON public.connector_webhook_events (connector_id, status);
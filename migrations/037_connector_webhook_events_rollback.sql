@@ -0,0 +1,2 @@
+-- Rollback for migration 037
+DROP TABLE IF EXISTS public.connector_webhook_events;
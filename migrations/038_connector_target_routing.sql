@@ -0,0 +1,19 @@
+-- Migration 038: connector target routing
+-- Connectors can now write to contas_a_receber, nps_surveys and manual_inputs
+-- (connectors.config.target). Rows written by a connector carry its ID and the
+-- source record ID so re-syncs update them instead of inserting duplicates.
+-- Rows entered by hand keep both columns NULL.
+
+ALTER TABLE public.nps_surveys
+  ADD COLUMN IF NOT EXISTS source_connector_id uuid REFERENCES public.connectors(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS source_id           text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_nps_source
+  ON public.nps_surveys (source_connector_id, source_id);
+
+ALTER TABLE public.manual_inputs
+  ADD COLUMN IF NOT EXISTS source_connector_id uuid REFERENCES public.connectors(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS source_id           text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_manual_inputs_source
+  ON public.manual_inputs (source_connector_id, source_id);
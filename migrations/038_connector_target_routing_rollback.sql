@@ -0,0 +1,10 @@
+-- Rollback for migration 038
+DROP INDEX IF EXISTS public.idx_manual_inputs_source;
+ALTER TABLE public.manual_inputs
+  DROP COLUMN IF EXISTS source_id,
+  DROP COLUMN IF EXISTS source_connector_id;
+
+DROP INDEX IF EXISTS public.idx_nps_source;
+ALTER TABLE public.nps_surveys
+  DROP COLUMN IF EXISTS source_id,
+  DROP COLUMN IF EXISTS source_connector_id;
@@ -0,0 +1,38 @@
+-- Migration 039: canonical columns on the normalized tables
+-- Typed copies of the canonical payload fields (CANONICAL_SCHEMAS in
+-- shared/schema.ts), written by connector upserts. Existing rows are filled by
+-- the canonical backfill job (POST /api/normalized/backfill); the payload stays
+-- the full record.
+
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS name  text,
+  ADD COLUMN IF NOT EXISTS email text,
+  ADD COLUMN IF NOT EXISTS phone text;
+
+CREATE INDEX IF NOT EXISTS idx_leads_email
+  ON public.leads (email);
+CREATE INDEX IF NOT EXISTS idx_leads_phone
+  ON public.leads (phone);
+
+ALTER TABLE public.enrollments
+  ADD COLUMN IF NOT EXISTS lead_id         uuid REFERENCES public.leads(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS enrollment_date date,
+  ADD COLUMN IF NOT EXISTS grade           text,
+  ADD COLUMN IF NOT EXISTS status          varchar(20);
+
+CREATE INDEX IF NOT EXISTS idx_enrollments_lead_id
+  ON public.enrollments (lead_id);
+CREATE INDEX IF NOT EXISTS idx_enrollments_enrollment_date
+  ON public.enrollments (enrollment_date);
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS amount        numeric(18, 4),
+  ADD COLUMN IF NOT EXISTS status        varchar(20),
+  ADD COLUMN IF NOT EXISTS payment_date  date,
+  ADD COLUMN IF NOT EXISTS paid_at       timestamptz,
+  ADD COLUMN IF NOT EXISTS enrollment_id uuid REFERENCES public.enrollments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_payment_date
+  ON public.payments (payment_date);
+CREATE INDEX IF NOT EXISTS idx_payments_enrollment_id
+  ON public.payments (enrollment_id);
@@ -0,0 +1,24 @@
+-- Rollback for migration 039
+DROP INDEX IF EXISTS public.idx_payments_enrollment_id;
+DROP INDEX IF EXISTS public.idx_payments_payment_date;
+ALTER TABLE public.payments
+  DROP COLUMN IF EXISTS enrollment_id,
+  DROP COLUMN IF EXISTS paid_at,
+  DROP COLUMN IF EXISTS payment_date,
+  DROP COLUMN IF EXISTS status,
+  DROP COLUMN IF EXISTS amount;
+
+DROP INDEX IF EXISTS public.idx_enrollments_enrollment_date;
+DROP INDEX IF EXISTS public.idx_enrollments_lead_id;
+ALTER TABLE public.enrollments
+  DROP COLUMN IF EXISTS status,
+  DROP COLUMN IF EXISTS grade,
+  DROP COLUMN IF EXISTS enrollment_date,
+  DROP COLUMN IF EXISTS lead_id;
+
+DROP INDEX IF EXISTS public.idx_leads_phone;
+DROP INDEX IF EXISTS public.idx_leads_email;
+ALTER TABLE public.leads
+  DROP COLUMN IF EXISTS phone,
+  DROP COLUMN IF EXISTS email,
+  DROP COLUMN IF EXISTS name;
@@ -0,0 +1,69 @@
+-- Migration 040: cross-connector identity resolution
+-- Leads and enrollments are matched on normalized e-mail, phone and CPF
+-- (identity_keys). Duplicate leads are linked to a golden record
+-- (lead_identity_links); matching is driven by identity_match_rules and can
+-- be overridden by ops through manual merge/unmerge (locked links).
+
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS cpf varchar(11);
+
+ALTER TABLE public.enrollments
+  ADD COLUMN IF NOT EXISTS email text,
+  ADD COLUMN IF NOT EXISTS phone text,
+  ADD COLUMN IF NOT EXISTS cpf   varchar(11);
+
+CREATE TABLE IF NOT EXISTS public.identity_match_rules (
+  id               uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key_type         varchar(10) NOT NULL CHECK (key_type IN ('email', 'phone', 'cpf')),
+  is_active        boolean NOT NULL DEFAULT true,
+  priority         integer NOT NULL DEFAULT 0,
+  same_school_only boolean NOT NULL DEFAULT true,
+  updated_at       timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_identity_match_rules_key_type
+  ON public.identity_match_rules (key_type);
+
+-- CPF identifies a person across schools; e-mail and phone are often shared
+-- by relatives, so they only match within the school
+INSERT INTO public.identity_match_rules (key_type, is_active, priority, same_school_only)
+VALUES
+  ('cpf',   true, 0, false),
+  ('email', true, 1, true),
+  ('phone', true, 2, true)
+ON CONFLICT (key_type) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.identity_keys (
+  id            uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id       uuid REFERENCES public.leads(id) ON DELETE CASCADE,
+  enrollment_id uuid REFERENCES public.enrollments(id) ON DELETE CASCADE,
+  key_type      varchar(10) NOT NULL CHECK (key_type IN ('email', 'phone', 'cpf')),
+  value         text NOT NULL,
+  created_at    timestamptz NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(lead_id, enrollment_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_identity_keys_lookup
+  ON public.identity_keys (key_type, value);
+CREATE INDEX IF NOT EXISTS idx_identity_keys_lead_id
+  ON public.identity_keys (lead_id);
+CREATE INDEX IF NOT EXISTS idx_identity_keys_enrollment_id
+  ON public.identity_keys (enrollment_id);
+
+CREATE TABLE IF NOT EXISTS public.lead_identity_links (
+  id             uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id        uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  golden_lead_id uuid NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  source         varchar(10) NOT NULL CHECK (source IN ('auto', 'manual')),
+  key_type       varchar(10),
+  matched_value  text,
+  locked         boolean NOT NULL DEFAULT false,
+  linked_by      uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at     timestamptz NOT NULL DEFAULT now(),
+  updated_at     timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_identity_links_lead_id
+  ON public.lead_identity_links (lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_identity_links_golden
+  ON public.lead_identity_links (golden_lead_id);
@@ -0,0 +1,12 @@
+-- Rollback for migration 040
+DROP TABLE IF EXISTS public.lead_identity_links;
+DROP TABLE IF EXISTS public.identity_keys;
+DROP TABLE IF EXISTS public.identity_match_rules;
+
+ALTER TABLE public.enrollments
+  DROP COLUMN IF EXISTS cpf,
+  DROP COLUMN IF EXISTS phone,
+  DROP COLUMN IF EXISTS email;
+
+ALTER TABLE public.leads
+  DROP COLUMN IF EXISTS cpf;
@@ -0,0 +1,22 @@
+-- Migration 041: versioned connector mappings
+-- Every change to a connector's mapping set records an immutable snapshot;
+-- sync runs reference the version they applied so stored raw pages can be
+-- reprocessed with the mappings of their time.
+
+CREATE TABLE IF NOT EXISTS public.connector_mapping_versions (
+  id           uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  connector_id uuid NOT NULL REFERENCES public.connectors(id) ON DELETE CASCADE,
+  version      integer NOT NULL,
+  mappings     jsonb NOT NULL,
+  fingerprint  varchar(12) NOT NULL,
+  reason       text,
+  created_by   uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at   timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_connector_mapping_versions_version
+  ON public.connector_mapping_versions (connector_id, version);
+
+ALTER TABLE public.sync_runs
+  ADD COLUMN IF NOT EXISTS mapping_version_id uuid
+    REFERENCES public.connector_mapping_versions(id) ON DELETE SET NULL;
@@ -0,0 +1,5 @@
+-- Rollback for migration 041
+ALTER TABLE public.sync_runs
+  DROP COLUMN IF EXISTS mapping_version_id;
+
+DROP TABLE IF EXISTS public.connector_mapping_versions;
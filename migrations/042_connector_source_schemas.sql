@@ -0,0 +1,17 @@
+-- Migration 042: schema drift detection
+-- Inferred source schema per connector (field path -> JSON type), updated
+-- after every run. Added, removed or retyped fields open a "schema_drift"
+-- row in integration_alerts.
+
+CREATE TABLE IF NOT EXISTS public.connector_source_schemas (
+  id              uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  connector_id    uuid NOT NULL UNIQUE REFERENCES public.connectors(id) ON DELETE CASCADE,
+  fields          jsonb NOT NULL DEFAULT '{}'::jsonb,
+  sampled_records integer NOT NULL DEFAULT 0,
+  last_run_id     uuid,
+  created_at      timestamptz NOT NULL DEFAULT now(),
+  updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_integration_alerts_connector_type
+  ON public.integration_alerts (connector_id, alert_type, status);
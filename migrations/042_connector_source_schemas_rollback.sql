@@ -0,0 +1,4 @@
+-- Rollback for migration 042
+DROP INDEX IF EXISTS public.idx_integration_alerts_connector_type;
+
+DROP TABLE IF EXISTS public.connector_source_schemas;
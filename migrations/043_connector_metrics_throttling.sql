@@ -0,0 +1,7 @@
+-- Migration 043: throttling metrics per connector run
+-- Time a run spent waiting on rate limits (token buckets, Retry-After,
+-- exhausted X-RateLimit quotas) and the 429 responses it received.
+
+ALTER TABLE public.connector_metrics
+  ADD COLUMN IF NOT EXISTS throttled_ms integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rate_limited_responses integer NOT NULL DEFAULT 0;
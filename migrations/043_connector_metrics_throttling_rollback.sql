@@ -0,0 +1,4 @@
+-- Rollback for migration 043
+ALTER TABLE public.connector_metrics
+  DROP COLUMN IF EXISTS rate_limited_responses,
+  DROP COLUMN IF EXISTS throttled_ms;
@@ -0,0 +1,11 @@
+-- Migration 044: per-page latencies and SLA evaluation windows
+-- connector_metrics rows are now written by runConnector itself, with the
+-- latency of every page fetched; the Node health evaluator reads them over
+-- each SLA's own window instead of the fixed 15 minutes of the
+-- check_integrations_health edge function.
+
+ALTER TABLE public.connector_metrics
+  ADD COLUMN IF NOT EXISTS page_latencies_ms jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.connector_slas
+  ADD COLUMN IF NOT EXISTS window_minutes integer NOT NULL DEFAULT 15;
@@ -0,0 +1,6 @@
+-- Rollback for migration 044
+ALTER TABLE public.connector_slas
+  DROP COLUMN IF EXISTS window_minutes;
+
+ALTER TABLE public.connector_metrics
+  DROP COLUMN IF EXISTS page_latencies_ms;
@@ -0,0 +1,7 @@
+-- Migration 045: data freshness SLA
+-- Hours a connector may go without a successful sync run before its data is
+-- considered stale (stale_data alert, "dados desatualizados" on dashboards).
+-- NULL disables the check.
+
+ALTER TABLE public.connector_slas
+  ADD COLUMN IF NOT EXISTS max_staleness_hours integer;
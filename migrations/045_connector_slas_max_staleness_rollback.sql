@@ -0,0 +1,3 @@
+-- Rollback for migration 045
+ALTER TABLE public.connector_slas
+  DROP COLUMN IF EXISTS max_staleness_hours;
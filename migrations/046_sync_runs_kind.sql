@@ -0,0 +1,7 @@
+-- Migration 046: kind of sync run
+-- Tells runs that read new data from the source (sync, upload, webhook) from
+-- dry runs and reprocessing of stored raw files. Only the former count for the
+-- data freshness SLA. Runs recorded before this migration are all 'sync'.
+
+ALTER TABLE public.sync_runs
+  ADD COLUMN IF NOT EXISTS kind varchar(20) NOT NULL DEFAULT 'sync';
@@ -0,0 +1,3 @@
+-- Rollback for migration 046
+ALTER TABLE public.sync_runs
+  DROP COLUMN IF EXISTS kind;
@@ -0,0 +1,13 @@
+-- Migration 047: connector type check
+-- chk_connectors_type (migration 004) only allowed crm, finance and academic,
+-- so creating google_sheets, manual_input, file_upload or webhook connectors
+-- failed on databases that have it. Widened to every CONNECTOR_TYPES value
+-- in shared/schema.ts.
+
+ALTER TABLE public.connectors
+  DROP CONSTRAINT IF EXISTS chk_connectors_type;
+
+ALTER TABLE public.connectors
+  ADD CONSTRAINT chk_connectors_type CHECK (
+    type IN ('crm', 'finance', 'academic', 'google_sheets', 'manual_input', 'file_upload', 'webhook')
+  );
@@ -0,0 +1,7 @@
+-- Rollback for migration 047
+-- NOT VALID: connectors of the newer types may already exist
+ALTER TABLE public.connectors
+  DROP CONSTRAINT IF EXISTS chk_connectors_type;
+
+ALTER TABLE public.connectors
+  ADD CONSTRAINT chk_connectors_type CHECK (type IN ('crm', 'finance', 'academic')) NOT VALID;
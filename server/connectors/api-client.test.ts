@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractDataFromResponse, parseLinkHeader } from "./api-client";
+
+test("parseLinkHeader maps each rel to its target", () => {
+  const header =
+    '<https://api.example.com/leads?page=2>; rel="next", ' +
+    '<https://api.example.com/leads?page=9>; rel="last", ' +
+    "<https://api.example.com/leads?page=1>; rel=first prev";
+  assert.deepEqual(parseLinkHeader(header), {
+    next: "https://api.example.com/leads?page=2",
+    last: "https://api.example.com/leads?page=9",
+    first: "https://api.example.com/leads?page=1",
+    prev: "https://api.example.com/leads?page=1",
+  });
+});
+
+test("parseLinkHeader keeps commas inside URLs and skips parts without rel", () => {
+  assert.deepEqual(
+    parseLinkHeader('<https://api.example.com/leads?ids=1,2,3>; rel="Next", <https://x.example>'),
+    { next: "https://api.example.com/leads?ids=1,2,3" }
+  );
+  assert.deepEqual(parseLinkHeader(null), {});
+});
+
+test("extractDataFromResponse finds records by path or common keys", () => {
+  assert.deepEqual(extractDataFromResponse({ results: [{ id: 1 }] }), [{ id: 1 }]);
+  assert.deepEqual(extractDataFromResponse({ payload: { leads: [{ id: 2 }] } }, "payload.leads"), [
+    { id: 2 },
+  ]);
+  assert.deepEqual(extractDataFromResponse({ id: 3 }), [{ id: 3 }]);
+  assert.deepEqual(extractDataFromResponse("nope"), []);
+});
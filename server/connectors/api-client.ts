@@ -1,5 +1,60 @@
 import { storage } from "../storage";
 import type { Connector } from "@shared/schema";
+import { openConnectorConfig } from "./secrets";
+import {
+  DEFAULT_MAX_WAIT_MS,
+  acquireRequestSlot,
+  createThrottleStats,
+  parseRateLimitReset,
+  parseRetryAfter,
+  pauseHost,
+  type RateLimitConfig,
+  type ThrottleStats,
+} from "./rate-limit";
+
+export interface IncrementalSyncConfig {
+  // updated_since: send the max record timestamp of the last successful run
+  // cursor: send the last sync cursor/token returned by the source
+  mode: "updated_since" | "cursor";
+  // Query parameter that carries the watermark, e.g. "updated_since"
+  param: string;
+  // updated_since only: record field holding the last-modified timestamp
+  field?: string;
+  // updated_since only: how the watermark is serialized in the query string
+  format?: "iso" | "epoch_s" | "epoch_ms";
+  // updated_since only: overlap window to tolerate clock skew at the source
+  lookbackSeconds?: number;
+}
+
+export const PAGINATION_TYPES = [
+  "none",
+  "offset",
+  "cursor",
+  "page",
+  // RFC 5988 Link header with rel="next"
+  "link_header",
+  // Full URL of the next page in the body
+  "next_url",
+  // ?since_id=<last record's key>
+  "keyset",
+] as const;
+export type PaginationType = (typeof PAGINATION_TYPES)[number];
+
+// connectors.config.pagination; paths are dot paths into the response body
+export interface PaginationConfig {
+  // Boolean telling whether another page exists; beats every heuristic
+  hasMorePath?: string;
+  // Total record count; pages stop once that many records were read
+  totalPath?: string;
+  // next_url: where the next URL is; "next", "links.next", "next_url",
+  // "_links.next.href" or "paging.next" by default
+  nextUrlPath?: string;
+  // keyset: query parameter and record field, "since_id" and "id" by default
+  keysetParam?: string;
+  keysetField?: string;
+}
+
+const DEFAULT_NEXT_URL_PATHS = ["next", "links.next", "next_url", "_links.next.href", "paging.next"];
 
 export interface ApiClientConfig {
   baseUrl: string;
@@ -14,16 +69,25 @@ export interface ApiClientConfig {
   };
   headers?: Record<string, string>;
   dataPath?: string;
-  paginationType?: "offset" | "cursor" | "page" | "none";
+  paginationType?: PaginationType;
   pageSize?: number;
+  pagination?: PaginationConfig;
+  incremental?: IncrementalSyncConfig;
+  rateLimit?: RateLimitConfig;
 }
 
 export interface FetchResult {
   data: Record<string, unknown>[];
   rawResponse: string;
+  // Position of the next page: a cursor, the next URL (link_header and
+  // next_url) or the last key (keyset)
   nextCursor?: string;
   hasMore: boolean;
   totalFetched: number;
+  // Value at config.pagination.totalPath, when present
+  total?: number;
+  // Link header targets by rel
+  links?: Record<string, string>;
 }
 
 interface RetryOptions {
@@ -52,9 +116,31 @@ function isRetryableError(status: number): boolean {
   return status === 429 || status >= 500;
 }
 
+/**
+ * Saves a refresh token the provider rotated while refreshing for a config
+ * that is not persisted (connection test). The old token may already be
+ * revoked, so it is replaced on the stored connector, provided that is the
+ * token that was used.
+ */
+async function saveRotatedRefreshToken(
+  connectorId: string,
+  usedRefreshToken: string,
+  tokens: { accessToken: string; refreshToken: string; expiresAt: number }
+): Promise<void> {
+  const stored = await storage.getConnector(connectorId);
+  if (!stored) return;
+  const storedConfig = openConnectorConfig(stored.config || {});
+  const storedOAuth = storedConfig.oauth as ApiClientConfig["oauth"] | undefined;
+  if (storedOAuth?.refreshToken !== usedRefreshToken) return;
+  await storage.updateConnector(connectorId, {
+    config: { ...storedConfig, oauth: { ...storedOAuth, ...tokens } },
+  });
+}
+
 async function refreshOAuthToken(
   connector: Connector,
-  oauthConfig: NonNullable<ApiClientConfig["oauth"]>
+  oauthConfig: NonNullable<ApiClientConfig["oauth"]>,
+  persist = true
 ): Promise<string> {
   if (!oauthConfig.refreshToken || !oauthConfig.tokenEndpoint) {
     throw new Error(
@@ -98,12 +184,66 @@ async function refreshOAuthToken(
     },
   };
 
-  await storage.updateConnector(connector.id, { config: updatedConfig });
+  if (persist) {
+    await storage.updateConnector(connector.id, { config: updatedConfig });
+  } else if (newRefreshToken !== oauthConfig.refreshToken) {
+    const { accessToken, refreshToken, expiresAt } = updatedConfig.oauth;
+    await saveRotatedRefreshToken(connector.id, oauthConfig.refreshToken, {
+      accessToken,
+      refreshToken,
+      expiresAt,
+    });
+  }
 
   return newAccessToken;
 }
 
-function extractDataFromResponse(
+function getJsonPath(body: unknown, path: string): unknown {
+  let current: unknown = body;
+  for (const part of path.split(".")) {
+    if (current == null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/** Targets of an RFC 5988 Link header by rel, e.g. { next: "https://..." }. */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]*)>(.*)/);
+    if (!match) continue;
+    const rel = match[2].match(/rel="?([^";]+)"?/i);
+    if (!rel) continue;
+    for (const name of rel[1].trim().split(/\s+/)) {
+      links[name.toLowerCase()] = match[1].trim();
+    }
+  }
+  return links;
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (value === "true" || value === 1 || value === "1") return true;
+  if (value === "false" || value === 0 || value === "0") return false;
+  return undefined;
+}
+
+/**
+ * Resolves a next-page URL from the response against the base URL. Only the
+ * base URL's origin is followed: the request carries the connector's
+ * credentials.
+ */
+function resolveNextUrl(next: string, baseUrl: string): URL {
+  const url = new URL(next, baseUrl);
+  if (url.origin !== new URL(baseUrl).origin) {
+    throw new Error(`Next page URL ${url.origin} is outside the connector's origin`);
+  }
+  return url;
+}
+
+export function extractDataFromResponse(
   responseBody: unknown,
   dataPath?: string
 ): Record<string, unknown>[] {
@@ -123,13 +263,7 @@ function extractDataFromResponse(
     return [];
   }
 
-  const parts = dataPath.split(".");
-  let current: unknown = responseBody;
-  for (const part of parts) {
-    if (current == null || typeof current !== "object") return [];
-    current = (current as Record<string, unknown>)[part];
-  }
-
+  const current = getJsonPath(responseBody, dataPath);
   if (Array.isArray(current)) return current;
   if (typeof current === "object" && current !== null) {
     return [current as Record<string, unknown>];
@@ -158,10 +292,18 @@ export async function fetchConnectorData(
     cursor?: string;
     offset?: number;
     page?: number;
+    watermark?: string;
     retry?: Partial<RetryOptions>;
+    // false: a refreshed OAuth access token is used for this request only;
+    // a rotated refresh token is still saved on the stored connector
+    persistToken?: boolean;
+    // Accumulates throttling across the pages of a run
+    throttle?: ThrottleStats;
+    // Records read by earlier pages, compared with the total at totalPath
+    recordsSoFar?: number;
   } = {}
 ): Promise<FetchResult> {
-  const config = connector.config as unknown as ApiClientConfig;
+  const config = openConnectorConfig(connector.config || {}) as unknown as ApiClientConfig;
 
   if (!config.baseUrl) {
     throw new Error("Connector config missing baseUrl");
@@ -171,15 +313,25 @@ export async function fetchConnectorData(
     config.oauth?.expiresAt &&
     config.oauth.expiresAt < Date.now() + 60000
   ) {
-    const newToken = await refreshOAuthToken(connector, config.oauth);
+    const newToken = await refreshOAuthToken(
+      connector,
+      config.oauth,
+      options.persistToken !== false
+    );
     config.oauth.accessToken = newToken;
   }
 
   const retryOpts = { ...DEFAULT_RETRY, ...options.retry };
-  const url = new URL(config.baseUrl);
-
   const paginationType = config.paginationType || "none";
   const pageSize = config.pageSize || 100;
+  const pagination = config.pagination || {};
+  const keysetParam = pagination.keysetParam || "since_id";
+
+  // The next URL of link_header/next_url already carries the paging params
+  const followsUrl = paginationType === "link_header" || paginationType === "next_url";
+  const url = followsUrl && options.cursor
+    ? resolveNextUrl(options.cursor, config.baseUrl)
+    : new URL(config.baseUrl);
 
   if (paginationType === "offset") {
     url.searchParams.set("limit", String(pageSize));
@@ -190,13 +342,24 @@ export async function fetchConnectorData(
   } else if (paginationType === "page") {
     url.searchParams.set("page", String(options.page || 1));
     url.searchParams.set("per_page", String(pageSize));
+  } else if (paginationType === "keyset") {
+    if (options.cursor) url.searchParams.set(keysetParam, options.cursor);
+    url.searchParams.set("limit", String(pageSize));
+  }
+
+  if (options.watermark && config.incremental?.param) {
+    url.searchParams.set(config.incremental.param, options.watermark);
   }
 
   const headers = buildAuthHeaders(config);
+  const host = url.host;
+  const throttle = options.throttle ?? createThrottleStats();
+  const maxWaitMs = config.rateLimit?.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
 
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < retryOpts.maxAttempts; attempt++) {
+    const release = await acquireRequestSlot(connector.id, host, config.rateLimit, throttle);
     try {
       const response = await fetch(url.toString(), {
         method: "GET",
@@ -204,15 +367,43 @@ export async function fetchConnectorData(
         signal: AbortSignal.timeout(30000),
       });
 
+      // Quota used up: the next request to the host waits for the reset, but
+      // never longer than maxWaitMs, so a far-off (or misread) reset cannot
+      // stall every connector on the host
+      const resetAt = parseRateLimitReset(response.headers);
+      const latestResume = Date.now() + maxWaitMs;
+      if (resetAt !== null) pauseHost(host, Math.min(resetAt, latestResume));
+
       if (!response.ok) {
+        if (response.status === 429) throttle.rateLimitedResponses++;
+        if (resetAt !== null && resetAt > latestResume) {
+          throw new Error(
+            `API rate limited (${response.status}): quota resets in ${Math.round((resetAt - Date.now()) / 1000)}s, beyond the ${Math.round(maxWaitMs / 1000)}s limit`
+          );
+        }
+        const retryAfter =
+          response.status === 429 || response.status === 503
+            ? parseRetryAfter(response.headers)
+            : null;
+        if (retryAfter !== null && retryAfter > maxWaitMs) {
+          throw new Error(
+            `API rate limited (${response.status}): Retry-After of ${Math.round(retryAfter / 1000)}s exceeds the ${Math.round(maxWaitMs / 1000)}s limit`
+          );
+        }
+
         if (isRetryableError(response.status) && attempt < retryOpts.maxAttempts - 1) {
-          const delay = response.status === 429
-            ? parseInt(response.headers.get("retry-after") || "0", 10) * 1000 || getExponentialDelay(attempt, retryOpts)
-            : getExponentialDelay(attempt, retryOpts);
+          const delay = retryAfter ?? getExponentialDelay(attempt, retryOpts);
           console.warn(
             `[sync] Retryable error ${response.status} from ${url}, attempt ${attempt + 1}/${retryOpts.maxAttempts}, waiting ${delay}ms`
           );
-          await sleep(delay);
+          if (response.status === 429 || retryAfter !== null) {
+            // Every connector on the host backs off, not just this one;
+            // the wait happens in the next acquireRequestSlot
+            pauseHost(host, Date.now() + delay);
+          } else {
+            release();
+            await sleep(delay);
+          }
           continue;
         }
 
@@ -233,35 +424,59 @@ export async function fetchConnectorData(
       }
 
       const data = extractDataFromResponse(body, config.dataPath);
+      const links = parseLinkHeader(response.headers.get("link"));
 
-      let hasMore = false;
       let nextCursor: string | undefined;
+      if (paginationType === "cursor" && typeof body === "object" && body !== null) {
+        const obj = body as Record<string, unknown>;
+        nextCursor =
+          (obj.next_cursor as string) ||
+          (obj.cursor as string) ||
+          (obj.next as string) ||
+          undefined;
+      } else if (paginationType === "link_header") {
+        nextCursor = links.next || undefined;
+      } else if (paginationType === "next_url") {
+        const paths = pagination.nextUrlPath ? [pagination.nextUrlPath] : DEFAULT_NEXT_URL_PATHS;
+        const next = paths.map((p) => getJsonPath(body, p)).find((v) => typeof v === "string" && v !== "");
+        nextCursor = next as string | undefined;
+      } else if (paginationType === "keyset" && data.length > 0) {
+        const key = getJsonPath(data[data.length - 1], pagination.keysetField || "id");
+        if (key != null && key !== "") nextCursor = String(key);
+      }
 
-      if (paginationType !== "none" && data.length >= pageSize) {
+      const rawTotal = pagination.totalPath ? Number(getJsonPath(body, pagination.totalPath)) : NaN;
+      const total = Number.isFinite(rawTotal) ? rawTotal : undefined;
+      const explicitHasMore = pagination.hasMorePath
+        ? toBoolean(getJsonPath(body, pagination.hasMorePath))
+        : undefined;
+      // Where the strategy needs a position, there is no next page without one
+      const needsCursor = paginationType !== "offset" && paginationType !== "page";
+
+      let hasMore: boolean;
+      if (paginationType === "none" || data.length === 0 || (needsCursor && !nextCursor)) {
+        hasMore = false;
+      } else if (explicitHasMore !== undefined) {
+        hasMore = explicitHasMore;
+      } else if (total !== undefined) {
+        hasMore = (options.recordsSoFar ?? 0) + data.length < total;
+      } else if (followsUrl) {
         hasMore = true;
-        if (
-          paginationType === "cursor" &&
-          typeof body === "object" &&
-          body !== null
-        ) {
-          const obj = body as Record<string, unknown>;
-          nextCursor =
-            (obj.next_cursor as string) ||
-            (obj.cursor as string) ||
-            (obj.next as string) ||
-            undefined;
-          if (!nextCursor) hasMore = false;
-        }
+      } else {
+        hasMore = data.length >= pageSize;
       }
 
       return {
         data,
         rawResponse: rawText,
-        nextCursor,
+        nextCursor: hasMore ? nextCursor : undefined,
         hasMore,
         totalFetched: data.length,
+        total,
+        links,
       };
     } catch (err) {
+      release();
       lastError = err instanceof Error ? err : new Error(String(err));
 
       if (attempt < retryOpts.maxAttempts - 1) {
@@ -284,6 +499,8 @@ export async function fetchConnectorData(
       }
 
       throw lastError;
+    } finally {
+      release();
     }
   }
 
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatCnpj,
+  formatCpf,
+  normalizeCnpj,
+  normalizeCpf,
+  normalizePhone,
+  parseDateInTimezone,
+  parseLocaleDecimal,
+  toDateInTimezone,
+  toE164Phone,
+} from "./br-formats";
+
+test("parseLocaleDecimal reads pt-BR and en-US numbers with symbols and signs", () => {
+  assert.equal(parseLocaleDecimal("1.234,56"), 1234.56);
+  assert.equal(parseLocaleDecimal("R$ 1.234,56"), 1234.56);
+  assert.equal(parseLocaleDecimal("(10,5)"), -10.5);
+  assert.equal(parseLocaleDecimal("10,5-"), -10.5);
+  assert.equal(parseLocaleDecimal("1,234.56", "en-US"), 1234.56);
+  assert.equal(parseLocaleDecimal(42), 42);
+});
+
+test("parseLocaleDecimal throws on values that do not fit the locale", () => {
+  assert.throws(() => parseLocaleDecimal("1,234.56"), /Invalid pt-BR number/);
+  assert.throws(() => parseLocaleDecimal("12.34"), /Invalid pt-BR number/);
+  assert.throws(() => parseLocaleDecimal("abc"), /Invalid pt-BR number/);
+  assert.throws(() => parseLocaleDecimal(null), /Invalid number/);
+  assert.throws(() => parseLocaleDecimal(Number.NaN), /Invalid number/);
+});
+
+test("parseDateInTimezone reads wall time in the timezone, across DST", () => {
+  assert.equal(
+    parseDateInTimezone("02/01/2026 10:30", "dd/MM/yyyy HH:mm").toISOString(),
+    "2026-01-02T13:30:00.000Z"
+  );
+  assert.equal(
+    parseDateInTimezone("15/07/2026 12:00", "dd/MM/yyyy HH:mm", "America/New_York").toISOString(),
+    "2026-07-15T16:00:00.000Z"
+  );
+  assert.equal(
+    toDateInTimezone(new Date("2026-01-02T01:00:00Z"), "America/Sao_Paulo"),
+    "2026-01-01"
+  );
+});
+
+test("parseDateInTimezone throws on a mismatch or an unknown timezone", () => {
+  assert.throws(() => parseDateInTimezone("2026-01-02", "dd/MM/yyyy"), /does not match/);
+  assert.throws(() => parseDateInTimezone("31/02/2026", "dd/MM/yyyy"), /does not match/);
+  assert.throws(() => parseDateInTimezone("02/01/2026", "dd/MM/yyyy", "Mars/Base"), /Unknown timezone/);
+});
+
+test("normalizeCpf checks the digits and restores leading zeros", () => {
+  assert.equal(normalizeCpf("529.982.247-25"), "52998224725");
+  assert.equal(normalizeCpf(52998224725), "52998224725");
+  assert.equal(normalizeCpf("1234567890"), "01234567890");
+  assert.equal(normalizeCpf("529.982.247-24"), null);
+  assert.equal(normalizeCpf("111.111.111-11"), null);
+  assert.equal(normalizeCpf("123456789012"), null);
+  assert.equal(formatCpf("52998224725"), "529.982.247-25");
+});
+
+test("normalizeCnpj checks the digits", () => {
+  assert.equal(normalizeCnpj("11.222.333/0001-81"), "11222333000181");
+  assert.equal(normalizeCnpj("11.222.333/0001-80"), null);
+  assert.equal(normalizeCnpj("00000000000000"), null);
+  assert.equal(formatCnpj("11222333000181"), "11.222.333/0001-81");
+});
+
+test("phones are reduced to DDD + number or written as E.164", () => {
+  assert.equal(normalizePhone("(11) 98765-4321"), "11987654321");
+  assert.equal(normalizePhone("+55 11 98765-4321"), "11987654321");
+  assert.equal(normalizePhone("011 3456-7890"), "1134567890");
+  assert.equal(normalizePhone("98765-4321"), null);
+  assert.equal(toE164Phone("(11) 98765-4321"), "+5511987654321");
+  assert.equal(toE164Phone("+1 (415) 555-0100"), "+14155550100");
+  assert.equal(toE164Phone("123"), null);
+});
@@ -0,0 +1,204 @@
+/**
+ * br-formats.ts
+ *
+ * Parsing and validation of Brazilian value formats: pt-BR decimals and
+ * currency ("R$ 1.234,56"), dates in an explicit pattern and timezone,
+ * CPF/CNPJ check digits and phone numbers. Used by the locale transform ops
+ * and by identity resolution. Parsers throw on values that do not fit so
+ * bad data surfaces as a transform error instead of a silent null.
+ */
+
+import { isValid, parse } from "date-fns";
+
+export const DEFAULT_TIMEZONE = "America/Sao_Paulo";
+const BRAZIL_COUNTRY_CODE = "55";
+
+// ─── Numbers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parses a pt-BR ("1.234,56") or en-US ("1,234.56") number. A currency
+ * symbol, spaces and a trailing or parenthesized sign are accepted.
+ */
+export function parseLocaleDecimal(value: unknown, locale: "pt-BR" | "en-US" = "pt-BR"): number {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Invalid number: ${value}`);
+    return value;
+  }
+  if (typeof value !== "string") throw new Error(`Invalid number: ${JSON.stringify(value)}`);
+
+  let text = value.replace(/R\$|US\$|\$/gi, "").replace(/\s/g, "");
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  } else if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const [group, decimal] = locale === "pt-BR" ? [".", ","] : [",", "."];
+  const pattern =
+    locale === "pt-BR"
+      ? /^[+-]?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/
+      : /^[+-]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/;
+  if (!pattern.test(text)) throw new Error(`Invalid ${locale} number: "${value}"`);
+
+  const n = Number(text.split(group).join("").replace(decimal, "."));
+  return negative ? -n : n;
+}
+
+// ─── Dates ────────────────────────────────────────────────────────────────────
+
+// Offset (ms) of a timezone from UTC at the given instant
+function getTimezoneOffset(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses a date in a date-fns pattern (e.g. "dd/MM/yyyy HH:mm") as wall
+ * time in timeZone and returns the instant. The whole value must match.
+ */
+export function parseDateInTimezone(
+  value: unknown,
+  pattern: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  if (!isValidTimezone(timeZone)) throw new Error(`Unknown timezone "${timeZone}"`);
+  const text = String(value ?? "").trim();
+  // Parsed in the server's zone only to read the wall-clock fields back
+  const local = parse(text, pattern, new Date(2000, 0, 1));
+  if (!isValid(local)) throw new Error(`"${text}" does not match date format "${pattern}"`);
+
+  const wallTime = Date.UTC(
+    local.getFullYear(),
+    local.getMonth(),
+    local.getDate(),
+    local.getHours(),
+    local.getMinutes(),
+    local.getSeconds(),
+    local.getMilliseconds()
+  );
+  // The offset at the wall time itself may differ across a DST change
+  let instant = wallTime - getTimezoneOffset(timeZone, wallTime);
+  instant = wallTime - getTimezoneOffset(timeZone, instant);
+  return new Date(instant);
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in timeZone
+export function toDateInTimezone(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// ─── Documents ────────────────────────────────────────────────────────────────
+
+export function isValidCpf(digits: string): boolean {
+  if (!/^\d{11}$/.test(digits) || /^(\d)\1{10}$/.test(digits)) return false;
+  for (const length of [9, 10]) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * (length + 1 - i);
+    }
+    const check = ((sum * 10) % 11) % 10;
+    if (check !== Number(digits[length])) return false;
+  }
+  return true;
+}
+
+export function isValidCnpj(digits: string): boolean {
+  if (!/^\d{14}$/.test(digits) || /^(\d)\1{13}$/.test(digits)) return false;
+  for (const length of [12, 13]) {
+    let sum = 0;
+    let weight = length - 7;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits[i]) * weight;
+      weight = weight === 2 ? 9 : weight - 1;
+    }
+    const remainder = sum % 11;
+    const check = remainder < 2 ? 0 : 11 - remainder;
+    if (check !== Number(digits[length])) return false;
+  }
+  return true;
+}
+
+function documentDigits(value: unknown, length: number): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const digits = String(value).replace(/\D/g, "");
+  if (digits.length === 0 || digits.length > length) return null;
+  // Spreadsheets drop the leading zeros
+  return digits.padStart(length, "0");
+}
+
+// CPF as its 11 digits; null unless the check digits match
+export function normalizeCpf(value: unknown): string | null {
+  const digits = documentDigits(value, 11);
+  return digits && isValidCpf(digits) ? digits : null;
+}
+
+// CNPJ as its 14 digits; null unless the check digits match
+export function normalizeCnpj(value: unknown): string | null {
+  const digits = documentDigits(value, 14);
+  return digits && isValidCnpj(digits) ? digits : null;
+}
+
+export function formatCpf(digits: string): string {
+  return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, "$1.$2.$3-$4");
+}
+
+export function formatCnpj(digits: string): string {
+  return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5");
+}
+
+// ─── Phones ───────────────────────────────────────────────────────────────────
+
+/**
+ * Brazilian numbers are reduced to area code + number (10 or 11 digits):
+ * leading zeros (trunk / international prefix) and the country code are
+ * dropped.
+ */
+export function normalizePhone(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  let digits = String(value).replace(/\D/g, "").replace(/^0+/, "");
+  if (digits.length >= 12 && digits.startsWith(BRAZIL_COUNTRY_CODE)) digits = digits.slice(2);
+  return digits.length === 10 || digits.length === 11 ? digits : null;
+}
+
+/**
+ * E.164 form of a phone number. Numbers written with "+" keep their country
+ * code; anything else is read as a Brazilian number.
+ */
+export function toE164Phone(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const text = String(value).trim();
+  if (text.startsWith("+") && !text.startsWith(`+${BRAZIL_COUNTRY_CODE}`)) {
+    const digits = text.replace(/\D/g, "");
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  const national = normalizePhone(text);
+  return national ? `+${BRAZIL_COUNTRY_CODE}${national}` : null;
+}
@@ -0,0 +1,155 @@
+/**
+ * canonical-backfill.ts
+ *
+ * Fills the canonical columns of rows written before they existed (or
+ * before a mapping started producing them) from the stored payload. Rows
+ * are walked in id order in batches; fields whose payload value does not
+ * fit the column are left null and counted. Leads and enrollments then go
+ * through identity resolution with their new keys.
+ *
+ * The backfill runs in the background (one at a time): startCanonicalBackfill
+ * returns right away and getCanonicalBackfillStatus reports the rows done so
+ * far per table. The status is kept in memory; a restart drops
+ * it, and running the backfill again is safe since every row is rewritten
+ * from its payload.
+ */
+
+import { storage } from "../storage";
+import {
+  NORMALIZED_TABLES,
+  type Enrollment,
+  type Lead,
+  type NormalizedTable,
+} from "@shared/schema";
+import { readCanonicalColumns } from "./targets";
+import { linkEnrollmentToLead, loadIdentityRules, resolveLeadIdentity } from "./identity";
+
+const BATCH_SIZE = 500;
+// Sample of invalid values returned in the report
+const MAX_REPORTED_ERRORS = 20;
+
+export interface CanonicalBackfillResult {
+  table: NormalizedTable;
+  scanned: number;
+  updated: number;
+  invalidFields: number;
+  errors: string[];
+}
+
+export type CanonicalBackfillState = "idle" | "running" | "completed" | "failed";
+
+export interface CanonicalBackfillStatus {
+  state: CanonicalBackfillState;
+  tables: NormalizedTable[];
+  startedAt: string | null;
+  finishedAt: string | null;
+  // Table being walked while running
+  currentTable: NormalizedTable | null;
+  // One entry per table started so far, the last one still growing
+  results: CanonicalBackfillResult[];
+  error: string | null;
+}
+
+let status: CanonicalBackfillStatus = {
+  state: "idle",
+  tables: [],
+  startedAt: null,
+  finishedAt: null,
+  currentTable: null,
+  results: [],
+  error: null,
+};
+
+export function isCanonicalBackfillRunning(): boolean {
+  return status.state === "running";
+}
+
+export function getCanonicalBackfillStatus(): CanonicalBackfillStatus {
+  return { ...status, results: status.results.map((r) => ({ ...r, errors: [...r.errors] })) };
+}
+
+/**
+ * Starts the backfill in the background and returns its initial status;
+ * throws when one is already running.
+ */
+export function startCanonicalBackfill(
+  tables: readonly NormalizedTable[] = NORMALIZED_TABLES
+): CanonicalBackfillStatus {
+  if (isCanonicalBackfillRunning()) {
+    throw new Error("A canonical backfill is already running");
+  }
+  status = {
+    state: "running",
+    tables: [...tables],
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    currentTable: null,
+    results: [],
+    error: null,
+  };
+  void runBackfill(tables);
+  return getCanonicalBackfillStatus();
+}
+
+async function runBackfill(tables: readonly NormalizedTable[]): Promise<void> {
+  try {
+    for (const table of tables) {
+      status.currentTable = table;
+      await backfillTable(table);
+    }
+    status.state = "completed";
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[backfill] Canonical backfill failed: ${msg}`);
+    status.state = "failed";
+    status.error = msg;
+  } finally {
+    status.currentTable = null;
+    status.finishedAt = new Date().toISOString();
+  }
+}
+
+// The result is in status.results from the start, so progress shows as rows are done
+async function backfillTable(table: NormalizedTable): Promise<CanonicalBackfillResult> {
+  const result: CanonicalBackfillResult = {
+    table,
+    scanned: 0,
+    updated: 0,
+    invalidFields: 0,
+    errors: [],
+  };
+  status.results.push(result);
+  let afterId: string | null = null;
+  const identityRules = await loadIdentityRules();
+
+  for (;;) {
+    const rows = await storage.getNormalizedRecordsPage(table, afterId, BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      result.scanned++;
+      const { columns, errors } = readCanonicalColumns(table, row.payload);
+      result.invalidFields += errors.length;
+      for (const err of errors) {
+        if (result.errors.length >= MAX_REPORTED_ERRORS) break;
+        result.errors.push(`${row.sourceId}: ${err}`);
+      }
+      await storage.updateCanonicalColumns(table, row.id, columns);
+      result.updated++;
+
+      if (table === "leads") {
+        await resolveLeadIdentity({ ...(row as Lead), ...columns }, identityRules);
+      } else if (table === "enrollments") {
+        await linkEnrollmentToLead({ ...(row as Enrollment), ...columns }, identityRules);
+      }
+    }
+
+    afterId = rows[rows.length - 1].id;
+    if (rows.length < BATCH_SIZE) break;
+  }
+
+  console.log(
+    `[backfill] ${table}: ${result.updated}/${result.scanned} rows updated, ${result.invalidFields} invalid field(s)`
+  );
+  return result;
+}
@@ -0,0 +1,149 @@
+/**
+ * connection-test.ts
+ *
+ * Dry connection test for API and Google Sheets connectors: one
+ * authenticated fetch of the first page with the (possibly unsaved) config,
+ * reporting latency, the records found, the pagination the response suggests
+ * and the fields discovered in it. Nothing is persisted: no run, no raw file,
+ * and a refreshed OAuth access token is not written back. A refresh token
+ * the provider rotated replaces the stored one, which no longer works.
+ */
+
+import type { Connector, SourceFieldType } from "@shared/schema";
+import { fetchConnectorData, type FetchResult } from "./api-client";
+import { fetchGoogleSheetData } from "./google-sheets-client";
+import { createSchemaSample, listSampleFields, observeRecord } from "./source-schema";
+
+export type DetectedPagination = "cursor" | "page" | "offset" | "link_header" | "next_url";
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  error: string | null;
+  latencyMs: number;
+  recordCount: number;
+  // Total announced by the response body ("total", "count", ...), if any
+  reportedTotal: number | null;
+  // Where the records were found; null when the body itself is the list
+  dataPath: string | null;
+  pagination: {
+    configured: string;
+    // Inferred from the response body; null when it carries no hint
+    detected: DetectedPagination | null;
+    hasMore: boolean;
+    nextCursor: string | null;
+  };
+  fields: Array<{ path: string; type: SourceFieldType }>;
+  sampleRecord: Record<string, unknown> | null;
+}
+
+const CURSOR_KEYS = ["next_cursor", "nextCursor", "cursor", "next"];
+const PAGE_KEYS = ["page", "current_page", "total_pages", "last_page"];
+const OFFSET_KEYS = ["offset", "skip"];
+const TOTAL_KEYS = ["total", "total_count", "totalCount", "count"];
+// Keys extractDataFromResponse falls back to without a dataPath
+const DEFAULT_DATA_KEYS = ["data", "results", "records", "items"];
+
+// Top-level object of the body plus its "meta"/"pagination" block, where
+// APIs usually put paging details
+function paginationFields(body: unknown): Record<string, unknown> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) return {};
+  const obj = body as Record<string, unknown>;
+  const fields: Record<string, unknown> = { ...obj };
+  for (const key of ["meta", "pagination", "paging"]) {
+    const nested = obj[key];
+    if (typeof nested === "object" && nested !== null && !Array.isArray(nested)) {
+      Object.assign(fields, nested);
+    }
+  }
+  return fields;
+}
+
+function detectPagination(
+  fields: Record<string, unknown>,
+  links: Record<string, string>
+): DetectedPagination | null {
+  const has = (keys: string[]) => keys.some((k) => fields[k] !== undefined && fields[k] !== null);
+  if (links.next) return "link_header";
+  const next = CURSOR_KEYS.map((k) => fields[k]).find((v) => typeof v === "string" && v !== "");
+  if (typeof next === "string") return /^(https?:\/\/|\/)/.test(next) ? "next_url" : "cursor";
+  if (has(PAGE_KEYS)) return "page";
+  if (has(OFFSET_KEYS)) return "offset";
+  return null;
+}
+
+function detectTotal(fields: Record<string, unknown>): number | null {
+  for (const key of TOTAL_KEYS) {
+    const value = fields[key];
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+function detectDataPath(connector: Connector, body: unknown): string | null {
+  const config = (connector.config || {}) as Record<string, unknown>;
+  if (config.dataPath) return String(config.dataPath);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) return null;
+  const obj = body as Record<string, unknown>;
+  return DEFAULT_DATA_KEYS.find((k) => Array.isArray(obj[k])) ?? null;
+}
+
+/**
+ * Fetches the first page of the connector's source once, without retries.
+ * Fetch failures are reported in the result rather than thrown.
+ */
+export async function testConnection(connector: Connector): Promise<ConnectionTestResult> {
+  const config = (connector.config || {}) as Record<string, unknown>;
+  const configured =
+    connector.type === "google_sheets" ? "none" : String(config.paginationType || "none");
+  const result: ConnectionTestResult = {
+    ok: false,
+    error: null,
+    latencyMs: 0,
+    recordCount: 0,
+    reportedTotal: null,
+    dataPath: null,
+    pagination: { configured, detected: null, hasMore: false, nextCursor: null },
+    fields: [],
+    sampleRecord: null,
+  };
+
+  const startedAt = Date.now();
+  let fetchResult: FetchResult;
+  try {
+    fetchResult =
+      connector.type === "google_sheets"
+        ? await fetchGoogleSheetData(connector, { persistToken: false })
+        : await fetchConnectorData(connector, {
+            retry: { maxAttempts: 1 },
+            persistToken: false,
+          });
+  } catch (err) {
+    result.latencyMs = Date.now() - startedAt;
+    result.error = err instanceof Error ? err.message : String(err);
+    return result;
+  }
+  result.latencyMs = Date.now() - startedAt;
+
+  const sample = createSchemaSample();
+  for (const record of fetchResult.data) {
+    observeRecord(sample, record);
+  }
+
+  result.ok = true;
+  result.recordCount = fetchResult.totalFetched;
+  result.reportedTotal = fetchResult.total ?? null;
+  result.fields = listSampleFields(sample);
+  result.sampleRecord = fetchResult.data[0] ?? null;
+  result.pagination.hasMore = fetchResult.hasMore;
+  result.pagination.nextCursor = fetchResult.nextCursor ?? null;
+
+  if (connector.type !== "google_sheets") {
+    const body = JSON.parse(fetchResult.rawResponse) as unknown;
+    const fields = paginationFields(body);
+    result.pagination.detected = detectPagination(fields, fetchResult.links ?? {});
+    if (result.reportedTotal === null) result.reportedTotal = detectTotal(fields);
+    result.dataPath = detectDataPath(connector, body);
+  }
+
+  return result;
+}
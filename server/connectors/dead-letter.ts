@@ -0,0 +1,169 @@
+/**
+ * dead-letter.ts
+ *
+ * Replays records parked in connector_dead_letters through the connector's
+ * current mappings. A replay that transforms and upserts cleanly marks the
+ * entry "replayed"; otherwise the entry stays pending with the new error in
+ * last_replay_error.
+ */
+
+import { storage } from "../storage";
+import type { ConnectorDeadLetter } from "@shared/schema";
+import {
+  applyMappings,
+  computeMappingVersion,
+  explodeRecord,
+  extractSourceId,
+  getExplodePath,
+  type ExplodedRow,
+} from "./transforms";
+import {
+  getTargetRouting,
+  resolveTargetTable,
+  upsertTargetRecord,
+  validateTargetPayload,
+} from "./targets";
+import { loadLookupContext } from "./lookups";
+import { loadIdentityRules } from "./identity";
+
+export interface ReplayResult {
+  id: string;
+  status: "replayed" | "failed";
+  sourceId: string | null;
+  errors: string[];
+}
+
+export interface ReplayBatchResult {
+  total: number;
+  replayed: number;
+  failed: number;
+  results: ReplayResult[];
+}
+
+export async function replayDeadLetters(
+  entries: ConnectorDeadLetter[]
+): Promise<ReplayBatchResult> {
+  const results: ReplayResult[] = [];
+  // Connector, mappings and lookups are loaded once per connector, not per
+  // entry
+  const contexts = new Map<string, Awaited<ReturnType<typeof loadContext>>>();
+
+  for (const entry of entries) {
+    if (!contexts.has(entry.connectorId)) {
+      contexts.set(entry.connectorId, await loadContext(entry.connectorId));
+    }
+    results.push(await replayOne(entry, contexts.get(entry.connectorId)!));
+  }
+
+  const replayed = results.filter((r) => r.status === "replayed").length;
+  return {
+    total: results.length,
+    replayed,
+    failed: results.length - replayed,
+    results,
+  };
+}
+
+async function loadContext(connectorId: string) {
+  const connector = await storage.getConnector(connectorId);
+  if (!connector) {
+    throw new Error(`Connector ${connectorId} not found`);
+  }
+  const mappings = await storage.getConnectorMappings(connectorId);
+  const config = (connector.config || {}) as Record<string, unknown>;
+  return {
+    connector,
+    mappings,
+    mappingVersion: computeMappingVersion(mappings),
+    targetRouting: getTargetRouting(connector),
+    sourceIdField: (config.sourceIdField as string) || "id",
+    defaultSchoolId: (config.schoolId as string) || null,
+    lookups: await loadLookupContext(),
+    identityRules: await loadIdentityRules(),
+  };
+}
+
+async function replayOne(
+  entry: ConnectorDeadLetter,
+  ctx: Awaited<ReturnType<typeof loadContext>>
+): Promise<ReplayResult> {
+  const errors: string[] = [];
+  let sourceId = extractSourceId(entry.rawRecord, ctx.sourceIdField);
+
+  if (entry.status !== "pending") {
+    errors.push(`Dead letter is ${entry.status}`);
+  } else if (ctx.mappings.length === 0) {
+    errors.push("No mappings configured for connector");
+  } else if (!sourceId) {
+    errors.push(`Record has no source ID (field: ${ctx.sourceIdField})`);
+  }
+
+  // An exploded row was parked with its own "<parent id>:<index>"; a parent
+  // record is exploded again
+  let rows: ExplodedRow[] = [];
+  if (errors.length === 0) {
+    try {
+      rows = explodeRecord(
+        entry.rawRecord,
+        sourceId!,
+        getExplodePath(ctx.mappings),
+        entry.sourceId
+      );
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  if (rows.length === 1) sourceId = rows[0].sourceId;
+
+  for (const row of rows) {
+    const target = resolveTargetTable(ctx.targetRouting, row.record);
+    if (!target.table) {
+      errors.push(target.error);
+      continue;
+    }
+
+    const transformResult = applyMappings(row.record, ctx.mappings, undefined, ctx.lookups);
+    const rowErrors = [
+      ...transformResult.errors,
+      ...validateTargetPayload(target.table, transformResult.payload),
+    ];
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      continue;
+    }
+
+    try {
+      await upsertTargetRecord(
+        target.table,
+        {
+          sourceConnectorId: entry.connectorId,
+          sourceId: row.sourceId,
+          payload: transformResult.payload,
+          schoolId:
+            (transformResult.payload.school_id as string) || ctx.defaultSchoolId,
+        },
+        ctx.identityRules
+      );
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      errors.push(`Failed to upsert ${row.sourceId}: ${msg}`);
+    }
+  }
+
+  if (entry.status === "pending") {
+    await storage.updateDeadLetter(entry.id, {
+      status: errors.length === 0 ? "replayed" : "pending",
+      sourceId: sourceId ?? entry.sourceId,
+      replayCount: entry.replayCount + 1,
+      lastReplayedAt: new Date(),
+      lastReplayError: errors.length > 0 ? errors.join("; ") : null,
+    });
+  }
+
+  return {
+    id: entry.id,
+    status: errors.length === 0 ? "replayed" : "failed",
+    sourceId,
+    errors,
+  };
+}
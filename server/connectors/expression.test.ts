@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateExpression, parseExpression } from "./expression";
+
+const record = {
+  status: "ativo",
+  valor: "10",
+  aluno: { nome: "Ana Souza", notas: [7, 9] },
+  "Nome Completo": "Ana",
+  vencimento: "2026-01-30",
+};
+
+function run(source: string, value: unknown = null): unknown {
+  return evaluateExpression(source, { value, record });
+}
+
+test("operators follow the usual precedence", () => {
+  assert.equal(run("1 + 2 * 3"), 7);
+  assert.equal(run("(1 + 2) * 3"), 9);
+  assert.equal(run("-2 * 3 + 10 % 4"), -4);
+  assert.equal(run("1 < 2 && 2 >= 2 || false"), true);
+  assert.equal(run("!(1 == 1) ? 'a' : 'b'"), "b");
+});
+
+test("fields of the record and the mapping value are readable", () => {
+  assert.equal(run("value * 2", 21), 42);
+  assert.equal(run("aluno.nome"), "Ana Souza");
+  assert.equal(run("aluno.notas[1]"), 9);
+  assert.equal(run('field("Nome Completo")'), "Ana");
+  assert.equal(run("missing.path"), undefined);
+});
+
+test('"+" concatenates strings and numeric strings compare as numbers', () => {
+  assert.equal(run("valor + 1"), "101");
+  assert.equal(run("number(valor) + 1"), 11);
+  assert.equal(run("valor > 9"), true);
+  assert.equal(run("valor == 10"), true);
+  assert.equal(run("null * 3"), null);
+});
+
+test("functions cover text, numbers, dates and null handling", () => {
+  assert.equal(run("upper(status)"), "ATIVO");
+  assert.equal(run("coalesce(nada, '', status)"), "ativo");
+  assert.equal(run("if(status == 'ativo', 1, 0)"), 1);
+  assert.equal(run("round(2.345, 2)"), 2.35);
+  assert.equal(run("add_days(vencimento, 3)"), "2026-02-02");
+  assert.equal(run("diff_days('2026-02-02', vencimento)"), 3);
+  assert.equal(run("is_empty(nada)"), true);
+});
+
+test("if(), coalesce() and ?: only evaluate what they use", () => {
+  assert.equal(run("if(true, 1, 1 / 0)"), 1);
+  assert.equal(run("true ? 1 : 1 / 0"), 1);
+  assert.equal(run("coalesce(1, 1 / 0)"), 1);
+  assert.throws(() => run("1 / 0"), /Division by zero/);
+});
+
+test("syntax errors and unknown functions are reported, never evaluated", () => {
+  assert.throws(() => parseExpression("1 +"), /Unexpected end of expression/);
+  assert.throws(() => parseExpression("'open"), /Unterminated string/);
+  assert.throws(() => parseExpression("process.exit(1)"), /Unexpected "\(" at position 12/);
+  assert.throws(() => parseExpression("eval('1')"), /Unknown function "eval"/);
+  assert.throws(() => parseExpression("constructor('x')"), /Unknown function "constructor"/);
+  assert.throws(() => parseExpression("upper()"), /upper\(\) takes 1 argument/);
+  assert.throws(() => parseExpression("x".repeat(2001)), /longer than 2000/);
+  assert.throws(() => parseExpression("(".repeat(100) + "1" + ")".repeat(100)), /nested too deeply/);
+});
+
+test("runtime type errors name the operation", () => {
+  assert.throws(() => run("status * 2"), /"\*": expected a number, got "ativo"/);
+  assert.throws(() => run("add_days('amanhã', 1)"), /add_days\(\): expected a date/);
+});
@@ -0,0 +1,541 @@
+/**
+ * expression.ts
+ *
+ * Small expression language for the "expression" transform op. Expressions
+ * are parsed into a tree and interpreted here; nothing is passed to eval or
+ * the Function constructor, and only the functions listed in FUNCTIONS can
+ * be called.
+ *
+ *   value                      current value of the mapping
+ *   status, aluno.nome, x[0]   fields of the raw record
+ *   field("Nome Completo")     field whose name is not an identifier
+ *   + - * / %  == != < <= > >=  && || !  cond ? a : b
+ *   if(cond, a, b), coalesce(a, b, ...), upper(s), add_days(d, n) ...
+ *
+ * "+" concatenates when either side is a string. Arithmetic on null yields
+ * null; on anything else that is not a number it is an error. Dates are
+ * ISO strings.
+ */
+
+import { getNestedValue } from "./transforms";
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_NESTING = 64;
+const MAX_CACHED_EXPRESSIONS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Node =
+  | { kind: "literal"; value: unknown }
+  | { kind: "path"; path: string }
+  | { kind: "unary"; op: "!" | "-"; operand: Node }
+  | { kind: "binary"; op: string; left: Node; right: Node }
+  | { kind: "conditional"; test: Node; then: Node; else: Node }
+  | { kind: "call"; name: string; args: Node[] };
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "ident"; value: string; pos: number }
+  | { type: "punct"; value: string; pos: number }
+  | { type: "end"; pos: number };
+
+export interface ExpressionScope {
+  value: unknown;
+  record: Record<string, unknown>;
+}
+
+// ─── Tokenizer ────────────────────────────────────────────────────────────────
+
+const PUNCTUATION = [
+  "==", "!=", "<=", ">=", "&&", "||",
+  "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", "(", ")", "[", "]", ",", ".",
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      const match = source.slice(i).match(/^\d+(\.\d+)?/)!;
+      tokens.push({ type: "number", value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === "\\" && j + 1 < source.length) j++;
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) throw new Error(`Unterminated string at position ${i}`);
+      tokens.push({ type: "string", value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ type: "ident", value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((p) => source.startsWith(p, i));
+    if (!punct) throw new Error(`Unexpected character "${ch}" at position ${i}`);
+    tokens.push({ type: "punct", value: punct, pos: i });
+    i += punct.length;
+  }
+
+  tokens.push({ type: "end", pos: source.length });
+  return tokens;
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+const BINARY_PRECEDENCE: Array<string[]> = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+class Parser {
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.type !== "end") {
+      throw new Error(`Unexpected ${describe(next)} at position ${next.pos}`);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private isPunct(value: string): boolean {
+    const t = this.peek();
+    return t.type === "punct" && t.value === value;
+  }
+
+  private expect(value: string): void {
+    if (!this.isPunct(value)) {
+      const t = this.peek();
+      throw new Error(`Expected "${value}" but found ${describe(t)} at position ${t.pos}`);
+    }
+    this.pos++;
+  }
+
+  private expression(): Node {
+    if (++this.depth > MAX_NESTING) throw new Error("Expression is nested too deeply");
+    try {
+      const test = this.binary(0);
+      if (!this.isPunct("?")) return test;
+      this.pos++;
+      const then = this.expression();
+      this.expect(":");
+      return { kind: "conditional", test, then, else: this.expression() };
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private binary(level: number): Node {
+    if (level >= BINARY_PRECEDENCE.length) return this.unary();
+    let left = this.binary(level + 1);
+    for (;;) {
+      const t = this.peek();
+      if (t.type !== "punct" || !BINARY_PRECEDENCE[level].includes(t.value)) return left;
+      this.pos++;
+      left = { kind: "binary", op: t.value, left, right: this.binary(level + 1) };
+    }
+  }
+
+  private unary(): Node {
+    if (this.isPunct("!") || this.isPunct("-")) {
+      const op = (this.tokens[this.pos++] as { value: "!" | "-" }).value;
+      if (++this.depth > MAX_NESTING) throw new Error("Expression is nested too deeply");
+      try {
+        return { kind: "unary", op, operand: this.unary() };
+      } finally {
+        this.depth--;
+      }
+    }
+    return this.primary();
+  }
+
+  private primary(): Node {
+    const t = this.peek();
+
+    if (t.type === "number" || t.type === "string") {
+      this.pos++;
+      return { kind: "literal", value: t.value };
+    }
+
+    if (this.isPunct("(")) {
+      this.pos++;
+      const node = this.expression();
+      this.expect(")");
+      return node;
+    }
+
+    if (t.type === "ident") {
+      this.pos++;
+      if (t.value === "true") return { kind: "literal", value: true };
+      if (t.value === "false") return { kind: "literal", value: false };
+      if (t.value === "null") return { kind: "literal", value: null };
+
+      if (this.isPunct("(")) {
+        this.pos++;
+        const name = t.value.toLowerCase();
+        if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) {
+          throw new Error(`Unknown function "${t.value}"`);
+        }
+        const args: Node[] = [];
+        if (!this.isPunct(")")) {
+          args.push(this.expression());
+          while (this.isPunct(",")) {
+            this.pos++;
+            args.push(this.expression());
+          }
+        }
+        this.expect(")");
+        const { min, max } = FUNCTIONS[name];
+        if (args.length < min || args.length > max) {
+          throw new Error(`${name}() takes ${min === max ? min : `${min} to ${max}`} argument(s)`);
+        }
+        return { kind: "call", name, args };
+      }
+
+      let path = t.value;
+      for (;;) {
+        if (this.isPunct(".")) {
+          this.pos++;
+          const part = this.peek();
+          if (part.type !== "ident") {
+            throw new Error(`Expected a field name at position ${part.pos}`);
+          }
+          this.pos++;
+          path += `.${part.value}`;
+        } else if (this.isPunct("[")) {
+          this.pos++;
+          const index = this.peek();
+          if (index.type !== "number" || !Number.isInteger(index.value)) {
+            throw new Error(`Expected an array index at position ${index.pos}`);
+          }
+          this.pos++;
+          this.expect("]");
+          path += `[${index.value}]`;
+        } else {
+          return { kind: "path", path };
+        }
+      }
+    }
+
+    throw new Error(`Unexpected ${describe(t)} at position ${t.pos}`);
+  }
+}
+
+function describe(t: Token): string {
+  return t.type === "end" ? "end of expression" : `"${t.value}"`;
+}
+
+const cache = new Map<string, Node>();
+
+export function parseExpression(source: string): Node {
+  const cached = cache.get(source);
+  if (cached) return cached;
+
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const node = new Parser(tokenize(source)).parse();
+  if (cache.size >= MAX_CACHED_EXPRESSIONS) cache.clear();
+  cache.set(source, node);
+  return node;
+}
+
+// ─── Evaluation ───────────────────────────────────────────────────────────────
+
+function toNumber(v: unknown, context: string): number | null {
+  if (v == null || v === "") return null;
+  if (typeof v === "boolean") return v ? 1 : 0;
+  const n = typeof v === "number" ? v : Number(String(v).trim());
+  if (!Number.isFinite(n)) throw new Error(`${context}: expected a number, got ${JSON.stringify(v)}`);
+  return n;
+}
+
+function toText(v: unknown): string {
+  if (v == null) return "";
+  return typeof v === "object" ? JSON.stringify(v) : String(v);
+}
+
+function toDate(v: unknown, context: string): Date | null {
+  if (v == null || v === "") return null;
+  const d = v instanceof Date ? v : new Date(typeof v === "number" ? v : String(v));
+  if (isNaN(d.getTime())) throw new Error(`${context}: expected a date, got ${JSON.stringify(v)}`);
+  return d;
+}
+
+function isTruthy(v: unknown): boolean {
+  if (Array.isArray(v)) return v.length > 0;
+  return v !== 0 && v !== "" && v != null && v !== false;
+}
+
+// Numbers and numeric strings compare as numbers, everything else as text
+function compare(a: unknown, b: unknown): number {
+  const na = typeof a === "number" ? a : a != null && a !== "" ? Number(a) : NaN;
+  const nb = typeof b === "number" ? b : b != null && b !== "" ? Number(b) : NaN;
+  if (!isNaN(na) && !isNaN(nb)) return na - nb;
+  return toText(a).localeCompare(toText(b));
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a == null || b == null) return a == null && b == null;
+  return compare(a, b) === 0;
+}
+
+function arithmetic(op: string, left: unknown, right: unknown): unknown {
+  if (op === "+" && (typeof left === "string" || typeof right === "string")) {
+    return toText(left) + toText(right);
+  }
+  const a = toNumber(left, `"${op}"`);
+  const b = toNumber(right, `"${op}"`);
+  if (a === null || b === null) return null;
+  switch (op) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      if (b === 0) throw new Error("Division by zero");
+      return a / b;
+    default:
+      if (b === 0) throw new Error("Division by zero");
+      return a % b;
+  }
+}
+
+function evaluate(node: Node, scope: ExpressionScope): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+
+    case "path":
+      if (node.path === "value") return scope.value;
+      return getNestedValue(scope.record, node.path);
+
+    case "unary": {
+      const v = evaluate(node.operand, scope);
+      if (node.op === "!") return !isTruthy(v);
+      const n = toNumber(v, "unary \"-\"");
+      return n === null ? null : -n;
+    }
+
+    case "conditional":
+      return isTruthy(evaluate(node.test, scope))
+        ? evaluate(node.then, scope)
+        : evaluate(node.else, scope);
+
+    case "binary": {
+      if (node.op === "&&") {
+        return isTruthy(evaluate(node.left, scope)) && isTruthy(evaluate(node.right, scope));
+      }
+      if (node.op === "||") {
+        return isTruthy(evaluate(node.left, scope)) || isTruthy(evaluate(node.right, scope));
+      }
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      switch (node.op) {
+        case "==":
+          return equals(left, right);
+        case "!=":
+          return !equals(left, right);
+        case "<":
+        case "<=":
+        case ">":
+        case ">=": {
+          if (left == null || right == null) return false;
+          const c = compare(left, right);
+          return node.op === "<" ? c < 0 : node.op === "<=" ? c <= 0 : node.op === ">" ? c > 0 : c >= 0;
+        }
+        default:
+          return arithmetic(node.op, left, right);
+      }
+    }
+
+    case "call": {
+      // Branches of if() are only evaluated when taken
+      if (node.name === "if") {
+        const [test, then, otherwise] = node.args;
+        if (isTruthy(evaluate(test, scope))) return evaluate(then, scope);
+        return otherwise ? evaluate(otherwise, scope) : null;
+      }
+      if (node.name === "coalesce") {
+        for (const arg of node.args) {
+          const v = evaluate(arg, scope);
+          if (v != null && v !== "") return v;
+        }
+        return null;
+      }
+      const args = node.args.map((a) => evaluate(a, scope));
+      return FUNCTIONS[node.name].fn(args, scope);
+    }
+  }
+}
+
+// ─── Functions ────────────────────────────────────────────────────────────────
+
+interface ExpressionFunction {
+  min: number;
+  max: number;
+  fn: (args: unknown[], scope: ExpressionScope) => unknown;
+}
+
+function text(fn: (s: string, args: unknown[]) => unknown, min = 1, max = min): ExpressionFunction {
+  return {
+    min,
+    max,
+    fn: (args) => (args[0] == null ? null : fn(toText(args[0]), args)),
+  };
+}
+
+function numeric(name: string, fn: (n: number, args: unknown[]) => unknown, min = 1, max = min): ExpressionFunction {
+  return {
+    min,
+    max,
+    fn: (args) => {
+      const n = toNumber(args[0], `${name}()`);
+      return n === null ? null : fn(n, args);
+    },
+  };
+}
+
+function dated(name: string, fn: (d: Date, args: unknown[]) => unknown, min = 1, max = min): ExpressionFunction {
+  return {
+    min,
+    max,
+    fn: (args) => {
+      const d = toDate(args[0], `${name}()`);
+      return d === null ? null : fn(d, args);
+    },
+  };
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  // if and coalesce are evaluated lazily in evaluate()
+  if: { min: 2, max: 3, fn: () => null },
+  coalesce: { min: 1, max: 20, fn: () => null },
+  field: {
+    min: 1,
+    max: 1,
+    fn: (args, scope) => getNestedValue(scope.record, toText(args[0])),
+  },
+  is_empty: {
+    min: 1,
+    max: 1,
+    fn: ([v]) => v == null || v === "" || (Array.isArray(v) && v.length === 0),
+  },
+
+  number: numeric("number", (n) => n),
+  string: { min: 1, max: 1, fn: ([v]) => (v == null ? null : toText(v)) },
+  boolean: { min: 1, max: 1, fn: ([v]) => isTruthy(v) },
+
+  upper: text((s) => s.toUpperCase()),
+  lower: text((s) => s.toLowerCase()),
+  trim: text((s) => s.trim()),
+  length: text((s) => s.length),
+  substring: text(
+    (s, [, start, end]) =>
+      s.substring(toNumber(start, "substring()") ?? 0, end == null ? undefined : toNumber(end, "substring()") ?? undefined),
+    2,
+    3
+  ),
+  replace: text((s, [, search, replacement]) => s.split(toText(search)).join(toText(replacement)), 3),
+  contains: text((s, [, search]) => s.includes(toText(search)), 2),
+  starts_with: text((s, [, search]) => s.startsWith(toText(search)), 2),
+  ends_with: text((s, [, search]) => s.endsWith(toText(search)), 2),
+  concat: { min: 1, max: 20, fn: (args) => args.map(toText).join("") },
+
+  round: numeric(
+    "round",
+    (n, [, digits]) => {
+      const factor = 10 ** (toNumber(digits, "round()") ?? 0);
+      return Math.round(n * factor) / factor;
+    },
+    1,
+    2
+  ),
+  floor: numeric("floor", Math.floor),
+  ceil: numeric("ceil", Math.ceil),
+  abs: numeric("abs", Math.abs),
+  min: {
+    min: 1,
+    max: 20,
+    fn: (args) => {
+      const nums = args.map((a) => toNumber(a, "min()")).filter((n): n is number => n !== null);
+      return nums.length > 0 ? Math.min(...nums) : null;
+    },
+  },
+  max: {
+    min: 1,
+    max: 20,
+    fn: (args) => {
+      const nums = args.map((a) => toNumber(a, "max()")).filter((n): n is number => n !== null);
+      return nums.length > 0 ? Math.max(...nums) : null;
+    },
+  },
+
+  now: { min: 0, max: 0, fn: () => new Date().toISOString() },
+  today: { min: 0, max: 0, fn: () => new Date().toISOString().slice(0, 10) },
+  date: dated("date", (d) => d.toISOString().slice(0, 10)),
+  datetime: dated("datetime", (d) => d.toISOString()),
+  year: dated("year", (d) => d.getUTCFullYear()),
+  month: dated("month", (d) => d.getUTCMonth() + 1),
+  day: dated("day", (d) => d.getUTCDate()),
+  add_days: dated(
+    "add_days",
+    (d, [, days]) => {
+      const n = toNumber(days, "add_days()");
+      if (n === null) return null;
+      return new Date(d.getTime() + n * DAY_MS).toISOString().slice(0, 10);
+    },
+    2
+  ),
+  diff_days: dated(
+    "diff_days",
+    (d, [, other]) => {
+      const o = toDate(other, "diff_days()");
+      if (o === null) return null;
+      return Math.round((d.getTime() - o.getTime()) / DAY_MS);
+    },
+    2
+  ),
+};
+
+/**
+ * Evaluates an expression against the mapping's current value and the raw
+ * record. Syntax and runtime errors are thrown with a readable message.
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): unknown {
+  return evaluate(parseExpression(source), scope);
+}
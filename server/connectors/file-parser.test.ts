@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import ExcelJS from "exceljs";
+import { detectFileFormat, parseUploadedFile } from "./file-parser";
+
+async function workbookBuffer(rows: ExcelJS.CellValue[][], sheetName = "Plan1"): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  for (const row of rows) sheet.addRow(row);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+test("detectFileFormat accepts csv/txt and xlsx only", () => {
+  assert.equal(detectFileFormat("leads.CSV"), "csv");
+  assert.equal(detectFileFormat("leads.txt"), "csv");
+  assert.equal(detectFileFormat("leads.xlsx"), "xlsx");
+  assert.equal(detectFileFormat("leads.xls"), null);
+});
+
+test("CSV: detects ';', keeps quoted delimiters and renames repeated headers", async () => {
+  const csv = 'nome;valor;nome\n"Silva; Ana";"1.234,56";x\n\n';
+  const parsed = await parseUploadedFile(Buffer.from(csv), "f.csv");
+  assert.equal(parsed.delimiter, ";");
+  assert.deepEqual(parsed.headers, ["nome", "valor", "nome_2"]);
+  assert.deepEqual(parsed.records, [{ nome: "Silva; Ana", valor: "1.234,56", nome_2: "x" }]);
+});
+
+test("XLSX: native values, ISO dates, formula results and rich text", async () => {
+  const buffer = await workbookBuffer([
+    ["Nome", "Valor", "Data", "Obs"],
+    ["  Ana ", 10.5, new Date("2026-01-02T00:00:00Z"), { richText: [{ text: "a" }, { text: "b" }] }],
+    [],
+    ["Bob", { formula: "1+1", result: 2 } as ExcelJS.CellValue, null, ""],
+  ]);
+  const parsed = await parseUploadedFile(buffer, "f.xlsx");
+  assert.equal(parsed.sheetName, "Plan1");
+  assert.deepEqual(parsed.records, [
+    { Nome: "Ana", Valor: 10.5, Data: "2026-01-02T00:00:00.000Z", Obs: "ab" },
+    { Nome: "Bob", Valor: 2, Data: null, Obs: null },
+  ]);
+});
+
+test("XLSX: a missing sheet or a non-workbook file is an error", async () => {
+  const buffer = await workbookBuffer([["a"], [1]]);
+  await assert.rejects(parseUploadedFile(buffer, "f.xlsx", { sheetName: "Outra" }), /Sheet "Outra" not found/);
+  await assert.rejects(parseUploadedFile(Buffer.from("not a zip"), "f.xlsx"), /Not a valid \.xlsx workbook/);
+});
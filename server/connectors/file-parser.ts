@@ -0,0 +1,244 @@
+/**
+ * file-parser.ts
+ *
+ * Parses files sent to file_upload connectors (CSV and XLSX) into plain
+ * records keyed by header, ready for applyMappings.
+ *
+ * CSV cells are kept as trimmed strings (empty → null) so values such as
+ * "01234" or "1.234,56" survive untouched; casting is left to the mapping
+ * transforms. XLSX cells keep their native type, dates become ISO strings;
+ * formulas give their cached result and rich text / hyperlinks their text.
+ * XLSX is read with exceljs, which does not read the legacy binary .xls.
+ */
+
+import iconv from "iconv-lite";
+import ExcelJS from "exceljs";
+import type { UploadFileFormat } from "@shared/schema";
+
+// connectors.config of a file_upload connector (each field may be
+// overridden per upload)
+export interface FileUploadConfig {
+  // CSV only; auto-detected from the header line (",", ";", tab or "|")
+  // when not set
+  delimiter?: string;
+  // CSV only; any encoding known to iconv-lite, e.g. "latin1", "win1252"
+  encoding?: string;
+  // XLSX only; defaults to the first sheet
+  sheetName?: string;
+}
+
+export interface ParsedUploadFile {
+  format: UploadFileFormat;
+  headers: string[];
+  records: Record<string, unknown>[];
+  // Effective options, after auto-detection
+  delimiter?: string;
+  encoding?: string;
+  sheetName?: string;
+}
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+
+export function detectFileFormat(fileName: string): UploadFileFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "csv" || ext === "txt") return "csv";
+  if (ext === "xlsx") return "xlsx";
+  return null;
+}
+
+export function isSupportedEncoding(encoding: string): boolean {
+  return iconv.encodingExists(encoding);
+}
+
+/**
+ * Blank headers become col_<n>; repeated headers get a _2, _3… suffix so no
+ * column silently overwrites another.
+ */
+function normalizeHeaders(row: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return row.map((cell, i) => {
+    const base = cell == null || String(cell).trim() === "" ? `col_${i}` : String(cell).trim();
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+}
+
+function toRecords(headers: string[], rows: unknown[][]): Record<string, unknown>[] {
+  return rows
+    .filter((row) => row.some((cell) => cell != null && cell !== ""))
+    .map((row) =>
+      Object.fromEntries(headers.map((header, i) => [header, row[i] ?? null]))
+    );
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * RFC 4180 tokenizer: quoted fields may contain the delimiter, line breaks
+ * and doubled quotes.
+ */
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = "";
+      i += delimiter.length - 1;
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field in CSV");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseCsv(buffer: Buffer, config: FileUploadConfig): ParsedUploadFile {
+  const encoding = config.encoding || "utf-8";
+  if (!isSupportedEncoding(encoding)) {
+    throw new Error(`Unsupported encoding: ${encoding}`);
+  }
+  // iconv-lite strips the UTF-8 BOM by default
+  const text = iconv.decode(buffer, encoding);
+  const delimiter = config.delimiter || detectDelimiter(text);
+
+  const rows = parseCsvRows(text, delimiter);
+  if (rows.length === 0) {
+    throw new Error("File is empty");
+  }
+
+  const headers = normalizeHeaders(rows[0]);
+  const dataRows = rows.slice(1).map((row) =>
+    row.map((cell) => {
+      const trimmed = cell.trim();
+      return trimmed === "" ? null : trimmed;
+    })
+  );
+
+  return {
+    format: "csv",
+    headers,
+    records: toRecords(headers, dataRows),
+    delimiter,
+    encoding,
+  };
+}
+
+// Plain value of an exceljs cell
+function xlsxCellValue(value: ExcelJS.CellValue): unknown {
+  if (value == null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed === "" ? null : trimmed;
+  }
+  if (typeof value !== "object") return value;
+  if ("richText" in value) return xlsxCellValue(value.richText.map((part) => part.text).join(""));
+  if ("formula" in value || "sharedFormula" in value) {
+    return xlsxCellValue((value as ExcelJS.CellFormulaValue).result ?? null);
+  }
+  if ("hyperlink" in value) return xlsxCellValue(value.text as ExcelJS.CellValue);
+  if ("error" in value) return null;
+  return null;
+}
+
+async function parseXlsx(buffer: Buffer, config: FileUploadConfig): Promise<ParsedUploadFile> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Not a valid .xlsx workbook: ${msg}`);
+  }
+  const sheet = config.sheetName
+    ? workbook.getWorksheet(config.sheetName)
+    : workbook.worksheets[0];
+  if (!sheet) {
+    throw new Error(
+      config.sheetName ? `Sheet "${config.sheetName}" not found` : "Workbook has no sheets"
+    );
+  }
+
+  // row.values is 1-based; empty rows are skipped
+  const rows: unknown[][] = [];
+  sheet.eachRow((row) => {
+    const values = row.values as ExcelJS.CellValue[];
+    const cells: unknown[] = [];
+    for (let i = 1; i < values.length; i++) cells.push(xlsxCellValue(values[i]));
+    rows.push(cells);
+  });
+  if (rows.length === 0) {
+    throw new Error("File is empty");
+  }
+
+  const headers = normalizeHeaders(rows[0]);
+  return {
+    format: "xlsx",
+    headers,
+    records: toRecords(headers, rows.slice(1)),
+    sheetName: sheet.name,
+  };
+}
+
+export async function parseUploadedFile(
+  buffer: Buffer,
+  fileName: string,
+  config: FileUploadConfig = {}
+): Promise<ParsedUploadFile> {
+  const format = detectFileFormat(fileName);
+  switch (format) {
+    case "csv":
+      return parseCsv(buffer, config);
+    case "xlsx":
+      return parseXlsx(buffer, config);
+    default:
+      throw new Error(`Unsupported file type: ${fileName} (expected .csv or .xlsx)`);
+  }
+}
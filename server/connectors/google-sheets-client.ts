@@ -26,6 +26,7 @@ import { google } from "googleapis";
 import { storage } from "../storage";
 import type { Connector } from "@shared/schema";
 import type { FetchResult } from "./api-client";
+import { openConnectorConfig } from "./secrets";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -51,13 +52,15 @@ export interface GoogleSheetsConfig {
 /**
  * Checks whether the stored access token has expired (with a 60-second
  * buffer) and, if so, uses the refresh token to obtain a new one.
- * Persists the new tokens back to connectors.config.
+ * Persists the new tokens back to connectors.config (encrypted by storage)
+ * unless persist is false.
  *
  * Returns the valid access token.
  */
 async function ensureValidToken(
     connector: Connector,
-    oauth: GoogleSheetsOAuthConfig
+    oauth: GoogleSheetsOAuthConfig,
+    persist = true
 ): Promise<string> {
     const needsRefresh =
         !oauth.accessToken ||
@@ -96,7 +99,7 @@ async function ensureValidToken(
     const newExpiresAt =
         refreshResult.credentials.expiry_date ?? Date.now() + 3_600_000;
 
-    // Persist refreshed tokens back to connector config
+    // Persist refreshed tokens back to connector config; storage encrypts them
     const updatedConfig = {
         ...(connector.config as Record<string, unknown>),
         oauth: {
@@ -105,7 +108,9 @@ async function ensureValidToken(
             expiresAt: newExpiresAt,
         },
     };
-    await storage.updateConnector(connector.id, { config: updatedConfig });
+    if (persist) {
+        await storage.updateConnector(connector.id, { config: updatedConfig });
+    }
 
     return newAccessToken;
 }
@@ -149,7 +154,7 @@ function normalizeCell(raw: string): unknown {
  * plain objects.  The first row (when firstRowIsHeader is true) is used as
  * header names.  Missing trailing cells in a row are filled with null.
  */
-function parseSheetValues(
+export function parseSheetValues(
     values: string[][],
     firstRowIsHeader: boolean
 ): Record<string, unknown>[] {
@@ -189,9 +194,10 @@ function parseSheetValues(
  * returns the entire requested range; therefore hasMore is always false.
  */
 export async function fetchGoogleSheetData(
-    connector: Connector
+    connector: Connector,
+    options: { persistToken?: boolean } = {}
 ): Promise<FetchResult> {
-    const config = connector.config as unknown as GoogleSheetsConfig;
+    const config = openConnectorConfig(connector.config || {}) as unknown as GoogleSheetsConfig;
 
     // ── Validate required config fields ────────────────────────────────────────
     if (!config.spreadsheetId) {
@@ -216,7 +222,11 @@ export async function fetchGoogleSheetData(
     }
 
     // ── Refresh token if necessary ─────────────────────────────────────────────
-    const accessToken = await ensureValidToken(connector, config.oauth);
+    const accessToken = await ensureValidToken(
+        connector,
+        config.oauth,
+        options.persistToken !== false
+    );
 
     // ── Instantiate Sheets client ──────────────────────────────────────────────
     const oauthClient = new google.auth.OAuth2(
@@ -0,0 +1,299 @@
+/**
+ * health.ts
+ *
+ * SLA evaluation of connectors inside the Node server, replacing the
+ * check_integrations_health edge function. Every tick it reads, for each
+ * connector_slas row, the connector_metrics written by the sync engine over
+ * the SLA's own window (window_minutes) and checks:
+ *
+ *   - success rate: runs not "failed" / all runs, against success_rate_threshold
+ *   - latency: average page fetch time (rate-limit waits excluded), against
+ *     max_latency_ms; runs without pages (webhook batches) count their
+ *     whole duration
+ *
+ * A breach raises an "sla_breach" integration alert unless one is already
+ * open or acknowledged for the connector. Connectors with no runs in the
+ * window are reported as "no_data" and do not alert on these checks.
+ *
+ * Freshness is checked separately, since a connector whose schedule silently
+ * stopped has no runs at all: with max_staleness_hours set, a connector with
+ * no successful sync_runs row finished in that many hours (counting from its
+ * creation when it never succeeded) is stale. Dry runs and reprocessing of
+ * stored raw files do not count, as they read nothing new from the source. That raises a "stale_data"
+ * alert and flags the dashboards fed by the connector.
+ */
+
+import { storage } from "../storage";
+import type { Connector, ConnectorMetric, ConnectorSla, TargetTable } from "@shared/schema";
+import { getRoutedTables, getTargetRouting } from "./targets";
+
+const TICK_INTERVAL_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// Success rate this far below the threshold makes the alert critical
+const CRITICAL_SUCCESS_RATE_MARGIN = 10;
+// Data older than this many times max_staleness_hours makes the alert critical
+const CRITICAL_STALENESS_FACTOR = 2;
+
+export const SLA_BREACH_ALERT_TYPE = "sla_breach";
+export const STALE_DATA_ALERT_TYPE = "stale_data";
+
+export type ConnectorHealthStatus = "healthy" | "breached" | "no_data";
+
+export interface ConnectorHealth {
+  connectorId: string;
+  status: ConnectorHealthStatus;
+  windowMinutes: number;
+  totalRuns: number;
+  failedRuns: number;
+  // null when there were no runs in the window
+  successRate: number | null;
+  avgLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  lastRunAt: string | null;
+  breaches: string[];
+  // null when the SLA sets no max_staleness_hours
+  freshness: DataFreshness | null;
+}
+
+export interface DataFreshness {
+  connectorId: string;
+  connectorName: string;
+  schoolId: string | null;
+  // Tables the connector writes to, i.e. the data going stale
+  tables: TargetTable[];
+  lastSuccessAt: string | null;
+  hoursSinceSuccess: number;
+  maxStalenessHours: number;
+  stale: boolean;
+}
+
+export interface HealthCheckResult {
+  evaluated: number;
+  alertsCreated: number;
+  connectors: ConnectorHealth[];
+}
+
+// Page latencies of the run, or its duration when it fetched no pages
+function runLatencies(metric: ConnectorMetric): number[] {
+  return metric.pageLatenciesMs.length > 0 ? metric.pageLatenciesMs : [metric.durationMs];
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+// SLAs of active connectors, with the connector and its last successful run
+interface SlaContext {
+  sla: ConnectorSla;
+  connector: Connector;
+  lastSuccessAt: Date | null;
+}
+
+async function loadSlaContexts(): Promise<SlaContext[]> {
+  const [slas, connectors, lastSuccesses] = await Promise.all([
+    storage.getConnectorSlas(),
+    storage.getConnectors(),
+    storage.getLastSuccessfulSyncRunPerConnector(),
+  ]);
+  const active = new Map(connectors.filter((c) => c.isActive).map((c) => [c.id, c]));
+  const lastSuccessAt = new Map(lastSuccesses.map((r) => [r.connectorId, r.finishedAt]));
+
+  const contexts: SlaContext[] = [];
+  for (const sla of slas) {
+    const connector = active.get(sla.connectorId);
+    if (!connector) continue;
+    contexts.push({ sla, connector, lastSuccessAt: lastSuccessAt.get(sla.connectorId) ?? null });
+  }
+  return contexts;
+}
+
+function evaluateFreshness(
+  { sla, connector, lastSuccessAt }: SlaContext,
+  now: Date
+): DataFreshness | null {
+  if (!sla.maxStalenessHours) return null;
+  const config = (connector.config || {}) as Record<string, unknown>;
+  const since = lastSuccessAt ?? connector.createdAt;
+  const hoursSinceSuccess = Math.max(0, (now.getTime() - since.getTime()) / HOUR_MS);
+  return {
+    connectorId: connector.id,
+    connectorName: connector.name,
+    schoolId: typeof config.schoolId === "string" ? config.schoolId : null,
+    tables: getRoutedTables(getTargetRouting(connector)),
+    lastSuccessAt: lastSuccessAt ? lastSuccessAt.toISOString() : null,
+    hoursSinceSuccess,
+    maxStalenessHours: sla.maxStalenessHours,
+    stale: hoursSinceSuccess > sla.maxStalenessHours,
+  };
+}
+
+/**
+ * Applies the SLA to the connector's metrics of the last window and to its
+ * last successful run. Read-only: no alert is raised.
+ */
+async function evaluateConnectorHealth(context: SlaContext, now: Date): Promise<ConnectorHealth> {
+  const { sla } = context;
+  const since = new Date(now.getTime() - sla.windowMinutes * 60 * 1000);
+  const metrics = await storage.getConnectorMetricsSince(sla.connectorId, since);
+
+  const health: ConnectorHealth = {
+    connectorId: sla.connectorId,
+    status: "no_data",
+    windowMinutes: sla.windowMinutes,
+    totalRuns: metrics.length,
+    failedRuns: metrics.filter((m) => m.status === "failed").length,
+    successRate: null,
+    avgLatencyMs: null,
+    p95LatencyMs: null,
+    lastRunAt: metrics[0] ? metrics[0].createdAt.toISOString() : null,
+    breaches: [],
+    freshness: evaluateFreshness(context, now),
+  };
+  if (metrics.length === 0) return health;
+
+  const latencies = metrics.flatMap(runLatencies).sort((a, b) => a - b);
+  health.successRate = ((health.totalRuns - health.failedRuns) / health.totalRuns) * 100;
+  health.avgLatencyMs = latencies.reduce((acc, ms) => acc + ms, 0) / latencies.length;
+  health.p95LatencyMs = percentile(latencies, 95);
+
+  const threshold = parseFloat(sla.successRateThreshold);
+  if (health.successRate < threshold) {
+    health.breaches.push(
+      `Success rate ${health.successRate.toFixed(1)}% is below threshold ${threshold}%.`
+    );
+  }
+  if (health.avgLatencyMs > sla.maxLatencyMs) {
+    health.breaches.push(
+      `Avg latency ${health.avgLatencyMs.toFixed(0)}ms is above threshold ${sla.maxLatencyMs}ms.`
+    );
+  }
+  health.status = health.breaches.length > 0 ? "breached" : "healthy";
+  return health;
+}
+
+export async function evaluateAllConnectorHealth(now: Date = new Date()): Promise<ConnectorHealth[]> {
+  const contexts = await loadSlaContexts();
+  return Promise.all(contexts.map((context) => evaluateConnectorHealth(context, now)));
+}
+
+/**
+ * Freshness of every active connector whose SLA sets max_staleness_hours,
+ * without reading its metrics; used by the dashboards.
+ */
+export async function getDataFreshness(now: Date = new Date()): Promise<DataFreshness[]> {
+  const contexts = await loadSlaContexts();
+  return contexts
+    .map((context) => evaluateFreshness(context, now))
+    .filter((f): f is DataFreshness => f !== null);
+}
+
+// Raises the alert for a breach; returns false when one is already active
+async function raiseSlaAlert(sla: ConnectorSla, health: ConnectorHealth): Promise<boolean> {
+  const active = await storage.getActiveIntegrationAlert(sla.connectorId, SLA_BREACH_ALERT_TYPE);
+  if (active) return false;
+
+  const threshold = parseFloat(sla.successRateThreshold);
+  await storage.createIntegrationAlert({
+    connectorId: sla.connectorId,
+    alertType: SLA_BREACH_ALERT_TYPE,
+    severity:
+      health.successRate !== null && health.successRate < threshold - CRITICAL_SUCCESS_RATE_MARGIN
+        ? "critical"
+        : "warning",
+    message: health.breaches.join(" "),
+    status: "open",
+    metadata: {
+      measuredSuccessRate: health.successRate,
+      measuredAvgLatencyMs: health.avgLatencyMs,
+      measuredP95LatencyMs: health.p95LatencyMs,
+      totalRuns: health.totalRuns,
+      failedRuns: health.failedRuns,
+      windowMinutes: health.windowMinutes,
+    },
+  });
+  return true;
+}
+
+async function raiseStaleDataAlert(freshness: DataFreshness): Promise<boolean> {
+  const active = await storage.getActiveIntegrationAlert(freshness.connectorId, STALE_DATA_ALERT_TYPE);
+  if (active) return false;
+
+  const hours = Math.floor(freshness.hoursSinceSuccess);
+  await storage.createIntegrationAlert({
+    connectorId: freshness.connectorId,
+    alertType: STALE_DATA_ALERT_TYPE,
+    severity:
+      freshness.hoursSinceSuccess > freshness.maxStalenessHours * CRITICAL_STALENESS_FACTOR
+        ? "critical"
+        : "warning",
+    message: freshness.lastSuccessAt
+      ? `${freshness.connectorName} has not synced successfully in ${hours}h (max ${freshness.maxStalenessHours}h).`
+      : `${freshness.connectorName} has never synced successfully, created ${hours}h ago (max ${freshness.maxStalenessHours}h).`,
+    status: "open",
+    metadata: {
+      lastSuccessAt: freshness.lastSuccessAt,
+      hoursSinceSuccess: freshness.hoursSinceSuccess,
+      maxStalenessHours: freshness.maxStalenessHours,
+      tables: freshness.tables,
+    },
+  });
+  return true;
+}
+
+/**
+ * Evaluates every SLA of an active connector and raises alerts for the
+ * breaches and stale data. A connector that fails to evaluate is logged and
+ * skipped.
+ */
+export async function runHealthCheck(now: Date = new Date()): Promise<HealthCheckResult> {
+  const contexts = await loadSlaContexts();
+
+  const result: HealthCheckResult = { evaluated: 0, alertsCreated: 0, connectors: [] };
+  for (const context of contexts) {
+    try {
+      const health = await evaluateConnectorHealth(context, now);
+      result.evaluated++;
+      result.connectors.push(health);
+      if (health.status === "breached" && (await raiseSlaAlert(context.sla, health))) {
+        result.alertsCreated++;
+      }
+      if (health.freshness?.stale && (await raiseStaleDataAlert(health.freshness))) {
+        result.alertsCreated++;
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`[health] Failed to evaluate SLA of connector ${context.sla.connectorId}: ${msg}`);
+    }
+  }
+
+  if (result.alertsCreated > 0) {
+    console.log(`[health] ${result.alertsCreated} SLA/freshness alert(s) raised`);
+  }
+  return result;
+}
+
+let checking = false;
+
+async function tick(): Promise<void> {
+  if (checking) return;
+  checking = true;
+  try {
+    await runHealthCheck();
+  } catch (err) {
+    console.error("[health] Health check failed:", err);
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Starts the periodic health check. Runs once right away, then every
+ * CONNECTOR_HEALTH_INTERVAL_MINUTES (default 5).
+ */
+export function startHealthEvaluator(): NodeJS.Timeout {
+  const minutes = parseInt(process.env.CONNECTOR_HEALTH_INTERVAL_MINUTES || "", 10);
+  const intervalMs = minutes > 0 ? minutes * 60 * 1000 : TICK_INTERVAL_MS;
+  void tick();
+  return setInterval(() => void tick(), intervalMs);
+}
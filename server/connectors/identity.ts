@@ -0,0 +1,349 @@
+/**
+ * identity.ts
+ *
+ * Cross-connector identity resolution. Every lead and enrollment written by
+ * a connector gets its normalized e-mail, phone and CPF stored as identity
+ * keys. A new lead matching an existing one on an active rule
+ * (identity_match_rules, tried by priority) is linked to that lead's golden
+ * record, so the same family arriving from the CRM and a spreadsheet counts
+ * once. Enrollments without an explicit lead_id are linked to the golden
+ * lead they match.
+ *
+ * Ops can merge leads by hand or split a lead off its group; those links are
+ * locked and automatic matching never moves them again.
+ */
+
+import { storage, type DbTransaction } from "../storage";
+import {
+  IDENTITY_KEY_TYPES,
+  type Enrollment,
+  type IdentityKeyType,
+  type IdentityMatchRule,
+  type InsertLeadIdentityLink,
+  type Lead,
+  type LeadIdentityLink,
+} from "@shared/schema";
+import { normalizeCpf, normalizePhone } from "./br-formats";
+
+export interface IdentityKeyValue {
+  keyType: IdentityKeyType;
+  value: string;
+}
+
+export interface LeadIdentityMember {
+  lead: Lead;
+  link: LeadIdentityLink | null;
+}
+
+export interface LeadIdentity {
+  goldenLeadId: string;
+  // The golden lead first, then its duplicates
+  members: LeadIdentityMember[];
+  // Leads sharing a key with the group that are not part of it
+  candidates: Array<{ lead: Lead; keyType: IdentityKeyType; value: string }>;
+}
+
+// ─── Normalization ────────────────────────────────────────────────────────────
+
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const email = value.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+}
+
+const NORMALIZERS: Record<IdentityKeyType, (value: unknown) => string | null> = {
+  email: normalizeEmail,
+  phone: normalizePhone,
+  cpf: normalizeCpf,
+};
+
+export function getIdentityKeys(record: {
+  email?: string | null;
+  phone?: string | null;
+  cpf?: string | null;
+}): IdentityKeyValue[] {
+  const keys: IdentityKeyValue[] = [];
+  for (const keyType of IDENTITY_KEY_TYPES) {
+    const value = NORMALIZERS[keyType](record[keyType]);
+    if (value) keys.push({ keyType, value });
+  }
+  return keys;
+}
+
+// ─── Matching ─────────────────────────────────────────────────────────────────
+
+export async function getGoldenLeadId(leadId: string, tx?: DbTransaction): Promise<string> {
+  const link = await storage.getLeadIdentityLink(leadId, tx);
+  return link?.goldenLeadId ?? leadId;
+}
+
+// Active rules by priority; sync runs load them once and pass them along
+export async function loadIdentityRules(): Promise<IdentityMatchRule[]> {
+  const rules = await storage.getIdentityMatchRules();
+  return rules.filter((r) => r.isActive);
+}
+
+/**
+ * Leads matching the keys on the first active rule that has a match, oldest
+ * first. When matching leads against each other, leads split off by hand
+ * (locked link to themselves) are left out.
+ */
+async function findMatchingLeads(
+  keys: IdentityKeyValue[],
+  schoolId: string | null,
+  excludeLeadId: string | null,
+  rules: IdentityMatchRule[]
+): Promise<{ leads: Lead[]; key: IdentityKeyValue } | null> {
+  const matchingLead = excludeLeadId !== null;
+  for (const rule of rules) {
+    for (const key of keys.filter((k) => k.keyType === rule.keyType)) {
+      let matches = (await storage.getLeadsByIdentityKey(key.keyType, key.value)).filter(
+        (lead) =>
+          lead.id !== excludeLeadId && (!rule.sameSchoolOnly || lead.schoolId === schoolId)
+      );
+      if (matchingLead && matches.length > 0) {
+        const splitOff = new Set(
+          (await storage.getLeadIdentityLinks(matches.map((l) => l.id)))
+            .filter((link) => link.locked && link.goldenLeadId === link.leadId)
+            .map((link) => link.leadId)
+        );
+        matches = matches.filter((lead) => !splitOff.has(lead.id));
+      }
+      if (matches.length > 0) return { leads: matches, key };
+    }
+  }
+  return null;
+}
+
+/**
+ * Moves every duplicate of fromLeadId (and its enrollments) to toLeadId.
+ * Runs in the caller's transaction so a group is never left half moved.
+ */
+async function moveGroup(
+  tx: DbTransaction,
+  fromLeadId: string,
+  toLeadId: string,
+  link: Omit<InsertLeadIdentityLink, "leadId" | "goldenLeadId">
+): Promise<void> {
+  for (const member of await storage.getLeadIdentityLinksByGolden(fromLeadId, tx)) {
+    if (member.leadId === fromLeadId) continue;
+    await storage.upsertLeadIdentityLink(
+      {
+        leadId: member.leadId,
+        goldenLeadId: toLeadId,
+        source: member.source as "auto" | "manual",
+        keyType: member.keyType as IdentityKeyType | null,
+        matchedValue: member.matchedValue,
+        locked: member.locked,
+        linkedBy: member.linkedBy,
+      },
+      tx
+    );
+  }
+  await storage.upsertLeadIdentityLink({ ...link, leadId: fromLeadId, goldenLeadId: toLeadId }, tx);
+
+  for (const enrollment of await storage.getEnrollmentsByLeadIds([fromLeadId], tx)) {
+    if (!hasExplicitLead(enrollment)) {
+      await storage.setEnrollmentLead(enrollment.id, toLeadId, tx);
+    }
+  }
+}
+
+// lead_id mapped from the source wins over matching
+function hasExplicitLead(enrollment: Enrollment): boolean {
+  const payload = (enrollment.payload || {}) as Record<string, unknown>;
+  return payload.lead_id != null && payload.lead_id !== "";
+}
+
+/**
+ * Refreshes the identity keys of an upserted lead and, when it is not linked
+ * yet, links it to the golden record of the oldest lead it matches. Then
+ * links the enrollments waiting for a lead with the same keys. Rules are
+ * loaded when not given. Never throws: a failed resolution only leaves the
+ * lead unlinked.
+ */
+export async function resolveLeadIdentity(
+  lead: Lead,
+  rules?: IdentityMatchRule[]
+): Promise<void> {
+  try {
+    const keys = getIdentityKeys(lead);
+    await storage.replaceIdentityKeys({ leadId: lead.id }, keys);
+    if (keys.length === 0) return;
+
+    rules = rules ?? (await loadIdentityRules());
+    const existing = await storage.getLeadIdentityLink(lead.id);
+    let goldenLeadId = existing?.goldenLeadId ?? lead.id;
+
+    if (!existing) {
+      const match = await findMatchingLeads(keys, lead.schoolId, lead.id, rules);
+      if (match) {
+        const target = await getGoldenLeadId(match.leads[0].id);
+        if (target !== lead.id) {
+          await storage.transaction((tx) =>
+            moveGroup(tx, lead.id, target, {
+              source: "auto",
+              keyType: match.key.keyType,
+              matchedValue: match.key.value,
+            })
+          );
+          goldenLeadId = target;
+        }
+      }
+    }
+
+    for (const rule of rules) {
+      for (const key of keys.filter((k) => k.keyType === rule.keyType)) {
+        const waiting = await storage.getUnlinkedEnrollmentsByIdentityKey(key.keyType, key.value);
+        for (const enrollment of waiting) {
+          if (rule.sameSchoolOnly && enrollment.schoolId !== lead.schoolId) continue;
+          await storage.setEnrollmentLead(enrollment.id, goldenLeadId);
+        }
+      }
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[identity] Failed to resolve lead ${lead.id}: ${msg}`);
+  }
+}
+
+/**
+ * Refreshes the identity keys of an upserted enrollment and, unless the
+ * source mapped its lead_id, links it to the golden lead it matches (or
+ * clears a link that no longer matches). Rules are loaded when not given.
+ * Never throws.
+ */
+export async function linkEnrollmentToLead(
+  enrollment: Enrollment,
+  rules?: IdentityMatchRule[]
+): Promise<void> {
+  try {
+    const keys = getIdentityKeys(enrollment);
+    await storage.replaceIdentityKeys({ enrollmentId: enrollment.id }, keys);
+    if (hasExplicitLead(enrollment)) return;
+
+    const match =
+      keys.length > 0
+        ? await findMatchingLeads(
+          keys,
+          enrollment.schoolId,
+          null,
+          rules ?? (await loadIdentityRules())
+        )
+        : null;
+    const leadId = match ? await getGoldenLeadId(match.leads[0].id) : null;
+    if (leadId !== enrollment.leadId) {
+      await storage.setEnrollmentLead(enrollment.id, leadId);
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[identity] Failed to link enrollment ${enrollment.id}: ${msg}`);
+  }
+}
+
+// ─── Manual merge / unmerge ───────────────────────────────────────────────────
+
+export async function getLeadIdentity(leadId: string): Promise<LeadIdentity> {
+  const goldenLeadId = await getGoldenLeadId(leadId);
+  const links = (await storage.getLeadIdentityLinksByGolden(goldenLeadId)).filter(
+    (l) => l.leadId !== goldenLeadId
+  );
+  const linkByLead = new Map(links.map((l) => [l.leadId, l]));
+  const memberLeads = await storage.getLeadsByIds([goldenLeadId, ...links.map((l) => l.leadId)]);
+
+  const members: LeadIdentityMember[] = memberLeads
+    .map((lead) => ({ lead, link: linkByLead.get(lead.id) ?? null }))
+    .sort((a, b) => (a.lead.id === goldenLeadId ? -1 : b.lead.id === goldenLeadId ? 1 : 0));
+
+  const memberIds = new Set(memberLeads.map((l) => l.id));
+  const candidates: LeadIdentity["candidates"] = [];
+  const seen = new Set<string>();
+  for (const member of memberLeads) {
+    for (const key of await storage.getLeadIdentityKeys(member.id)) {
+      const keyType = key.keyType as IdentityKeyType;
+      for (const lead of await storage.getLeadsByIdentityKey(keyType, key.value)) {
+        if (memberIds.has(lead.id) || seen.has(lead.id)) continue;
+        seen.add(lead.id);
+        candidates.push({ lead, keyType, value: key.value });
+      }
+    }
+  }
+
+  return { goldenLeadId, members, candidates };
+}
+
+/**
+ * Merges leads (and their own duplicates) into the group of goldenLeadId,
+ * all or nothing. The links are locked so later syncs keep the merge.
+ */
+export async function mergeLeads(
+  goldenLeadId: string,
+  leadIds: string[],
+  userId: string
+): Promise<LeadIdentity> {
+  const target = await storage.transaction(async (tx) => {
+    const target = await getGoldenLeadId(goldenLeadId, tx);
+    for (const leadId of leadIds) {
+      const source = await getGoldenLeadId(leadId, tx);
+      if (source === target) continue;
+      // Split the lead off first when it is a duplicate in another group
+      if (source !== leadId) {
+        await storage.deleteLeadIdentityLink(leadId, tx);
+      }
+      await moveGroup(tx, leadId, target, {
+        source: "manual",
+        locked: true,
+        linkedBy: userId,
+      });
+    }
+    return target;
+  });
+  return getLeadIdentity(target);
+}
+
+/**
+ * Splits a lead off its group. When the lead was the golden record, the
+ * oldest duplicate takes its place. The lead keeps a locked link to itself
+ * so automatic matching does not merge it back.
+ */
+export async function unmergeLead(leadId: string, userId: string): Promise<LeadIdentity> {
+  const groupLeadId = await storage.transaction(async (tx) => {
+    const goldenLeadId = await getGoldenLeadId(leadId, tx);
+    let groupLeadId = goldenLeadId;
+
+    if (goldenLeadId === leadId) {
+      const duplicates = (await storage.getLeadIdentityLinksByGolden(leadId, tx)).filter(
+        (l) => l.leadId !== leadId
+      );
+      if (duplicates.length > 0) {
+        const [successor] = await storage.getLeadsByIds(duplicates.map((l) => l.leadId), tx);
+        await storage.deleteLeadIdentityLink(successor.id, tx);
+        await moveGroup(tx, leadId, successor.id, { source: "manual" });
+        groupLeadId = successor.id;
+      }
+    }
+
+    await storage.upsertLeadIdentityLink(
+      {
+        leadId,
+        goldenLeadId: leadId,
+        source: "manual",
+        locked: true,
+        linkedBy: userId,
+      },
+      tx
+    );
+    return groupLeadId;
+  });
+
+  // Enrollments of both sides follow their keys again, once the split is
+  // committed and visible to the matching
+  const rules = await loadIdentityRules();
+  for (const enrollment of await storage.getEnrollmentsByLeadIds(
+    Array.from(new Set([leadId, groupLeadId]))
+  )) {
+    await linkEnrollmentToLead(enrollment, rules);
+  }
+
+  return getLeadIdentity(leadId);
+}
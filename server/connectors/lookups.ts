@@ -0,0 +1,89 @@
+/**
+ * lookups.ts
+ *
+ * Reference data for the "lookup" transform op, which turns a source value
+ * into an ID of ours:
+ *
+ *   { "op": "lookup", "source": "school" }   unit code or ID → schools.id
+ *   { "op": "lookup", "source": "seller" }   e-mail or ID    → users.id
+ *
+ * Schools and active users are loaded once per run. A value without a match
+ * becomes the op's "fallback" (null by default, so school_id then falls back
+ * to config.schoolId) and is counted in the run report.
+ */
+
+import { storage } from "../storage";
+
+export const LOOKUP_SOURCES = ["school", "seller"] as const;
+export type LookupSource = (typeof LOOKUP_SOURCES)[number];
+
+// Distinct unresolved values listed in a run report
+const MAX_REPORTED_UNRESOLVED = 50;
+
+export interface UnresolvedLookup {
+  source: LookupSource;
+  targetField: string;
+  value: string;
+  records: number;
+}
+
+export interface LookupContext {
+  keys: Record<LookupSource, Map<string, string>>;
+  unresolved: Map<string, UnresolvedLookup>;
+}
+
+function lookupKey(value: unknown): string {
+  return String(value).trim().toLowerCase();
+}
+
+export async function loadLookupContext(): Promise<LookupContext> {
+  const [schools, users] = await Promise.all([storage.getSchools(), storage.getUsers()]);
+
+  const school = new Map<string, string>();
+  for (const s of schools) {
+    school.set(lookupKey(s.id), s.id);
+    school.set(lookupKey(s.code), s.id);
+  }
+
+  const seller = new Map<string, string>();
+  for (const u of users) {
+    if (!u.isActive) continue;
+    seller.set(lookupKey(u.id), u.id);
+    seller.set(lookupKey(u.email), u.id);
+  }
+
+  return { keys: { school, seller }, unresolved: new Map() };
+}
+
+/**
+ * Resolves a source value; null when it has no match, which is then noted
+ * as unresolved for the mapping's target field. Empty values are not
+ * lookups and resolve to null silently.
+ */
+export function resolveLookup(
+  context: LookupContext,
+  source: LookupSource,
+  value: unknown,
+  targetField: string
+): string | null {
+  if (value == null || value === "") return null;
+  const id = context.keys[source].get(lookupKey(value));
+  if (id) return id;
+
+  const text = String(value);
+  const key = `${source}\u0000${targetField}\u0000${text}`;
+  const entry = context.unresolved.get(key);
+  if (entry) {
+    entry.records++;
+  } else {
+    context.unresolved.set(key, { source, targetField, value: text, records: 1 });
+  }
+  return null;
+}
+
+// Most frequent unresolved values first
+export function getUnresolvedLookups(context: LookupContext): UnresolvedLookup[] {
+  return Array.from(context.unresolved.values())
+    .sort((a, b) => b.records - a.records)
+    .slice(0, MAX_REPORTED_UNRESOLVED);
+}
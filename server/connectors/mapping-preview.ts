@@ -0,0 +1,95 @@
+/**
+ * mapping-preview.ts
+ *
+ * Dry evaluation of (draft) mappings against one sample raw record, used by
+ * the mapping sandbox in MappingsTab. Nothing is persisted.
+ */
+
+import type { Connector, TargetTable } from "@shared/schema";
+import {
+  applyMappings,
+  explodeRecord,
+  extractSourceId,
+  getExplodePath,
+  type ExplodedRow,
+  type MappingRule,
+  type MappingTrace,
+} from "./transforms";
+import {
+  getTargetRouting,
+  resolveTargetTable,
+  validateTargetPayload,
+} from "./targets";
+import { getUnresolvedLookups, type LookupContext, type UnresolvedLookup } from "./lookups";
+
+export interface MappingPreviewResult {
+  sourceId: string | null;
+  sourceIdField: string;
+  // null when the record matches no target route
+  targetTable: TargetTable | null;
+  payload: Record<string, unknown>;
+  traces: MappingTrace[];
+  errors: string[];
+  unmappedFields: string[];
+  // Lookup values of the sample without a match (their fallback was used)
+  unresolvedLookups: UnresolvedLookup[];
+  // Rows the sample explodes into with a "[*]" mapping (the first one is
+  // shown); null when no mapping explodes an array
+  explodedRows: number | null;
+}
+
+export function previewMappings(
+  connector: Connector,
+  record: Record<string, unknown>,
+  mappings: MappingRule[],
+  lookups: LookupContext
+): MappingPreviewResult {
+  const config = (connector.config || {}) as Record<string, unknown>;
+  const sourceIdField = (config.sourceIdField as string) || "id";
+  const parentId = extractSourceId(record, sourceIdField);
+
+  const errors: string[] = [];
+  let explodePath: string | null = null;
+  try {
+    explodePath = getExplodePath(mappings);
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : String(err));
+  }
+  let rows: ExplodedRow[] = [];
+  if (explodePath) {
+    try {
+      rows = explodeRecord(record, parentId ?? "", explodePath);
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  const row = rows[0];
+  const sourceId = explodePath ? (row && parentId ? row.sourceId : null) : parentId;
+
+  const traces: MappingTrace[] = [];
+  const result = applyMappings(row?.record ?? record, mappings, traces, lookups);
+
+  const target = resolveTargetTable(getTargetRouting(connector), row?.record ?? record);
+
+  errors.push(...result.errors);
+  if (target.table) {
+    errors.push(...validateTargetPayload(target.table, result.payload));
+  } else {
+    errors.unshift(target.error);
+  }
+  if (!parentId) {
+    errors.unshift(`Record has no source ID (field: ${sourceIdField})`);
+  }
+
+  return {
+    sourceId,
+    sourceIdField,
+    targetTable: target.table ?? null,
+    payload: result.payload,
+    traces,
+    errors,
+    unmappedFields: result.unmappedFields,
+    unresolvedLookups: getUnresolvedLookups(lookups),
+    explodedRows: explodePath ? rows.length : null,
+  };
+}
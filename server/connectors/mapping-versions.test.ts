@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffMappings, toMappingSnapshot } from "./mapping-versions";
+import { computeMappingVersion, type MappingRule } from "./transforms";
+
+const email: MappingRule = { sourcePath: "email", targetField: "email", transform: { op: "lowercase" } };
+const name: MappingRule = { sourcePath: "nome", targetField: "name", transform: null };
+
+test("computeMappingVersion ignores row order", () => {
+  assert.equal(computeMappingVersion([email, name]), computeMappingVersion([name, email]));
+  assert.match(computeMappingVersion([email]), /^[0-9a-f]{12}$/);
+});
+
+test("computeMappingVersion changes with the path, target or transform", () => {
+  const base = computeMappingVersion([email, name]);
+  assert.notEqual(computeMappingVersion([email, { ...name, sourcePath: "name" }]), base);
+  assert.notEqual(computeMappingVersion([email, { ...name, targetField: "full_name" }]), base);
+  assert.notEqual(computeMappingVersion([{ ...email, transform: { op: "trim" } }, name]), base);
+  // A missing transform and a null one are the same mapping
+  assert.equal(computeMappingVersion([email, { sourcePath: "nome", targetField: "name" }]), base);
+});
+
+test("toMappingSnapshot sorts by target field and fills in null transforms", () => {
+  assert.deepEqual(toMappingSnapshot([name, { sourcePath: "a", targetField: "email" }]), [
+    { sourcePath: "a", targetField: "email", transform: null },
+    { sourcePath: "nome", targetField: "name", transform: null },
+  ]);
+});
+
+test("diffMappings pairs mappings by target field", () => {
+  const phone: MappingRule = { sourcePath: "tel", targetField: "phone", transform: null };
+  const diff = diffMappings(toMappingSnapshot([email, name]), toMappingSnapshot([
+    { ...email, transform: { op: "trim" } },
+    phone,
+  ]));
+  assert.deepEqual(diff.added, [{ sourcePath: "tel", targetField: "phone", transform: null }]);
+  assert.deepEqual(diff.removed, [{ sourcePath: "nome", targetField: "name", transform: null }]);
+  assert.deepEqual(diff.changed.map((c) => [c.targetField, c.after.transform]), [
+    ["email", { op: "trim" }],
+  ]);
+  assert.deepEqual(diffMappings(toMappingSnapshot([email]), toMappingSnapshot([email])), {
+    added: [],
+    removed: [],
+    changed: [],
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * mapping-versions.ts
+ *
+ * Version history of a connector's mapping set. Every change made through
+ * the API records an immutable snapshot (v1, v2, ...) in
+ * connector_mapping_versions, and sync runs point to the version they
+ * applied. Two versions can be diffed by target field, and rolling back
+ * restores an old snapshot as a new version, so history is never rewritten.
+ */
+
+import { storage } from "../storage";
+import type { ConnectorMappingVersion, MappingSnapshot } from "@shared/schema";
+import { computeMappingVersion, type MappingRule } from "./transforms";
+
+export interface MappingChange {
+  targetField: string;
+  before: MappingSnapshot;
+  after: MappingSnapshot;
+}
+
+export interface MappingDiff {
+  added: MappingSnapshot[];
+  removed: MappingSnapshot[];
+  changed: MappingChange[];
+}
+
+function sortKey(m: MappingSnapshot): string {
+  return `${m.targetField}\u0000${m.sourcePath}`;
+}
+
+export function toMappingSnapshot(mappings: MappingRule[]): MappingSnapshot[] {
+  return mappings
+    .map((m) => ({
+      sourcePath: m.sourcePath,
+      targetField: m.targetField,
+      transform: (m.transform as Record<string, unknown> | null | undefined) ?? null,
+    }))
+    .sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+}
+
+/**
+ * Records the mapping set as a new version unless it matches the latest
+ * one, and returns the version that describes it. Pass the mappings when
+ * they are already loaded.
+ */
+export async function recordMappingVersion(
+  connectorId: string,
+  options: {
+    mappings?: MappingRule[];
+    reason?: string | null;
+    createdBy?: string | null;
+  } = {}
+): Promise<ConnectorMappingVersion> {
+  const mappings = options.mappings ?? (await storage.getConnectorMappings(connectorId));
+  return storage.recordConnectorMappingVersion({
+    connectorId,
+    mappings: toMappingSnapshot(mappings),
+    fingerprint: computeMappingVersion(mappings),
+    reason: options.reason ?? null,
+    createdBy: options.createdBy ?? null,
+  });
+}
+
+/**
+ * Differences from one mapping set to another, paired by target field. A
+ * target fed by several source paths is paired in source path order.
+ */
+export function diffMappings(from: MappingSnapshot[], to: MappingSnapshot[]): MappingDiff {
+  const group = (mappings: MappingSnapshot[]) => {
+    const byTarget = new Map<string, MappingSnapshot[]>();
+    for (const m of toMappingSnapshot(mappings)) {
+      const list = byTarget.get(m.targetField) ?? [];
+      list.push(m);
+      byTarget.set(m.targetField, list);
+    }
+    return byTarget;
+  };
+  const before = group(from);
+  const after = group(to);
+  const diff: MappingDiff = { added: [], removed: [], changed: [] };
+
+  const targets = Array.from(
+    new Set(Array.from(before.keys()).concat(Array.from(after.keys())))
+  ).sort();
+  for (const targetField of targets) {
+    const a = before.get(targetField) ?? [];
+    const b = after.get(targetField) ?? [];
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      if (!a[i]) {
+        diff.added.push(b[i]);
+      } else if (!b[i]) {
+        diff.removed.push(a[i]);
+      } else if (
+        a[i].sourcePath !== b[i].sourcePath ||
+        JSON.stringify(a[i].transform) !== JSON.stringify(b[i].transform)
+      ) {
+        diff.changed.push({ targetField, before: a[i], after: b[i] });
+      }
+    }
+  }
+  return diff;
+}
+
+/**
+ * Replaces the connector's mappings with a stored version and records the
+ * result as a new version. Rolling back to the current set is a no-op.
+ */
+export async function rollbackMappings(
+  target: ConnectorMappingVersion,
+  userId: string
+): Promise<ConnectorMappingVersion> {
+  const { connectorId } = target;
+  const current = await storage.getConnectorMappings(connectorId);
+  if (computeMappingVersion(current) === target.fingerprint) {
+    return recordMappingVersion(connectorId, { mappings: current, createdBy: userId });
+  }
+
+  const restored = await storage.replaceConnectorMappings(connectorId, target.mappings);
+  return recordMappingVersion(connectorId, {
+    mappings: restored,
+    reason: `Rollback to v${target.version}`,
+    createdBy: userId,
+  });
+}
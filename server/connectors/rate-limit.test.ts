@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  acquireRequestSlot,
+  createThrottleStats,
+  pauseHost,
+  parseRateLimitReset,
+  parseRetryAfter,
+  type RateLimitConfig,
+} from "./rate-limit";
+
+// Throttled time of one request; each test uses hosts and connectors of its own
+async function timeRequest(connectorId: string, host: string, config: RateLimitConfig): Promise<number> {
+  const stats = createThrottleStats();
+  const release = await acquireRequestSlot(connectorId, host, config, stats);
+  release();
+  return stats.throttledMs;
+}
+
+test("a connector bucket allows its burst, then spaces requests by its rate", async () => {
+  const config = { requestsPerMinute: 600, burst: 2 };
+  assert.ok((await timeRequest("c1", "burst.example", config)) < 20);
+  assert.ok((await timeRequest("c1", "burst.example", config)) < 20);
+  assert.ok((await timeRequest("c1", "burst.example", config)) >= 80);
+});
+
+test("connectors sharing a host get the strictest host limit without a refill", async () => {
+  const host = "shared.example";
+  assert.ok((await timeRequest("a", host, { hostRequestsPerMinute: 600, hostBurst: 1 })) < 20);
+  // A laxer limit from another connector neither refills nor loosens the bucket
+  assert.ok((await timeRequest("b", host, { hostRequestsPerMinute: 60_000, hostBurst: 50 })) >= 80);
+});
+
+test("maxConcurrent holds a connector's next request until one is released", async () => {
+  const config = { maxConcurrent: 1 };
+  const first = await acquireRequestSlot("c2", "concurrency.example", config, createThrottleStats());
+  let acquired = false;
+  const second = acquireRequestSlot("c2", "concurrency.example", config, createThrottleStats()).then(
+    (release) => {
+      acquired = true;
+      return release;
+    }
+  );
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.equal(acquired, false);
+  // Another connector on the same host is not held
+  assert.ok((await timeRequest("c3", "concurrency.example", {})) < 20);
+
+  first();
+  (await second)();
+  assert.equal(acquired, true);
+});
+
+test("pauseHost makes every connector on the host wait", async () => {
+  pauseHost("paused.example", Date.now() + 100);
+  assert.ok((await timeRequest("c4", "paused.example", {})) >= 80);
+});
+
+test("parseRetryAfter reads delta seconds and HTTP dates", () => {
+  const now = Date.parse("2026-10-19T12:00:00Z");
+  assert.equal(parseRetryAfter(new Headers({ "retry-after": "2.5" }), now), 2500);
+  assert.equal(
+    parseRetryAfter(new Headers({ "retry-after": "Mon, 19 Oct 2026 12:00:30 GMT" }), now),
+    30_000
+  );
+  assert.equal(parseRetryAfter(new Headers({ "retry-after": "soon" }), now), null);
+  assert.equal(parseRetryAfter(new Headers(), now), null);
+});
+
+test("parseRateLimitReset only applies to an exhausted quota", () => {
+  const now = 1_800_000_000_000;
+  const headers = (h: Record<string, string>) => new Headers(h);
+  assert.equal(parseRateLimitReset(headers({ "x-ratelimit-remaining": "3" }), now), null);
+  assert.equal(
+    parseRateLimitReset(headers({ "x-ratelimit-remaining": "0", "x-ratelimit-reset": "1800000060" }), now),
+    1_800_000_060_000
+  );
+  assert.equal(
+    parseRateLimitReset(headers({ "ratelimit-remaining": "0", "ratelimit-reset": "30" }), now),
+    now + 30_000
+  );
+  assert.equal(parseRateLimitReset(headers({ "x-ratelimit-remaining": "0" }), now), now + 1000);
+});
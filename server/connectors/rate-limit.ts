@@ -0,0 +1,257 @@
+/**
+ * rate-limit.ts
+ *
+ * Request budgets for API connectors, configured in config.rateLimit:
+ *
+ *   { "requestsPerMinute": 60,        token bucket of this connector
+ *     "maxConcurrent": 1,             requests of this connector in flight
+ *     "hostRequestsPerMinute": 100,   token bucket shared by every connector
+ *     "hostMaxConcurrent": 2 }        calling the same host (one CRM tenant)
+ *
+ * Buckets refill continuously and allow a burst of 10 seconds' worth of
+ * requests unless "burst" / "hostBurst" say otherwise. When connectors
+ * sharing a host configure different host limits, the strictest applies,
+ * and a changed limit keeps the tokens already spent.
+ *
+ * Independently of any config, rate-limit responses pause the whole host:
+ * Retry-After on 429/503, and X-RateLimit-Remaining: 0 (or RateLimit-*)
+ * until X-RateLimit-Reset. Buckets live in memory, per process.
+ */
+
+export interface RateLimitConfig {
+  requestsPerMinute?: number;
+  burst?: number;
+  // Requests of this connector in flight at once
+  maxConcurrent?: number;
+  hostRequestsPerMinute?: number;
+  hostBurst?: number;
+  // Requests in flight to the host at once, across connectors
+  hostMaxConcurrent?: number;
+  // Longest header-driven pause honoured; a longer one fails the request
+  maxWaitMs?: number;
+}
+
+export interface ThrottleStats {
+  // Time spent waiting for a bucket or a header-driven pause
+  throttledMs: number;
+  // 429 responses received
+  rateLimitedResponses: number;
+}
+
+// 0 = unlimited
+interface BucketLimit {
+  ratePerMs: number;
+  capacity: number;
+  maxConcurrent: number;
+}
+
+interface TokenBucket {
+  tokens: number;
+  capacity: number;
+  // tokens per millisecond; 0 = unlimited
+  ratePerMs: number;
+  refilledAt: number;
+  blockedUntil: number;
+  inFlight: number;
+  maxConcurrent: number;
+  waiters: Array<() => void>;
+  // Limit asked for by each connector using the bucket
+  limits: Map<string, BucketLimit>;
+}
+
+export const DEFAULT_MAX_WAIT_MS = 5 * 60_000;
+const BURST_WINDOW_MS = 10_000;
+
+const connectorBuckets = new Map<string, TokenBucket>();
+const hostBuckets = new Map<string, TokenBucket>();
+
+export function createThrottleStats(): ThrottleStats {
+  return { throttledMs: 0, rateLimitedResponses: 0 };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getBucket(buckets: Map<string, TokenBucket>, key: string): TokenBucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = {
+      tokens: 0,
+      capacity: 0,
+      ratePerMs: 0,
+      refilledAt: Date.now(),
+      blockedUntil: 0,
+      inFlight: 0,
+      maxConcurrent: 0,
+      waiters: [],
+      limits: new Map(),
+    };
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+function toLimit(
+  perMinute: number | undefined,
+  burst: number | undefined,
+  maxConcurrent: number | undefined
+): BucketLimit {
+  const ratePerMs = perMinute && perMinute > 0 ? perMinute / 60_000 : 0;
+  return {
+    ratePerMs,
+    capacity: ratePerMs ? Math.max(1, burst ?? Math.round(ratePerMs * BURST_WINDOW_MS)) : 0,
+    maxConcurrent: Math.max(0, maxConcurrent ?? 0),
+  };
+}
+
+// Lowest limit set; 0 (unlimited) only when none is
+function strictest(values: number[]): number {
+  const set = values.filter((v) => v > 0);
+  return set.length > 0 ? Math.min(...set) : 0;
+}
+
+function refill(bucket: TokenBucket, now: number): void {
+  bucket.tokens = Math.min(
+    bucket.capacity,
+    bucket.tokens + (now - bucket.refilledAt) * bucket.ratePerMs
+  );
+  bucket.refilledAt = now;
+}
+
+/**
+ * Records the limit a connector asks of the bucket and applies the
+ * strictest one asked for. Only the first limit starts with a full burst;
+ * a changed one keeps the tokens left (or the debt), so alternating
+ * connectors cannot refill a shared bucket.
+ */
+function configure(bucket: TokenBucket, connectorId: string, limit: BucketLimit, now: number): void {
+  bucket.limits.set(connectorId, limit);
+  const limits = Array.from(bucket.limits.values());
+  const ratePerMs = strictest(limits.map((l) => l.ratePerMs));
+  const capacity = strictest(limits.map((l) => l.capacity));
+  bucket.maxConcurrent = strictest(limits.map((l) => l.maxConcurrent));
+  if (ratePerMs === bucket.ratePerMs && capacity === bucket.capacity) return;
+
+  if (bucket.ratePerMs) {
+    refill(bucket, now);
+    bucket.tokens = Math.min(bucket.tokens, capacity);
+  } else {
+    bucket.tokens = capacity;
+  }
+  bucket.ratePerMs = ratePerMs;
+  bucket.capacity = capacity;
+  bucket.refilledAt = now;
+}
+
+/**
+ * Takes a token (going into debt when there is none, so concurrent callers
+ * queue up in order) and returns how long the caller has to wait.
+ */
+function reserve(bucket: TokenBucket, now: number): number {
+  const blocked = Math.max(0, bucket.blockedUntil - now);
+  if (!bucket.ratePerMs) return blocked;
+  refill(bucket, now);
+  bucket.tokens -= 1;
+  const tokenWait = bucket.tokens >= 0 ? 0 : -bucket.tokens / bucket.ratePerMs;
+  return Math.max(blocked, Math.ceil(tokenWait));
+}
+
+async function acquireConcurrency(bucket: TokenBucket): Promise<void> {
+  if (!bucket.maxConcurrent || bucket.inFlight < bucket.maxConcurrent) {
+    bucket.inFlight++;
+    return;
+  }
+  // release() hands its slot straight to the next waiter
+  await new Promise<void>((resolve) => bucket.waiters.push(resolve));
+}
+
+function releaseConcurrency(bucket: TokenBucket): void {
+  const next = bucket.waiters.shift();
+  if (next) next();
+  else bucket.inFlight--;
+}
+
+/**
+ * Waits until the connector and its host may send a request. Returns a
+ * release function to call once the response has been read; the wait is
+ * added to stats.throttledMs.
+ */
+export async function acquireRequestSlot(
+  connectorId: string,
+  host: string,
+  config: RateLimitConfig | undefined,
+  stats: ThrottleStats
+): Promise<() => void> {
+  const own = getBucket(connectorBuckets, connectorId);
+  const shared = getBucket(hostBuckets, host);
+  const startedAt = Date.now();
+  configure(
+    own,
+    connectorId,
+    toLimit(config?.requestsPerMinute, config?.burst, config?.maxConcurrent),
+    startedAt
+  );
+  configure(
+    shared,
+    connectorId,
+    toLimit(config?.hostRequestsPerMinute, config?.hostBurst, config?.hostMaxConcurrent),
+    startedAt
+  );
+
+  // A pause set while this caller slept (another connector got a 429) is
+  // honoured before sending
+  for (let wait = Math.max(reserve(own, startedAt), reserve(shared, startedAt)); wait > 0; ) {
+    await sleep(wait);
+    const now = Date.now();
+    wait = Math.max(own.blockedUntil, shared.blockedUntil) - now;
+  }
+  // Always the connector's slot first, so two callers never hold one each
+  await acquireConcurrency(own);
+  await acquireConcurrency(shared);
+  stats.throttledMs += Date.now() - startedAt;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    releaseConcurrency(shared);
+    releaseConcurrency(own);
+  };
+}
+
+// Pauses every connector calling the host until the given time
+export function pauseHost(host: string, until: number): void {
+  const bucket = getBucket(hostBuckets, host);
+  bucket.blockedUntil = Math.max(bucket.blockedUntil, until);
+}
+
+// ─── Headers ──────────────────────────────────────────────────────────────────
+
+/** Retry-After as a delay in ms: delta seconds or an HTTP date. */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | null {
+  const value = headers.get("retry-after")?.trim();
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value)) return Math.ceil(parseFloat(value) * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * When the response says the quota is used up (X-RateLimit-Remaining or
+ * RateLimit-Remaining of 0), the time it resets: X-RateLimit-Reset as epoch
+ * seconds/ms or delta seconds, RateLimit-Reset as delta seconds. null when
+ * requests remain or the headers are absent.
+ */
+export function parseRateLimitReset(headers: Headers, now: number = Date.now()): number | null {
+  const remaining = headers.get("x-ratelimit-remaining") ?? headers.get("ratelimit-remaining");
+  if (remaining === null || parseInt(remaining, 10) !== 0) return null;
+
+  const reset = headers.get("x-ratelimit-reset") ?? headers.get("ratelimit-reset");
+  const value = reset !== null ? parseFloat(reset) : NaN;
+  // Exhausted with no usable reset: back off for a second
+  if (!Number.isFinite(value)) return now + 1000;
+  if (value > 1e12) return value;
+  if (value > 1e9) return value * 1000;
+  return now + value * 1000;
+}
@@ -0,0 +1,174 @@
+/**
+ * raw-store.ts
+ *
+ * Object store for raw ingest payloads. Every fetched page is gzipped and
+ * written under raw/<connectorId>/ so it can be downloaded or reprocessed
+ * without calling the source again.
+ *
+ * Backend is chosen with RAW_STORE_BACKEND:
+ *   - "local" (default): files under RAW_STORE_DIR (default .data/raw-ingest)
+ *   - "supabase": Supabase Storage bucket RAW_STORE_BUCKET (default
+ *     raw-ingest), using SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
+import type { RawIngestFile, RawStoreBackend } from "@shared/schema";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export interface RawObjectStore {
+  backend: RawStoreBackend;
+  put(objectPath: string, body: Buffer, contentType: string): Promise<void>;
+  // null when the object does not exist
+  get(objectPath: string): Promise<Buffer | null>;
+}
+
+function createLocalStore(rootDir: string): RawObjectStore {
+  const root = path.resolve(rootDir);
+
+  function resolveObjectPath(objectPath: string): string {
+    const fullPath = path.resolve(root, objectPath);
+    if (!fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid object path: ${objectPath}`);
+    }
+    return fullPath;
+  }
+
+  return {
+    backend: "local",
+    async put(objectPath, body) {
+      const fullPath = resolveObjectPath(objectPath);
+      await mkdir(path.dirname(fullPath), { recursive: true });
+      await writeFile(fullPath, body);
+    },
+    async get(objectPath) {
+      try {
+        return await readFile(resolveObjectPath(objectPath));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+  };
+}
+
+function createSupabaseStore(bucket: string): RawObjectStore {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      "RAW_STORE_BACKEND=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY"
+    );
+  }
+
+  const objectUrl = (objectPath: string) =>
+    `${supabaseUrl}/storage/v1/object/${bucket}/${objectPath
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/")}`;
+  const authHeaders = {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+  };
+
+  return {
+    backend: "supabase",
+    async put(objectPath, body, contentType) {
+      const response = await fetch(objectUrl(objectPath), {
+        method: "POST",
+        headers: {
+          ...authHeaders,
+          "Content-Type": contentType,
+          "x-upsert": "true",
+        },
+        body,
+      });
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new Error(
+          `Storage upload failed (HTTP ${response.status}): ${errorText.slice(0, 300)}`
+        );
+      }
+    },
+    async get(objectPath) {
+      const response = await fetch(objectUrl(objectPath), {
+        headers: authHeaders,
+      });
+      if (response.status === 404 || response.status === 400) return null;
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new Error(
+          `Storage download failed (HTTP ${response.status}): ${errorText.slice(0, 300)}`
+        );
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
+
+let defaultStore: RawObjectStore | null = null;
+
+export function getRawObjectStore(): RawObjectStore {
+  if (!defaultStore) {
+    const backend = process.env.RAW_STORE_BACKEND || "local";
+    switch (backend) {
+      case "local":
+        defaultStore = createLocalStore(
+          process.env.RAW_STORE_DIR || ".data/raw-ingest"
+        );
+        break;
+      case "supabase":
+        defaultStore = createSupabaseStore(
+          process.env.RAW_STORE_BUCKET || "raw-ingest"
+        );
+        break;
+      default:
+        throw new Error(`Unknown RAW_STORE_BACKEND: ${backend}`);
+    }
+  }
+  return defaultStore;
+}
+
+/**
+ * Gzips a raw page and writes it to the configured store. Returns the
+ * metadata for its raw_ingest_files row.
+ */
+export async function writeRawPage(
+  connectorId: string,
+  fileName: string,
+  rawResponse: string
+): Promise<{
+  bucketPath: string;
+  storageBackend: RawStoreBackend;
+  contentEncoding: "gzip";
+}> {
+  const store = getRawObjectStore();
+  const bucketPath = `raw/${connectorId}/${fileName}.gz`;
+  await store.put(bucketPath, await gzipAsync(rawResponse), "application/gzip");
+  return { bucketPath, storageBackend: store.backend, contentEncoding: "gzip" };
+}
+
+/**
+ * Reads back the payload of a raw ingest file. Returns null for legacy
+ * metadata-only rows and for objects missing from the store.
+ */
+export async function readRawFile(file: RawIngestFile): Promise<string | null> {
+  if (!file.storageBackend) return null;
+
+  const store = getRawObjectStore();
+  if (store.backend !== file.storageBackend) {
+    throw new Error(
+      `File ${file.fileName} is stored in "${file.storageBackend}" but the configured backend is "${store.backend}"`
+    );
+  }
+
+  const body = await store.get(file.bucketPath);
+  if (!body) return null;
+  const content =
+    file.contentEncoding === "gzip" ? await gunzipAsync(body) : body;
+  return content.toString("utf-8");
+}
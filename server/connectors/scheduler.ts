@@ -0,0 +1,315 @@
+/**
+ * scheduler.ts
+ *
+ * In-process cron scheduler for connectors. Every tick it loads the active
+ * connectors that have a `scheduleCron`, evaluates the expression in the
+ * timezone of the connector's school (config.schoolId → schools.timezone)
+ * and enqueues `runConnector` for every connector whose window is due.
+ *
+ * State lives in connectors.last_scheduled_at / next_scheduled_at, so after a
+ * restart the scheduler sees the windows it missed while it was down and
+ * runs the connector once to catch up (missed windows are coalesced, never
+ * replayed one by one).
+ */
+
+import parser from "cron-parser";
+import { storage } from "../storage";
+import { isPushConnectorType, type Connector, type School } from "@shared/schema";
+import { runConnector } from "./sync-engine";
+
+const DEFAULT_TIMEZONE = "America/Sao_Paulo";
+const TICK_INTERVAL_MS = 60 * 1000;
+const MAX_CONCURRENT_RUNS = 2;
+// A sync_runs row stuck in "running" for longer than this is considered
+// abandoned (e.g. the process died mid-run) and no longer blocks the schedule.
+const STALE_RUN_MS = 6 * 60 * 60 * 1000;
+// Upper bound when counting missed windows, so a "* * * * *" connector that
+// was down for weeks does not spin through every minute.
+const MAX_MISSED_WINDOWS = 1000;
+
+export interface ConnectorSchedule {
+  connectorId: string;
+  scheduleCron: string | null;
+  timezone: string;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunStatus: string | null;
+  running: boolean;
+  error?: string;
+}
+
+// ─── Cron helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Returns null when the expression is valid, otherwise a human-readable
+ * parse error.
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parser.parseExpression(expression, { tz: DEFAULT_TIMEZONE });
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+function getNextWindow(
+  expression: string,
+  timezone: string,
+  after: Date
+): Date {
+  const interval = parser.parseExpression(expression, {
+    currentDate: after,
+    tz: timezone,
+  });
+  return interval.next().toDate();
+}
+
+/**
+ * Lists the cron windows in (after, until], capped at MAX_MISSED_WINDOWS.
+ */
+function getWindowsBetween(
+  expression: string,
+  timezone: string,
+  after: Date,
+  until: Date
+): Date[] {
+  const interval = parser.parseExpression(expression, {
+    currentDate: after,
+    endDate: until,
+    tz: timezone,
+  });
+  const windows: Date[] = [];
+  while (interval.hasNext() && windows.length < MAX_MISSED_WINDOWS) {
+    windows.push(interval.next().toDate());
+  }
+  return windows;
+}
+
+function resolveTimezone(connector: Connector, schools: School[]): string {
+  const config = (connector.config || {}) as Record<string, unknown>;
+  const schoolId = config.schoolId as string | undefined;
+  if (!schoolId) return DEFAULT_TIMEZONE;
+  return schools.find((s) => s.id === schoolId)?.timezone || DEFAULT_TIMEZONE;
+}
+
+function isSchedulable(connector: Connector): boolean {
+  // file_upload and webhook connectors only run when data is pushed
+  return (
+    connector.isActive &&
+    !isPushConnectorType(connector.type) &&
+    !!connector.scheduleCron?.trim()
+  );
+}
+
+// ─── Run queue ────────────────────────────────────────────────────────────────
+
+const runningConnectors = new Set<string>();
+const queuedConnectors: string[] = [];
+
+export function isConnectorRunning(connectorId: string): boolean {
+  return runningConnectors.has(connectorId);
+}
+
+async function hasActiveSyncRun(connectorId: string): Promise<boolean> {
+  const [latest] = await storage.getSyncRunsByConnectorId(connectorId, 1);
+  if (!latest || latest.status !== "running") return false;
+  return Date.now() - new Date(latest.startedAt).getTime() < STALE_RUN_MS;
+}
+
+function drainQueue(): void {
+  while (
+    queuedConnectors.length > 0 &&
+    runningConnectors.size < MAX_CONCURRENT_RUNS
+  ) {
+    const connectorId = queuedConnectors.shift()!;
+    runningConnectors.add(connectorId);
+
+    runConnector(connectorId)
+      .catch((err) => {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error(`[scheduler] Run failed for connector ${connectorId}: ${msg}`);
+      })
+      .finally(() => {
+        runningConnectors.delete(connectorId);
+        drainQueue();
+      });
+  }
+}
+
+function enqueueRun(connectorId: string): boolean {
+  if (
+    runningConnectors.has(connectorId) ||
+    queuedConnectors.includes(connectorId)
+  ) {
+    return false;
+  }
+  queuedConnectors.push(connectorId);
+  drainQueue();
+  return true;
+}
+
+// ─── Tick ─────────────────────────────────────────────────────────────────────
+
+async function evaluateConnector(
+  connector: Connector,
+  schools: School[],
+  now: Date
+): Promise<void> {
+  const expression = connector.scheduleCron!.trim();
+  const timezone = resolveTimezone(connector, schools);
+
+  // First time we see this connector (or its schedule was reset): start
+  // counting windows from now instead of firing immediately.
+  if (!connector.lastScheduledAt) {
+    await storage.updateConnectorSchedule(connector.id, {
+      lastScheduledAt: now,
+      nextScheduledAt: getNextWindow(expression, timezone, now),
+    });
+    return;
+  }
+
+  const dueWindows = getWindowsBetween(
+    expression,
+    timezone,
+    new Date(connector.lastScheduledAt),
+    now
+  );
+  if (dueWindows.length === 0) {
+    if (!connector.nextScheduledAt) {
+      await storage.updateConnectorSchedule(connector.id, {
+        nextScheduledAt: getNextWindow(expression, timezone, now),
+      });
+    }
+    return;
+  }
+
+  const latestWindow = dueWindows[dueWindows.length - 1];
+  if (dueWindows.length > 1) {
+    console.warn(
+      `[scheduler] Connector ${connector.name} (${connector.id}): ` +
+      `${dueWindows.length} missed windows since ${new Date(connector.lastScheduledAt).toISOString()}, running once to catch up`
+    );
+  }
+
+  if (
+    runningConnectors.has(connector.id) ||
+    (await hasActiveSyncRun(connector.id))
+  ) {
+    console.warn(
+      `[scheduler] Connector ${connector.name} (${connector.id}): ` +
+      `skipping window ${latestWindow.toISOString()}, previous run still in progress`
+    );
+  } else {
+    enqueueRun(connector.id);
+    console.log(
+      `[scheduler] Connector ${connector.name} (${connector.id}): ` +
+      `enqueued run for window ${latestWindow.toISOString()} (${timezone})`
+    );
+  }
+
+  await storage.updateConnectorSchedule(connector.id, {
+    lastScheduledAt: latestWindow,
+    nextScheduledAt: getNextWindow(expression, timezone, now),
+  });
+}
+
+let ticking = false;
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const [allConnectors, schools] = await Promise.all([
+      storage.getConnectors(),
+      storage.getSchools(),
+    ]);
+    const now = new Date();
+
+    for (const connector of allConnectors.filter(isSchedulable)) {
+      try {
+        await evaluateConnector(connector, schools, now);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error(
+          `[scheduler] Failed to evaluate schedule for connector ${connector.id}: ${msg}`
+        );
+      }
+    }
+  } catch (err) {
+    console.error("[scheduler] Tick failed:", err);
+  } finally {
+    ticking = false;
+  }
+}
+
+export function startConnectorScheduler(): NodeJS.Timeout {
+  void tick();
+  return setInterval(() => void tick(), TICK_INTERVAL_MS);
+}
+
+// ─── Schedule state for the API / UI ──────────────────────────────────────────
+
+/**
+ * Recomputes next_scheduled_at after a connector is created or its cron /
+ * school changes. last_scheduled_at is reset so the new expression starts
+ * counting windows from now rather than catching up on the old schedule.
+ */
+export async function resetConnectorSchedule(
+  connector: Connector
+): Promise<void> {
+  if (!isSchedulable(connector)) {
+    await storage.updateConnectorSchedule(connector.id, {
+      lastScheduledAt: null,
+      nextScheduledAt: null,
+    });
+    return;
+  }
+  const schools = await storage.getSchools();
+  const now = new Date();
+  await storage.updateConnectorSchedule(connector.id, {
+    lastScheduledAt: now,
+    nextScheduledAt: getNextWindow(
+      connector.scheduleCron!.trim(),
+      resolveTimezone(connector, schools),
+      now
+    ),
+  });
+}
+
+export async function getConnectorSchedules(
+  connectorList: Connector[]
+): Promise<ConnectorSchedule[]> {
+  const [schools, latestRuns] = await Promise.all([
+    storage.getSchools(),
+    storage.getLatestSyncRunPerConnector(),
+  ]);
+  const now = new Date();
+
+  return connectorList.map((connector) => {
+    const timezone = resolveTimezone(connector, schools);
+    const latestRun = latestRuns.find((r) => r.connectorId === connector.id);
+    const schedule: ConnectorSchedule = {
+      connectorId: connector.id,
+      scheduleCron: connector.scheduleCron,
+      timezone,
+      nextRunAt: null,
+      lastRunAt: latestRun?.startedAt ?? null,
+      lastRunStatus: latestRun?.status ?? null,
+      running:
+        runningConnectors.has(connector.id) || latestRun?.status === "running",
+    };
+
+    if (isSchedulable(connector)) {
+      try {
+        schedule.nextRunAt =
+          connector.nextScheduledAt ??
+          getNextWindow(connector.scheduleCron!.trim(), timezone, now);
+      } catch (err) {
+        schedule.error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    return schedule;
+  });
+}
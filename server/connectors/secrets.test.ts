@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { REDACTED_SECRET } from "@shared/schema";
+import {
+  checkRedactedSecrets,
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  openConnectorConfig,
+  redactConnectorConfig,
+  restoreRedactedSecrets,
+  sealConnectorConfig,
+  stripConnectorSecrets,
+} from "./secrets";
+
+const config = {
+  baseUrl: "https://crm.example.com/api",
+  apiKey: "key-123",
+  oauth: { tokenEndpoint: "https://crm.example.com/token", refreshToken: "refresh-1" },
+  headers: { "X-Tenant": "acme", Authorization: "Basic abc" },
+  pageSize: 50,
+};
+
+test("encryptSecret round-trips with a fresh envelope each time", () => {
+  const a = encryptSecret("s3cret");
+  assert.ok(isEncryptedSecret(a));
+  assert.notEqual(encryptSecret("s3cret"), a);
+  assert.equal(decryptSecret(a), "s3cret");
+  assert.equal(decryptSecret("plain"), "plain");
+});
+
+test("sealConnectorConfig encrypts only the secrets and is idempotent", () => {
+  const sealed = sealConnectorConfig(config);
+  assert.ok(isEncryptedSecret(sealed.apiKey));
+  assert.ok(isEncryptedSecret((sealed.headers as Record<string, string>).Authorization));
+  assert.equal((sealed.headers as Record<string, string>)["X-Tenant"], "acme");
+  assert.equal(sealed.baseUrl, config.baseUrl);
+  assert.deepEqual(sealConnectorConfig(sealed), sealed);
+  assert.deepEqual(openConnectorConfig(sealed), config);
+});
+
+test("redacted configs restore the stored secrets and strip drops them", () => {
+  const stored = sealConnectorConfig(config);
+  const redacted = redactConnectorConfig(stored);
+  assert.equal(redacted.apiKey, REDACTED_SECRET);
+  assert.deepEqual(openConnectorConfig(restoreRedactedSecrets(redacted, stored)), config);
+
+  const stripped = stripConnectorSecrets(config);
+  assert.equal(stripped.apiKey, undefined);
+  assert.deepEqual(stripped.oauth, { tokenEndpoint: "https://crm.example.com/token" });
+  assert.deepEqual(stripped.headers, { "X-Tenant": "acme" });
+});
+
+test("checkRedactedSecrets accepts redacted secrets for the same destination", () => {
+  const stored = sealConnectorConfig(config);
+  const redacted = redactConnectorConfig(stored);
+  assert.equal(checkRedactedSecrets({ ...redacted, pageSize: 100 }, stored), null);
+  // New secrets may go anywhere
+  assert.equal(checkRedactedSecrets({ ...config, baseUrl: "https://other.example.com" }, stored), null);
+});
+
+test("checkRedactedSecrets rejects redacted secrets sent somewhere else", () => {
+  const stored = sealConnectorConfig(config);
+  const redacted = redactConnectorConfig(stored);
+  const oauth = redacted.oauth as Record<string, unknown>;
+  const headers = redacted.headers as Record<string, unknown>;
+
+  for (const changed of [
+    { ...redacted, baseUrl: "https://attacker.example.com/api" },
+    { ...redacted, oauth: { ...oauth, tokenEndpoint: "https://attacker.example.com/token" } },
+    { ...redacted, headers: { ...headers, "X-Tenant": "other" } },
+  ]) {
+    const error = checkRedactedSecrets(changed, stored);
+    assert.match(error ?? "", /enter apiKey, oauth\.refreshToken, headers\.Authorization again/);
+  }
+});
@@ -0,0 +1,257 @@
+/**
+ * secrets.ts
+ *
+ * Envelope encryption of connector credentials in connectors.config. Each
+ * secret value is encrypted (AES-256-GCM) with its own random data key, and
+ * the data key is wrapped with a master key from the environment:
+ *
+ *   CONNECTOR_SECRET_KEYS="2026-10:<base64 32 bytes>,2026-01:<base64 32 bytes>"
+ *
+ * The first key encrypts; the others only decrypt values wrapped before a
+ * rotation. POST /api/connector-secrets/rotate rewraps every data key with
+ * the current key (the ciphertexts stay as they are) and encrypts values
+ * still stored in plain text, after which old keys can be dropped.
+ *
+ * Configs are sealed by storage on every write and opened only by the
+ * connector clients; API responses carry REDACTED_SECRET instead, and a
+ * redacted value sent back means "keep the stored one", unless the config
+ * now sends the secrets somewhere else.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { REDACTED_SECRET } from "@shared/schema";
+
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const DEV_KEY_ID = "dev";
+
+// Config paths holding secrets; "headers" values are secret when their name is
+const SECRET_PATHS = [
+  ["apiKey"],
+  ["oauth", "accessToken"],
+  ["oauth", "refreshToken"],
+  ["oauth", "clientSecret"],
+  ["webhook", "secret"],
+  ["webhook", "previousSecret"],
+];
+const SECRET_HEADER_PATTERN = /authorization|token|secret|api[-_]?key|password/i;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let keyring: MasterKey[] | null = null;
+
+function loadKeyring(): MasterKey[] {
+  if (keyring) return keyring;
+
+  const spec = process.env.CONNECTOR_SECRET_KEYS?.trim();
+  if (!spec) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("CONNECTOR_SECRET_KEYS is not set; connector secrets cannot be encrypted");
+    }
+    console.warn("[secrets] CONNECTOR_SECRET_KEYS is not set, using the development key");
+    keyring = [{ id: DEV_KEY_ID, key: createHash("sha256").update("dev-connector-secret-key").digest() }];
+    return keyring;
+  }
+
+  keyring = spec.split(",").map((entry) => {
+    const [id, encoded] = entry.trim().split(":");
+    const key = Buffer.from(encoded || "", "base64");
+    if (!id || key.length !== 32) {
+      throw new Error(`CONNECTOR_SECRET_KEYS: expected "id:<base64 32-byte key>", got "${id || entry}"`);
+    }
+    return { id, key };
+  });
+  return keyring;
+}
+
+function getMasterKey(id: string): Buffer {
+  const found = loadKeyring().find((k) => k.id === id);
+  if (!found) throw new Error(`Connector secret key "${id}" is not in CONNECTOR_SECRET_KEYS`);
+  return found.key;
+}
+
+// iv | tag | ciphertext, base64
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+// "enc:v1:<key id>:<wrapped data key>:<ciphertext>"
+function parseEnvelope(value: string): { keyId: string; wrappedKey: string; ciphertext: string } {
+  const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(":");
+  if (!keyId || !wrappedKey || !ciphertext) throw new Error("Malformed connector secret");
+  return { keyId, wrappedKey, ciphertext };
+}
+
+export function isEncryptedSecret(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+export function encryptSecret(value: string): string {
+  const { id, key } = loadKeyring()[0];
+  const dataKey = randomBytes(32);
+  return `${PREFIX}${id}:${seal(key, dataKey)}:${seal(dataKey, Buffer.from(value, "utf8"))}`;
+}
+
+// Values written before encryption existed are returned as they are
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value;
+  const { keyId, wrappedKey, ciphertext } = parseEnvelope(value);
+  const dataKey = unseal(getMasterKey(keyId), wrappedKey);
+  return unseal(dataKey, ciphertext).toString("utf8");
+}
+
+// Same secret under the current master key; plain values get encrypted
+function rewrapSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return encryptSecret(value);
+  const { keyId, wrappedKey, ciphertext } = parseEnvelope(value);
+  const current = loadKeyring()[0];
+  if (keyId === current.id) return value;
+  const dataKey = unseal(getMasterKey(keyId), wrappedKey);
+  return `${PREFIX}${current.id}:${seal(current.key, dataKey)}:${ciphertext}`;
+}
+
+// ─── Config helpers ───────────────────────────────────────────────────────────
+
+type Config = Record<string, unknown>;
+
+/**
+ * Copy of the config with fn applied to every secret string value. Nested
+ * objects along secret paths are copied, never mutated.
+ */
+function mapSecrets(config: Config, fn: (value: string, path: string) => unknown): Config {
+  const result: Config = { ...config };
+  for (const path of SECRET_PATHS) {
+    let parent = result;
+    for (const key of path.slice(0, -1)) {
+      const child = parent[key];
+      if (typeof child !== "object" || child === null || Array.isArray(child)) {
+        parent = {};
+        break;
+      }
+      parent[key] = { ...(child as Config) };
+      parent = parent[key] as Config;
+    }
+    const leaf = path[path.length - 1];
+    if (typeof parent[leaf] === "string" && parent[leaf] !== "") {
+      parent[leaf] = fn(parent[leaf] as string, path.join("."));
+    }
+  }
+
+  const headers = result.headers;
+  if (typeof headers === "object" && headers !== null && !Array.isArray(headers)) {
+    const copy: Config = { ...(headers as Config) };
+    for (const [name, value] of Object.entries(copy)) {
+      if (SECRET_HEADER_PATTERN.test(name) && typeof value === "string" && value !== "") {
+        copy[name] = fn(value, `headers.${name}`);
+      }
+    }
+    result.headers = copy;
+  }
+  return result;
+}
+
+function getPath(config: Config, path: string): unknown {
+  const parts = path.startsWith("headers.") ? ["headers", path.slice("headers.".length)] : path.split(".");
+  let current: unknown = config;
+  for (const part of parts) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Config)[part];
+  }
+  return current;
+}
+
+// Encrypts the secrets stored in plain text; used by storage on every write
+export function sealConnectorConfig(config: Config): Config {
+  return mapSecrets(config, (value) => (isEncryptedSecret(value) ? value : encryptSecret(value)));
+}
+
+// Decrypted copy for the connector clients; never persist or return it
+export function openConnectorConfig(config: Config): Config {
+  return mapSecrets(config, decryptSecret);
+}
+
+export function redactConnectorConfig(config: Config): Config {
+  return mapSecrets(config, () => REDACTED_SECRET);
+}
+
+// Config with the secret values removed, for copies leaving the connector
+export function stripConnectorSecrets(config: Config): Config {
+  const stripped = mapSecrets(config, () => undefined);
+  return JSON.parse(JSON.stringify(stripped)) as Config;
+}
+
+/**
+ * Puts the stored values back where a config sent by the UI still carries
+ * REDACTED_SECRET; a redacted secret with no stored value is dropped.
+ */
+export function restoreRedactedSecrets(config: Config, stored: Config): Config {
+  return mapSecrets(config, (value, path) => {
+    if (value !== REDACTED_SECRET) return value;
+    const previous = getPath(stored, path);
+    return typeof previous === "string" ? previous : undefined;
+  });
+}
+
+// Where the secrets go: the API and token URLs and the headers sent with them
+function secretDestination(config: Config): string {
+  const headers = config.headers;
+  const plainHeaders =
+    typeof headers === "object" && headers !== null && !Array.isArray(headers)
+      ? Object.entries(headers as Config)
+        .filter(([name]) => !SECRET_HEADER_PATTERN.test(name))
+        .sort(([a], [b]) => a.localeCompare(b))
+      : [];
+  return JSON.stringify([
+    getPath(config, "baseUrl") ?? null,
+    getPath(config, "oauth.tokenEndpoint") ?? null,
+    plainHeaders,
+  ]);
+}
+
+/**
+ * Error for a config that keeps stored secrets (REDACTED_SECRET) while
+ * changing where they are sent: with a new base URL, token endpoint or
+ * headers the secrets must be entered again. null when the config is fine.
+ */
+export function checkRedactedSecrets(config: Config, stored: Config): string | null {
+  const redacted: string[] = [];
+  mapSecrets(config, (value, path) => {
+    if (value === REDACTED_SECRET) redacted.push(path);
+    return value;
+  });
+  if (redacted.length === 0 || secretDestination(config) === secretDestination(stored)) {
+    return null;
+  }
+  return (
+    `The base URL, token endpoint or headers changed; enter ${redacted.join(", ")} again ` +
+    "instead of keeping the stored value"
+  );
+}
+
+/**
+ * Config with every secret's data key wrapped by the current master key and
+ * the secrets still in plain text encrypted, plus how many values changed.
+ */
+export function rewrapConnectorSecrets(config: Config): { config: Config; rewrapped: number } {
+  let rewrapped = 0;
+  const result = mapSecrets(config, (value) => {
+    const next = rewrapSecret(value);
+    if (next !== value) rewrapped++;
+    return next;
+  });
+  return { config: result, rewrapped };
+}
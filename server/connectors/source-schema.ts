@@ -0,0 +1,408 @@
+/**
+ * source-schema.ts
+ *
+ * Schema drift detection. Every run samples its raw records into an inferred
+ * schema (source path → JSON type), nested objects and arrays included, and
+ * compares it with the connector's schema in connector_source_schemas. New
+ * fields, fields no record had any more and fields whose type changed open a
+ * "schema_drift" integration alert with the diff. Fields no mapping reads
+ * become mapping suggestions in MappingsTab.
+ *
+ * Paths use the mapping syntax: "customer.name", "installments[*].amount".
+ */
+
+import { storage } from "../storage";
+import {
+  CANONICAL_SCHEMAS,
+  type Connector,
+  type ConnectorSourceSchema,
+  type NormalizedTable,
+  type SourceFieldType,
+  type SourceSchemaField,
+} from "@shared/schema";
+import { EXPLODE_MARKER, getExplodePath, type MappingRule } from "./transforms";
+
+// Records of a run that are sampled; enough to see optional fields
+const MAX_SAMPLED_RECORDS = 500;
+// Elements of each array walked per record
+const MAX_SAMPLED_ELEMENTS = 20;
+const MAX_DEPTH = 6;
+// Below this many records a missing field may just be a sparse one
+const MIN_RECORDS_FOR_REMOVAL = 20;
+const MAX_SUGGESTIONS = 50;
+
+export const SCHEMA_DRIFT_ALERT_TYPE = "schema_drift";
+
+export interface SchemaSample {
+  records: number;
+  // path → type → occurrences
+  fields: Map<string, Map<SourceFieldType, number>>;
+}
+
+export interface SchemaDrift {
+  added: Array<{ path: string; type: SourceFieldType }>;
+  removed: Array<{ path: string; type: SourceFieldType }>;
+  typeChanged: Array<{ path: string; from: SourceFieldType; to: SourceFieldType }>;
+  // A removed and an added field of the same type under the same parent
+  renamed: Array<{ from: string; to: string; type: SourceFieldType }>;
+}
+
+export interface MappingSuggestion {
+  sourcePath: string;
+  type: SourceFieldType;
+  firstSeenAt: string;
+  targetField: string;
+  // Canonical field the source name matched, e.g. "Telefone (leads)"
+  canonicalLabel: string | null;
+}
+
+// ─── Sampling ─────────────────────────────────────────────────────────────────
+
+export function createSchemaSample(): SchemaSample {
+  return { records: 0, fields: new Map() };
+}
+
+function typeOf(value: unknown): SourceFieldType {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "number":
+    case "bigint":
+      return "number";
+    case "boolean":
+      return "boolean";
+    default:
+      return "object";
+  }
+}
+
+function note(sample: SchemaSample, path: string, type: SourceFieldType): void {
+  let types = sample.fields.get(path);
+  if (!types) {
+    types = new Map();
+    sample.fields.set(path, types);
+  }
+  types.set(type, (types.get(type) ?? 0) + 1);
+}
+
+function walk(sample: SchemaSample, value: unknown, path: string, depth: number): void {
+  const type = typeOf(value);
+  note(sample, path, type);
+  if (depth >= MAX_DEPTH) return;
+
+  if (type === "object") {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      walk(sample, child, `${path}.${key}`, depth + 1);
+    }
+  } else if (type === "array") {
+    for (const element of (value as unknown[]).slice(0, MAX_SAMPLED_ELEMENTS)) {
+      walk(sample, element, `${path}${EXPLODE_MARKER}`, depth + 1);
+    }
+  }
+}
+
+export function observeRecord(sample: SchemaSample, record: Record<string, unknown>): void {
+  if (sample.records >= MAX_SAMPLED_RECORDS) return;
+  sample.records++;
+  for (const [key, value] of Object.entries(record)) {
+    walk(sample, value, key, 0);
+  }
+}
+
+// Most frequent non-null type; "null" when only nulls were seen
+function dominantType(types: Map<SourceFieldType, number>): SourceFieldType {
+  let best: SourceFieldType = "null";
+  let bestCount = 0;
+  types.forEach((count, type) => {
+    if (type !== "null" && count > bestCount) {
+      best = type;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Sampled fields with their dominant type, in path order
+export function listSampleFields(
+  sample: SchemaSample
+): Array<{ path: string; type: SourceFieldType }> {
+  return Array.from(sample.fields.entries())
+    .map(([path, types]) => ({ path, type: dominantType(types) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// ─── Drift ────────────────────────────────────────────────────────────────────
+
+function parentPath(path: string): string {
+  if (path.endsWith(EXPLODE_MARKER)) return path.slice(0, -EXPLODE_MARKER.length);
+  const dot = path.lastIndexOf(".");
+  return dot === -1 ? "" : path.slice(0, dot);
+}
+
+function leafName(path: string): string {
+  const leaf = path.slice(parentPath(path).length).replace(/^\./, "");
+  return leaf === EXPLODE_MARKER ? parentPath(path).split(".").pop() ?? "" : leaf;
+}
+
+// Drops entries whose parent is listed too (a new object and its fields)
+function topMost<T extends { path: string }>(entries: T[]): T[] {
+  const paths = new Set(entries.map((e) => e.path));
+  return entries.filter((e) => {
+    for (let p = parentPath(e.path); p; p = parentPath(p)) {
+      if (paths.has(p)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Differences between the stored schema and a run's sample. Removed fields
+ * are only reported when the run read the complete source and enough
+ * records to tell them from sparse ones.
+ */
+export function diffSourceSchema(
+  previous: Record<string, SourceSchemaField>,
+  sample: SchemaSample,
+  allowRemoval: boolean
+): SchemaDrift {
+  const added: SchemaDrift["added"] = [];
+  const removed: SchemaDrift["removed"] = [];
+  const typeChanged: SchemaDrift["typeChanged"] = [];
+
+  sample.fields.forEach((types, path) => {
+    const type = dominantType(types);
+    const before = previous[path];
+    if (!before) {
+      added.push({ path, type });
+    } else if (before.type !== "null" && type !== "null" && before.type !== type) {
+      typeChanged.push({ path, from: before.type, to: type });
+    }
+  });
+
+  if (allowRemoval && sample.records >= MIN_RECORDS_FOR_REMOVAL) {
+    for (const [path, field] of Object.entries(previous)) {
+      if (!sample.fields.has(path)) removed.push({ path, type: field.type });
+    }
+  }
+
+  const drift: SchemaDrift = {
+    added: topMost(added),
+    removed: topMost(removed),
+    typeChanged,
+    renamed: [],
+  };
+
+  for (const gone of drift.removed.slice()) {
+    const match = drift.added.find(
+      (a) => a.type === gone.type && parentPath(a.path) === parentPath(gone.path)
+    );
+    if (!match) continue;
+    drift.renamed.push({ from: gone.path, to: match.path, type: gone.type });
+    drift.added.splice(drift.added.indexOf(match), 1);
+    drift.removed.splice(drift.removed.indexOf(gone), 1);
+  }
+
+  return drift;
+}
+
+function hasDrift(drift: SchemaDrift): boolean {
+  return (
+    drift.added.length + drift.removed.length + drift.typeChanged.length + drift.renamed.length > 0
+  );
+}
+
+function mergeSample(
+  previous: Record<string, SourceSchemaField>,
+  sample: SchemaSample,
+  allowRemoval: boolean
+): Record<string, SourceSchemaField> {
+  const now = new Date().toISOString();
+  const fields: Record<string, SourceSchemaField> = {};
+  if (!allowRemoval || sample.records < MIN_RECORDS_FOR_REMOVAL) {
+    Object.assign(fields, previous);
+  }
+  sample.fields.forEach((types, path) => {
+    const before = previous[path];
+    const type = dominantType(types);
+    fields[path] = {
+      // A field that was only null this time keeps its known type
+      type: type === "null" && before ? before.type : type,
+      firstSeenAt: before?.firstSeenAt ?? now,
+      lastSeenAt: now,
+    };
+  });
+  return fields;
+}
+
+// Mapping source paths with indexes read as "[*]", so "items[0].x" covers
+// the "items[*].x" field
+function normalizeSourcePath(path: string): string {
+  return path.replace(/\[\d+\]/g, EXPLODE_MARKER);
+}
+
+function isUnder(path: string, ancestor: string): boolean {
+  return (
+    path === ancestor ||
+    path.startsWith(`${ancestor}.`) ||
+    path.startsWith(`${ancestor}${EXPLODE_MARKER}`)
+  );
+}
+
+// Mappings reading the field or something inside it
+function mappingsReading(path: string, mappings: MappingRule[]): string[] {
+  return mappings
+    .map((m) => m.sourcePath)
+    .filter((sourcePath) => isUnder(normalizeSourcePath(sourcePath), path));
+}
+
+/**
+ * Folds a run's sample into the connector's stored schema and opens a
+ * schema_drift alert when fields were added, removed, renamed or retyped.
+ * The first sample only sets the baseline. Never throws: drift detection
+ * must not fail the run.
+ */
+export async function trackSourceSchema(
+  connector: Connector,
+  runId: string,
+  sample: SchemaSample,
+  mappings: MappingRule[],
+  options: { allowRemoval: boolean }
+): Promise<SchemaDrift | null> {
+  if (sample.records === 0) return null;
+  try {
+    const stored = await storage.getConnectorSourceSchema(connector.id);
+    const previous = stored?.fields ?? {};
+    const drift = stored ? diffSourceSchema(previous, sample, options.allowRemoval) : null;
+
+    await storage.upsertConnectorSourceSchema({
+      connectorId: connector.id,
+      fields: mergeSample(previous, sample, options.allowRemoval),
+      sampledRecords: sample.records,
+      lastRunId: runId,
+    });
+
+    if (!drift || !hasDrift(drift)) return null;
+
+    const affectedMappings = Array.from(
+      new Set(
+        [
+          ...drift.removed.map((r) => r.path),
+          ...drift.typeChanged.map((t) => t.path),
+          ...drift.renamed.map((r) => r.from),
+        ].flatMap((path) => mappingsReading(path, mappings))
+      )
+    );
+    const parts = [
+      drift.added.length > 0 ? `${drift.added.length} new` : null,
+      drift.removed.length > 0 ? `${drift.removed.length} removed` : null,
+      drift.renamed.length > 0 ? `${drift.renamed.length} renamed` : null,
+      drift.typeChanged.length > 0 ? `${drift.typeChanged.length} type change(s)` : null,
+    ].filter(Boolean);
+
+    await storage.createIntegrationAlert({
+      connectorId: connector.id,
+      alertType: SCHEMA_DRIFT_ALERT_TYPE,
+      // Only drift that breaks a mapping needs action right away
+      severity: affectedMappings.length > 0 ? "warning" : "info",
+      message: `Source schema of ${connector.name} changed: ${parts.join(", ")}`,
+      metadata: { runId, ...drift, affectedMappings },
+      status: "open",
+    });
+    console.warn(
+      `[sync] Connector ${connector.name} (${connector.id}): schema drift - ${parts.join(", ")}`
+    );
+    return drift;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[sync] Failed to track source schema of connector ${connector.id}: ${msg}`);
+    return null;
+  }
+}
+
+// ─── Mapping suggestions ──────────────────────────────────────────────────────
+
+// Source names (accents stripped, snake_case) that suggest a canonical field
+const CANONICAL_SYNONYMS: Record<string, string[]> = {
+  name: ["nome", "nome_completo", "full_name", "fullname", "responsavel"],
+  email: ["e_mail", "mail", "email_address", "email_responsavel"],
+  phone: ["telefone", "celular", "fone", "tel", "mobile", "whatsapp"],
+  cpf: ["cpf_responsavel", "documento"],
+  amount: ["valor", "valor_total", "total", "value", "preco", "price"],
+  status: ["situacao", "estado"],
+  payment_date: ["data_pagamento", "data_vencimento", "vencimento", "due_date"],
+  paid_at: ["pago_em", "data_baixa"],
+  enrollment_date: ["data_matricula"],
+  grade: ["serie", "ano_escolar", "turma"],
+};
+
+function toFieldName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Suggested mappings for the schema's unmapped leaf fields, newest first:
+ * the canonical field of the target tables the source name matches, or the
+ * source name itself as a payload field.
+ */
+export function suggestMappings(
+  schema: ConnectorSourceSchema | undefined,
+  mappings: MappingRule[],
+  tables: NormalizedTable[]
+): MappingSuggestion[] {
+  if (!schema) return [];
+  let explodePath: string | null = null;
+  try {
+    explodePath = getExplodePath(mappings);
+  } catch {
+    // An invalid set is reported when it is saved; suggest no array fields
+  }
+  const usedTargets = new Set(mappings.map((m) => m.targetField));
+  const mappedPaths = mappings.map((m) => normalizeSourcePath(m.sourcePath));
+
+  const suggestions: MappingSuggestion[] = [];
+  for (const [path, field] of Object.entries(schema.fields)) {
+    if (field.type === "object" || field.type === "array") continue;
+    if (mappedPaths.some((mapped) => isUnder(path, mapped))) continue;
+    // Only the array the mappings explode (or one, when none does) can be read
+    const at = path.indexOf(EXPLODE_MARKER);
+    if (at !== -1) {
+      if (path.includes(EXPLODE_MARKER, at + EXPLODE_MARKER.length)) continue;
+      if (explodePath !== null && path.slice(0, at) !== explodePath) continue;
+    }
+
+    const name = toFieldName(leafName(path));
+    let targetField = name;
+    let canonicalLabel: string | null = null;
+    for (const table of tables) {
+      const canonical = CANONICAL_SCHEMAS[table].find(
+        (f) => f.field === name || CANONICAL_SYNONYMS[f.field]?.includes(name)
+      );
+      if (canonical && !usedTargets.has(canonical.field)) {
+        targetField = canonical.field;
+        canonicalLabel = `${canonical.label} (${table})`;
+        break;
+      }
+    }
+    if (!targetField) continue;
+
+    suggestions.push({
+      sourcePath: path,
+      type: field.type,
+      firstSeenAt: field.firstSeenAt,
+      targetField,
+      canonicalLabel,
+    });
+  }
+
+  return suggestions
+    .sort((a, b) => b.firstSeenAt.localeCompare(a.firstSeenAt) || a.sourcePath.localeCompare(b.sourcePath))
+    .slice(0, MAX_SUGGESTIONS);
+}
@@ -1,21 +1,100 @@
 import { storage } from "../storage";
 import type {
   Connector,
+  ConnectorFileUpload,
   ConnectorMapping,
+  ConnectorMappingVersion,
+  ConnectorWebhookEvent,
+  HeaderDrift,
+  IdentityMatchRule,
+  InsertConnectorMetric,
+  RawIngestFile,
   SyncRun,
-  ConnectorType,
+  SyncRunCheckpoint,
+  NormalizedTable,
+  ReconciliationPolicy,
+  TargetTable,
 } from "@shared/schema";
-import { fetchConnectorData, type ApiClientConfig } from "./api-client";
-import { fetchGoogleSheetData } from "./google-sheets-client";
-import { applyMappings, extractSourceId } from "./transforms";
+import { isPushConnectorType } from "@shared/schema";
+import {
+  extractDataFromResponse,
+  fetchConnectorData,
+  type ApiClientConfig,
+  type IncrementalSyncConfig,
+} from "./api-client";
+import { fetchGoogleSheetData, parseSheetValues } from "./google-sheets-client";
+import { readRawFile, writeRawPage } from "./raw-store";
+import type { ParsedUploadFile } from "./file-parser";
+import {
+  getRoutedTables,
+  getTargetRouting,
+  isNormalizedTable,
+  resolveTargetTable,
+  upsertTargetRecord,
+  validateTargetPayload,
+  type TargetRouting,
+} from "./targets";
+import {
+  applyMappings,
+  computeMappingVersion,
+  explodeRecord,
+  extractSourceId,
+  getExplodePath,
+  getNestedValue,
+  type ExplodedRow,
+  type MappingRule,
+} from "./transforms";
+import {
+  getUnresolvedLookups,
+  loadLookupContext,
+  type LookupContext,
+  type UnresolvedLookup,
+} from "./lookups";
+import { loadIdentityRules } from "./identity";
+import { recordMappingVersion } from "./mapping-versions";
+import { createThrottleStats, type ThrottleStats } from "./rate-limit";
+import {
+  createSchemaSample,
+  observeRecord,
+  trackSourceSchema,
+  type SchemaSample,
+} from "./source-schema";
 
 export interface SyncOptions {
+  // Re-use an existing run; a failed run with a checkpoint resumes from its
+  // last committed page instead of starting over. A running one is refused.
   runId?: string;
   batchSize?: number;
   maxPages?: number;
   dryRun?: boolean;
+  // Ignore the stored watermark and pull everything (the watermark is still
+  // advanced if the full run succeeds)
+  fullResync?: boolean;
 }
 
+export interface WatermarkChange {
+  type: IncrementalSyncConfig["mode"];
+  previous: string | null;
+  next: string | null;
+}
+
+// config.reconciliation: after a complete run, rows of this connector that
+// the run did not see are soft-deleted or tombstoned
+export interface ReconciliationConfig {
+  policy: ReconciliationPolicy;
+  // Refuse to reconcile when more than this share of the connector's rows
+  // would go (protects against an upstream returning an empty list)
+  maxDeleteRatio?: number;
+}
+
+export interface ReconciliationResult {
+  policy: ReconciliationPolicy;
+  deleted: number;
+  skipped?: string;
+}
+
+const DEFAULT_MAX_DELETE_RATIO = 0.5;
+
 export interface SyncResult {
   runId: string;
   connectorId: string;
@@ -26,72 +105,388 @@ export interface SyncResult {
   unmappedFields: string[];
   durationMs: number;
   pages: number;
+  deadLettered: number;
+  resumedFromPage?: number;
+  watermark?: WatermarkChange;
+  reconciliation?: ReconciliationResult;
+  unresolvedLookups?: UnresolvedLookup[];
+  // API connectors: time spent on rate limits and 429 responses
+  throttle?: ThrottleStats;
 }
 
 interface SyncError {
-  type: "fetch" | "transform" | "upsert" | "general";
+  type: "fetch" | "transform" | "validation" | "upsert" | "general";
   message: string;
   recordIndex?: number;
   sourceId?: string;
 }
 
-function getTargetTable(
-  connectorType: ConnectorType
-): "leads" | "payments" | "enrollments" {
-  switch (connectorType) {
-    case "crm":
-    case "google_sheets":
-      return "leads";
-    case "finance":
-      return "payments";
-    case "academic":
-      return "enrollments";
+function toTimestamp(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  if (typeof value === "number") {
+    // Heuristic: values below 1e12 are epoch seconds
+    return value < 1e12 ? value * 1000 : value;
+  }
+  const ms = new Date(String(value)).getTime();
+  return isNaN(ms) ? null : ms;
+}
+
+function formatWatermarkParam(
+  incremental: IncrementalSyncConfig,
+  watermark: string
+): string {
+  if (incremental.mode === "cursor") return watermark;
+
+  const ms = new Date(watermark).getTime() - (incremental.lookbackSeconds ?? 0) * 1000;
+  switch (incremental.format) {
+    case "epoch_s":
+      return String(Math.floor(ms / 1000));
+    case "epoch_ms":
+      return String(ms);
     default:
-      return "leads";
+      return new Date(ms).toISOString();
   }
 }
 
-async function upsertNormalizedRecord(
-  table: "leads" | "payments" | "enrollments",
-  record: {
-    sourceConnectorId: string;
-    sourceId: string;
-    payload: Record<string, unknown>;
-    schoolId?: string | null;
-  }
-) {
-  const data = {
-    sourceConnectorId: record.sourceConnectorId,
-    sourceId: record.sourceId,
-    payload: record.payload,
-    schoolId: record.schoolId ?? null,
-  };
+/**
+ * Parks a failed record in the dead-letter queue. Never throws: losing the
+ * dead letter must not fail the run.
+ */
+async function deadLetterRecord(entry: {
+  connectorId: string;
+  syncRunId: string;
+  sourceId: string | null;
+  rawRecord: Record<string, unknown>;
+  errorType: "transform" | "upsert";
+  errors: string[];
+  mappingVersion: string;
+}): Promise<boolean> {
+  try {
+    await storage.upsertDeadLetter({ ...entry, status: "pending" });
+    return true;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[sync] Failed to dead-letter record ${entry.sourceId ?? "(no id)"}: ${msg}`);
+    return false;
+  }
+}
 
-  switch (table) {
-    case "leads":
-      return storage.upsertLead(data);
-    case "payments":
-      return storage.upsertPayment(data);
-    case "enrollments":
-      return storage.upsertEnrollment(data);
+// Never throws: a missing metric must not fail the run
+async function recordConnectorMetric(metric: InsertConnectorMetric): Promise<void> {
+  try {
+    await storage.createConnectorMetric(metric);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[sync] Failed to record metrics for run ${metric.runId}: ${msg}`);
   }
 }
 
+/**
+ * Writes the gzipped page to the raw object store and records it in
+ * raw_ingest_files. Never throws: when the store is unavailable the row is
+ * kept as metadata only and the run goes on.
+ */
 async function storeRawResponse(
   connectorId: string,
+  syncRunId: string,
   rawResponse: string,
   pageIndex: number
-): Promise<void> {
+): Promise<RawIngestFile | null> {
   const fileName = `sync_${connectorId}_page_${pageIndex}_${Date.now()}.json`;
-  const bucketPath = `raw/${connectorId}/${fileName}`;
+  let location: Awaited<ReturnType<typeof writeRawPage>> | null = null;
+  try {
+    location = await writeRawPage(connectorId, fileName, rawResponse);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[sync] Failed to store raw page ${pageIndex} of connector ${connectorId}: ${msg}`);
+  }
 
-  await storage.createRawIngestFile({
-    connectorId,
-    bucketPath,
-    fileName,
-    fileSize: Buffer.byteLength(rawResponse, "utf-8"),
-    processed: false,
-  });
+  try {
+    return await storage.createRawIngestFile({
+      connectorId,
+      syncRunId,
+      bucketPath: location?.bucketPath ?? `raw/${connectorId}/${fileName}`,
+      fileName,
+      fileSize: Buffer.byteLength(rawResponse, "utf-8"),
+      storageBackend: location?.storageBackend ?? null,
+      contentEncoding: location?.contentEncoding ?? null,
+      processed: false,
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[sync] Failed to record raw page ${pageIndex} of connector ${connectorId}: ${msg}`);
+    return null;
+  }
+}
+
+/**
+ * Turns a stored raw page back into the records the fetch returned, using
+ * the same parsing as the live clients.
+ */
+export function extractRawRecords(
+  connector: Connector,
+  rawResponse: string
+): Record<string, unknown>[] {
+  const body = JSON.parse(rawResponse) as unknown;
+  const config = (connector.config || {}) as Record<string, unknown>;
+
+  if (connector.type === "google_sheets") {
+    const values = (body as { values?: string[][] }).values ?? [];
+    return parseSheetValues(values, config.firstRowIsHeader !== false);
+  }
+  if (connector.type === "file_upload" || connector.type === "webhook") {
+    return (body as { records?: Record<string, unknown>[] }).records ?? [];
+  }
+  return extractDataFromResponse(body, config.dataPath as string | undefined);
+}
+
+// Run-level state shared by the record pipeline of live and reprocessed runs
+interface RecordPipeline {
+  connectorId: string;
+  syncRunId: string;
+  mappings: MappingRule[];
+  mappingVersion: string;
+  targetRouting: TargetRouting;
+  sourceIdField: string;
+  defaultSchoolId: string | null;
+  dryRun: boolean;
+  errors: SyncError[];
+  unmappedFields: Set<string>;
+  // Schools/users for "lookup" ops, loaded once per run
+  lookups: LookupContext;
+  // Active identity_match_rules, loaded once per run
+  identityRules: IdentityMatchRule[];
+  // Shape of the raw records for drift detection; null when not tracked
+  schemaSample: SchemaSample | null;
+}
+
+/**
+ * Maps and upserts the records of one page; a record exploded by a "[*]"
+ * mapping is upserted as one row per array element. Failures are collected
+ * in pipeline.errors and parked in the dead-letter queue.
+ */
+async function processRecords(
+  pipeline: RecordPipeline,
+  records: Record<string, unknown>[],
+  pageNumber: number
+): Promise<{ recordsOut: number; deadLettered: number; lost: number }> {
+  const { connectorId, syncRunId, mappingVersion, errors } = pipeline;
+  const explodePath = getExplodePath(pipeline.mappings);
+  let recordsOut = 0;
+  let deadLettered = 0;
+  // Failed records the dead-letter queue could not take
+  let lost = 0;
+
+  const park = async (entry: {
+    sourceId: string | null;
+    rawRecord: Record<string, unknown>;
+    errorType: "transform" | "upsert";
+    errors: string[];
+  }): Promise<void> => {
+    if (await deadLetterRecord({ connectorId, syncRunId, mappingVersion, ...entry })) {
+      deadLettered++;
+    } else {
+      lost++;
+    }
+  };
+
+  for (let i = 0; i < records.length; i++) {
+    const parentRecord = records[i];
+    const parentId = extractSourceId(parentRecord, pipeline.sourceIdField);
+    if (pipeline.schemaSample) observeRecord(pipeline.schemaSample, parentRecord);
+
+    if (!parentId) {
+      const message = `Record ${i} on page ${pageNumber} has no source ID (field: ${pipeline.sourceIdField})`;
+      errors.push({ type: "transform", message, recordIndex: i });
+      if (!pipeline.dryRun) {
+        await park({ sourceId: null, rawRecord: parentRecord, errorType: "transform", errors: [message] });
+      }
+      continue;
+    }
+
+    let rows: ExplodedRow[];
+    try {
+      rows = explodeRecord(parentRecord, parentId, explodePath);
+    } catch (err) {
+      const message = `Record ${parentId}: ${err instanceof Error ? err.message : String(err)}`;
+      errors.push({ type: "transform", message, recordIndex: i, sourceId: parentId });
+      if (!pipeline.dryRun) {
+        await park({ sourceId: parentId, rawRecord: parentRecord, errorType: "transform", errors: [message] });
+      }
+      continue;
+    }
+
+    for (const { sourceId, record: rawRecord } of rows) {
+      const target = resolveTargetTable(pipeline.targetRouting, rawRecord);
+      if (!target.table) {
+        errors.push({ type: "validation", message: target.error, recordIndex: i, sourceId });
+        if (!pipeline.dryRun) {
+          await park({ sourceId, rawRecord, errorType: "transform", errors: [target.error] });
+        }
+        continue;
+      }
+
+      const transformResult = applyMappings(
+        rawRecord,
+        pipeline.mappings,
+        undefined,
+        pipeline.lookups
+      );
+
+      for (const field of transformResult.unmappedFields) {
+        pipeline.unmappedFields.add(field);
+      }
+
+      for (const errMsg of transformResult.errors) {
+        errors.push({
+          type: "transform",
+          message: errMsg,
+          recordIndex: i,
+          sourceId,
+        });
+      }
+      const validationErrors = validateTargetPayload(target.table, transformResult.payload);
+      for (const errMsg of validationErrors) {
+        errors.push({
+          type: "validation",
+          message: errMsg,
+          recordIndex: i,
+          sourceId,
+        });
+      }
+
+      // With transform errors only, the partial payload is still upserted
+      // below; either way the raw record is kept so it can be replayed once
+      // the mapping is fixed
+      const recordErrors = [...transformResult.errors, ...validationErrors];
+      if (recordErrors.length > 0 && !pipeline.dryRun) {
+        await park({ sourceId, rawRecord, errorType: "transform", errors: recordErrors });
+      }
+      if (validationErrors.length > 0) continue;
+
+      const schoolId =
+        (transformResult.payload.school_id as string) || pipeline.defaultSchoolId;
+
+      if (pipeline.dryRun) {
+        recordsOut++;
+        continue;
+      }
+
+      try {
+        await upsertTargetRecord(
+          target.table,
+          {
+            sourceConnectorId: connectorId,
+            sourceId,
+            payload: transformResult.payload,
+            schoolId,
+          },
+          pipeline.identityRules
+        );
+        recordsOut++;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        errors.push({
+          type: "upsert",
+          message: `Failed to upsert ${sourceId} into ${target.table}: ${msg}`,
+          sourceId,
+        });
+        await park({ sourceId, rawRecord, errorType: "upsert", errors: [msg] });
+      }
+    }
+  }
+
+  return { recordsOut, deadLettered, lost };
+}
+
+/**
+ * Soft-deletes or tombstones the connector's rows that the run did not see.
+ * Only safe after a complete run: every page fetched, no incremental window
+ * and no record that failed before it could be upserted.
+ */
+async function reconcileDeletedRecords(
+  connectorId: string,
+  syncRunId: string,
+  table: NormalizedTable,
+  config: ReconciliationConfig,
+  seenSince: Date,
+  run: { reachedEnd: boolean; partialWindow: boolean; recordErrors: boolean }
+): Promise<ReconciliationResult> {
+  const result: ReconciliationResult = { policy: config.policy, deleted: 0 };
+
+  if (!run.reachedEnd) {
+    result.skipped = "Run stopped before the last page (maxPages reached)";
+  } else if (run.partialWindow) {
+    result.skipped = "Incremental runs only see changed records; use a full resync";
+  } else if (run.recordErrors) {
+    result.skipped = "Some records failed before being upserted";
+  }
+  if (result.skipped) {
+    console.warn(`[sync] Reconciliation skipped for connector ${connectorId}: ${result.skipped}`);
+    return result;
+  }
+
+  const [unseen, total] = await Promise.all([
+    storage.getUnseenConnectorRecords(table, connectorId, seenSince),
+    storage.countActiveConnectorRecords(table, connectorId),
+  ]);
+  if (unseen.length === 0) return result;
+
+  const maxRatio = config.maxDeleteRatio ?? DEFAULT_MAX_DELETE_RATIO;
+  if (total > 0 && unseen.length / total > maxRatio) {
+    result.skipped =
+      `${unseen.length} of ${total} records missing at the source, ` +
+      `above the ${Math.round(maxRatio * 100)}% safety limit`;
+    console.warn(`[sync] Reconciliation skipped for connector ${connectorId}: ${result.skipped}`);
+    return result;
+  }
+
+  result.deleted = await storage.tombstoneConnectorRecords(
+    table,
+    config.policy,
+    unseen,
+    syncRunId
+  );
+  return result;
+}
+
+/**
+ * Reconciles every table the connector routes records to. Only the
+ * normalized tables have soft-delete support; the others are reported as
+ * skipped.
+ */
+async function reconcileRoutedTables(
+  connectorId: string,
+  syncRunId: string,
+  tables: TargetTable[],
+  config: ReconciliationConfig,
+  seenSince: Date,
+  run: { reachedEnd: boolean; partialWindow: boolean; recordErrors: boolean }
+): Promise<ReconciliationResult> {
+  const result: ReconciliationResult = { policy: config.policy, deleted: 0 };
+  const skipped: string[] = [];
+
+  for (const table of tables) {
+    if (!isNormalizedTable(table)) {
+      skipped.push(`${table} does not support reconciliation`);
+      continue;
+    }
+    const tableResult = await reconcileDeletedRecords(
+      connectorId,
+      syncRunId,
+      table,
+      config,
+      seenSince,
+      run
+    );
+    result.deleted += tableResult.deleted;
+    if (tableResult.skipped) {
+      skipped.push(tables.length > 1 ? `${table}: ${tableResult.skipped}` : tableResult.skipped);
+    }
+  }
+
+  if (skipped.length > 0) result.skipped = skipped.join("; ");
+  return result;
 }
 
 export async function runConnector(
@@ -104,6 +499,9 @@ export async function runConnector(
   let recordsIn = 0;
   let recordsOut = 0;
   let pages = 0;
+  let deadLettered = 0;
+  const throttle = createThrottleStats();
+  const pageLatenciesMs: number[] = [];
 
   const connector = await storage.getConnector(connectorId);
   if (!connector) {
@@ -112,6 +510,11 @@ export async function runConnector(
   if (!connector.isActive) {
     throw new Error(`Connector ${connectorId} is not active`);
   }
+  if (isPushConnectorType(connector.type)) {
+    throw new Error(
+      `Connector ${connectorId} receives pushed data (${connector.type}) and cannot be synced from a source`
+    );
+  }
 
   const mappings = await storage.getConnectorMappings(connectorId);
   if (mappings.length === 0) {
@@ -119,57 +522,155 @@ export async function runConnector(
       `No mappings configured for connector ${connectorId}. Configure field mappings before running sync.`
     );
   }
+  // A dry run writes nothing, mapping versions included
+  const appliedVersion = options.dryRun
+    ? null
+    : await recordMappingVersion(connectorId, { mappings });
+  const mappingVersion = appliedVersion?.fingerprint ?? computeMappingVersion(mappings);
 
   let syncRun: SyncRun;
+  let checkpoint: SyncRunCheckpoint | null = null;
+  // Records upserted from this instant on count as seen by the run
+  let runStartedAt = new Date();
   if (options.runId) {
     const existing = await storage.getSyncRun(options.runId);
     if (!existing) {
       throw new Error(`Sync run ${options.runId} not found`);
     }
+    if (existing.connectorId !== connectorId) {
+      throw new Error(
+        `Sync run ${options.runId} does not belong to connector ${connectorId}`
+      );
+    }
+    if (existing.status === "running") {
+      // Another worker may be on the same cursor
+      throw new Error(`Sync run ${options.runId} is still running`);
+    }
     syncRun = existing;
-    await storage.updateSyncRun(syncRun.id, {
-      status: "running",
-      startedAt: new Date(),
-    });
+    if (existing.status === "failed" && existing.checkpoint) {
+      // Resume: keep the original start time and counters
+      checkpoint = existing.checkpoint;
+      runStartedAt = new Date(existing.startedAt);
+      await storage.updateSyncRun(syncRun.id, {
+        status: "running",
+        finishedAt: null,
+        mappingVersionId: appliedVersion?.id ?? null,
+      });
+    } else {
+      await storage.updateSyncRun(syncRun.id, {
+        status: "running",
+        kind: options.dryRun ? "dry_run" : "sync",
+        startedAt: runStartedAt,
+        finishedAt: null,
+        checkpoint: null,
+        mappingVersionId: appliedVersion?.id ?? null,
+      });
+    }
   } else {
     syncRun = await storage.createSyncRun({
       connectorId,
       status: "running",
-      startedAt: new Date(),
+      kind: options.dryRun ? "dry_run" : "sync",
+      startedAt: runStartedAt,
+      mappingVersionId: appliedVersion?.id ?? null,
     });
   }
 
-  const config = connector.config as unknown as ApiClientConfig;
-  const targetTable = getTargetTable(connector.type as ConnectorType);
-  const configAny = config as unknown as Record<string, unknown>;
-  const sourceIdField = (configAny.sourceIdField as string) || "id";
-  const defaultSchoolId = (configAny.schoolId as string) || null;
-  const maxPages = options.maxPages || 100;
-
+  // Set up inside the try, so a failure there still marks the run failed
+  let pipeline: RecordPipeline | null = null;
   try {
-    let cursor: string | undefined;
-    let offset = 0;
-    let page = 1;
+    const config = connector.config as unknown as ApiClientConfig;
+    const targetRouting = getTargetRouting(connector);
+    const configAny = config as unknown as Record<string, unknown>;
+    const sourceIdField = (configAny.sourceIdField as string) || "id";
+    const defaultSchoolId = (configAny.schoolId as string) || null;
+    const maxPages = options.maxPages || 100;
+    pipeline = {
+      connectorId,
+      syncRunId: syncRun.id,
+      mappings,
+      mappingVersion,
+      targetRouting,
+      sourceIdField,
+      defaultSchoolId,
+      dryRun: !!options.dryRun,
+      errors,
+      unmappedFields: allUnmappedFields,
+      lookups: await loadLookupContext(),
+      identityRules: await loadIdentityRules(),
+      schemaSample: options.dryRun ? null : createSchemaSample(),
+    };
+
+    // Incremental sync: only API connectors with config.incremental set
+    const incremental =
+      connector.type !== "google_sheets" && config.incremental?.param
+        ? config.incremental
+        : undefined;
+    const storedWatermark = incremental
+      ? await storage.getConnectorWatermark(connectorId)
+      : undefined;
+    const previousWatermark =
+      storedWatermark && storedWatermark.watermarkType === incremental?.mode
+        ? storedWatermark.value
+        : null;
+    const fullResync = checkpoint ? checkpoint.fullResync : !!options.fullResync;
+    const activeWatermark = checkpoint
+      ? checkpoint.watermark
+      : fullResync
+        ? null
+        : previousWatermark;
+    let maxUpdatedAt: number | null = checkpoint?.maxUpdatedAt ?? null;
+    let lastSyncCursor: string | null = checkpoint?.lastSyncCursor ?? null;
+    let lostRecords = checkpoint?.lostRecords ?? 0;
+
+    let cursor: string | undefined = checkpoint?.cursor ?? undefined;
+    let offset = checkpoint?.offset ?? 0;
+    let page = checkpoint?.page ?? 1;
     let hasMore = true;
 
+    if (checkpoint) {
+      pages = checkpoint.pages;
+      recordsIn = checkpoint.recordsIn;
+      recordsOut = checkpoint.recordsOut;
+      console.log(
+        `[sync] Connector ${connector.name} (${connectorId}): resuming run ${syncRun.id} after page ${pages}`
+      );
+    }
+    // maxPages bounds this invocation, not the run as a whole
+    const pageLimit = pages + maxPages;
+    // A source handing back a cursor it already gave would page forever
+    const seenCursors = new Set<string>(cursor ? [cursor] : []);
+
     if (options.batchSize) {
       const updatedConfig = { ...(connector.config as Record<string, unknown>), pageSize: options.batchSize };
       (connector as any).config = updatedConfig;
     }
 
-    while (hasMore && pages < maxPages) {
+    while (hasMore && pages < pageLimit) {
       pages++;
 
       let fetchResult;
+      const fetchStartedAt = Date.now();
+      const throttledBefore = throttle.throttledMs;
       try {
         if (connector.type === "google_sheets") {
           // Google Sheets is fetched in a single call — no pagination loop
           fetchResult = await fetchGoogleSheetData(connector);
         } else {
+          // updated_since is sent on every page; a sync cursor only seeds
+          // the first request, pagination cursors take over afterwards
+          const watermark =
+            incremental && activeWatermark &&
+            (incremental.mode === "updated_since" || pages === 1)
+              ? formatWatermarkParam(incremental, activeWatermark)
+              : undefined;
           fetchResult = await fetchConnectorData(connector, {
             cursor,
             offset,
             page,
+            watermark,
+            throttle,
+            recordsSoFar: recordsIn,
           });
         }
       } catch (err) {
@@ -178,66 +679,59 @@ export async function runConnector(
         break;
       }
 
+      // Time spent waiting on rate limits is already in throttledMs
+      pageLatenciesMs.push(Date.now() - fetchStartedAt - (throttle.throttledMs - throttledBefore));
       recordsIn += fetchResult.totalFetched;
 
-      await storeRawResponse(connectorId, fetchResult.rawResponse, pages);
+      const rawFile = await storeRawResponse(
+        connectorId,
+        syncRun.id,
+        fetchResult.rawResponse,
+        pages
+      );
 
-      for (let i = 0; i < fetchResult.data.length; i++) {
-        const rawRecord = fetchResult.data[i];
-        const sourceId = extractSourceId(rawRecord, sourceIdField);
-
-        if (!sourceId) {
-          errors.push({
-            type: "transform",
-            message: `Record ${i} on page ${pages} has no source ID (field: ${sourceIdField})`,
-            recordIndex: i,
-          });
-          continue;
-        }
-
-        const transformResult = applyMappings(rawRecord, mappings);
-
-        for (const field of transformResult.unmappedFields) {
-          allUnmappedFields.add(field);
-        }
-
-        if (transformResult.errors.length > 0) {
-          for (const errMsg of transformResult.errors) {
-            errors.push({
-              type: "transform",
-              message: errMsg,
-              recordIndex: i,
-              sourceId,
-            });
+      if (incremental?.mode === "updated_since" && incremental.field) {
+        for (const rawRecord of fetchResult.data) {
+          const ts = toTimestamp(getNestedValue(rawRecord, incremental.field));
+          if (ts != null && (maxUpdatedAt == null || ts > maxUpdatedAt)) {
+            maxUpdatedAt = ts;
           }
         }
+      }
 
-        const schoolId =
-          (transformResult.payload.school_id as string) || defaultSchoolId;
-
-        if (options.dryRun) {
-          recordsOut++;
-          continue;
-        }
+      const tally = await processRecords(pipeline, fetchResult.data, pages);
+      recordsOut += tally.recordsOut;
+      deadLettered += tally.deadLettered;
+      lostRecords += tally.lost;
 
-        try {
-          await upsertNormalizedRecord(targetTable, {
-            sourceConnectorId: connectorId,
-            sourceId,
-            payload: transformResult.payload,
-            schoolId,
-          });
-          recordsOut++;
-        } catch (err) {
-          const msg = err instanceof Error ? err.message : String(err);
+      hasMore = fetchResult.hasMore;
+      cursor = fetchResult.nextCursor;
+      // Next-page URLs are positions within this run, not sync cursors
+      if (
+        fetchResult.nextCursor &&
+        config.paginationType !== "link_header" &&
+        config.paginationType !== "next_url"
+      ) {
+        lastSyncCursor = fetchResult.nextCursor;
+      }
+      if (hasMore && cursor) {
+        if (seenCursors.has(cursor)) {
           errors.push({
-            type: "upsert",
-            message: `Failed to upsert ${sourceId}: ${msg}`,
-            sourceId,
+            type: "fetch",
+            message: `Page ${pages}: pagination loop, the source returned cursor "${cursor.slice(0, 200)}" again`,
           });
+          hasMore = false;
         }
+        seenCursors.add(cursor);
+      }
+
+      if (config.paginationType === "offset") {
+        offset += fetchResult.totalFetched;
+      } else if (config.paginationType === "page") {
+        page++;
       }
 
+      // The page is committed: checkpoint the position of the next one
       await storage.updateSyncRun(syncRun.id, {
         recordsIn,
         recordsOut,
@@ -248,31 +742,116 @@ export async function runConnector(
               latest: errors.slice(-5).map((e) => e.message),
             }
             : undefined,
+        checkpoint: options.dryRun
+          ? undefined
+          : {
+            pages,
+            cursor: cursor ?? null,
+            offset,
+            page,
+            recordsIn,
+            recordsOut,
+            watermark: activeWatermark,
+            maxUpdatedAt,
+            lastSyncCursor,
+            fullResync,
+            lostRecords,
+            committedAt: new Date().toISOString(),
+          },
       });
-
-      hasMore = fetchResult.hasMore;
-      cursor = fetchResult.nextCursor;
-
-      if (config.paginationType === "offset") {
-        offset += fetchResult.totalFetched;
-      } else if (config.paginationType === "page") {
-        page++;
+      if (rawFile && !options.dryRun) {
+        await storage.markFileProcessed(rawFile.id);
       }
     }
 
     const finalStatus = errors.some((e) => e.type === "fetch") ? "failed" : "success";
 
+    if (pipeline.schemaSample) {
+      // Only a complete read of the source shows that a field is gone
+      await trackSourceSchema(connector, syncRun.id, pipeline.schemaSample, mappings, {
+        allowRemoval:
+          finalStatus === "success" && !hasMore && !checkpoint && !(incremental && !fullResync),
+      });
+    }
+
+    let reconciliation: ReconciliationResult | undefined;
+    const reconciliationConfig = configAny.reconciliation as
+      | ReconciliationConfig
+      | undefined;
+    if (reconciliationConfig?.policy && finalStatus === "success" && !options.dryRun) {
+      reconciliation = await reconcileRoutedTables(
+        connectorId,
+        syncRun.id,
+        getRoutedTables(targetRouting),
+        reconciliationConfig,
+        runStartedAt,
+        {
+          reachedEnd: !hasMore,
+          partialWindow: !!incremental && !fullResync,
+          recordErrors: errors.some(
+            (e) =>
+              e.type === "upsert" ||
+              e.type === "validation" ||
+              (e.type === "transform" && !e.sourceId)
+          ),
+        }
+      );
+    }
+
+    let watermarkChange: WatermarkChange | undefined;
+    if (incremental) {
+      const nextWatermark =
+        incremental.mode === "updated_since"
+          ? maxUpdatedAt != null
+            ? new Date(
+              Math.max(maxUpdatedAt, previousWatermark ? new Date(previousWatermark).getTime() || 0 : 0)
+            ).toISOString()
+            : previousWatermark
+          : lastSyncCursor ?? previousWatermark;
+
+      watermarkChange = {
+        type: incremental.mode,
+        previous: previousWatermark,
+        next: previousWatermark,
+      };
+
+      // Only advance the high-water mark after a complete, successful run: a
+      // run cut short by maxPages keeps the previous one, or the records on
+      // the pages it never fetched would be skipped by the next run. Records
+      // that failed transform or upsert are fine to move past once they are
+      // in the dead-letter queue (replay picks them up); if any could not be
+      // parked there, the mark holds so the next run fetches them again.
+      if (
+        finalStatus === "success" &&
+        !hasMore &&
+        lostRecords === 0 &&
+        !options.dryRun &&
+        nextWatermark
+      ) {
+        await storage.upsertConnectorWatermark({
+          connectorId,
+          watermarkType: incremental.mode,
+          value: nextWatermark,
+          lastRunId: syncRun.id,
+        });
+        watermarkChange.next = nextWatermark;
+      }
+    }
+
     await storage.updateSyncRun(syncRun.id, {
       status: finalStatus,
       finishedAt: new Date(),
       recordsIn,
       recordsOut,
+      recordsDeleted: reconciliation?.deleted ?? 0,
       error:
-        errors.length > 0
+        errors.length > 0 || pipeline.lookups.unresolved.size > 0
           ? {
             count: errors.length,
             errors: errors.slice(0, 50),
             unmappedFields: Array.from(allUnmappedFields),
+            deadLettered,
+            unresolvedLookups: getUnresolvedLookups(pipeline.lookups),
           }
           : undefined,
     });
@@ -285,14 +864,39 @@ export async function runConnector(
       recordsOut,
       errors,
       unmappedFields: Array.from(allUnmappedFields),
+      unresolvedLookups: getUnresolvedLookups(pipeline.lookups),
       durationMs: Date.now() - startTime,
       pages,
+      deadLettered,
+      resumedFromPage: checkpoint ? checkpoint.pages + 1 : undefined,
+      watermark: watermarkChange,
+      reconciliation,
+      throttle: connector.type === "google_sheets" ? undefined : throttle,
     };
 
+    await recordConnectorMetric({
+      connectorId,
+      runId: syncRun.id,
+      durationMs: result.durationMs,
+      status: finalStatus === "failed" ? "failed" : errors.length > 0 ? "partial" : "success",
+      recordsIn,
+      recordsOut,
+      error: errors.length > 0 ? { count: errors.length, deadLettered } : null,
+      throttledMs: throttle.throttledMs,
+      rateLimitedResponses: throttle.rateLimitedResponses,
+      pageLatenciesMs,
+    });
+
     console.log(
       `[sync] Connector ${connector.name} (${connectorId}): ${finalStatus} - ` +
       `${recordsIn} in, ${recordsOut} out, ${errors.length} errors, ` +
-      `${pages} pages, ${result.durationMs}ms`
+      `${pages} pages, ${result.durationMs}ms` +
+      (incremental
+        ? fullResync
+          ? " (full resync)"
+          : ` (incremental since ${activeWatermark ?? "beginning"})`
+        : "") +
+      (reconciliation?.deleted ? `, ${reconciliation.deleted} ${reconciliation.policy}` : "")
     );
 
     return result;
@@ -313,6 +917,19 @@ export async function runConnector(
       },
     });
 
+    await recordConnectorMetric({
+      connectorId,
+      runId: syncRun.id,
+      durationMs: Date.now() - startTime,
+      status: "failed",
+      recordsIn,
+      recordsOut,
+      error: { count: errors.length, fatalError: msg },
+      throttledMs: throttle.throttledMs,
+      rateLimitedResponses: throttle.rateLimitedResponses,
+      pageLatenciesMs,
+    });
+
     return {
       runId: syncRun.id,
       connectorId,
@@ -321,8 +938,579 @@ export async function runConnector(
       recordsOut,
       errors,
       unmappedFields: Array.from(allUnmappedFields),
+      unresolvedLookups: pipeline ? getUnresolvedLookups(pipeline.lookups) : [],
       durationMs: Date.now() - startTime,
       pages,
+      deadLettered,
     };
   }
 }
+
+export interface ReprocessOptions {
+  fileIds?: string[];
+  // Files fetched by this run; defaults to the latest run that stored any
+  runId?: string;
+  // Map every file with today's mappings instead of its run's version
+  useCurrentMappings?: boolean;
+}
+
+/**
+ * Re-runs mappings over stored raw pages without calling the source. Each
+ * page is mapped with the version its run applied (the current mappings for
+ * pages from before versioning) unless useCurrentMappings is set. Creates
+ * its own sync run; watermarks and reconciliation are left alone since the
+ * source was not read.
+ */
+export async function reprocessRawFiles(
+  connectorId: string,
+  options: ReprocessOptions = {}
+): Promise<SyncResult> {
+  const startTime = Date.now();
+  const errors: SyncError[] = [];
+  const allUnmappedFields = new Set<string>();
+  let recordsIn = 0;
+  let recordsOut = 0;
+  let pages = 0;
+  let deadLettered = 0;
+
+  const connector = await storage.getConnector(connectorId);
+  if (!connector) {
+    throw new Error(`Connector ${connectorId} not found`);
+  }
+
+  const storedFiles = (await storage.getRawIngestFiles(connectorId)).filter(
+    (f) => !!f.storageBackend
+  );
+  let files: RawIngestFile[];
+  if (options.fileIds) {
+    const ids = new Set(options.fileIds);
+    files = storedFiles.filter((f) => ids.has(f.id));
+    if (files.length !== ids.size) {
+      throw new Error("Some files were not found or have no stored payload");
+    }
+  } else {
+    const runId = options.runId ?? storedFiles[0]?.syncRunId;
+    files = runId
+      ? storedFiles.filter((f) => f.syncRunId === runId)
+      : storedFiles.slice(0, 1);
+  }
+  if (files.length === 0) {
+    throw new Error(`No stored raw files to reprocess for connector ${connectorId}`);
+  }
+  // Oldest page first, in fetch order
+  files.sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  const fileVersions = await resolveFileMappingVersions(connectorId, files, !!options.useCurrentMappings);
+  const versionIds = new Set(Array.from(fileVersions.values()).map((v) => v.id));
+
+  const syncRun = await storage.createSyncRun({
+    connectorId,
+    status: "running",
+    kind: "reprocess",
+    startedAt: new Date(),
+    // A run mixing versions points to none of them
+    mappingVersionId: versionIds.size === 1 ? Array.from(versionIds)[0] : null,
+  });
+
+  const config = (connector.config || {}) as Record<string, unknown>;
+  const firstVersion = fileVersions.get(files[0].id)!;
+  const pipeline: RecordPipeline = {
+    connectorId,
+    syncRunId: syncRun.id,
+    mappings: firstVersion.mappings,
+    mappingVersion: firstVersion.fingerprint,
+    targetRouting: getTargetRouting(connector),
+    sourceIdField: (config.sourceIdField as string) || "id",
+    defaultSchoolId: (config.schoolId as string) || null,
+    dryRun: false,
+    errors,
+    unmappedFields: allUnmappedFields,
+    lookups: await loadLookupContext(),
+    identityRules: await loadIdentityRules(),
+    schemaSample: null,
+  };
+
+  try {
+    for (const file of files) {
+      pages++;
+      const version = fileVersions.get(file.id)!;
+      pipeline.mappings = version.mappings;
+      pipeline.mappingVersion = version.fingerprint;
+
+      let records: Record<string, unknown>[];
+      try {
+        const rawResponse = await readRawFile(file);
+        if (rawResponse === null) {
+          throw new Error("raw payload is missing from the store");
+        }
+        records = extractRawRecords(connector, rawResponse);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        errors.push({ type: "fetch", message: `File ${file.fileName}: ${msg}` });
+        continue;
+      }
+
+      recordsIn += records.length;
+      const tally = await processRecords(pipeline, records, pages);
+      recordsOut += tally.recordsOut;
+      deadLettered += tally.deadLettered;
+
+      await storage.markFileProcessed(file.id);
+      await storage.updateSyncRun(syncRun.id, { recordsIn, recordsOut });
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    errors.push({ type: "general", message: msg });
+  }
+
+  const finalStatus = errors.some((e) => e.type === "fetch" || e.type === "general")
+    ? "failed"
+    : "success";
+
+  await storage.updateSyncRun(syncRun.id, {
+    status: finalStatus,
+    finishedAt: new Date(),
+    recordsIn,
+    recordsOut,
+    error:
+      errors.length > 0 || pipeline.lookups.unresolved.size > 0
+        ? {
+          count: errors.length,
+          errors: errors.slice(0, 50),
+          unmappedFields: Array.from(allUnmappedFields),
+          deadLettered,
+          unresolvedLookups: getUnresolvedLookups(pipeline.lookups),
+        }
+        : undefined,
+  });
+
+  const result: SyncResult = {
+    runId: syncRun.id,
+    connectorId,
+    status: finalStatus,
+    recordsIn,
+    recordsOut,
+    errors,
+    unmappedFields: Array.from(allUnmappedFields),
+    unresolvedLookups: getUnresolvedLookups(pipeline.lookups),
+    durationMs: Date.now() - startTime,
+    pages,
+    deadLettered,
+  };
+
+  await recordConnectorMetric({
+    connectorId,
+    runId: syncRun.id,
+    durationMs: result.durationMs,
+    status: finalStatus === "failed" ? "failed" : errors.length > 0 ? "partial" : "success",
+    recordsIn,
+    recordsOut,
+    error: errors.length > 0 ? { count: errors.length, deadLettered } : null,
+  });
+
+  console.log(
+    `[sync] Connector ${connector.name} (${connectorId}): reprocessed ${files.length} raw file(s) - ` +
+    `${finalStatus}, ${recordsIn} in, ${recordsOut} out, ${errors.length} errors, ${result.durationMs}ms`
+  );
+
+  return result;
+}
+
+/**
+ * Mapping version to apply to each raw file: the one its run applied, or
+ * the current mappings when asked for or when the run predates versioning.
+ */
+async function resolveFileMappingVersions(
+  connectorId: string,
+  files: RawIngestFile[],
+  useCurrentMappings: boolean
+): Promise<Map<string, ConnectorMappingVersion>> {
+  const current = await storage.getConnectorMappings(connectorId);
+  const currentVersion =
+    current.length > 0 ? await recordMappingVersion(connectorId, { mappings: current }) : null;
+
+  const runVersions = new Map<string, ConnectorMappingVersion | null>();
+  const result = new Map<string, ConnectorMappingVersion>();
+  for (const file of files) {
+    let version: ConnectorMappingVersion | null = null;
+    if (!useCurrentMappings && file.syncRunId) {
+      if (!runVersions.has(file.syncRunId)) {
+        const run = await storage.getSyncRun(file.syncRunId);
+        runVersions.set(
+          file.syncRunId,
+          run?.mappingVersionId
+            ? (await storage.getConnectorMappingVersion(run.mappingVersionId)) ?? null
+            : null
+        );
+      }
+      version = runVersions.get(file.syncRunId)!;
+    }
+    version = version ?? currentVersion;
+    if (!version || version.mappings.length === 0) {
+      throw new Error(
+        `No mappings configured for connector ${connectorId}. Configure field mappings before reprocessing.`
+      );
+    }
+    result.set(file.id, version);
+  }
+  return result;
+}
+
+export interface UploadResult extends SyncResult {
+  upload: ConnectorFileUpload;
+}
+
+function computeHeaderDrift(
+  previous: ConnectorFileUpload | undefined,
+  headers: string[],
+  mappings: ConnectorMapping[]
+): HeaderDrift | null {
+  if (!previous) return null;
+
+  const current = new Set(headers);
+  const before = new Set(previous.headers);
+  const added = headers.filter((h) => !before.has(h));
+  const removed = previous.headers.filter((h) => !current.has(h));
+  if (added.length === 0 && removed.length === 0) return null;
+
+  const mappedColumns = new Set(mappings.map((m) => m.sourcePath.split(".")[0]));
+  return {
+    previousUploadId: previous.id,
+    added,
+    removed,
+    missingMapped: removed.filter((h) => mappedColumns.has(h)),
+  };
+}
+
+/**
+ * Ingests one parsed file of a file_upload connector through the mapping
+ * pipeline, in a sync run of its own. The parsed rows are kept as a raw page
+ * so the upload can be downloaded or reprocessed later.
+ */
+export async function ingestUploadedFile(
+  connectorId: string,
+  fileName: string,
+  parsed: ParsedUploadFile,
+  uploadedBy: string | null = null
+): Promise<UploadResult> {
+  const startTime = Date.now();
+  const errors: SyncError[] = [];
+  const allUnmappedFields = new Set<string>();
+  let recordsOut = 0;
+  let deadLettered = 0;
+
+  const connector = await storage.getConnector(connectorId);
+  if (!connector) {
+    throw new Error(`Connector ${connectorId} not found`);
+  }
+  if (connector.type !== "file_upload") {
+    throw new Error(`Connector ${connectorId} does not accept file uploads`);
+  }
+  if (!connector.isActive) {
+    throw new Error(`Connector ${connectorId} is not active`);
+  }
+
+  const mappings = await storage.getConnectorMappings(connectorId);
+  if (mappings.length === 0) {
+    throw new Error(
+      `No mappings configured for connector ${connectorId}. Configure field mappings before uploading files.`
+    );
+  }
+
+  const previousUpload = await storage.getLatestConnectorFileUpload(connectorId);
+  const headerDrift = computeHeaderDrift(previousUpload, parsed.headers, mappings);
+  if (headerDrift) {
+    console.warn(
+      `[sync] Connector ${connector.name} (${connectorId}): header drift in ${fileName} - ` +
+      `added [${headerDrift.added.join(", ")}], removed [${headerDrift.removed.join(", ")}]`
+    );
+  }
+
+  const appliedVersion = await recordMappingVersion(connectorId, { mappings });
+  const syncRun = await storage.createSyncRun({
+    connectorId,
+    status: "running",
+    kind: "upload",
+    startedAt: new Date(),
+    mappingVersionId: appliedVersion.id,
+  });
+
+  const config = (connector.config || {}) as Record<string, unknown>;
+  const pipeline: RecordPipeline = {
+    connectorId,
+    syncRunId: syncRun.id,
+    mappings,
+    mappingVersion: appliedVersion.fingerprint,
+    targetRouting: getTargetRouting(connector),
+    sourceIdField: (config.sourceIdField as string) || "id",
+    defaultSchoolId: (config.schoolId as string) || null,
+    dryRun: false,
+    errors,
+    unmappedFields: allUnmappedFields,
+    lookups: await loadLookupContext(),
+    identityRules: await loadIdentityRules(),
+    schemaSample: createSchemaSample(),
+  };
+
+  let status: "success" | "failed" = "success";
+  let rawFile: RawIngestFile | null = null;
+  try {
+    rawFile = await storeRawResponse(
+      connectorId,
+      syncRun.id,
+      JSON.stringify({
+        fileName,
+        format: parsed.format,
+        headers: parsed.headers,
+        records: parsed.records,
+      }),
+      1
+    );
+
+    const tally = await processRecords(pipeline, parsed.records, 1);
+    recordsOut = tally.recordsOut;
+    deadLettered = tally.deadLettered;
+
+    if (rawFile) {
+      await storage.markFileProcessed(rawFile.id);
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    errors.push({ type: "general", message: msg });
+    status = "failed";
+  }
+
+  // Each upload is a full snapshot of the source
+  await trackSourceSchema(connector, syncRun.id, pipeline.schemaSample!, mappings, {
+    allowRemoval: status === "success",
+  });
+
+  await storage.updateSyncRun(syncRun.id, {
+    status,
+    finishedAt: new Date(),
+    recordsIn: parsed.records.length,
+    recordsOut,
+    error:
+      errors.length > 0 || pipeline.lookups.unresolved.size > 0
+        ? {
+          count: errors.length,
+          errors: errors.slice(0, 50),
+          unmappedFields: Array.from(allUnmappedFields),
+          deadLettered,
+          unresolvedLookups: getUnresolvedLookups(pipeline.lookups),
+        }
+        : undefined,
+  });
+
+  const upload = await storage.createConnectorFileUpload({
+    connectorId,
+    syncRunId: syncRun.id,
+    rawFileId: rawFile?.id ?? null,
+    fileName,
+    format: parsed.format,
+    encoding: parsed.encoding ?? null,
+    delimiter: parsed.delimiter ?? null,
+    sheetName: parsed.sheetName ?? null,
+    headers: parsed.headers,
+    headerDrift,
+    rowCount: parsed.records.length,
+    uploadedBy,
+  });
+
+  const durationMs = Date.now() - startTime;
+  await recordConnectorMetric({
+    connectorId,
+    runId: syncRun.id,
+    durationMs,
+    status: status === "failed" ? "failed" : errors.length > 0 ? "partial" : "success",
+    recordsIn: parsed.records.length,
+    recordsOut,
+    error: errors.length > 0 ? { count: errors.length, deadLettered } : null,
+  });
+
+  console.log(
+    `[sync] Connector ${connector.name} (${connectorId}): upload ${fileName} - ${status}, ` +
+    `${parsed.records.length} in, ${recordsOut} out, ${errors.length} errors, ${durationMs}ms`
+  );
+
+  return {
+    runId: syncRun.id,
+    connectorId,
+    status,
+    recordsIn: parsed.records.length,
+    recordsOut,
+    errors,
+    unmappedFields: Array.from(allUnmappedFields),
+    unresolvedLookups: getUnresolvedLookups(pipeline.lookups),
+    durationMs,
+    pages: 1,
+    deadLettered,
+    upload,
+  };
+}
+
+export interface WebhookBatchResult extends SyncResult {
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Runs a batch of buffered webhook events through the mapping pipeline as
+ * one micro sync run, marks each event processed or failed and records a
+ * connector_metrics row for the run.
+ */
+export async function ingestWebhookEvents(
+  connectorId: string,
+  events: { event: ConnectorWebhookEvent; record: Record<string, unknown> | null }[]
+): Promise<WebhookBatchResult> {
+  const startTime = Date.now();
+  const errors: SyncError[] = [];
+  const allUnmappedFields = new Set<string>();
+  let recordsOut = 0;
+  let deadLettered = 0;
+  let failed = 0;
+
+  const connector = await storage.getConnector(connectorId);
+  if (!connector) {
+    throw new Error(`Connector ${connectorId} not found`);
+  }
+  const mappings = await storage.getConnectorMappings(connectorId);
+  if (mappings.length === 0) {
+    throw new Error(
+      `No mappings configured for connector ${connectorId}. Configure field mappings before receiving events.`
+    );
+  }
+
+  const appliedVersion = await recordMappingVersion(connectorId, { mappings });
+  const syncRun = await storage.createSyncRun({
+    connectorId,
+    status: "running",
+    kind: "webhook",
+    startedAt: new Date(),
+    mappingVersionId: appliedVersion.id,
+  });
+
+  const config = (connector.config || {}) as Record<string, unknown>;
+  const pipeline: RecordPipeline = {
+    connectorId,
+    syncRunId: syncRun.id,
+    mappings,
+    mappingVersion: appliedVersion.fingerprint,
+    targetRouting: getTargetRouting(connector),
+    sourceIdField: (config.sourceIdField as string) || "id",
+    defaultSchoolId: (config.schoolId as string) || null,
+    dryRun: false,
+    errors,
+    unmappedFields: allUnmappedFields,
+    lookups: await loadLookupContext(),
+    identityRules: await loadIdentityRules(),
+    schemaSample: createSchemaSample(),
+  };
+
+  const rawFile = await storeRawResponse(
+    connectorId,
+    syncRun.id,
+    JSON.stringify({
+      eventIds: events.map((e) => e.event.eventId),
+      records: events.map((e) => e.record).filter(Boolean),
+    }),
+    1
+  );
+
+  for (const { event, record } of events) {
+    const errorCount = errors.length;
+    let ok = false;
+    if (!record) {
+      errors.push({
+        type: "transform",
+        message: `Event ${event.eventId} has no record payload`,
+      });
+    } else {
+      try {
+        const tally = await processRecords(pipeline, [record], 1);
+        recordsOut += tally.recordsOut;
+        deadLettered += tally.deadLettered;
+        ok = tally.recordsOut > 0;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        errors.push({ type: "general", message: `Event ${event.eventId}: ${msg}` });
+      }
+    }
+    if (!ok) failed++;
+
+    await storage.updateWebhookEvent(event.id, {
+      status: ok ? "processed" : "failed",
+      syncRunId: syncRun.id,
+      error: ok
+        ? null
+        : errors
+          .slice(errorCount)
+          .map((e) => e.message)
+          .join("; ") || "Event was not upserted",
+      processedAt: new Date(),
+    });
+  }
+
+  if (rawFile) {
+    await storage.markFileProcessed(rawFile.id);
+  }
+
+  const status: "success" | "failed" =
+    failed > 0 && failed === events.length ? "failed" : "success";
+  const durationMs = Date.now() - startTime;
+
+  // Events carry single records, so a missing field is never a removal
+  await trackSourceSchema(connector, syncRun.id, pipeline.schemaSample!, mappings, {
+    allowRemoval: false,
+  });
+
+  await storage.updateSyncRun(syncRun.id, {
+    status,
+    finishedAt: new Date(),
+    recordsIn: events.length,
+    recordsOut,
+    error:
+      errors.length > 0 || pipeline.lookups.unresolved.size > 0
+        ? {
+          count: errors.length,
+          errors: errors.slice(0, 50),
+          unmappedFields: Array.from(allUnmappedFields),
+          deadLettered,
+          unresolvedLookups: getUnresolvedLookups(pipeline.lookups),
+        }
+        : undefined,
+  });
+
+  await recordConnectorMetric({
+    connectorId,
+    runId: syncRun.id,
+    durationMs,
+    status: failed === 0 ? "success" : status === "failed" ? "failed" : "partial",
+    recordsIn: events.length,
+    recordsOut,
+    error: errors.length > 0 ? { count: errors.length, failedEvents: failed } : null,
+  });
+
+  console.log(
+    `[sync] Connector ${connector.name} (${connectorId}): webhook batch of ${events.length} event(s) - ` +
+    `${status}, ${recordsOut} out, ${failed} failed, ${durationMs}ms`
+  );
+
+  return {
+    runId: syncRun.id,
+    connectorId,
+    status,
+    recordsIn: events.length,
+    recordsOut,
+    errors,
+    unmappedFields: Array.from(allUnmappedFields),
+    unresolvedLookups: getUnresolvedLookups(pipeline.lookups),
+    durationMs,
+    pages: 1,
+    deadLettered,
+    processed: events.length - failed,
+    failed,
+  };
+}
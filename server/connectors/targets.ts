@@ -0,0 +1,358 @@
+/**
+ * targets.ts
+ *
+ * Routing of mapped records to their target table. A connector writes to the
+ * default table of its type unless config.target overrides it, either for
+ * the whole connector (table) or per record, through a discriminator field
+ * of the raw record whose value is looked up in routes.
+ *
+ * Each target validates the mapped payload before the upsert. leads,
+ * payments and enrollments store the payload as-is and copy its canonical
+ * fields (CANONICAL_SCHEMAS) into typed columns; contas_a_receber,
+ * nps_surveys and manual_inputs are built from typed columns only
+ * (snake_case payload keys, e.g. amount_due → contas_a_receber.amount_due).
+ * Upserted leads and enrollments go through identity resolution.
+ */
+
+import { z } from "zod";
+import { storage } from "../storage";
+import {
+  CANONICAL_SCHEMAS,
+  CONTA_A_RECEBER_STATUSES,
+  NORMALIZED_TABLES,
+  type CanonicalFieldType,
+  type Connector,
+  type ConnectorType,
+  type InsertEnrollment,
+  type InsertLead,
+  type IdentityMatchRule,
+  type InsertPayment,
+  type NormalizedTable,
+  type TargetRoutingConfig,
+  type TargetTable,
+} from "@shared/schema";
+import { getNestedValue } from "./transforms";
+import { linkEnrollmentToLead, resolveLeadIdentity } from "./identity";
+import { normalizeCpf } from "./br-formats";
+
+// Route key matching any discriminator value without a route of its own
+const WILDCARD_ROUTE = "*";
+
+// Resolved once per run
+export interface TargetRouting {
+  table: TargetTable;
+  discriminatorField?: string;
+  routes?: Record<string, TargetTable>;
+}
+
+export type TargetResolution =
+  | { table: TargetTable; error?: undefined }
+  | { table?: undefined; error: string };
+
+export function getDefaultTargetTable(connectorType: ConnectorType): NormalizedTable {
+  switch (connectorType) {
+    case "crm":
+    case "google_sheets":
+      return "leads";
+    case "finance":
+      return "payments";
+    case "academic":
+      return "enrollments";
+    default:
+      return "leads";
+  }
+}
+
+export function isNormalizedTable(table: TargetTable): table is NormalizedTable {
+  return (NORMALIZED_TABLES as readonly string[]).includes(table);
+}
+
+export function getTargetRouting(connector: Connector): TargetRouting {
+  const config = (connector.config || {}) as Record<string, unknown>;
+  const target = (config.target || {}) as TargetRoutingConfig;
+  return {
+    table: target.table ?? getDefaultTargetTable(connector.type as ConnectorType),
+    discriminatorField: target.discriminatorField || undefined,
+    routes: target.routes,
+  };
+}
+
+// Every table the connector's records may be written to
+export function getRoutedTables(routing: TargetRouting): TargetTable[] {
+  if (!routing.discriminatorField) return [routing.table];
+  return Array.from(new Set(Object.values(routing.routes ?? {})));
+}
+
+/**
+ * Picks the target of one raw record. With a discriminator, a value without
+ * a route (and no "*" route) is an error rather than a silent fallback, so
+ * an unexpected record type never lands in the wrong table.
+ */
+export function resolveTargetTable(
+  routing: TargetRouting,
+  rawRecord: Record<string, unknown>
+): TargetResolution {
+  if (!routing.discriminatorField) return { table: routing.table };
+
+  const value = getNestedValue(rawRecord, routing.discriminatorField);
+  const key = value == null ? "" : String(value);
+  const table = routing.routes?.[key] ?? routing.routes?.[WILDCARD_ROUTE];
+  if (!table) {
+    return {
+      error: `No target route for ${routing.discriminatorField} = "${key}"`,
+    };
+  }
+  return { table };
+}
+
+// ─── Payload validation ───────────────────────────────────────────────────────
+
+const schoolIdField = z.string().uuid("must be a UUID").nullable().optional();
+
+const numberField = z
+  .union([z.number(), z.string().trim().min(1, "is required")])
+  .transform((v) => Number(v))
+  .refine((v) => Number.isFinite(v), "must be a number");
+
+// Timestamps are accepted and cut down to their date
+const dateField = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}/, "must be a YYYY-MM-DD date")
+  .transform((v) => v.slice(0, 10));
+
+const timestampField = z
+  .union([z.string(), z.number()])
+  .transform((v) => new Date(v))
+  .refine((d) => !isNaN(d.getTime()), "must be a date");
+
+const normalizedPayloadSchema = z
+  .object({ school_id: schoolIdField })
+  .passthrough();
+
+// seller_id (e.g. from a "seller" lookup) assigns the lead's seller
+const leadPayloadSchema = z
+  .object({
+    school_id: schoolIdField,
+    seller_id: z.string().uuid("must be a UUID").nullable().optional(),
+  })
+  .passthrough();
+
+const CANONICAL_TYPE_SCHEMAS: Record<CanonicalFieldType, z.ZodTypeAny> = {
+  text: z.union([z.string(), z.number(), z.boolean()]).transform((v) => String(v).trim()),
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email("must be an e-mail address"),
+  phone: z
+    .union([z.string(), z.number()])
+    .transform((v) => String(v).trim())
+    .refine((v) => v.replace(/\D/g, "").length >= 8, "must be a phone number"),
+  number: numberField,
+  date: dateField,
+  timestamp: timestampField,
+  uuid: z.string().uuid("must be a UUID"),
+  cpf: z
+    .union([z.string(), z.number()])
+    .transform((v) => normalizeCpf(v))
+    .refine((v): v is string => v !== null, "must be a valid CPF"),
+};
+
+/**
+ * Reads the canonical fields of a normalized-table payload into column
+ * values (null when absent or empty). Invalid fields are left null and
+ * reported in errors.
+ */
+export function readCanonicalColumns(
+  table: NormalizedTable,
+  payload: Record<string, unknown>
+): { columns: Record<string, unknown>; errors: string[] } {
+  const columns: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const def of CANONICAL_SCHEMAS[table]) {
+    const raw = payload[def.field];
+    columns[def.column] = null;
+    if (raw == null || raw === "") continue;
+
+    const result = CANONICAL_TYPE_SCHEMAS[def.type].safeParse(raw);
+    if (!result.success) {
+      errors.push(`${table}.${def.field}: ${result.error.issues[0]?.message ?? "is invalid"}`);
+      continue;
+    }
+    if (def.maxLength && typeof result.data === "string" && result.data.length > def.maxLength) {
+      errors.push(`${table}.${def.field}: must be at most ${def.maxLength} characters`);
+      continue;
+    }
+    // numeric columns take strings
+    columns[def.column] = def.type === "number" ? String(result.data) : result.data;
+  }
+
+  return { columns, errors };
+}
+
+const contaAReceberPayloadSchema = z
+  .object({
+    school_id: schoolIdField,
+    amount_due: numberField,
+    due_date: dateField.nullable().optional(),
+    status: z.enum(CONTA_A_RECEBER_STATUSES).optional(),
+    paid_at: timestampField.nullable().optional(),
+  })
+  .passthrough();
+
+const npsSurveyPayloadSchema = z
+  .object({
+    school_id: schoolIdField,
+    enrollment_id: z.string().uuid("must be a UUID").nullable().optional(),
+    score: numberField.refine(
+      (v) => Number.isInteger(v) && v >= 0 && v <= 10,
+      "must be an integer between 0 and 10"
+    ),
+    survey_date: dateField,
+    comment: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+const manualInputPayloadSchema = z
+  .object({
+    school_id: schoolIdField,
+    chave_metrica: z.string().min(1, "is required"),
+    data_referencia: dateField,
+    valor: numberField,
+    notas: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+const PAYLOAD_SCHEMAS: Record<TargetTable, z.ZodTypeAny> = {
+  leads: leadPayloadSchema,
+  payments: normalizedPayloadSchema,
+  enrollments: normalizedPayloadSchema,
+  contas_a_receber: contaAReceberPayloadSchema,
+  nps_surveys: npsSurveyPayloadSchema,
+  manual_inputs: manualInputPayloadSchema,
+};
+
+function formatIssues(table: TargetTable, error: z.ZodError): string[] {
+  return error.issues.map(
+    (issue) => `${table}.${issue.path.join(".") || "payload"}: ${issue.message}`
+  );
+}
+
+/**
+ * Checks a mapped payload against the columns of its target table; returns
+ * one message per problem (empty when the payload can be upserted).
+ */
+export function validateTargetPayload(
+  table: TargetTable,
+  payload: Record<string, unknown>
+): string[] {
+  const result = PAYLOAD_SCHEMAS[table].safeParse(payload);
+  const errors = result.success ? [] : formatIssues(table, result.error);
+  if (isNormalizedTable(table)) {
+    errors.push(...readCanonicalColumns(table, payload).errors);
+  }
+  return errors;
+}
+
+function parseCanonicalColumns(
+  table: NormalizedTable,
+  payload: Record<string, unknown>
+): Record<string, unknown> {
+  const { columns, errors } = readCanonicalColumns(table, payload);
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+  return columns;
+}
+
+function parsePayload<T extends z.ZodTypeAny>(
+  table: TargetTable,
+  schema: T,
+  payload: Record<string, unknown>
+): z.infer<T> {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new Error(formatIssues(table, result.error).join("; "));
+  }
+  return result.data;
+}
+
+// identityRules: the active identity rules when the caller loaded them once
+export async function upsertTargetRecord(
+  table: TargetTable,
+  record: {
+    sourceConnectorId: string;
+    sourceId: string;
+    payload: Record<string, unknown>;
+    schoolId?: string | null;
+  },
+  identityRules?: IdentityMatchRule[]
+) {
+  const data = {
+    sourceConnectorId: record.sourceConnectorId,
+    sourceId: record.sourceId,
+    payload: record.payload,
+    schoolId: record.schoolId ?? null,
+  };
+
+  switch (table) {
+    case "leads": {
+      const p = parsePayload(table, leadPayloadSchema, record.payload);
+      const lead = await storage.upsertLead({
+        ...data,
+        ...(parseCanonicalColumns(table, record.payload) as Partial<InsertLead>),
+        sellerId: p.seller_id ?? null,
+      });
+      await resolveLeadIdentity(lead, identityRules);
+      return lead;
+    }
+    case "payments":
+      return storage.upsertPayment({
+        ...data,
+        ...(parseCanonicalColumns(table, record.payload) as Partial<InsertPayment>),
+      });
+    case "enrollments": {
+      const enrollment = await storage.upsertEnrollment({
+        ...data,
+        ...(parseCanonicalColumns(table, record.payload) as Partial<InsertEnrollment>),
+      });
+      await linkEnrollmentToLead(enrollment, identityRules);
+      return enrollment;
+    }
+    case "contas_a_receber": {
+      const p = parsePayload(table, contaAReceberPayloadSchema, record.payload);
+      return storage.upsertContaAReceber({
+        ...data,
+        amountDue: String(p.amount_due),
+        dueDate: p.due_date ?? null,
+        status: p.status ?? "open",
+        paidAt: p.paid_at ?? null,
+      });
+    }
+    case "nps_surveys": {
+      const p = parsePayload(table, npsSurveyPayloadSchema, record.payload);
+      return storage.upsertConnectorNpsSurvey({
+        sourceConnectorId: data.sourceConnectorId,
+        sourceId: data.sourceId,
+        schoolId: data.schoolId,
+        enrollmentId: p.enrollment_id ?? null,
+        score: p.score,
+        surveyDate: p.survey_date,
+        comment: p.comment ?? null,
+      });
+    }
+    case "manual_inputs": {
+      const p = parsePayload(table, manualInputPayloadSchema, record.payload);
+      return storage.upsertConnectorManualInput({
+        sourceConnectorId: data.sourceConnectorId,
+        sourceId: data.sourceId,
+        schoolId: data.schoolId,
+        chaveMetrica: p.chave_metrica,
+        dataReferencia: p.data_referencia,
+        valor: String(p.valor),
+        notas: p.notas ?? null,
+      });
+    }
+  }
+}
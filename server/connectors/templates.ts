@@ -0,0 +1,237 @@
+/**
+ * templates.ts
+ *
+ * Connector templates: a config skeleton, the source ID field and default
+ * mappings for a kind of source, so a new school does not start from a blank
+ * connector. The catalog below ships with the app; any connector can also be
+ * exported as a template (JSON) and used to create others.
+ *
+ * Templates never carry secrets or instance data: exporting drops the
+ * credentials, the school, the spreadsheet and the webhook settings, and
+ * creating from a template takes those from the request.
+ */
+
+import type {
+  ConnectorMapping,
+  ConnectorTemplate,
+  CreateConnectorFromTemplate,
+  Connector,
+  InsertConnector,
+  MappingSnapshot,
+} from "@shared/schema";
+import { isPushConnectorType } from "@shared/schema";
+import { stripConnectorSecrets } from "./secrets";
+
+// Config keys that belong to one connector rather than to the kind of source
+const INSTANCE_CONFIG_KEYS = ["schoolId", "spreadsheetId", "webhook", "sourceIdField"];
+
+export const CONNECTOR_TEMPLATES: ConnectorTemplate[] = [
+  {
+    formatVersion: 1,
+    key: "crm_rd_station",
+    name: "CRM estilo RD Station",
+    description:
+      "Contatos de um CRM com API REST paginada por página e filtro de atualização " +
+      "(RD Station e similares). Informe a URL e o token de acesso.",
+    type: "crm",
+    sourceIdField: "uuid",
+    config: {
+      baseUrl: "https://api.rd.services/platform/contacts",
+      dataPath: "contacts",
+      paginationType: "page",
+      pageSize: 100,
+      pagination: { totalPath: "total" },
+      incremental: {
+        mode: "updated_since",
+        param: "updated_at_gte",
+        field: "updated_at",
+        format: "iso",
+        lookbackSeconds: 300,
+      },
+      rateLimit: { requestsPerMinute: 120 },
+    },
+    mappings: [
+      { sourcePath: "name", targetField: "name", transform: { op: "trim" } },
+      { sourcePath: "email", targetField: "email", transform: null },
+      { sourcePath: "mobile_phone", targetField: "phone", transform: { op: "normalize_phone" } },
+      { sourcePath: "cf_cpf", targetField: "cpf", transform: { op: "normalize_cpf" } },
+      { sourcePath: "cf_unidade", targetField: "school_id", transform: { op: "lookup", source: "school" } },
+      { sourcePath: "owner.email", targetField: "seller_id", transform: { op: "lookup", source: "seller" } },
+      {
+        sourcePath: "lifecycle_stage",
+        targetField: "lifecycle_stage",
+        transform: {
+          op: "map_values",
+          mapping: {
+            Lead: "lead",
+            "Lead Qualificado": "qualified",
+            Oportunidade: "opportunity",
+            Cliente: "customer",
+          },
+        },
+      },
+      { sourcePath: "traffic_source", targetField: "origem", transform: { op: "lowercase" } },
+      { sourcePath: "created_at", targetField: "created_at_source", transform: { op: "date_parse" } },
+    ],
+    scheduleCron: "0 * * * *",
+  },
+  {
+    formatVersion: 1,
+    key: "finance_erp",
+    name: "ERP financeiro genérico",
+    description:
+      "Títulos pagos e em aberto de um ERP financeiro com API REST paginada por offset. " +
+      "Valores em formato brasileiro (R$ 1.234,56) e datas dd/MM/yyyy.",
+    type: "finance",
+    sourceIdField: "id_titulo",
+    config: {
+      baseUrl: "https://erp.example.com/api/v1/titulos",
+      dataPath: "data",
+      paginationType: "offset",
+      pageSize: 200,
+      incremental: {
+        mode: "updated_since",
+        param: "alterado_desde",
+        field: "data_alteracao",
+        format: "iso",
+        lookbackSeconds: 3600,
+      },
+      target: { table: "payments" },
+    },
+    mappings: [
+      { sourcePath: "valor", targetField: "amount", transform: { op: "parse_currency" } },
+      {
+        sourcePath: "situacao",
+        targetField: "status",
+        transform: {
+          op: "map_values",
+          mapping: { PAGO: "paid", ABERTO: "pending", VENCIDO: "overdue", CANCELADO: "cancelled" },
+          default: "pending",
+        },
+      },
+      {
+        sourcePath: "data_vencimento",
+        targetField: "payment_date",
+        transform: { op: "date_parse", format: "dd/MM/yyyy", output: "date" },
+      },
+      {
+        sourcePath: "data_pagamento",
+        targetField: "paid_at",
+        transform: { op: "date_parse", format: "dd/MM/yyyy HH:mm" },
+      },
+      { sourcePath: "codigo_unidade", targetField: "school_id", transform: { op: "lookup", source: "school" } },
+      { sourcePath: "cpf_responsavel", targetField: "cpf_responsavel", transform: { op: "normalize_cpf" } },
+      { sourcePath: "numero_documento", targetField: "numero_documento", transform: { op: "cast_string" } },
+    ],
+    scheduleCron: "0 6 * * *",
+  },
+  {
+    formatVersion: 1,
+    key: "google_sheets_lead_form",
+    name: "Formulário de leads (Google Sheets)",
+    description:
+      "Respostas de um Google Forms de captação gravadas em planilha. Informe o ID da " +
+      "planilha; as credenciais OAuth são adicionadas na página do conector.",
+    type: "google_sheets",
+    sourceIdField: "Carimbo de data/hora",
+    config: {
+      sheetName: "Respostas ao formulário 1",
+      range: "A1:Z5000",
+      firstRowIsHeader: true,
+    },
+    mappings: [
+      { sourcePath: "Nome completo", targetField: "name", transform: { op: "trim" } },
+      { sourcePath: "E-mail", targetField: "email", transform: null },
+      { sourcePath: "Telefone (WhatsApp)", targetField: "phone", transform: { op: "normalize_phone" } },
+      { sourcePath: "CPF do responsável", targetField: "cpf", transform: { op: "normalize_cpf" } },
+      { sourcePath: "Unidade de interesse", targetField: "school_id", transform: { op: "lookup", source: "school" } },
+      { sourcePath: "Série de interesse", targetField: "serie_interesse", transform: { op: "trim" } },
+      { sourcePath: "Como conheceu a escola?", targetField: "origem", transform: { op: "lowercase" } },
+      {
+        sourcePath: "Carimbo de data/hora",
+        targetField: "created_at_source",
+        transform: { op: "date_parse", format: "dd/MM/yyyy HH:mm:ss" },
+      },
+    ],
+    scheduleCron: "*/30 * * * *",
+  },
+];
+
+export function getConnectorTemplate(key: string): ConnectorTemplate | undefined {
+  return CONNECTOR_TEMPLATES.find((t) => t.key === key);
+}
+
+/**
+ * The connector as a template: config without secrets or instance data, and
+ * its current mappings.
+ */
+export function exportConnectorTemplate(
+  connector: Connector,
+  mappings: ConnectorMapping[]
+): ConnectorTemplate {
+  const config = stripConnectorSecrets(connector.config || {});
+  for (const key of INSTANCE_CONFIG_KEYS) delete config[key];
+  const oauth = config.oauth;
+  if (typeof oauth === "object" && oauth !== null) {
+    // Expiry of a token the template does not carry
+    delete (oauth as Record<string, unknown>).expiresAt;
+  }
+
+  const sourceIdField = (connector.config || {}).sourceIdField;
+  return {
+    formatVersion: 1,
+    name: connector.name,
+    type: connector.type as ConnectorTemplate["type"],
+    sourceIdField: typeof sourceIdField === "string" && sourceIdField ? sourceIdField : "id",
+    config,
+    mappings: mappings
+      .map((m) => ({ sourcePath: m.sourcePath, targetField: m.targetField, transform: m.transform ?? null }))
+      .sort((a, b) => a.targetField.localeCompare(b.targetField)),
+    scheduleCron: connector.scheduleCron,
+  };
+}
+
+/**
+ * Connector and mappings to create from a template. The request's config is
+ * merged over the template's one level deep, so { oauth: {...} } or
+ * { pagination: {...} } add to the template's objects instead of replacing
+ * them.
+ */
+export function buildConnectorFromTemplate(
+  template: ConnectorTemplate,
+  request: CreateConnectorFromTemplate,
+  ownerId: string
+): { connector: InsertConnector; mappings: MappingSnapshot[] } {
+  const config: Record<string, unknown> = { ...template.config };
+  for (const [key, value] of Object.entries(request.config ?? {})) {
+    const base = config[key];
+    config[key] =
+      isPlainObject(base) && isPlainObject(value) ? { ...base, ...value } : value;
+  }
+  config.sourceIdField = template.sourceIdField;
+  if (request.schoolId) config.schoolId = request.schoolId;
+
+  const scheduled = !isPushConnectorType(template.type);
+  return {
+    connector: {
+      name: request.name,
+      type: template.type,
+      config,
+      scheduleCron: scheduled
+        ? request.scheduleCron !== undefined
+          ? request.scheduleCron
+          : template.scheduleCron ?? null
+        : null,
+      ownerId,
+    },
+    mappings: template.mappings.map((m) => ({
+      sourcePath: m.sourcePath,
+      targetField: m.targetField,
+      transform: m.transform ?? null,
+    })),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
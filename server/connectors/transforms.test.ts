@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyMappings, explodeRecord, type MappingRule } from "./transforms";
+
+function mapOne(value: unknown, transform: Record<string, unknown>) {
+  const mappings: MappingRule[] = [{ sourcePath: "v", targetField: "out", transform }];
+  return applyMappings({ v: value }, mappings);
+}
+
+test("cast_number / cast_int parse numbers and leave blanks null", () => {
+  assert.equal(mapOne("12.5", { op: "cast_number" }).payload.out, 12.5);
+  assert.equal(mapOne("12.5", { op: "cast_int" }).payload.out, 12);
+  assert.equal(mapOne("", { op: "cast_number" }).payload.out, null);
+  assert.equal(mapOne(null, { op: "cast_int" }).payload.out, null);
+});
+
+test("cast_number reports non-numeric values as transform errors", () => {
+  const result = mapOne("12,5 reais", { op: "cast_number" });
+  assert.equal(result.payload.out, undefined);
+  assert.deepEqual(result.errors, ['Transform error for v -> out: Invalid number: "12,5 reais"']);
+});
+
+test("date_parse without a format reads ISO dates and rejects the rest", () => {
+  assert.equal(
+    mapOne("2026-01-02T10:00:00Z", { op: "date_parse" }).payload.out,
+    "2026-01-02T10:00:00.000Z"
+  );
+  assert.equal(mapOne("", { op: "date_parse" }).payload.out, null);
+  assert.deepEqual(mapOne("not a date", { op: "date_parse" }).errors, [
+    'Transform error for v -> out: Invalid date: "not a date"',
+  ]);
+});
+
+test("date_parse with a pt-BR format and parse_currency", () => {
+  assert.equal(
+    mapOne("02/01/2026", { op: "date_parse", format: "dd/MM/yyyy", output: "date" }).payload.out,
+    "2026-01-02"
+  );
+  assert.equal(mapOne("R$ 1.234,567", { op: "parse_currency" }).payload.out, 1234.57);
+  assert.equal(mapOne("123.456.789-00", { op: "normalize_cpf" }).errors.length, 1);
+});
+
+test("explodeRecord yields one row per element with the parent's fields", () => {
+  const record = { id: 7, name: "Ana", order: { items: [{ sku: "a" }, { sku: "b" }] } };
+  assert.deepEqual(explodeRecord(record, "7", "order.items"), [
+    { sourceId: "7:0", record: { id: 7, name: "Ana", order: { items: { sku: "a" } } } },
+    { sourceId: "7:1", record: { id: 7, name: "Ana", order: { items: { sku: "b" } } } },
+  ]);
+  // A dead-lettered row holds the element itself
+  const row = { id: 7, order: { items: { sku: "b" } } };
+  assert.deepEqual(explodeRecord(row, "7", "order.items", "7:1"), [{ sourceId: "7:1", record: row }]);
+});
+
+test("explodeRecord rejects a missing or empty array instead of dropping the record", () => {
+  assert.throws(() => explodeRecord({ id: 1, items: [] }, "1", "items"), /items is missing or empty/);
+  assert.throws(() => explodeRecord({ id: 1 }, "1", "items"), /items is missing or empty/);
+  assert.deepEqual(explodeRecord({ id: 1 }, "1", null), [{ sourceId: "1", record: { id: 1 } }]);
+});
@@ -1,4 +1,18 @@
-import type { ConnectorMapping } from "@shared/schema";
+import { createHash } from "crypto";
+import { evaluateExpression } from "./expression";
+import {
+  DEFAULT_TIMEZONE,
+  formatCnpj,
+  formatCpf,
+  normalizeCnpj,
+  normalizeCpf,
+  normalizePhone,
+  parseDateInTimezone,
+  parseLocaleDecimal,
+  toDateInTimezone,
+  toE164Phone,
+} from "./br-formats";
+import { LOOKUP_SOURCES, resolveLookup, type LookupContext, type LookupSource } from "./lookups";
 
 export interface TransformResult {
   payload: Record<string, unknown>;
@@ -6,13 +20,45 @@ export interface TransformResult {
   errors: string[];
 }
 
-function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
+// Only the parts of a mapping that drive the transform, so unsaved drafts
+// can be applied as well. transform is one op or a chain of ops.
+export interface MappingRule {
+  sourcePath: string;
+  targetField: string;
+  transform?: Record<string, unknown> | Record<string, unknown>[] | null;
+}
+
+export interface TransformStep {
+  op: string;
+  input: unknown;
+  output: unknown;
+}
+
+export interface MappingTrace {
+  sourcePath: string;
+  targetField: string;
+  input: unknown;
+  steps: TransformStep[];
+  output: unknown;
+  error?: string;
+}
+
+// "installments[*].amount": one row per element of installments
+export const EXPLODE_MARKER = "[*]";
+
+export function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
   const parts = path.split(".");
   let current: unknown = obj;
   for (const part of parts) {
     if (current == null || typeof current !== "object") return undefined;
     const rec = current as Record<string, unknown>;
-    if (part.includes("[")) {
+    if (part.endsWith(EXPLODE_MARKER)) {
+      // Reads the element an exploded row holds in place of the array; the
+      // unexploded array itself has no single value
+      const value = rec[part.slice(0, -EXPLODE_MARKER.length)];
+      if (Array.isArray(value)) return undefined;
+      current = value;
+    } else if (part.includes("[")) {
       const match = part.match(/^(\w+)\[(\d+)\]$/);
       if (match) {
         const arr = rec[match[1]];
@@ -34,7 +80,8 @@ function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
 function applyTransformOp(
   value: unknown,
   transform: Record<string, unknown>,
-  rawRecord?: Record<string, unknown>
+  rawRecord?: Record<string, unknown>,
+  mapping?: { targetField: string; lookups?: LookupContext }
 ): unknown {
   const op = transform.op as string;
 
@@ -44,9 +91,10 @@ function applyTransformOp(
 
     case "cast_number":
     case "cast_int": {
-      if (value == null) return null;
+      if (value == null || (typeof value === "string" && value.trim() === "")) return null;
       const n = Number(value);
-      return isNaN(n) ? null : op === "cast_int" ? Math.floor(n) : n;
+      if (!Number.isFinite(n)) throw new Error(`Invalid number: ${JSON.stringify(value)}`);
+      return op === "cast_int" ? Math.floor(n) : n;
     }
 
     case "cast_boolean":
@@ -66,8 +114,50 @@ function applyTransformOp(
       if (format === "epoch_s" && typeof value === "number") {
         return new Date(value * 1000).toISOString();
       }
+      // Explicit pattern (date-fns tokens, e.g. "dd/MM/yyyy HH:mm") read as
+      // wall time in the timezone; a value that does not match is an error
+      if (format && format !== "epoch_ms" && format !== "epoch_s") {
+        if (value === "") return null;
+        const timezone = (transform.timezone as string) || DEFAULT_TIMEZONE;
+        const d = parseDateInTimezone(value, format, timezone);
+        return transform.output === "date" ? toDateInTimezone(d, timezone) : d.toISOString();
+      }
+      if (value === "") return null;
       const d = new Date(String(value));
-      return isNaN(d.getTime()) ? null : d.toISOString();
+      if (isNaN(d.getTime())) throw new Error(`Invalid date: ${JSON.stringify(value)}`);
+      return d.toISOString();
+    }
+
+    // "1.234,56" / "R$ 1.234,56" (locale "en-US" for "1,234.56")
+    case "parse_decimal":
+    case "parse_currency": {
+      if (value == null || value === "") return null;
+      const locale = transform.locale === "en-US" ? "en-US" : "pt-BR";
+      const n = parseLocaleDecimal(value, locale);
+      if (op === "parse_decimal") return n;
+      const factor = 10 ** ((transform.decimals as number) ?? 2);
+      return Math.round(n * factor) / factor;
+    }
+
+    case "normalize_cpf":
+    case "normalize_cnpj": {
+      if (value == null || value === "") return null;
+      const isCpf = op === "normalize_cpf";
+      const digits = isCpf ? normalizeCpf(value) : normalizeCnpj(value);
+      if (!digits) {
+        throw new Error(`Invalid ${isCpf ? "CPF" : "CNPJ"}: ${JSON.stringify(value)}`);
+      }
+      if (transform.format !== "formatted") return digits;
+      return isCpf ? formatCpf(digits) : formatCnpj(digits);
+    }
+
+    // E.164 by default; format "national" keeps area code + number
+    case "normalize_phone": {
+      if (value == null || value === "") return null;
+      const phone =
+        transform.format === "national" ? normalizePhone(value) : toE164Phone(value);
+      if (!phone) throw new Error(`Invalid phone number: ${JSON.stringify(value)}`);
+      return phone;
     }
 
     case "lowercase":
@@ -127,14 +217,46 @@ function applyTransformOp(
       return tmpl.replace(/\{\{value\}\}/g, String(value ?? ""));
     }
 
+    // Sandboxed expression over the value and the raw record (expression.ts);
+    // errors propagate to the mapping's entry in TransformResult.errors
+    case "expression": {
+      const expr = transform.expr;
+      if (typeof expr !== "string" || !expr.trim()) {
+        throw new Error('"expression" op requires an "expr" string');
+      }
+      return evaluateExpression(expr, { value, record: rawRecord ?? {} });
+    }
+
+    // Source value → schools.id / users.id (see lookups.ts); unmatched
+    // values take the fallback and are counted in the run report
+    case "lookup": {
+      const source = transform.source as LookupSource;
+      if (!LOOKUP_SOURCES.includes(source)) {
+        throw new Error(`"lookup" op requires a source (${LOOKUP_SOURCES.join(", ")})`);
+      }
+      if (!mapping?.lookups) {
+        throw new Error("Lookups are not available for this run");
+      }
+      const id = resolveLookup(mapping.lookups, source, value, mapping.targetField);
+      if (id !== null || value == null || value === "") return id;
+      return transform.fallback ?? null;
+    }
+
     default:
       return value;
   }
 }
 
+/**
+ * Applies the mappings to one raw record. When `trace` is passed, one entry
+ * per mapping is pushed with the value before and after each transform op.
+ * `lookups` is the run's reference data for "lookup" ops.
+ */
 export function applyMappings(
   rawRecord: Record<string, unknown>,
-  mappings: ConnectorMapping[]
+  mappings: MappingRule[],
+  trace?: MappingTrace[],
+  lookups?: LookupContext
 ): TransformResult {
   const payload: Record<string, unknown> = {};
   const unmappedFields: string[] = [];
@@ -143,8 +265,19 @@ export function applyMappings(
   const mappedSourcePaths = new Set(mappings.map((m) => m.sourcePath));
 
   for (const mapping of mappings) {
+    const entry: MappingTrace | undefined = trace
+      ? {
+        sourcePath: mapping.sourcePath,
+        targetField: mapping.targetField,
+        input: undefined,
+        steps: [],
+        output: undefined,
+      }
+      : undefined;
+
     try {
       let value = getNestedValue(rawRecord, mapping.sourcePath);
+      if (entry) entry.input = value;
 
       if (mapping.transform && typeof mapping.transform === "object") {
         const transforms = Array.isArray(mapping.transform)
@@ -152,17 +285,27 @@ export function applyMappings(
           : [mapping.transform];
 
         for (const t of transforms) {
-          value = applyTransformOp(value, t as Record<string, unknown>, rawRecord);
+          const op = t as Record<string, unknown>;
+          const before = value;
+          value = applyTransformOp(value, op, rawRecord, {
+            targetField: mapping.targetField,
+            lookups,
+          });
+          entry?.steps.push({ op: String(op.op), input: before, output: value });
         }
       }
 
       payload[mapping.targetField] = value;
+      if (entry) entry.output = value;
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       errors.push(
         `Transform error for ${mapping.sourcePath} -> ${mapping.targetField}: ${msg}`
       );
+      if (entry) entry.error = msg;
     }
+
+    if (entry) trace!.push(entry);
   }
 
   const topLevelKeys = Object.keys(rawRecord);
@@ -175,6 +318,91 @@ export function applyMappings(
   return { payload, unmappedFields, errors };
 }
 
+export interface ExplodedRow {
+  sourceId: string;
+  record: Record<string, unknown>;
+}
+
+/**
+ * Array exploded by the mappings: the path before "[*]" of the mappings
+ * that use it, or null when none does. Throws when the mappings explode
+ * more than one array.
+ */
+export function getExplodePath(mappings: MappingRule[]): string | null {
+  let explodePath: string | null = null;
+  for (const m of mappings) {
+    const at = m.sourcePath.indexOf(EXPLODE_MARKER);
+    if (at === -1) continue;
+    const arrayPath = m.sourcePath.slice(0, at);
+    if (m.sourcePath.includes(EXPLODE_MARKER, at + EXPLODE_MARKER.length)) {
+      throw new Error(`Only one ${EXPLODE_MARKER} is supported per source path: ${m.sourcePath}`);
+    }
+    if (!/^\w+(\.\w+)*$/.test(arrayPath)) {
+      throw new Error(`${EXPLODE_MARKER} must follow a field path: ${m.sourcePath}`);
+    }
+    if (explodePath !== null && explodePath !== arrayPath) {
+      throw new Error(
+        `Mappings explode two arrays ("${explodePath}" and "${arrayPath}"); only one is supported`
+      );
+    }
+    explodePath = arrayPath;
+  }
+  return explodePath;
+}
+
+function replaceNestedValue(
+  obj: Record<string, unknown>,
+  path: string[],
+  value: unknown
+): Record<string, unknown> {
+  const [key, ...rest] = path;
+  const child = obj[key];
+  return {
+    ...obj,
+    [key]:
+      rest.length === 0
+        ? value
+        : replaceNestedValue(
+          child && typeof child === "object" ? (child as Record<string, unknown>) : {},
+          rest,
+          value
+        ),
+  };
+}
+
+/**
+ * Splits a raw record into the rows to upsert. Without an explode path the
+ * record is its own row. Otherwise each element of the array becomes a row:
+ * a copy of the record with the element in place of the array, so mappings
+ * without "[*]" keep reading the parent's fields, and source ID
+ * "<parent id>:<index>". A record holding a single value there (e.g. a
+ * dead-lettered row) is one row, with rowSourceId when given. Throws when
+ * the array is missing or empty, so the record is reported instead of
+ * yielding no rows.
+ */
+export function explodeRecord(
+  rawRecord: Record<string, unknown>,
+  sourceId: string,
+  explodePath: string | null,
+  rowSourceId?: string | null
+): ExplodedRow[] {
+  if (!explodePath) return [{ sourceId, record: rawRecord }];
+
+  const items = getNestedValue(rawRecord, explodePath);
+  if (items == null || (Array.isArray(items) && items.length === 0)) {
+    throw new Error(`${explodePath} is missing or empty; the record yields no rows`);
+  }
+  if (!Array.isArray(items)) {
+    return [{ sourceId: rowSourceId ?? sourceId, record: rawRecord }];
+  }
+
+  const path = explodePath.split(".");
+  return items.map((item, index) => ({
+    sourceId: `${sourceId}:${index}`,
+    record: replaceNestedValue(rawRecord, path, item),
+  }));
+}
+
 export function extractSourceId(
   rawRecord: Record<string, unknown>,
   idField: string = "id"
@@ -182,3 +410,20 @@ export function extractSourceId(
   const value = getNestedValue(rawRecord, idField);
   return value != null ? String(value) : null;
 }
+
+/**
+ * Short fingerprint of a mapping set (source path, target field, transform),
+ * independent of row order. Stamped on dead letters so it is visible whether
+ * the mappings changed since the record failed.
+ */
+export function computeMappingVersion(mappings: MappingRule[]): string {
+  const canonical = mappings
+    .map((m) => [m.sourcePath, m.targetField, m.transform ?? null])
+    .sort((a, b) =>
+      `${a[0]}\u0000${a[1]}`.localeCompare(`${b[0]}\u0000${b[1]}`)
+    );
+  return createHash("sha256")
+    .update(JSON.stringify(canonical))
+    .digest("hex")
+    .slice(0, 12);
+}
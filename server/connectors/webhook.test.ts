@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  rotateWebhookSecret,
+  signWebhookBody,
+  verifyWebhookRequest,
+  verifyWebhookSignature,
+  SECRET_ROTATION_GRACE_MS,
+} from "./webhook";
+
+const body = Buffer.from('{"id":"evt_1"}');
+
+test("verifyWebhookSignature accepts the hex digest with or without sha256=", () => {
+  const digest = signWebhookBody("s3cret", body);
+  assert.equal(verifyWebhookSignature("s3cret", body, digest), true);
+  assert.equal(verifyWebhookSignature("s3cret", body, `sha256=${digest.toUpperCase()}`), true);
+});
+
+test("verifyWebhookSignature rejects a missing, short or wrong signature", () => {
+  const digest = signWebhookBody("s3cret", body);
+  assert.equal(verifyWebhookSignature("s3cret", body, undefined), false);
+  assert.equal(verifyWebhookSignature("s3cret", body, digest.slice(2)), false);
+  assert.equal(verifyWebhookSignature("other", body, digest), false);
+  assert.equal(verifyWebhookSignature("s3cret", Buffer.from("{}"), digest), false);
+});
+
+test("rotateWebhookSecret keeps the settings and the replaced secret for the grace period", () => {
+  const now = new Date("2026-10-01T00:00:00Z");
+  const rotated = rotateWebhookSecret({ secret: "old", eventIdPath: "data.id" }, now);
+  assert.notEqual(rotated.secret, "old");
+  assert.equal(rotated.eventIdPath, "data.id");
+  assert.equal(rotated.previousSecret, "old");
+  assert.equal(
+    rotated.previousSecretExpiresAt,
+    new Date(now.getTime() + SECRET_ROTATION_GRACE_MS).toISOString()
+  );
+});
+
+test("rotateWebhookSecret on a connector without a secret keeps no previous one", () => {
+  const rotated = rotateWebhookSecret({});
+  assert.match(rotated.secret, /^[0-9a-f]{64}$/);
+  assert.equal(rotated.previousSecret, undefined);
+  assert.equal(rotated.previousSecretExpiresAt, undefined);
+});
+
+test("verifyWebhookRequest accepts the previous secret until it expires", () => {
+  const now = new Date("2026-10-01T00:00:00Z");
+  const rotated = rotateWebhookSecret({ secret: "old" }, now);
+  const oldSignature = signWebhookBody("old", body);
+
+  assert.equal(verifyWebhookRequest(rotated, body, signWebhookBody(rotated.secret, body), now), true);
+  assert.equal(verifyWebhookRequest(rotated, body, oldSignature, now), true);
+  const expired = new Date(now.getTime() + SECRET_ROTATION_GRACE_MS + 1);
+  assert.equal(verifyWebhookRequest(rotated, body, oldSignature, expired), false);
+});
+
+test("a second rotation drops the first secret", () => {
+  const first = rotateWebhookSecret({ secret: "first" });
+  const second = rotateWebhookSecret(first);
+  assert.equal(second.previousSecret, first.secret);
+  assert.equal(verifyWebhookRequest(second, body, signWebhookBody("first", body)), false);
+});
@@ -0,0 +1,201 @@
+/**
+ * webhook.ts
+ *
+ * Inbound webhook connectors. Sources push events to
+ * POST /api/webhooks/connectors/:connectorId; the body is authenticated with
+ * an HMAC-SHA256 signature keyed by config.webhook.secret. Accepted events
+ * are stored as pending (redeliveries of a known event ID are ignored) and
+ * flushed in small batches through the sync engine, each batch being one
+ * micro sync run.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import type { Connector } from "@shared/schema";
+import { ingestWebhookEvents } from "./sync-engine";
+import { getNestedValue } from "./transforms";
+import { openConnectorConfig } from "./secrets";
+
+// connectors.config.webhook
+export interface WebhookConfig {
+  secret: string;
+  // Secret replaced by the last rotation, still accepted until
+  // previousSecretExpiresAt (ISO) so senders can be updated
+  previousSecret?: string;
+  previousSecretExpiresAt?: string;
+  // Header carrying the hex digest, optionally prefixed with "sha256="
+  signatureHeader?: string;
+  // Path of the event ID in the event body
+  eventIdPath?: string;
+  // Path of the record to map inside the event; the whole event by default
+  recordPath?: string;
+}
+
+const DEFAULT_SIGNATURE_HEADER = "x-webhook-signature";
+const DEFAULT_EVENT_ID_PATH = "id";
+// Events arriving within this window share a micro run
+const FLUSH_DELAY_MS = 2000;
+const MAX_BATCH_SIZE = 100;
+// How long the previous secret stays valid after a rotation
+export const SECRET_ROTATION_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export function getWebhookConfig(connector: Connector): WebhookConfig | null {
+  const config = openConnectorConfig(connector.config || {});
+  const webhook = config.webhook as WebhookConfig | undefined;
+  return webhook?.secret ? webhook : null;
+}
+
+export function getSignatureHeader(config: WebhookConfig): string {
+  return (config.signatureHeader || DEFAULT_SIGNATURE_HEADER).toLowerCase();
+}
+
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function signWebhookBody(secret: string, body: Buffer | string): string {
+  return createHmac("sha256", secret).update(body).digest("hex");
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  body: Buffer,
+  signature: string | undefined
+): boolean {
+  if (!signature) return false;
+  const received = signature.trim().replace(/^sha256=/i, "").toLowerCase();
+  const expected = signWebhookBody(secret, body);
+  if (received.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
+
+/**
+ * Config with a new secret. The current one becomes previousSecret for
+ * SECRET_ROTATION_GRACE_MS; a secret already in its grace period is dropped.
+ */
+export function rotateWebhookSecret(
+  webhook: Partial<WebhookConfig>,
+  now: Date = new Date()
+): WebhookConfig {
+  const rotated: WebhookConfig = { ...webhook, secret: generateWebhookSecret() };
+  delete rotated.previousSecret;
+  delete rotated.previousSecretExpiresAt;
+  if (webhook.secret) {
+    rotated.previousSecret = webhook.secret;
+    rotated.previousSecretExpiresAt = new Date(now.getTime() + SECRET_ROTATION_GRACE_MS).toISOString();
+  }
+  return rotated;
+}
+
+// Checks the signature against the current secret, then the previous one
+// while its grace period lasts
+export function verifyWebhookRequest(
+  config: WebhookConfig,
+  body: Buffer,
+  signature: string | undefined,
+  now: Date = new Date()
+): boolean {
+  if (verifyWebhookSignature(config.secret, body, signature)) return true;
+  if (!config.previousSecret || !config.previousSecretExpiresAt) return false;
+  if (new Date(config.previousSecretExpiresAt).getTime() <= now.getTime()) return false;
+  return verifyWebhookSignature(config.previousSecret, body, signature);
+}
+
+export function getEventId(
+  config: WebhookConfig,
+  event: Record<string, unknown>
+): string | null {
+  const value = getNestedValue(event, config.eventIdPath || DEFAULT_EVENT_ID_PATH);
+  if (value == null || value === "") return null;
+  return String(value);
+}
+
+function getEventRecord(
+  config: WebhookConfig | null,
+  event: Record<string, unknown>
+): Record<string, unknown> | null {
+  if (!config?.recordPath) return event;
+  const value = getNestedValue(event, config.recordPath);
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+// ─── Buffering ────────────────────────────────────────────────────────────────
+
+const flushTimers = new Map<string, NodeJS.Timeout>();
+const bufferedCounts = new Map<string, number>();
+const flushing = new Set<string>();
+
+/**
+ * Notes newly stored events and schedules a flush; a full batch is flushed
+ * right away.
+ */
+export function bufferWebhookEvents(connectorId: string, count: number): void {
+  const buffered = (bufferedCounts.get(connectorId) ?? 0) + count;
+  bufferedCounts.set(connectorId, buffered);
+
+  if (buffered >= MAX_BATCH_SIZE) {
+    scheduleFlush(connectorId, 0);
+  } else if (!flushTimers.has(connectorId)) {
+    scheduleFlush(connectorId, FLUSH_DELAY_MS);
+  }
+}
+
+function scheduleFlush(connectorId: string, delayMs: number): void {
+  const existing = flushTimers.get(connectorId);
+  if (existing) clearTimeout(existing);
+  flushTimers.set(
+    connectorId,
+    setTimeout(() => {
+      flushTimers.delete(connectorId);
+      void flushWebhookEvents(connectorId);
+    }, delayMs)
+  );
+}
+
+/**
+ * Processes the connector's pending events, one micro run per batch of up
+ * to MAX_BATCH_SIZE. Runs of the same connector never overlap.
+ */
+export async function flushWebhookEvents(connectorId: string): Promise<void> {
+  if (flushing.has(connectorId)) {
+    scheduleFlush(connectorId, FLUSH_DELAY_MS);
+    return;
+  }
+  flushing.add(connectorId);
+  bufferedCounts.delete(connectorId);
+
+  try {
+    const connector = await storage.getConnector(connectorId);
+    if (!connector) return;
+    const config = getWebhookConfig(connector);
+
+    for (;;) {
+      const pending = await storage.getPendingWebhookEvents(connectorId, MAX_BATCH_SIZE);
+      if (pending.length === 0) break;
+
+      await ingestWebhookEvents(
+        connectorId,
+        pending.map((event) => ({ event, record: getEventRecord(config, event.payload) }))
+      );
+      if (pending.length < MAX_BATCH_SIZE) break;
+    }
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[webhook] Flush failed for connector ${connectorId}: ${msg}`);
+  } finally {
+    flushing.delete(connectorId);
+  }
+}
+
+/**
+ * Flushes events left pending by a previous process (e.g. a restart between
+ * accepting an event and its micro run).
+ */
+export async function flushPendingWebhookEvents(): Promise<void> {
+  const connectorIds = await storage.getConnectorIdsWithPendingWebhookEvents();
+  for (const connectorId of connectorIds) {
+    await flushWebhookEvents(connectorId);
+  }
+}
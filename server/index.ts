@@ -5,6 +5,9 @@ import { serveStatic } from "./static";
 import { createServer } from "http";
 import { seedDatabase } from "./seed";
 import { pool } from "./db";
+import { startConnectorScheduler } from "./connectors/scheduler";
+import { startHealthEvaluator } from "./connectors/health";
+import { flushPendingWebhookEvents } from "./connectors/webhook";
 
 const app = express();
 const httpServer = createServer(app);
@@ -140,4 +143,22 @@ app.use((req, res, next) => {
     }
   }, REFRESH_INTERVAL_MS);
   log(`Pipeline aggregation refresh scheduled every ${REFRESH_INTERVAL_MS / 1000}s`, "scheduler");
+
+  // Set CONNECTOR_SCHEDULER_ENABLED=false on extra instances so only one
+  // process fires connector cron schedules.
+  if (process.env.CONNECTOR_SCHEDULER_ENABLED !== "false") {
+    startConnectorScheduler();
+    log("Connector cron scheduler started", "scheduler");
+  }
+
+  // Likewise CONNECTOR_HEALTH_CHECK_ENABLED=false, so SLA alerts are raised once
+  if (process.env.CONNECTOR_HEALTH_CHECK_ENABLED !== "false") {
+    startHealthEvaluator();
+    log("Connector SLA health check started", "scheduler");
+  }
+
+  // Webhook events accepted right before a restart are still pending
+  flushPendingWebhookEvents().catch((err) => {
+    console.error("Failed to flush pending webhook events:", err);
+  });
 })();
\ No newline at end of file
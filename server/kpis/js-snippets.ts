@@ -17,6 +17,12 @@ type SnippetFn = (ctx: SnippetContext) => Promise<SnippetResult>;
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+/** Leaves out leads merged into another lead's identity group, as /api/leads does. */
+const NOT_MERGED_DUPLICATE = `NOT EXISTS (
+  SELECT 1 FROM lead_identity_links l
+  WHERE l.lead_id = leads.id AND l.golden_lead_id <> leads.id
+)`;
+
 /** Appends a parameterised school filter to params and returns the SQL clause. */
 function schoolClause(
   schoolId: string | null,
@@ -68,7 +74,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
       const sf = schoolClause(ctx.schoolId, params);
       const result = await ctx.pool.query(
         `SELECT COUNT(*)::int AS total FROM enrollments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz ${sf}`,
         params
       );
@@ -85,7 +92,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
       const result = await ctx.pool.query(
         `SELECT COALESCE(SUM((payload->>'amount')::numeric), 0) AS total
            FROM payments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz ${sf}`,
         params
       );
@@ -100,8 +108,10 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
       const sf = schoolClause(ctx.schoolId, params);
       const result = await ctx.pool.query(
         `SELECT COUNT(*)::int AS total FROM leads
-           WHERE created_at >= $1::timestamptz
-             AND created_at < $2::timestamptz ${sf}`,
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
+             AND created_at < $2::timestamptz
+             AND ${NOT_MERGED_DUPLICATE} ${sf}`,
         params
       );
       return { value: result.rows[0]?.total ?? 0 };
@@ -115,13 +125,16 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
       const sf = schoolClause(ctx.schoolId, params);
       const leadsResult = await ctx.pool.query(
         `SELECT COUNT(*)::int AS total FROM leads
-           WHERE created_at >= $1::timestamptz
-             AND created_at < $2::timestamptz ${sf}`,
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
+             AND created_at < $2::timestamptz
+             AND ${NOT_MERGED_DUPLICATE} ${sf}`,
         params
       );
       const enrollResult = await ctx.pool.query(
         `SELECT COUNT(*)::int AS total FROM enrollments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz ${sf}`,
         params
       );
@@ -146,7 +159,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
              COALESCE(AVG((payload->>'amount')::numeric), 0) AS avg_val,
              COUNT(*)::int AS count
            FROM payments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz ${sf}`,
         params
       );
@@ -177,7 +191,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
              COUNT(*)::text AS total,
              COUNT(DISTINCT NULLIF(payload->>'student_id', ''))::text AS distinct_students
            FROM enrollments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz
              AND (payload->>'status' = 'ativo' OR payload->>'status' IS NULL)
              ${sf}`,
@@ -208,7 +223,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
              COALESCE(SUM(NULLIF(payload->>'discount_amount','')::numeric), 0)::text AS total,
              COUNT(*)::text AS count
            FROM payments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz
              AND (payload->>'discount_amount') IS NOT NULL
              ${sf}`,
@@ -237,7 +253,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
       const ticketResult = await ctx.pool.query<{ avg_val: string }>(
         `SELECT COALESCE(AVG((payload->>'amount')::numeric), 0)::text AS avg_val
            FROM payments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz ${sf}`,
         params
       );
@@ -250,7 +267,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
              COUNT(*)::text AS total,
              COUNT(DISTINCT NULLIF(payload->>'student_id', ''))::text AS distinct_students
            FROM enrollments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz
              AND (payload->>'status' = 'ativo' OR payload->>'status' IS NULL)
              ${sf}`,
@@ -289,7 +307,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
              COUNT(*)::text AS total,
              COUNT(DISTINCT NULLIF(payload->>'student_id', ''))::text AS distinct_students
            FROM enrollments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz
              AND (payload->>'status' = 'ativo' OR payload->>'status' IS NULL)
              ${sf}`,
@@ -334,7 +353,8 @@ const snippetRegistry: Record<string, { description: string; fn: SnippetFn }> =
       const revenueResult = await ctx.pool.query<{ total: string }>(
         `SELECT COALESCE(SUM((payload->>'amount')::numeric), 0)::text AS total
            FROM payments
-           WHERE created_at >= $1::timestamptz
+           WHERE deleted_at IS NULL
+             AND created_at >= $1::timestamptz
              AND created_at < $2::timestamptz ${sf}`,
         params
       );
@@ -467,7 +487,8 @@ Object.assign(snippetRegistry, {
       const revResult = await ctx.pool.query<{ total: string }>(
         `SELECT COALESCE(SUM((payload->>'amount')::numeric), 0)::text AS total
          FROM payments
-         WHERE created_at >= $1::timestamptz
+         WHERE deleted_at IS NULL
+           AND created_at >= $1::timestamptz
            AND created_at < $2::timestamptz ${revSf}`,
         revParams
       );
@@ -120,6 +120,20 @@ export function canViewNormalizedData(req: Request): boolean {
   return ["admin", "exec", "ops", "director", "finance", "seller"].includes(role);
 }
 
+// Sellers see their own leads; school-scoped roles the leads of their schools
+export function canViewLead(
+  req: Request,
+  lead: { sellerId: string | null; schoolId: string | null }
+): boolean {
+  if (!canViewNormalizedData(req)) return false;
+  const role = req.currentUser!.role;
+  if (role === "seller" && lead.sellerId !== req.currentUser!.id) return false;
+  if (!["admin", "exec", "ops"].includes(role)) {
+    return !lead.schoolId || getUserSchoolIds(req).includes(lead.schoolId);
+  }
+  return true;
+}
+
 export const MUTABLE_USER_FIELDS_SELF = [
   "fullName",
   "avatarUrl",
@@ -1,5 +1,6 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
+import multer from "multer";
 import { storage } from "./storage";
 import {
   insertUserSchema,
@@ -9,7 +10,22 @@ import {
   insertConnectorMappingSchema,
   insertSyncRunSchema,
   insertRawIngestFileSchema,
+  insertConnectorDeadLetterSchema,
+  mappingPreviewRequestSchema,
+  rawReprocessRequestSchema,
+  connectionTestRequestSchema,
+  createConnectorFromTemplateSchema,
+  fileUploadOptionsSchema,
+  canonicalBackfillRequestSchema,
+  leadMergeRequestSchema,
+  updateIdentityMatchRuleSchema,
+  IDENTITY_KEY_TYPES,
+  isPushConnectorType,
+  type IdentityKeyType,
+  DEAD_LETTER_STATUSES,
+  type DeadLetterStatus,
   type SyncOperation,
+  type Connector,
 } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -24,10 +40,76 @@ import {
   isConnectorOwner,
   getUserSchoolIds,
   canViewNormalizedData,
+  canViewLead,
   loadCurrentUser,
   filterUserUpdateFields,
 } from "./rbac";
-import { runConnector } from "./connectors/sync-engine";
+import {
+  extractRawRecords,
+  ingestUploadedFile,
+  reprocessRawFiles,
+  runConnector,
+} from "./connectors/sync-engine";
+import {
+  isSupportedEncoding,
+  parseUploadedFile,
+  type FileUploadConfig,
+} from "./connectors/file-parser";
+import { readRawFile } from "./connectors/raw-store";
+import {
+  bufferWebhookEvents,
+  getEventId,
+  getSignatureHeader,
+  getWebhookConfig,
+  rotateWebhookSecret,
+  verifyWebhookRequest,
+  type WebhookConfig,
+} from "./connectors/webhook";
+import { replayDeadLetters } from "./connectors/dead-letter";
+import { previewMappings } from "./connectors/mapping-preview";
+import { loadLookupContext } from "./connectors/lookups";
+import { suggestMappings } from "./connectors/source-schema";
+import { testConnection } from "./connectors/connection-test";
+import {
+  CONNECTOR_TEMPLATES,
+  buildConnectorFromTemplate,
+  exportConnectorTemplate,
+  getConnectorTemplate,
+} from "./connectors/templates";
+import { evaluateAllConnectorHealth, getDataFreshness, runHealthCheck } from "./connectors/health";
+import {
+  redactConnectorConfig,
+  checkRedactedSecrets,
+  restoreRedactedSecrets,
+  rewrapConnectorSecrets,
+} from "./connectors/secrets";
+import {
+  diffMappings,
+  recordMappingVersion,
+  rollbackMappings,
+} from "./connectors/mapping-versions";
+import {
+  getCanonicalBackfillStatus,
+  isCanonicalBackfillRunning,
+  startCanonicalBackfill,
+} from "./connectors/canonical-backfill";
+import {
+  getLeadIdentity,
+  mergeLeads,
+  unmergeLead,
+  type LeadIdentity,
+} from "./connectors/identity";
+import { getExplodePath, type MappingRule } from "./connectors/transforms";
+import {
+  getRoutedTables,
+  getTargetRouting,
+  isNormalizedTable,
+} from "./connectors/targets";
+import {
+  validateCronExpression,
+  resetConnectorSchedule,
+  getConnectorSchedules,
+} from "./connectors/scheduler";
 import {
   computeKpi,
   computeKpiForAllSchools,
@@ -41,6 +123,13 @@ import {
   insertIntegrationAlertSchema,
 } from "@shared/schema";
 
+// Spreadsheets are parsed in memory; larger exports should be split
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+const fileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
 function handleZodError(error: unknown) {
   if (error instanceof ZodError) {
     return fromZodError(error).toString();
@@ -48,6 +137,40 @@ function handleZodError(error: unknown) {
   return error instanceof Error ? error.message : "Unknown error";
 }
 
+// Connectors leave the API with their secrets replaced by REDACTED_SECRET
+function redactConnector(connector: Connector): Connector {
+  return { ...connector, config: redactConnectorConfig(connector.config || {}) };
+}
+
+// Why a connector of this type cannot have the cron schedule, if it cannot
+function checkSchedule(type: string, scheduleCron: string | null | undefined): string | null {
+  if (!scheduleCron?.trim()) return null;
+  if (isPushConnectorType(type)) {
+    return `${type} connectors receive pushed data and cannot have a schedule`;
+  }
+  const cronError = validateCronExpression(scheduleCron);
+  return cronError ? `Invalid cron expression: ${cronError}` : null;
+}
+
+// A mapping set may explode one array with "[*]"; returns why it cannot
+function checkExplodePaths(mappings: MappingRule[]): string | null {
+  try {
+    getExplodePath(mappings);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// Members and candidates are limited to the leads the user may see
+function scopeLeadIdentity(req: Request, identity: LeadIdentity): LeadIdentity {
+  return {
+    ...identity,
+    members: identity.members.filter((m) => canViewLead(req, m.lead)),
+    candidates: identity.candidates.filter((c) => canViewLead(req, c.lead)),
+  };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -246,8 +369,13 @@ export async function registerRoutes(
         SELECT COUNT(id) as total_leads
         FROM leads
         WHERE seller_id = $1::uuid
+          AND deleted_at IS NULL
           AND created_at >= $2::date
           AND created_at <= $3::date
+          AND NOT EXISTS (
+            SELECT 1 FROM lead_identity_links lil
+            WHERE lil.lead_id = leads.id AND lil.golden_lead_id <> lil.lead_id
+          )
           ${schoolId ? 'AND school_id = $4::uuid' : ''}
       `, schoolId ? [sellerId, from, to, schoolId] : [sellerId, from, to]);
 
@@ -269,7 +397,8 @@ export async function registerRoutes(
       let schoolAvgConversion = 0;
       if (schoolId) {
         const schoolLeadsRes = await pool.query(`
-          SELECT COUNT(id) as total_leads FROM leads WHERE school_id = $1::uuid AND created_at >= $2::date AND created_at <= $3::date
+          SELECT COUNT(id) as total_leads FROM leads WHERE school_id = $1::uuid AND deleted_at IS NULL AND created_at >= $2::date AND created_at <= $3::date
+            AND NOT EXISTS (SELECT 1 FROM lead_identity_links lil WHERE lil.lead_id = leads.id AND lil.golden_lead_id <> lil.lead_id)
         `, [schoolId, from, to]);
         const schoolEnrRes = await pool.query(`
           SELECT COUNT(id) as total_enrollments FROM enrollments WHERE school_id = $1::uuid AND enrollment_date >= $2::date AND enrollment_date <= $3::date
@@ -432,9 +561,14 @@ export async function registerRoutes(
           SELECT id, seller_id
           FROM leads
           WHERE school_id = $1::uuid
+            AND deleted_at IS NULL
             AND created_at >= $2::date
             AND created_at <= $3::date
             AND seller_id IS NOT NULL
+            AND NOT EXISTS (
+              SELECT 1 FROM lead_identity_links lil
+              WHERE lil.lead_id = leads.id AND lil.golden_lead_id <> lil.lead_id
+            )
         ),
         seller_enrollments AS (
            SELECT e.id, sl.seller_id
@@ -785,12 +919,12 @@ export async function registerRoutes(
     try {
       const allConnectors = await storage.getConnectors();
       if (isAdmin(req) || isOps(req)) {
-        return res.json(allConnectors);
+        return res.json(allConnectors.map(redactConnector));
       }
       const owned = allConnectors.filter(
         (c) => c.ownerId === req.currentUser!.id
       );
-      res.json(owned);
+      res.json(owned.map(redactConnector));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch connectors" });
     }
@@ -809,7 +943,7 @@ export async function registerRoutes(
       ) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
-      res.json(connector);
+      res.json(redactConnector(connector));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch connector" });
     }
@@ -825,14 +959,88 @@ export async function registerRoutes(
           ...req.body,
           ownerId: req.body.ownerId || req.currentUser!.id,
         });
+        const scheduleError = checkSchedule(data.type, data.scheduleCron);
+        if (scheduleError) {
+          return res.status(400).json({ message: scheduleError });
+        }
+        const connector = await storage.createConnector(data);
+        await resetConnectorSchedule(connector);
+        res.status(201).json(redactConnector(connector));
+      } catch (error) {
+        res.status(400).json({ message: handleZodError(error) });
+      }
+    }
+  );
+
+  app.get(
+    "/api/connector-templates",
+    requireAuth,
+    requireRole("admin"),
+    async (_req, res) => {
+      res.json(CONNECTOR_TEMPLATES);
+    }
+  );
+
+  // New connector with the config skeleton and mappings of a catalog
+  // template or of an exported one
+  app.post(
+    "/api/connectors/from-template",
+    requireAuth,
+    requireRole("admin"),
+    async (req, res) => {
+      try {
+        const request = createConnectorFromTemplateSchema.parse(req.body);
+        const template = request.template ?? getConnectorTemplate(request.templateKey!);
+        if (!template) {
+          return res.status(404).json({ message: "Template not found" });
+        }
+        const built = buildConnectorFromTemplate(template, request, req.currentUser!.id);
+        const data = insertConnectorSchema.parse(built.connector);
+        const scheduleError = checkSchedule(data.type, data.scheduleCron);
+        if (scheduleError) {
+          return res.status(400).json({ message: scheduleError });
+        }
+        const explodeError = checkExplodePaths(built.mappings);
+        if (explodeError) {
+          return res.status(400).json({ message: explodeError });
+        }
+
         const connector = await storage.createConnector(data);
-        res.status(201).json(connector);
+        const mappings = await storage.replaceConnectorMappings(connector.id, built.mappings);
+        await recordMappingVersion(connector.id, {
+          mappings,
+          reason: `Created from template ${template.key ?? template.name}`,
+          createdBy: req.currentUser!.id,
+        });
+        await resetConnectorSchedule(connector);
+        res.status(201).json(redactConnector(connector));
       } catch (error) {
         res.status(400).json({ message: handleZodError(error) });
       }
     }
   );
 
+  // The connector as a reusable template, without secrets or school
+  app.get("/api/connectors/:id/template", requireAuth, async (req, res) => {
+    try {
+      const connectorId = req.params.id as string;
+      if (
+        !isAdmin(req) &&
+        !(await isConnectorOwner(req, connectorId))
+      ) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      const connector = await storage.getConnector(connectorId);
+      if (!connector) {
+        return res.status(404).json({ message: "Connector not found" });
+      }
+      const mappings = await storage.getConnectorMappings(connectorId);
+      res.json(exportConnectorTemplate(connector, mappings));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export connector template" });
+    }
+  });
+
   app.patch("/api/connectors/:id", requireAuth, async (req, res) => {
     try {
       const connectorId = req.params.id as string;
@@ -843,11 +1051,35 @@ export async function registerRoutes(
         return res.status(403).json({ message: "Insufficient permissions" });
       }
       const data = insertConnectorSchema.partial().parse(req.body);
+      const existing = await storage.getConnector(connectorId);
+      if (!existing) {
+        return res.status(404).json({ message: "Connector not found" });
+      }
+      if ("scheduleCron" in data || "type" in data) {
+        const scheduleError = checkSchedule(
+          data.type ?? existing.type,
+          "scheduleCron" in data ? data.scheduleCron : existing.scheduleCron
+        );
+        if (scheduleError) {
+          return res.status(400).json({ message: scheduleError });
+        }
+      }
+      if (data.config) {
+        const secretError = checkRedactedSecrets(data.config, existing.config || {});
+        if (secretError) {
+          return res.status(400).json({ message: secretError });
+        }
+        data.config = restoreRedactedSecrets(data.config, existing.config || {});
+      }
       const connector = await storage.updateConnector(connectorId, data);
       if (!connector) {
         return res.status(404).json({ message: "Connector not found" });
       }
-      res.json(connector);
+      // Cron, school (timezone) or activation changes invalidate the schedule
+      if ("scheduleCron" in data || "config" in data || "isActive" in data) {
+        await resetConnectorSchedule(connector);
+      }
+      res.json(redactConnector(connector));
     } catch (error) {
       res.status(400).json({ message: handleZodError(error) });
     }
@@ -870,6 +1102,91 @@ export async function registerRoutes(
     }
   );
 
+  // One dry fetch of the source with the saved (or an unsaved) config;
+  // nothing is stored
+  app.post(
+    "/api/connectors/:connectorId/test-connection",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const parsed = connectionTestRequestSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: handleZodError(parsed.error) });
+        }
+        const connector = await storage.getConnector(connectorId);
+        if (!connector) {
+          return res.status(404).json({ message: "Connector not found" });
+        }
+        if (isPushConnectorType(connector.type)) {
+          return res
+            .status(400)
+            .json({ message: "Connector receives pushed data and has no source to test" });
+        }
+        if (parsed.data.config) {
+          const secretError = checkRedactedSecrets(parsed.data.config, connector.config || {});
+          if (secretError) {
+            return res.status(400).json({ message: secretError });
+          }
+        }
+        const config = parsed.data.config
+          ? restoreRedactedSecrets(parsed.data.config, connector.config || {})
+          : connector.config;
+        res.json(await testConnection({ ...connector, config }));
+      } catch (error) {
+        res.status(500).json({ message: "Failed to test connection" });
+      }
+    }
+  );
+
+  // Rewraps every connector secret with the first key of
+  // CONNECTOR_SECRET_KEYS and encrypts any still stored in plain text
+  app.post(
+    "/api/connector-secrets/rotate",
+    requireAuth,
+    requireRole("admin"),
+    async (req, res) => {
+      try {
+        let connectorsUpdated = 0;
+        let secrets = 0;
+        for (const connector of await storage.getConnectors()) {
+          const { config, rewrapped } = rewrapConnectorSecrets(connector.config || {});
+          if (rewrapped === 0) continue;
+          await storage.updateConnector(connector.id, { config });
+          connectorsUpdated++;
+          secrets += rewrapped;
+        }
+        res.json({ connectors: connectorsUpdated, secrets });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to rotate connector secrets" });
+      }
+    }
+  );
+
+  // =========================================================================
+  // CONNECTOR SCHEDULES (next / last run, computed in the school timezone)
+  // =========================================================================
+
+  app.get("/api/connector-schedules", requireAuth, async (req, res) => {
+    try {
+      const allConnectors = await storage.getConnectors();
+      const visible =
+        isAdmin(req) || isOps(req)
+          ? allConnectors
+          : allConnectors.filter((c) => c.ownerId === req.currentUser!.id);
+      const schedules = await getConnectorSchedules(visible);
+      res.json(schedules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch connector schedules" });
+    }
+  });
+
   // =========================================================================
   // RUN CONNECTOR SYNC
   // =========================================================================
@@ -891,6 +1208,7 @@ export async function registerRoutes(
           batchSize: req.body.batchSize as number | undefined,
           maxPages: req.body.maxPages as number | undefined,
           dryRun: req.body.dryRun as boolean | undefined,
+          fullResync: req.body.fullResync as boolean | undefined,
         };
 
         const result = await runConnector(connectorId, options);
@@ -903,6 +1221,46 @@ export async function registerRoutes(
     }
   );
 
+  // =========================================================================
+  // CONNECTOR WATERMARKS (incremental sync high-water mark)
+  // =========================================================================
+
+  app.get(
+    "/api/connectors/:connectorId/watermark",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !isOps(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const watermark = await storage.getConnectorWatermark(connectorId);
+        res.json(watermark ?? null);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch connector watermark" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/connectors/:connectorId/watermark",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        await storage.deleteConnectorWatermark(connectorId);
+        res.status(204).send();
+      } catch (error) {
+        res.status(500).json({ message: "Failed to reset connector watermark" });
+      }
+    }
+  );
+
   // =========================================================================
   // CONNECTOR MAPPINGS
   // =========================================================================
@@ -929,6 +1287,64 @@ export async function registerRoutes(
     }
   );
 
+  // Registered before the :id mapping routes; evaluates draft mappings
+  // without saving anything
+  app.post(
+    "/api/connectors/:connectorId/mappings/preview",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const connector = await storage.getConnector(connectorId);
+        if (!connector) {
+          return res.status(404).json({ message: "Connector not found" });
+        }
+
+        const parsed = mappingPreviewRequestSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: handleZodError(parsed.error) });
+        }
+        const data = parsed.data;
+
+        let record = data.record;
+        let fileName: string | undefined;
+        if (data.source === "latest_file") {
+          const latest = (await storage.getRawIngestFiles(connectorId)).find(
+            (f) => !!f.storageBackend
+          );
+          if (!latest) {
+            return res
+              .status(404)
+              .json({ message: "No stored raw ingest files for this connector yet" });
+          }
+          fileName = latest.fileName;
+          const rawResponse = await readRawFile(latest);
+          record = rawResponse
+            ? extractRawRecords(connector, rawResponse)[0]
+            : undefined;
+          if (!record) {
+            return res.status(404).json({
+              message: `Raw payload of ${latest.fileName} has no records; paste a sample record instead`,
+            });
+          }
+        }
+
+        const mappings: MappingRule[] =
+          data.mappings ?? (await storage.getConnectorMappings(connectorId));
+        const result = previewMappings(connector, record!, mappings, await loadLookupContext());
+        res.json({ sample: { source: data.source, fileName, record }, ...result });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to preview mappings" });
+      }
+    }
+  );
+
   app.post(
     "/api/connectors/:connectorId/mappings",
     requireAuth,
@@ -945,7 +1361,18 @@ export async function registerRoutes(
           ...req.body,
           connectorId,
         });
+        const explodeError = checkExplodePaths([
+          ...(await storage.getConnectorMappings(connectorId)),
+          data,
+        ]);
+        if (explodeError) {
+          return res.status(400).json({ message: explodeError });
+        }
         const mapping = await storage.createConnectorMapping(data);
+        await recordMappingVersion(connectorId, {
+          reason: `Added mapping ${mapping.sourcePath} -> ${mapping.targetField}`,
+          createdBy: req.currentUser!.id,
+        });
         res.status(201).json(mapping);
       } catch (error) {
         res.status(400).json({ message: handleZodError(error) });
@@ -969,6 +1396,14 @@ export async function registerRoutes(
           return res.status(403).json({ message: "Insufficient permissions" });
         }
         const data = insertConnectorMappingSchema.partial().parse(req.body);
+        const explodeError = checkExplodePaths(
+          (await storage.getConnectorMappings(mapping.connectorId)).map((m) =>
+            m.id === mapping.id ? { ...m, ...data } : m
+          )
+        );
+        if (explodeError) {
+          return res.status(400).json({ message: explodeError });
+        }
         const updated = await storage.updateConnectorMapping(
           req.params.id as string,
           data
@@ -976,6 +1411,10 @@ export async function registerRoutes(
         if (!updated) {
           return res.status(404).json({ message: "Mapping not found" });
         }
+        await recordMappingVersion(updated.connectorId, {
+          reason: `Updated mapping ${updated.sourcePath} -> ${updated.targetField}`,
+          createdBy: req.currentUser!.id,
+        });
         res.json(updated);
       } catch (error) {
         res.status(400).json({ message: handleZodError(error) });
@@ -1002,6 +1441,10 @@ export async function registerRoutes(
         if (!deleted) {
           return res.status(404).json({ message: "Mapping not found" });
         }
+        await recordMappingVersion(mapping.connectorId, {
+          reason: `Removed mapping ${mapping.sourcePath} -> ${mapping.targetField}`,
+          createdBy: req.currentUser!.id,
+        });
         res.status(204).send();
       } catch (error) {
         res.status(500).json({ message: "Failed to delete mapping" });
@@ -1009,82 +1452,256 @@ export async function registerRoutes(
     }
   );
 
-  // =========================================================================
-  // INTEGRATION MONITORING & ALERTS
-  // =========================================================================
-
+  // Inferred source schema with mapping suggestions for unmapped fields
   app.get(
-    "/api/monitoring/metrics/:connectorId",
+    "/api/connectors/:connectorId/source-schema",
     requireAuth,
     async (req, res) => {
       try {
         const connectorId = req.params.connectorId as string;
-        if (!isAdmin(req) && !isOps(req) && !isExec(req) && !(await isConnectorOwner(req, connectorId))) {
+        if (
+          !isAdmin(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
           return res.status(403).json({ message: "Insufficient permissions" });
         }
-        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
-        const metrics = await storage.getConnectorMetrics(connectorId, limit);
-        res.json(metrics);
+        const connector = await storage.getConnector(connectorId);
+        if (!connector) {
+          return res.status(404).json({ message: "Connector not found" });
+        }
+        const [schema, mappings] = await Promise.all([
+          storage.getConnectorSourceSchema(connectorId),
+          storage.getConnectorMappings(connectorId),
+        ]);
+        const tables = getRoutedTables(getTargetRouting(connector)).filter(isNormalizedTable);
+        res.json({
+          schema: schema ?? null,
+          suggestions: suggestMappings(schema, mappings, tables),
+        });
       } catch (error) {
-        res.status(500).json({ message: "Failed to fetch connector metrics" });
+        res.status(500).json({ message: "Failed to fetch source schema" });
       }
     }
   );
 
   app.get(
-    "/api/monitoring/slas",
+    "/api/connectors/:connectorId/mapping-versions",
     requireAuth,
-    requireRole("admin", "ops"),
     async (req, res) => {
       try {
-        const slas = await storage.getConnectorSlas();
-        res.json(slas);
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        res.json(await storage.getConnectorMappingVersions(connectorId));
       } catch (error) {
-        res.status(500).json({ message: "Failed to fetch SLAs" });
+        res
+          .status(500)
+          .json({ message: "Failed to fetch mapping versions" });
       }
     }
   );
 
-  app.patch(
-    "/api/monitoring/slas/:connectorId",
+  // ?from=<versionId>&to=<versionId>; without "to" the current mappings
+  app.get(
+    "/api/connectors/:connectorId/mapping-versions/diff",
     requireAuth,
-    requireRole("admin", "ops"),
     async (req, res) => {
       try {
         const connectorId = req.params.connectorId as string;
-        const data = insertConnectorSlaSchema.parse({
-          ...req.body,
-          connectorId,
+        if (
+          !isAdmin(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const fromId = typeof req.query.from === "string" ? req.query.from : "";
+        const toId = typeof req.query.to === "string" ? req.query.to : "";
+        const from = fromId ? await storage.getConnectorMappingVersion(fromId) : undefined;
+        if (!from || from.connectorId !== connectorId) {
+          return res.status(404).json({ message: "Mapping version not found" });
+        }
+        let to = null;
+        if (toId) {
+          to = (await storage.getConnectorMappingVersion(toId)) ?? null;
+          if (!to || to.connectorId !== connectorId) {
+            return res.status(404).json({ message: "Mapping version not found" });
+          }
+        }
+        const toMappings = to?.mappings ?? (await storage.getConnectorMappings(connectorId));
+        res.json({
+          from: { id: from.id, version: from.version },
+          to: to ? { id: to.id, version: to.version } : null,
+          ...diffMappings(from.mappings, toMappings),
         });
-        const sla = await storage.upsertConnectorSla(data);
-        res.json(sla);
       } catch (error) {
-        res.status(400).json({ message: handleZodError(error) });
+        res.status(500).json({ message: "Failed to diff mapping versions" });
       }
     }
   );
 
-  app.get(
-    "/api/monitoring/alerts",
+  app.post(
+    "/api/connectors/:connectorId/mapping-versions/:versionId/rollback",
     requireAuth,
     async (req, res) => {
       try {
-        if (!isAdmin(req) && !isOps(req) && !isExec(req)) {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
           return res.status(403).json({ message: "Insufficient permissions" });
         }
-        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 200;
-        const alerts = await storage.getIntegrationAlerts(limit);
-        res.json(alerts);
+        const version = await storage.getConnectorMappingVersion(
+          req.params.versionId as string
+        );
+        if (!version || version.connectorId !== connectorId) {
+          return res.status(404).json({ message: "Mapping version not found" });
+        }
+        const current = await rollbackMappings(version, req.currentUser!.id);
+        res.json(current);
       } catch (error) {
-        res.status(500).json({ message: "Failed to fetch integration alerts" });
+        res.status(500).json({ message: "Failed to roll back mappings" });
       }
     }
   );
 
-  app.patch(
-    "/api/monitoring/alerts/:id",
+  // =========================================================================
+  // INTEGRATION MONITORING & ALERTS
+  // =========================================================================
+
+  app.get(
+    "/api/monitoring/metrics/:connectorId",
     requireAuth,
-    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (!isAdmin(req) && !isOps(req) && !isExec(req) && !(await isConnectorOwner(req, connectorId))) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
+        const metrics = await storage.getConnectorMetrics(connectorId, limit);
+        res.json(metrics);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch connector metrics" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/monitoring/slas",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const slas = await storage.getConnectorSlas();
+        res.json(slas);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch SLAs" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/monitoring/slas/:connectorId",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        const data = insertConnectorSlaSchema.parse({
+          ...req.body,
+          connectorId,
+        });
+        const sla = await storage.upsertConnectorSla(data);
+        res.json(sla);
+      } catch (error) {
+        res.status(400).json({ message: handleZodError(error) });
+      }
+    }
+  );
+
+  // Current SLA evaluation of every active connector with an SLA; raises no alerts
+  app.get(
+    "/api/monitoring/health",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const health = await evaluateAllConnectorHealth();
+        res.json(health);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to evaluate connector health" });
+      }
+    }
+  );
+
+  // Runs the periodic SLA check now, raising alerts for the breaches
+  app.post(
+    "/api/monitoring/health/check",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const result = await runHealthCheck();
+        res.json(result);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to run health check" });
+      }
+    }
+  );
+
+  // Stale connectors behind the dashboards, for the "dados desatualizados"
+  // badge. ?schoolId= keeps the school's connectors and the network-wide ones.
+  app.get("/api/data-freshness", requireAuth, async (req, res) => {
+    try {
+      // Users without network-wide access only see their own schools, and a
+      // schoolId outside them is ignored
+      const fullAccess = isAdmin(req) || isExec(req) || isOps(req);
+      const userSchoolIds = getUserSchoolIds(req);
+      const requested = typeof req.query.schoolId === "string" ? req.query.schoolId : undefined;
+      const schoolId =
+        requested && (fullAccess || userSchoolIds.includes(requested)) ? requested : undefined;
+
+      const freshness = await getDataFreshness();
+      res.json(
+        freshness.filter((f) => {
+          if (!f.stale) return false;
+          // Network-wide connectors feed every school's dashboards
+          if (f.schoolId === null) return true;
+          if (schoolId) return f.schoolId === schoolId;
+          return fullAccess || userSchoolIds.includes(f.schoolId);
+        })
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch data freshness" });
+    }
+  });
+
+  app.get(
+    "/api/monitoring/alerts",
+    requireAuth,
+    async (req, res) => {
+      try {
+        if (!isAdmin(req) && !isOps(req) && !isExec(req)) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 200;
+        const alerts = await storage.getIntegrationAlerts(limit);
+        res.json(alerts);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch integration alerts" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/monitoring/alerts/:id",
+    requireAuth,
+    requireRole("admin", "ops"),
     async (req, res) => {
       try {
         const id = req.params.id as string;
@@ -1162,6 +1779,126 @@ export async function registerRoutes(
     }
   );
 
+  app.get(
+    "/api/sync-runs/:id/tombstones",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const run = await storage.getSyncRun(req.params.id as string);
+        if (!run) {
+          return res.status(404).json({ message: "Sync run not found" });
+        }
+        if (
+          !isAdmin(req) &&
+          !isOps(req) &&
+          !(await isConnectorOwner(req, run.connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const tombstones = await storage.getSyncRunTombstones(run.id);
+        res.json(tombstones);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch sync run tombstones" });
+      }
+    }
+  );
+
+  // =========================================================================
+  // DEAD LETTERS (records that failed transform / upsert, replayable)
+  // =========================================================================
+
+  app.get(
+    "/api/connectors/:connectorId/dead-letters",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !isOps(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const status = req.query.status as string | undefined;
+        if (status && !DEAD_LETTER_STATUSES.includes(status as DeadLetterStatus)) {
+          return res.status(400).json({ message: `Invalid status: ${status}` });
+        }
+        const entries = await storage.getDeadLetters(
+          connectorId,
+          status as DeadLetterStatus | undefined
+        );
+        res.json(entries);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch dead letters" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/dead-letters/:id",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const data = insertConnectorDeadLetterSchema
+          .pick({ rawRecord: true, status: true })
+          .partial()
+          .parse(req.body);
+        if (data.status === "replayed") {
+          return res
+            .status(400)
+            .json({ message: "Use the replay endpoint to mark a dead letter replayed" });
+        }
+        const entry = await storage.updateDeadLetter(req.params.id as string, data);
+        if (!entry) {
+          return res.status(404).json({ message: "Dead letter not found" });
+        }
+        res.json(entry);
+      } catch (error) {
+        res.status(400).json({ message: handleZodError(error) });
+      }
+    }
+  );
+
+  app.post(
+    "/api/dead-letters/:id/replay",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const entry = await storage.getDeadLetter(req.params.id as string);
+        if (!entry) {
+          return res.status(404).json({ message: "Dead letter not found" });
+        }
+        const result = await replayDeadLetters([entry]);
+        res.json(result.results[0]);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Replay failed";
+        res.status(500).json({ message });
+      }
+    }
+  );
+
+  app.post(
+    "/api/connectors/:connectorId/dead-letters/replay",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        const pending = await storage.getDeadLetters(connectorId, "pending");
+        const result = await replayDeadLetters(pending);
+        res.json(result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Replay failed";
+        res.status(500).json({ message });
+      }
+    }
+  );
+
   // =========================================================================
   // RAW INGEST FILES (append-only log for auditability)
   // =========================================================================
@@ -1206,6 +1943,310 @@ export async function registerRoutes(
     }
   );
 
+  app.get(
+    "/api/connectors/:connectorId/files/:fileId/download",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !isOps(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const file = await storage.getRawIngestFile(req.params.fileId as string);
+        if (!file || file.connectorId !== connectorId) {
+          return res.status(404).json({ message: "Ingest file not found" });
+        }
+        const rawResponse = await readRawFile(file);
+        if (rawResponse === null) {
+          return res
+            .status(404)
+            .json({ message: "Raw payload is not stored for this file" });
+        }
+        // The name may come from an upload: attachment() escapes quotes,
+        // replaces control characters and adds an RFC 5987 filename*
+        res.attachment(file.fileName);
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.send(rawResponse);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to download ingest file" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/connectors/:connectorId/reprocess",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        const connector = await storage.getConnector(connectorId);
+        if (!connector) {
+          return res.status(404).json({ message: "Connector not found" });
+        }
+
+        const parsed = rawReprocessRequestSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: handleZodError(parsed.error) });
+        }
+
+        const result = await reprocessRawFiles(connectorId, parsed.data);
+        res.json(result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Reprocess failed";
+        res.status(500).json({ message });
+      }
+    }
+  );
+
+  // =========================================================================
+  // CONNECTOR WEBHOOKS (push-based sources)
+  // =========================================================================
+  // Authenticated by the HMAC signature of the raw body (secret in
+  // connectors.config.webhook), NOT by session auth. The body is one event or
+  // an array of events; redelivered event IDs are acknowledged and ignored.
+
+  app.post("/api/webhooks/connectors/:connectorId", async (req, res) => {
+    try {
+      const connectorId = req.params.connectorId as string;
+      const connector = await storage.getConnector(connectorId);
+      if (!connector || connector.type !== "webhook") {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      if (!connector.isActive) {
+        return res.status(403).json({ message: "Connector is not active" });
+      }
+      const config = getWebhookConfig(connector);
+      if (!config) {
+        return res
+          .status(503)
+          .json({ message: "Webhook secret not configured for this connector" });
+      }
+      if (!Buffer.isBuffer(req.rawBody)) {
+        return res.status(400).json({ message: "Expected a JSON body" });
+      }
+      const signature = req.headers[getSignatureHeader(config)] as
+        | string
+        | undefined;
+      if (!verifyWebhookRequest(config, req.rawBody, signature)) {
+        return res.status(401).json({ message: "Invalid webhook signature" });
+      }
+
+      const events: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+      const parsed: { eventId: string; payload: Record<string, unknown> }[] = [];
+      for (let i = 0; i < events.length; i++) {
+        const event = events[i];
+        if (typeof event !== "object" || event === null || Array.isArray(event)) {
+          return res.status(400).json({ message: `Event ${i} is not an object` });
+        }
+        const eventId = getEventId(config, event as Record<string, unknown>);
+        if (!eventId) {
+          return res.status(400).json({
+            message: `Event ${i} has no ID (field: ${config.eventIdPath || "id"})`,
+          });
+        }
+        parsed.push({ eventId, payload: event as Record<string, unknown> });
+      }
+
+      let accepted = 0;
+      for (const event of parsed) {
+        const created = await storage.insertWebhookEvent({
+          connectorId,
+          eventId: event.eventId,
+          payload: event.payload,
+          status: "pending",
+        });
+        if (created) accepted++;
+      }
+      if (accepted > 0) {
+        bufferWebhookEvents(connectorId, accepted);
+      }
+
+      res.status(202).json({ accepted, duplicates: parsed.length - accepted });
+    } catch (error) {
+      console.error("Connector webhook error:", error);
+      res.status(500).json({ message: "Failed to accept webhook events" });
+    }
+  });
+
+  app.get(
+    "/api/connectors/:connectorId/webhook-events",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !isOps(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const events = await storage.getWebhookEvents(connectorId);
+        res.json(events);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch webhook events" });
+      }
+    }
+  );
+
+  // Generates (or rotates) the signing secret. The secret is returned once;
+  // the old one is still accepted for SECRET_ROTATION_GRACE_MS, so senders
+  // must be updated before previousSecretExpiresAt.
+  app.post(
+    "/api/connectors/:connectorId/webhook/secret",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const connector = await storage.getConnector(connectorId);
+        if (!connector) {
+          return res.status(404).json({ message: "Connector not found" });
+        }
+        if (connector.type !== "webhook") {
+          return res
+            .status(400)
+            .json({ message: "Connector is not a webhook connector" });
+        }
+
+        const config = (connector.config || {}) as Record<string, unknown>;
+        const webhook = rotateWebhookSecret(
+          (config.webhook as WebhookConfig | undefined) ?? {}
+        );
+        await storage.updateConnector(connectorId, {
+          config: { ...config, webhook },
+        });
+
+        res.json({
+          secret: webhook.secret,
+          signatureHeader: getSignatureHeader(webhook),
+          url: `/api/webhooks/connectors/${connectorId}`,
+          previousSecretExpiresAt: webhook.previousSecretExpiresAt ?? null,
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to generate webhook secret" });
+      }
+    }
+  );
+
+  // =========================================================================
+  // FILE UPLOADS (file_upload connectors: CSV/XLSX, one sync run per file)
+  // =========================================================================
+
+  app.get(
+    "/api/connectors/:connectorId/uploads",
+    requireAuth,
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !isOps(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const uploads = await storage.getConnectorFileUploads(connectorId);
+        res.json(uploads);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch file uploads" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/connectors/:connectorId/uploads",
+    requireAuth,
+    (req, res, next) => {
+      fileUpload.single("file")(req, res, (err: unknown) => {
+        if (err) {
+          const message =
+            err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE"
+              ? `File exceeds the ${MAX_UPLOAD_BYTES / 1024 / 1024} MB limit`
+              : err instanceof Error
+                ? err.message
+                : "Invalid upload";
+          return res.status(400).json({ message });
+        }
+        next();
+      });
+    },
+    async (req, res) => {
+      try {
+        const connectorId = req.params.connectorId as string;
+        if (
+          !isAdmin(req) &&
+          !isOps(req) &&
+          !(await isConnectorOwner(req, connectorId))
+        ) {
+          return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        const connector = await storage.getConnector(connectorId);
+        if (!connector) {
+          return res.status(404).json({ message: "Connector not found" });
+        }
+        if (connector.type !== "file_upload") {
+          return res
+            .status(400)
+            .json({ message: "Connector does not accept file uploads" });
+        }
+        if (!req.file) {
+          return res.status(400).json({ message: "A file is required" });
+        }
+
+        const options = fileUploadOptionsSchema.safeParse(req.body ?? {});
+        if (!options.success) {
+          return res.status(400).json({ message: handleZodError(options.error) });
+        }
+        const config = (connector.config || {}) as FileUploadConfig;
+        const parseConfig: FileUploadConfig = {
+          delimiter: options.data.delimiter ?? config.delimiter,
+          encoding: options.data.encoding ?? config.encoding,
+          sheetName: options.data.sheetName ?? config.sheetName,
+        };
+        if (parseConfig.encoding && !isSupportedEncoding(parseConfig.encoding)) {
+          return res
+            .status(400)
+            .json({ message: `Unsupported encoding: ${parseConfig.encoding}` });
+        }
+
+        const fileName = req.file.originalname;
+        let parsed;
+        try {
+          parsed = await parseUploadedFile(req.file.buffer, fileName, parseConfig);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          return res
+            .status(400)
+            .json({ message: `Could not parse ${fileName}: ${message}` });
+        }
+
+        const result = await ingestUploadedFile(
+          connectorId,
+          fileName,
+          parsed,
+          req.currentUser!.id
+        );
+        res.status(201).json(result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Upload failed";
+        res.status(500).json({ message });
+      }
+    }
+  );
+
   // =========================================================================
   // NORMALIZED DATA (leads, payments, enrollments)
   // School-scoped access: sellers see their schools, directors/finance see
@@ -1229,6 +2270,12 @@ export async function registerRoutes(
         );
       }
 
+      // Duplicates are folded into their golden record unless asked for
+      if (req.query.include_duplicates !== "true") {
+        const duplicateIds = new Set(await storage.getDuplicateLeadIds());
+        allLeads = allLeads.filter((l) => !duplicateIds.has(l.id));
+      }
+
       const { stage, status, seller_id, school_id, source, search, period_start, period_end } = req.query;
       if (stage) allLeads = allLeads.filter((l) => l.stage === stage);
       if (status) allLeads = allLeads.filter((l) => l.status === status);
@@ -1246,10 +2293,11 @@ export async function registerRoutes(
       if (search) {
         const q = (search as string).toLowerCase();
         allLeads = allLeads.filter((l) => {
+          // Payload fallback for rows not backfilled yet
           const p = l.payload as Record<string, unknown>;
-          const name = String(p.name || p.nome || "").toLowerCase();
-          const email = String(p.email || "").toLowerCase();
-          const phone = String(p.phone || p.telefone || "").toLowerCase();
+          const name = String(l.name || p.name || p.nome || "").toLowerCase();
+          const email = String(l.email || p.email || "").toLowerCase();
+          const phone = String(l.phone || p.phone || p.telefone || "").toLowerCase();
           return name.includes(q) || email.includes(q) || phone.includes(q) || l.sourceId.toLowerCase().includes(q);
         });
       }
@@ -1319,6 +2367,101 @@ export async function registerRoutes(
     }
   });
 
+  // =========================================================================
+  // IDENTITY RESOLUTION (golden records of duplicate leads)
+  // =========================================================================
+
+  app.get("/api/leads/:id/identity", requireAuth, async (req, res) => {
+    try {
+      const lead = await storage.getLead(req.params.id as string);
+      if (!lead) return res.status(404).json({ message: "Lead not found" });
+      if (!canViewLead(req, lead)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const identity = await getLeadIdentity(lead.id);
+      res.json(scopeLeadIdentity(req, identity));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch lead identity" });
+    }
+  });
+
+  // Merges the given leads into the group of :id
+  app.post(
+    "/api/leads/:id/merge",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const parsed = leadMergeRequestSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: handleZodError(parsed.error) });
+        }
+        const leadId = req.params.id as string;
+        const leadIds = parsed.data.leadIds.filter((id) => id !== leadId);
+        const found = await storage.getLeadsByIds([leadId, ...leadIds]);
+        if (found.length !== new Set([leadId, ...leadIds]).size) {
+          return res.status(404).json({ message: "Lead not found" });
+        }
+        const identity = await mergeLeads(leadId, leadIds, req.currentUser!.id);
+        res.json(scopeLeadIdentity(req, identity));
+      } catch (error) {
+        res.status(500).json({ message: "Failed to merge leads" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/leads/:id/unmerge",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (req, res) => {
+      try {
+        const lead = await storage.getLead(req.params.id as string);
+        if (!lead) return res.status(404).json({ message: "Lead not found" });
+        const identity = await unmergeLead(lead.id, req.currentUser!.id);
+        res.json(scopeLeadIdentity(req, identity));
+      } catch (error) {
+        res.status(500).json({ message: "Failed to unmerge lead" });
+      }
+    }
+  );
+
+  app.get(
+    "/api/identity/rules",
+    requireAuth,
+    requireRole("admin", "ops"),
+    async (_req, res) => {
+      try {
+        res.json(await storage.getIdentityMatchRules());
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch identity rules" });
+      }
+    }
+  );
+
+  app.put(
+    "/api/identity/rules/:keyType",
+    requireAuth,
+    requireRole("admin"),
+    async (req, res) => {
+      try {
+        const keyType = req.params.keyType as IdentityKeyType;
+        if (!IDENTITY_KEY_TYPES.includes(keyType)) {
+          return res.status(404).json({ message: "Identity rule not found" });
+        }
+        const parsed = updateIdentityMatchRuleSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({ message: handleZodError(parsed.error) });
+        }
+        const updated = await storage.updateIdentityMatchRule(keyType, parsed.data);
+        if (!updated) return res.status(404).json({ message: "Identity rule not found" });
+        res.json(updated);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to update identity rule" });
+      }
+    }
+  );
+
   app.get("/api/payments", requireAuth, async (req, res) => {
     try {
       if (!canViewNormalizedData(req)) {
@@ -1357,6 +2500,40 @@ export async function registerRoutes(
     }
   });
 
+  // Rewrites the canonical columns (name/email/phone, amount/paid_at,
+  // enrollment_date/grade/status...) of existing rows from their payload.
+  // Runs in the background; GET reports its progress.
+  app.get(
+    "/api/normalized/backfill",
+    requireAuth,
+    requireRole("admin"),
+    async (_req, res) => {
+      res.json(getCanonicalBackfillStatus());
+    }
+  );
+
+  app.post(
+    "/api/normalized/backfill",
+    requireAuth,
+    requireRole("admin"),
+    async (req, res) => {
+      try {
+        const parsed = canonicalBackfillRequestSchema.safeParse(req.body ?? {});
+        if (!parsed.success) {
+          return res.status(400).json({ message: handleZodError(parsed.error) });
+        }
+        if (isCanonicalBackfillRunning()) {
+          return res
+            .status(409)
+            .json({ message: "A canonical backfill is already running" });
+        }
+        res.status(202).json(startCanonicalBackfill(parsed.data.tables));
+      } catch (error) {
+        res.status(500).json({ message: "Failed to start canonical backfill" });
+      }
+    }
+  );
+
   // =========================================================================
   // KPI DEFINITIONS
   // =========================================================================
@@ -11,16 +11,33 @@ import {
   type InsertConnector,
   type ConnectorMapping,
   type InsertConnectorMapping,
+  type ConnectorMappingVersion,
+  type InsertConnectorMappingVersion,
+  type MappingSnapshot,
+  type ConnectorSourceSchema,
+  type InsertConnectorSourceSchema,
   type RawIngestFile,
   type InsertRawIngestFile,
   type SyncRun,
   type InsertSyncRun,
+  type ConnectorWatermark,
+  type InsertConnectorWatermark,
   type Lead,
   type InsertLead,
   type Payment,
   type InsertPayment,
   type Enrollment,
   type InsertEnrollment,
+  type ConnectorRecordTombstone,
+  type ConnectorDeadLetter,
+  type InsertConnectorDeadLetter,
+  type ConnectorFileUpload,
+  type InsertConnectorFileUpload,
+  type ConnectorWebhookEvent,
+  type InsertConnectorWebhookEvent,
+  type DeadLetterStatus,
+  type NormalizedTable,
+  type ReconciliationPolicy,
   type KpiDefinition,
   type InsertKpiDefinition,
   type KpiCalcRun,
@@ -32,6 +49,7 @@ import {
   type CalculationAudit,
   type InsertCalculationAudit,
   type ConnectorMetric,
+  type InsertConnectorMetric,
   type ConnectorSla,
   type InsertConnectorSla,
   type IntegrationAlert,
@@ -43,17 +61,30 @@ import {
   type InsertContaAReceber,
   type NpsSurvey,
   type InsertNpsSurvey,
+  type IdentityKeyType,
+  type IdentityMatchRule,
+  type UpdateIdentityMatchRule,
+  type IdentityKey,
+  type LeadIdentityLink,
+  type InsertLeadIdentityLink,
   users,
   schools,
   userSchools,
   authUserSyncLogs,
   connectors,
   connectorMappings,
+  connectorMappingVersions,
+  connectorSourceSchemas,
   rawIngestFiles,
   syncRuns,
+  connectorWatermarks,
   leads,
   payments,
   enrollments,
+  connectorRecordTombstones,
+  connectorDeadLetters,
+  connectorFileUploads,
+  connectorWebhookEvents,
   kpiDefinitions,
   kpiCalcRuns,
   kpiValues,
@@ -66,11 +97,24 @@ import {
   manualInputs,
   contasAReceber,
   npsSurveys,
+  identityMatchRules,
+  identityKeys,
+  leadIdentityLinks,
+  SOURCE_SYNC_RUN_KINDS,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, isNull, gte, lte } from "drizzle-orm";
+import { sealConnectorConfig } from "./connectors/secrets";
+import { eq, and, desc, isNull, isNotNull, gt, gte, lte, lt, inArray, sql } from "drizzle-orm";
+
+const normalizedTables = { leads, payments, enrollments } as const;
+
+// Opened by storage.transaction(); the methods taking one run inside it
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
 
 export interface IStorage {
+  transaction<T>(fn: (tx: DbTransaction) => Promise<T>): Promise<T>;
+
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUsers(): Promise<User[]>;
@@ -108,14 +152,30 @@ export interface IStorage {
   createConnector(connector: InsertConnector): Promise<Connector>;
   updateConnector(id: string, data: Partial<InsertConnector>): Promise<Connector | undefined>;
   deleteConnector(id: string): Promise<boolean>;
+  updateConnectorSchedule(
+    id: string,
+    data: { lastScheduledAt?: Date | null; nextScheduledAt?: Date | null }
+  ): Promise<Connector | undefined>;
 
   getConnectorMapping(id: string): Promise<ConnectorMapping | undefined>;
   getConnectorMappings(connectorId: string): Promise<ConnectorMapping[]>;
   createConnectorMapping(mapping: InsertConnectorMapping): Promise<ConnectorMapping>;
   updateConnectorMapping(id: string, data: Partial<InsertConnectorMapping>): Promise<ConnectorMapping | undefined>;
   deleteConnectorMapping(id: string): Promise<boolean>;
+  replaceConnectorMappings(connectorId: string, mappings: MappingSnapshot[]): Promise<ConnectorMapping[]>;
+
+  getConnectorMappingVersions(connectorId: string): Promise<ConnectorMappingVersion[]>;
+  getConnectorMappingVersion(id: string): Promise<ConnectorMappingVersion | undefined>;
+  // The latest version when its fingerprint matches, else a new one numbered after it
+  recordConnectorMappingVersion(
+    version: Omit<InsertConnectorMappingVersion, "version">
+  ): Promise<ConnectorMappingVersion>;
+
+  getConnectorSourceSchema(connectorId: string): Promise<ConnectorSourceSchema | undefined>;
+  upsertConnectorSourceSchema(data: InsertConnectorSourceSchema): Promise<ConnectorSourceSchema>;
 
   getRawIngestFiles(connectorId: string): Promise<RawIngestFile[]>;
+  getRawIngestFile(id: string): Promise<RawIngestFile | undefined>;
   createRawIngestFile(file: InsertRawIngestFile): Promise<RawIngestFile>;
   markFileProcessed(id: string): Promise<RawIngestFile | undefined>;
 
@@ -124,6 +184,12 @@ export interface IStorage {
   getSyncRunsByConnectorId(connectorId: string, limit?: number): Promise<SyncRun[]>;
   createSyncRun(run: InsertSyncRun): Promise<SyncRun>;
   updateSyncRun(id: string, data: Partial<InsertSyncRun>): Promise<SyncRun | undefined>;
+  getLatestSyncRunPerConnector(): Promise<SyncRun[]>;
+  getLastSuccessfulSyncRunPerConnector(): Promise<SyncRun[]>;
+
+  getConnectorWatermark(connectorId: string): Promise<ConnectorWatermark | undefined>;
+  upsertConnectorWatermark(data: InsertConnectorWatermark): Promise<ConnectorWatermark>;
+  deleteConnectorWatermark(connectorId: string): Promise<boolean>;
 
   getLeads(): Promise<Lead[]>;
   getLead(id: string): Promise<Lead | undefined>;
@@ -143,6 +209,65 @@ export interface IStorage {
   createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment>;
   upsertEnrollment(enrollment: InsertEnrollment): Promise<Enrollment>;
 
+  getNormalizedRecordsPage(
+    table: NormalizedTable,
+    afterId: string | null,
+    limit: number
+  ): Promise<Array<Lead | Payment | Enrollment>>;
+  updateCanonicalColumns(
+    table: NormalizedTable,
+    id: string,
+    columns: Record<string, unknown>
+  ): Promise<void>;
+  countActiveConnectorRecords(table: NormalizedTable, connectorId: string): Promise<number>;
+  getUnseenConnectorRecords(
+    table: NormalizedTable,
+    connectorId: string,
+    seenSince: Date
+  ): Promise<Array<Lead | Payment | Enrollment>>;
+  tombstoneConnectorRecords(
+    table: NormalizedTable,
+    policy: ReconciliationPolicy,
+    records: Array<Lead | Payment | Enrollment>,
+    syncRunId: string | null
+  ): Promise<number>;
+  getSyncRunTombstones(syncRunId: string): Promise<ConnectorRecordTombstone[]>;
+
+  getDeadLetters(connectorId: string, status?: DeadLetterStatus): Promise<ConnectorDeadLetter[]>;
+  getDeadLetter(id: string): Promise<ConnectorDeadLetter | undefined>;
+  upsertDeadLetter(data: InsertConnectorDeadLetter): Promise<ConnectorDeadLetter>;
+  updateDeadLetter(id: string, data: Partial<InsertConnectorDeadLetter>): Promise<ConnectorDeadLetter | undefined>;
+
+  getConnectorFileUploads(connectorId: string): Promise<ConnectorFileUpload[]>;
+  getLatestConnectorFileUpload(connectorId: string): Promise<ConnectorFileUpload | undefined>;
+  createConnectorFileUpload(data: InsertConnectorFileUpload): Promise<ConnectorFileUpload>;
+
+  getWebhookEvents(connectorId: string, limit?: number): Promise<ConnectorWebhookEvent[]>;
+  getPendingWebhookEvents(connectorId: string, limit: number): Promise<ConnectorWebhookEvent[]>;
+  getConnectorIdsWithPendingWebhookEvents(): Promise<string[]>;
+  // undefined when the event ID was already received for the connector
+  insertWebhookEvent(data: InsertConnectorWebhookEvent): Promise<ConnectorWebhookEvent | undefined>;
+  updateWebhookEvent(id: string, data: Partial<InsertConnectorWebhookEvent>): Promise<ConnectorWebhookEvent | undefined>;
+
+  getIdentityMatchRules(): Promise<IdentityMatchRule[]>;
+  updateIdentityMatchRule(keyType: IdentityKeyType, data: UpdateIdentityMatchRule): Promise<IdentityMatchRule | undefined>;
+  replaceIdentityKeys(
+    owner: { leadId: string } | { enrollmentId: string },
+    keys: Array<{ keyType: IdentityKeyType; value: string }>
+  ): Promise<void>;
+  getLeadIdentityKeys(leadId: string): Promise<IdentityKey[]>;
+  getLeadsByIdentityKey(keyType: IdentityKeyType, value: string): Promise<Lead[]>;
+  getUnlinkedEnrollmentsByIdentityKey(keyType: IdentityKeyType, value: string): Promise<Enrollment[]>;
+  getLeadsByIds(ids: string[], tx?: DbTransaction): Promise<Lead[]>;
+  getLeadIdentityLink(leadId: string, tx?: DbTransaction): Promise<LeadIdentityLink | undefined>;
+  getLeadIdentityLinks(leadIds: string[]): Promise<LeadIdentityLink[]>;
+  getLeadIdentityLinksByGolden(goldenLeadId: string, tx?: DbTransaction): Promise<LeadIdentityLink[]>;
+  upsertLeadIdentityLink(data: InsertLeadIdentityLink, tx?: DbTransaction): Promise<LeadIdentityLink>;
+  deleteLeadIdentityLink(leadId: string, tx?: DbTransaction): Promise<boolean>;
+  getDuplicateLeadIds(): Promise<string[]>;
+  getEnrollmentsByLeadIds(leadIds: string[], tx?: DbTransaction): Promise<Enrollment[]>;
+  setEnrollmentLead(id: string, leadId: string | null, tx?: DbTransaction): Promise<void>;
+
   getKpiDefinition(id: string): Promise<KpiDefinition | undefined>;
   getKpiDefinitionByKey(key: string): Promise<KpiDefinition | undefined>;
   getKpiDefinitions(activeOnly?: boolean): Promise<KpiDefinition[]>;
@@ -166,10 +291,14 @@ export interface IStorage {
   getCalculationAuditByRunId(calcRunId: string): Promise<CalculationAudit[]>;
 
   getConnectorMetrics(connectorId: string, limit?: number): Promise<ConnectorMetric[]>;
+  getConnectorMetricsSince(connectorId: string, since: Date): Promise<ConnectorMetric[]>;
+  createConnectorMetric(metric: InsertConnectorMetric): Promise<ConnectorMetric>;
   getConnectorSlas(): Promise<ConnectorSla[]>;
   getConnectorSla(connectorId: string): Promise<ConnectorSla | undefined>;
   upsertConnectorSla(data: InsertConnectorSla): Promise<ConnectorSla>;
   getIntegrationAlerts(limit?: number): Promise<IntegrationAlert[]>;
+  getActiveIntegrationAlert(connectorId: string, alertType: string): Promise<IntegrationAlert | undefined>;
+  createIntegrationAlert(alert: InsertIntegrationAlert): Promise<IntegrationAlert>;
   updateIntegrationAlert(id: string, data: Partial<InsertIntegrationAlert>): Promise<IntegrationAlert | undefined>;
 
   getManualInputs(filters?: {
@@ -179,6 +308,7 @@ export interface IStorage {
     endDate?: string;
   }): Promise<ManualInput[]>;
   upsertManualInput(input: InsertManualInput): Promise<ManualInput>;
+  upsertConnectorManualInput(input: InsertManualInput): Promise<ManualInput>;
   deleteManualInput(id: string): Promise<boolean>;
 
   upsertContaAReceber(data: InsertContaAReceber): Promise<ContaAReceber>;
@@ -188,6 +318,7 @@ export interface IStorage {
   }): Promise<ContaAReceber[]>;
 
   createNpsSurvey(data: InsertNpsSurvey): Promise<NpsSurvey>;
+  upsertConnectorNpsSurvey(data: InsertNpsSurvey): Promise<NpsSurvey>;
   getNpsSurveys(filters?: {
     schoolId?: string;
     startDate?: string;
@@ -196,6 +327,10 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  async transaction<T>(fn: (tx: DbTransaction) => Promise<T>): Promise<T> {
+    return db.transaction(fn);
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user;
@@ -389,15 +524,22 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(connectors).where(eq(connectors.ownerId, ownerId));
   }
 
+  // Secrets in the config are encrypted before they reach the database
   async createConnector(connector: InsertConnector): Promise<Connector> {
-    const [created] = await db.insert(connectors).values(connector).returning();
+    const [created] = await db
+      .insert(connectors)
+      .values({ ...connector, config: sealConnectorConfig(connector.config ?? {}) })
+      .returning();
     return created;
   }
 
   async updateConnector(id: string, data: Partial<InsertConnector>): Promise<Connector | undefined> {
+    const values = data.config
+      ? { ...data, config: sealConnectorConfig(data.config) }
+      : data;
     const [updated] = await db
       .update(connectors)
-      .set({ ...data, updatedAt: new Date() })
+      .set({ ...values, updatedAt: new Date() })
       .where(eq(connectors.id, id))
       .returning();
     return updated;
@@ -408,6 +550,19 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async updateConnectorSchedule(
+    id: string,
+    data: { lastScheduledAt?: Date | null; nextScheduledAt?: Date | null }
+  ): Promise<Connector | undefined> {
+    // Scheduler bookkeeping only: does not bump updatedAt
+    const [updated] = await db
+      .update(connectors)
+      .set(data)
+      .where(eq(connectors.id, id))
+      .returning();
+    return updated;
+  }
+
   async getConnectorMapping(id: string): Promise<ConnectorMapping | undefined> {
     const [mapping] = await db.select().from(connectorMappings).where(eq(connectorMappings.id, id));
     return mapping;
@@ -436,8 +591,94 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async replaceConnectorMappings(connectorId: string, mappings: MappingSnapshot[]): Promise<ConnectorMapping[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(connectorMappings).where(eq(connectorMappings.connectorId, connectorId));
+      if (mappings.length === 0) return [];
+      return tx
+        .insert(connectorMappings)
+        .values(mappings.map((m) => ({ ...m, connectorId })))
+        .returning();
+    });
+  }
+
+  async getConnectorMappingVersions(connectorId: string): Promise<ConnectorMappingVersion[]> {
+    return db
+      .select()
+      .from(connectorMappingVersions)
+      .where(eq(connectorMappingVersions.connectorId, connectorId))
+      .orderBy(desc(connectorMappingVersions.version));
+  }
+
+  async getConnectorMappingVersion(id: string): Promise<ConnectorMappingVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(connectorMappingVersions)
+      .where(eq(connectorMappingVersions.id, id));
+    return version;
+  }
+
+  async recordConnectorMappingVersion(
+    version: Omit<InsertConnectorMappingVersion, "version">
+  ): Promise<ConnectorMappingVersion> {
+    return db.transaction(async (tx) => {
+      // Serializes the connector's writers, which would otherwise read the
+      // same latest version and race for the next number
+      await tx.execute(
+        sql`SELECT pg_advisory_xact_lock(hashtext(${`connector_mapping_versions:${version.connectorId}`}))`
+      );
+      const [latest] = await tx
+        .select()
+        .from(connectorMappingVersions)
+        .where(eq(connectorMappingVersions.connectorId, version.connectorId))
+        .orderBy(desc(connectorMappingVersions.version))
+        .limit(1);
+      if (latest?.fingerprint === version.fingerprint) return latest;
+
+      const [created] = await tx
+        .insert(connectorMappingVersions)
+        .values({ ...version, version: (latest?.version ?? 0) + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  async getConnectorSourceSchema(connectorId: string): Promise<ConnectorSourceSchema | undefined> {
+    const [schema] = await db
+      .select()
+      .from(connectorSourceSchemas)
+      .where(eq(connectorSourceSchemas.connectorId, connectorId));
+    return schema;
+  }
+
+  async upsertConnectorSourceSchema(data: InsertConnectorSourceSchema): Promise<ConnectorSourceSchema> {
+    const [upserted] = await db
+      .insert(connectorSourceSchemas)
+      .values(data)
+      .onConflictDoUpdate({
+        target: connectorSourceSchemas.connectorId,
+        set: {
+          fields: data.fields,
+          sampledRecords: data.sampledRecords,
+          lastRunId: data.lastRunId,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return upserted;
+  }
+
   async getRawIngestFiles(connectorId: string): Promise<RawIngestFile[]> {
-    return db.select().from(rawIngestFiles).where(eq(rawIngestFiles.connectorId, connectorId));
+    return db
+      .select()
+      .from(rawIngestFiles)
+      .where(eq(rawIngestFiles.connectorId, connectorId))
+      .orderBy(desc(rawIngestFiles.createdAt));
+  }
+
+  async getRawIngestFile(id: string): Promise<RawIngestFile | undefined> {
+    const [file] = await db.select().from(rawIngestFiles).where(eq(rawIngestFiles.id, id));
+    return file;
   }
 
   async createRawIngestFile(file: InsertRawIngestFile): Promise<RawIngestFile> {
@@ -486,8 +727,63 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getLatestSyncRunPerConnector(): Promise<SyncRun[]> {
+    return db
+      .selectDistinctOn([syncRuns.connectorId])
+      .from(syncRuns)
+      .orderBy(syncRuns.connectorId, desc(syncRuns.startedAt));
+  }
+
+  async getLastSuccessfulSyncRunPerConnector(): Promise<SyncRun[]> {
+    return db
+      .selectDistinctOn([syncRuns.connectorId])
+      .from(syncRuns)
+      .where(
+        and(
+          eq(syncRuns.status, "success"),
+          isNotNull(syncRuns.finishedAt),
+          // Dry runs and reprocessing read nothing new from the source
+          inArray(syncRuns.kind, SOURCE_SYNC_RUN_KINDS)
+        )
+      )
+      .orderBy(syncRuns.connectorId, desc(syncRuns.finishedAt));
+  }
+
+  async getConnectorWatermark(connectorId: string): Promise<ConnectorWatermark | undefined> {
+    const [watermark] = await db
+      .select()
+      .from(connectorWatermarks)
+      .where(eq(connectorWatermarks.connectorId, connectorId));
+    return watermark;
+  }
+
+  async upsertConnectorWatermark(data: InsertConnectorWatermark): Promise<ConnectorWatermark> {
+    const [upserted] = await db
+      .insert(connectorWatermarks)
+      .values(data)
+      .onConflictDoUpdate({
+        target: connectorWatermarks.connectorId,
+        set: {
+          watermarkType: data.watermarkType,
+          value: data.value,
+          lastRunId: data.lastRunId ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return upserted;
+  }
+
+  async deleteConnectorWatermark(connectorId: string): Promise<boolean> {
+    const result = await db
+      .delete(connectorWatermarks)
+      .where(eq(connectorWatermarks.connectorId, connectorId))
+      .returning();
+    return result.length > 0;
+  }
+
   async getLeads(): Promise<Lead[]> {
-    return db.select().from(leads).orderBy(desc(leads.createdAt));
+    return db.select().from(leads).where(isNull(leads.deletedAt)).orderBy(desc(leads.createdAt));
   }
 
   async getLead(id: string): Promise<Lead | undefined> {
@@ -496,11 +792,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getLeadsBySchoolId(schoolId: string): Promise<Lead[]> {
-    return db.select().from(leads).where(eq(leads.schoolId, schoolId)).orderBy(desc(leads.createdAt));
+    return db
+      .select()
+      .from(leads)
+      .where(and(eq(leads.schoolId, schoolId), isNull(leads.deletedAt)))
+      .orderBy(desc(leads.createdAt));
   }
 
   async getLeadsBySellerId(sellerId: string): Promise<Lead[]> {
-    return db.select().from(leads).where(eq(leads.sellerId, sellerId)).orderBy(desc(leads.createdAt));
+    return db
+      .select()
+      .from(leads)
+      .where(and(eq(leads.sellerId, sellerId), isNull(leads.deletedAt)))
+      .orderBy(desc(leads.createdAt));
   }
 
   async createLead(lead: InsertLead): Promise<Lead> {
@@ -526,7 +830,16 @@ export class DatabaseStorage implements IStorage {
         set: {
           payload: lead.payload,
           schoolId: lead.schoolId,
+          name: lead.name ?? null,
+          email: lead.email ?? null,
+          phone: lead.phone ?? null,
+          cpf: lead.cpf ?? null,
+          // Without a seller from the source, the assignment made in the app stays
+          sellerId: lead.sellerId ?? sql`${leads.sellerId}`,
           updatedAt: new Date(),
+          // A record that reappears at the source is restored
+          deletedAt: null,
+          status: sql`CASE WHEN ${leads.deletedAt} IS NOT NULL AND ${leads.status} = 'deleted' THEN 'open' ELSE ${leads.status} END`,
         },
       })
       .returning();
@@ -534,11 +847,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getPayments(): Promise<Payment[]> {
-    return db.select().from(payments);
+    return db.select().from(payments).where(isNull(payments.deletedAt));
   }
 
   async getPaymentsBySchoolId(schoolId: string): Promise<Payment[]> {
-    return db.select().from(payments).where(eq(payments.schoolId, schoolId));
+    return db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.schoolId, schoolId), isNull(payments.deletedAt)));
   }
 
   async createPayment(payment: InsertPayment): Promise<Payment> {
@@ -555,7 +871,13 @@ export class DatabaseStorage implements IStorage {
         set: {
           payload: payment.payload,
           schoolId: payment.schoolId,
+          amount: payment.amount ?? null,
+          status: payment.status ?? null,
+          paymentDate: payment.paymentDate ?? null,
+          paidAt: payment.paidAt ?? null,
+          enrollmentId: payment.enrollmentId ?? null,
           updatedAt: new Date(),
+          deletedAt: null,
         },
       })
       .returning();
@@ -563,11 +885,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getEnrollments(): Promise<Enrollment[]> {
-    return db.select().from(enrollments);
+    return db.select().from(enrollments).where(isNull(enrollments.deletedAt));
   }
 
   async getEnrollmentsBySchoolId(schoolId: string): Promise<Enrollment[]> {
-    return db.select().from(enrollments).where(eq(enrollments.schoolId, schoolId));
+    return db
+      .select()
+      .from(enrollments)
+      .where(and(eq(enrollments.schoolId, schoolId), isNull(enrollments.deletedAt)));
   }
 
   async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
@@ -584,12 +909,446 @@ export class DatabaseStorage implements IStorage {
         set: {
           payload: enrollment.payload,
           schoolId: enrollment.schoolId,
+          leadId: enrollment.leadId ?? null,
+          enrollmentDate: enrollment.enrollmentDate ?? null,
+          grade: enrollment.grade ?? null,
+          status: enrollment.status ?? null,
+          email: enrollment.email ?? null,
+          phone: enrollment.phone ?? null,
+          cpf: enrollment.cpf ?? null,
+          updatedAt: new Date(),
+          deletedAt: null,
+        },
+      })
+      .returning();
+    return upserted;
+  }
+
+  // Keyset pagination by id, deleted rows included
+  async getNormalizedRecordsPage(
+    table: NormalizedTable,
+    afterId: string | null,
+    limit: number
+  ): Promise<Array<Lead | Payment | Enrollment>> {
+    const t = normalizedTables[table];
+    return db
+      .select()
+      .from(t)
+      .where(afterId ? gt(t.id, afterId) : undefined)
+      .orderBy(t.id)
+      .limit(limit);
+  }
+
+  async updateCanonicalColumns(
+    table: NormalizedTable,
+    id: string,
+    columns: Record<string, unknown>
+  ): Promise<void> {
+    // Canonical columns only; updated_at is left alone so the backfill does
+    // not count as the source touching the row (see reconciliation)
+    switch (table) {
+      case "leads":
+        await db.update(leads).set(columns as Partial<InsertLead>).where(eq(leads.id, id));
+        break;
+      case "payments":
+        await db.update(payments).set(columns as Partial<InsertPayment>).where(eq(payments.id, id));
+        break;
+      case "enrollments":
+        await db
+          .update(enrollments)
+          .set(columns as Partial<InsertEnrollment>)
+          .where(eq(enrollments.id, id));
+        break;
+    }
+  }
+
+  async countActiveConnectorRecords(table: NormalizedTable, connectorId: string): Promise<number> {
+    const t = normalizedTables[table];
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(t)
+      .where(and(eq(t.sourceConnectorId, connectorId), isNull(t.deletedAt)));
+    return row?.count ?? 0;
+  }
+
+  async getUnseenConnectorRecords(
+    table: NormalizedTable,
+    connectorId: string,
+    seenSince: Date
+  ): Promise<Array<Lead | Payment | Enrollment>> {
+    // Every record seen by a run is upserted, which bumps updated_at
+    const t = normalizedTables[table];
+    return db
+      .select()
+      .from(t)
+      .where(
+        and(
+          eq(t.sourceConnectorId, connectorId),
+          isNull(t.deletedAt),
+          lt(t.updatedAt, seenSince)
+        )
+      );
+  }
+
+  async tombstoneConnectorRecords(
+    table: NormalizedTable,
+    policy: ReconciliationPolicy,
+    records: Array<Lead | Payment | Enrollment>,
+    syncRunId: string | null
+  ): Promise<number> {
+    if (records.length === 0) return 0;
+    const t = normalizedTables[table];
+    const ids = records.map((r) => r.id);
+
+    await db.transaction(async (tx) => {
+      await tx.insert(connectorRecordTombstones).values(
+        records.map((r) => ({
+          connectorId: r.sourceConnectorId,
+          syncRunId,
+          targetTable: table,
+          recordId: r.id,
+          sourceId: r.sourceId,
+          policy,
+          snapshot: JSON.parse(JSON.stringify(r)) as Record<string, unknown>,
+        }))
+      );
+
+      if (policy === "tombstone") {
+        await tx.delete(t).where(inArray(t.id, ids));
+      } else if (table === "leads") {
+        // leads_pipeline_agg already excludes status = 'deleted'
+        await tx
+          .update(leads)
+          .set({ deletedAt: new Date(), status: "deleted" })
+          .where(inArray(leads.id, ids));
+      } else {
+        await tx.update(t).set({ deletedAt: new Date() }).where(inArray(t.id, ids));
+      }
+    });
+
+    return records.length;
+  }
+
+  async getSyncRunTombstones(syncRunId: string): Promise<ConnectorRecordTombstone[]> {
+    return db
+      .select()
+      .from(connectorRecordTombstones)
+      .where(eq(connectorRecordTombstones.syncRunId, syncRunId))
+      .orderBy(connectorRecordTombstones.sourceId);
+  }
+
+  async getDeadLetters(connectorId: string, status?: DeadLetterStatus): Promise<ConnectorDeadLetter[]> {
+    const conditions = [eq(connectorDeadLetters.connectorId, connectorId)];
+    if (status) conditions.push(eq(connectorDeadLetters.status, status));
+    return db
+      .select()
+      .from(connectorDeadLetters)
+      .where(and(...conditions))
+      .orderBy(desc(connectorDeadLetters.createdAt))
+      .limit(500);
+  }
+
+  async getDeadLetter(id: string): Promise<ConnectorDeadLetter | undefined> {
+    const [entry] = await db
+      .select()
+      .from(connectorDeadLetters)
+      .where(eq(connectorDeadLetters.id, id));
+    return entry;
+  }
+
+  async upsertDeadLetter(data: InsertConnectorDeadLetter): Promise<ConnectorDeadLetter> {
+    // A record that keeps failing on every run refreshes its pending entry
+    // instead of piling up duplicates
+    if (data.sourceId) {
+      const [pending] = await db
+        .select()
+        .from(connectorDeadLetters)
+        .where(
+          and(
+            eq(connectorDeadLetters.connectorId, data.connectorId),
+            eq(connectorDeadLetters.sourceId, data.sourceId),
+            eq(connectorDeadLetters.status, "pending")
+          )
+        )
+        .limit(1);
+      if (pending) {
+        const [updated] = await db
+          .update(connectorDeadLetters)
+          .set({
+            syncRunId: data.syncRunId,
+            rawRecord: data.rawRecord,
+            errorType: data.errorType,
+            errors: data.errors,
+            mappingVersion: data.mappingVersion,
+            updatedAt: new Date(),
+          })
+          .where(eq(connectorDeadLetters.id, pending.id))
+          .returning();
+        return updated;
+      }
+    }
+    const [created] = await db.insert(connectorDeadLetters).values(data).returning();
+    return created;
+  }
+
+  async updateDeadLetter(
+    id: string,
+    data: Partial<InsertConnectorDeadLetter>
+  ): Promise<ConnectorDeadLetter | undefined> {
+    const [updated] = await db
+      .update(connectorDeadLetters)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(connectorDeadLetters.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getConnectorFileUploads(connectorId: string): Promise<ConnectorFileUpload[]> {
+    return db
+      .select()
+      .from(connectorFileUploads)
+      .where(eq(connectorFileUploads.connectorId, connectorId))
+      .orderBy(desc(connectorFileUploads.createdAt))
+      .limit(100);
+  }
+
+  async getLatestConnectorFileUpload(
+    connectorId: string
+  ): Promise<ConnectorFileUpload | undefined> {
+    const [upload] = await db
+      .select()
+      .from(connectorFileUploads)
+      .where(eq(connectorFileUploads.connectorId, connectorId))
+      .orderBy(desc(connectorFileUploads.createdAt))
+      .limit(1);
+    return upload;
+  }
+
+  async createConnectorFileUpload(
+    data: InsertConnectorFileUpload
+  ): Promise<ConnectorFileUpload> {
+    const [created] = await db.insert(connectorFileUploads).values(data).returning();
+    return created;
+  }
+
+  async getWebhookEvents(connectorId: string, limit: number = 200): Promise<ConnectorWebhookEvent[]> {
+    return db
+      .select()
+      .from(connectorWebhookEvents)
+      .where(eq(connectorWebhookEvents.connectorId, connectorId))
+      .orderBy(desc(connectorWebhookEvents.receivedAt))
+      .limit(limit);
+  }
+
+  async getPendingWebhookEvents(
+    connectorId: string,
+    limit: number
+  ): Promise<ConnectorWebhookEvent[]> {
+    return db
+      .select()
+      .from(connectorWebhookEvents)
+      .where(
+        and(
+          eq(connectorWebhookEvents.connectorId, connectorId),
+          eq(connectorWebhookEvents.status, "pending")
+        )
+      )
+      .orderBy(connectorWebhookEvents.receivedAt)
+      .limit(limit);
+  }
+
+  async getConnectorIdsWithPendingWebhookEvents(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ connectorId: connectorWebhookEvents.connectorId })
+      .from(connectorWebhookEvents)
+      .where(eq(connectorWebhookEvents.status, "pending"));
+    return rows.map((r) => r.connectorId);
+  }
+
+  async insertWebhookEvent(
+    data: InsertConnectorWebhookEvent
+  ): Promise<ConnectorWebhookEvent | undefined> {
+    const [created] = await db
+      .insert(connectorWebhookEvents)
+      .values(data)
+      .onConflictDoNothing({
+        target: [connectorWebhookEvents.connectorId, connectorWebhookEvents.eventId],
+      })
+      .returning();
+    return created;
+  }
+
+  async updateWebhookEvent(
+    id: string,
+    data: Partial<InsertConnectorWebhookEvent>
+  ): Promise<ConnectorWebhookEvent | undefined> {
+    const [updated] = await db
+      .update(connectorWebhookEvents)
+      .set(data)
+      .where(eq(connectorWebhookEvents.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getIdentityMatchRules(): Promise<IdentityMatchRule[]> {
+    return db.select().from(identityMatchRules).orderBy(identityMatchRules.priority);
+  }
+
+  async updateIdentityMatchRule(
+    keyType: IdentityKeyType,
+    data: UpdateIdentityMatchRule
+  ): Promise<IdentityMatchRule | undefined> {
+    const [updated] = await db
+      .update(identityMatchRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(identityMatchRules.keyType, keyType))
+      .returning();
+    return updated;
+  }
+
+  async replaceIdentityKeys(
+    owner: { leadId: string } | { enrollmentId: string },
+    keys: Array<{ keyType: IdentityKeyType; value: string }>
+  ): Promise<void> {
+    const ownerFilter =
+      "leadId" in owner
+        ? eq(identityKeys.leadId, owner.leadId)
+        : eq(identityKeys.enrollmentId, owner.enrollmentId);
+    await db.transaction(async (tx) => {
+      await tx.delete(identityKeys).where(ownerFilter);
+      if (keys.length > 0) {
+        await tx.insert(identityKeys).values(keys.map((k) => ({ ...owner, ...k })));
+      }
+    });
+  }
+
+  async getLeadIdentityKeys(leadId: string): Promise<IdentityKey[]> {
+    return db.select().from(identityKeys).where(eq(identityKeys.leadId, leadId));
+  }
+
+  async getLeadsByIdentityKey(keyType: IdentityKeyType, value: string): Promise<Lead[]> {
+    const rows = await db
+      .select({ lead: leads })
+      .from(identityKeys)
+      .innerJoin(leads, eq(leads.id, identityKeys.leadId))
+      .where(
+        and(
+          eq(identityKeys.keyType, keyType),
+          eq(identityKeys.value, value),
+          isNull(leads.deletedAt)
+        )
+      )
+      .orderBy(leads.createdAt);
+    return rows.map((r) => r.lead);
+  }
+
+  async getUnlinkedEnrollmentsByIdentityKey(
+    keyType: IdentityKeyType,
+    value: string
+  ): Promise<Enrollment[]> {
+    const rows = await db
+      .select({ enrollment: enrollments })
+      .from(identityKeys)
+      .innerJoin(enrollments, eq(enrollments.id, identityKeys.enrollmentId))
+      .where(
+        and(
+          eq(identityKeys.keyType, keyType),
+          eq(identityKeys.value, value),
+          isNull(enrollments.leadId),
+          isNull(enrollments.deletedAt)
+        )
+      );
+    return rows.map((r) => r.enrollment);
+  }
+
+  async getLeadsByIds(ids: string[], tx: DbExecutor = db): Promise<Lead[]> {
+    if (ids.length === 0) return [];
+    return tx.select().from(leads).where(inArray(leads.id, ids)).orderBy(leads.createdAt);
+  }
+
+  async getLeadIdentityLink(
+    leadId: string,
+    tx: DbExecutor = db
+  ): Promise<LeadIdentityLink | undefined> {
+    const [link] = await tx
+      .select()
+      .from(leadIdentityLinks)
+      .where(eq(leadIdentityLinks.leadId, leadId));
+    return link;
+  }
+
+  async getLeadIdentityLinks(leadIds: string[]): Promise<LeadIdentityLink[]> {
+    if (leadIds.length === 0) return [];
+    return db
+      .select()
+      .from(leadIdentityLinks)
+      .where(inArray(leadIdentityLinks.leadId, leadIds));
+  }
+
+  async getLeadIdentityLinksByGolden(
+    goldenLeadId: string,
+    tx: DbExecutor = db
+  ): Promise<LeadIdentityLink[]> {
+    return tx
+      .select()
+      .from(leadIdentityLinks)
+      .where(eq(leadIdentityLinks.goldenLeadId, goldenLeadId))
+      .orderBy(leadIdentityLinks.createdAt);
+  }
+
+  async upsertLeadIdentityLink(
+    data: InsertLeadIdentityLink,
+    tx: DbExecutor = db
+  ): Promise<LeadIdentityLink> {
+    const [upserted] = await tx
+      .insert(leadIdentityLinks)
+      .values(data)
+      .onConflictDoUpdate({
+        target: leadIdentityLinks.leadId,
+        set: {
+          goldenLeadId: data.goldenLeadId,
+          source: data.source,
+          keyType: data.keyType ?? null,
+          matchedValue: data.matchedValue ?? null,
+          locked: data.locked ?? false,
+          linkedBy: data.linkedBy ?? null,
           updatedAt: new Date(),
         },
       })
       .returning();
     return upserted;
   }
+
+  async deleteLeadIdentityLink(leadId: string, tx: DbExecutor = db): Promise<boolean> {
+    const result = await tx
+      .delete(leadIdentityLinks)
+      .where(eq(leadIdentityLinks.leadId, leadId))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Leads linked to another lead's golden record
+  async getDuplicateLeadIds(): Promise<string[]> {
+    const rows = await db
+      .select({ leadId: leadIdentityLinks.leadId })
+      .from(leadIdentityLinks)
+      .where(sql`${leadIdentityLinks.goldenLeadId} <> ${leadIdentityLinks.leadId}`);
+    return rows.map((r) => r.leadId);
+  }
+
+  async getEnrollmentsByLeadIds(leadIds: string[], tx: DbExecutor = db): Promise<Enrollment[]> {
+    if (leadIds.length === 0) return [];
+    return tx
+      .select()
+      .from(enrollments)
+      .where(and(inArray(enrollments.leadId, leadIds), isNull(enrollments.deletedAt)));
+  }
+
+  // Like the canonical backfill, linking leaves updated_at alone
+  async setEnrollmentLead(id: string, leadId: string | null, tx: DbExecutor = db): Promise<void> {
+    await tx.update(enrollments).set({ leadId }).where(eq(enrollments.id, id));
+  }
+
   async getKpiDefinition(id: string): Promise<KpiDefinition | undefined> {
     const [def] = await db.select().from(kpiDefinitions).where(eq(kpiDefinitions.id, id));
     return def;
@@ -724,6 +1483,19 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getConnectorMetricsSince(connectorId: string, since: Date): Promise<ConnectorMetric[]> {
+    return db
+      .select()
+      .from(connectorMetrics)
+      .where(and(eq(connectorMetrics.connectorId, connectorId), gte(connectorMetrics.createdAt, since)))
+      .orderBy(desc(connectorMetrics.createdAt));
+  }
+
+  async createConnectorMetric(metric: InsertConnectorMetric): Promise<ConnectorMetric> {
+    const [created] = await db.insert(connectorMetrics).values(metric).returning();
+    return created;
+  }
+
   async getConnectorSlas(): Promise<ConnectorSla[]> {
     return db.select().from(connectorSlas);
   }
@@ -743,6 +1515,8 @@ export class DatabaseStorage implements IStorage {
           maxLatencyMs: data.maxLatencyMs,
           successRateThreshold: data.successRateThreshold,
           escalationEmails: data.escalationEmails,
+          windowMinutes: data.windowMinutes,
+          maxStalenessHours: data.maxStalenessHours,
           updatedAt: new Date(),
         },
       })
@@ -758,6 +1532,28 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  // Open or acknowledged alert of this type, if any
+  async getActiveIntegrationAlert(connectorId: string, alertType: string): Promise<IntegrationAlert | undefined> {
+    const [alert] = await db
+      .select()
+      .from(integrationAlerts)
+      .where(
+        and(
+          eq(integrationAlerts.connectorId, connectorId),
+          eq(integrationAlerts.alertType, alertType),
+          inArray(integrationAlerts.status, ["open", "acknowledged"])
+        )
+      )
+      .orderBy(desc(integrationAlerts.createdAt))
+      .limit(1);
+    return alert;
+  }
+
+  async createIntegrationAlert(alert: InsertIntegrationAlert): Promise<IntegrationAlert> {
+    const [created] = await db.insert(integrationAlerts).values(alert).returning();
+    return created;
+  }
+
   async updateIntegrationAlert(id: string, data: Partial<InsertIntegrationAlert>): Promise<IntegrationAlert | undefined> {
     const [updated] = await db
       .update(integrationAlerts)
@@ -815,6 +1611,26 @@ export class DatabaseStorage implements IStorage {
     return upserted;
   }
 
+  // Values written by a connector are keyed by their source record
+  async upsertConnectorManualInput(input: InsertManualInput): Promise<ManualInput> {
+    const [upserted] = await db
+      .insert(manualInputs)
+      .values(input)
+      .onConflictDoUpdate({
+        target: [manualInputs.sourceConnectorId, manualInputs.sourceId],
+        set: {
+          schoolId: input.schoolId ?? null,
+          dataReferencia: input.dataReferencia,
+          chaveMetrica: input.chaveMetrica,
+          valor: input.valor,
+          notas: input.notas ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return upserted;
+  }
+
   async deleteManualInput(id: string): Promise<boolean> {
     const result = await db
       .delete(manualInputs)
@@ -864,6 +1680,24 @@ export class DatabaseStorage implements IStorage {
     return row;
   }
 
+  async upsertConnectorNpsSurvey(data: InsertNpsSurvey): Promise<NpsSurvey> {
+    const [row] = await db
+      .insert(npsSurveys)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [npsSurveys.sourceConnectorId, npsSurveys.sourceId],
+        set: {
+          enrollmentId: data.enrollmentId ?? null,
+          schoolId: data.schoolId ?? null,
+          score: data.score,
+          comment: data.comment ?? null,
+          surveyDate: data.surveyDate,
+        },
+      })
+      .returning();
+    return row;
+  }
+
   async getNpsSurveys(filters?: {
     schoolId?: string;
     startDate?: string;
@@ -188,12 +188,31 @@ export const insertAuthUserSyncLogSchema = createInsertSchema(authUserSyncLogs)
 export type InsertAuthUserSyncLog = z.infer<typeof insertAuthUserSyncLogSchema>;
 export type AuthUserSyncLog = typeof authUserSyncLogs.$inferSelect;
 
-export const CONNECTOR_TYPES = ["crm", "finance", "academic", "google_sheets", "manual_input"] as const;
+export const CONNECTOR_TYPES = ["crm", "finance", "academic", "google_sheets", "manual_input", "file_upload", "webhook"] as const;
 export type ConnectorType = (typeof CONNECTOR_TYPES)[number];
 
+// Types that only receive data (uploads, webhook events): never scheduled or
+// synced from a source
+export const PUSH_CONNECTOR_TYPES: readonly string[] = ["file_upload", "webhook"];
+
+export function isPushConnectorType(type: string): boolean {
+  return PUSH_CONNECTOR_TYPES.includes(type);
+}
+
+// Stands in for connector secrets (API keys, OAuth tokens, webhook secret) in
+// API responses; sent back unchanged, it keeps the stored value
+export const REDACTED_SECRET = "••••••••";
+
 export const SYNC_RUN_STATUSES = ["pending", "running", "success", "failed"] as const;
 export type SyncRunStatus = (typeof SYNC_RUN_STATUSES)[number];
 
+// What a sync run did: read the source (sync, upload, webhook), or not
+// (dry_run, reprocess of stored raw files)
+export const SYNC_RUN_KINDS = ["sync", "upload", "webhook", "dry_run", "reprocess"] as const;
+export type SyncRunKind = (typeof SYNC_RUN_KINDS)[number];
+// Kinds that bring new data in, i.e. count for data freshness
+export const SOURCE_SYNC_RUN_KINDS: SyncRunKind[] = ["sync", "upload", "webhook"];
+
 export const connectors = pgTable(
   "connectors",
   {
@@ -204,6 +223,8 @@ export const connectors = pgTable(
     type: varchar("type", { length: 20 }).notNull(),
     config: jsonb("config").$type<Record<string, unknown>>().default({}),
     scheduleCron: text("schedule_cron"),
+    lastScheduledAt: timestamp("last_scheduled_at", { withTimezone: true }),
+    nextScheduledAt: timestamp("next_scheduled_at", { withTimezone: true }),
     ownerId: uuid("owner_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
@@ -221,6 +242,13 @@ export const connectors = pgTable(
   ]
 );
 
+// A mapping's transform: one op, or a chain of ops applied in order
+export type MappingTransform = Record<string, unknown> | Record<string, unknown>[];
+export const mappingTransformSchema = z.union([
+  z.record(z.unknown()),
+  z.array(z.record(z.unknown())),
+]);
+
 export const connectorMappings = pgTable(
   "connector_mappings",
   {
@@ -232,7 +260,7 @@ export const connectorMappings = pgTable(
       .references(() => connectors.id, { onDelete: "cascade" }),
     sourcePath: text("source_path").notNull(),
     targetField: text("target_field").notNull(),
-    transform: jsonb("transform").$type<Record<string, unknown>>(),
+    transform: jsonb("transform").$type<MappingTransform>(),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -245,6 +273,93 @@ export const connectorMappings = pgTable(
   ]
 );
 
+// One mapping as stored in a version snapshot
+export type MappingSnapshot = {
+  sourcePath: string;
+  targetField: string;
+  transform: MappingTransform | null;
+};
+
+// Immutable snapshots of a connector's mapping set. A new version is recorded
+// whenever the set changes; sync runs point to the version they applied.
+export const connectorMappingVersions = pgTable(
+  "connector_mapping_versions",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    connectorId: uuid("connector_id")
+      .notNull()
+      .references(() => connectors.id, { onDelete: "cascade" }),
+    // 1, 2, 3... per connector
+    version: integer("version").notNull(),
+    mappings: jsonb("mappings").$type<MappingSnapshot[]>().notNull(),
+    // computeMappingVersion() of the set, as stamped on dead letters
+    fingerprint: varchar("fingerprint", { length: 12 }).notNull(),
+    reason: text("reason"),
+    createdBy: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_connector_mapping_versions_version").on(
+      table.connectorId,
+      table.version
+    ),
+  ]
+);
+
+// JSON type of a source field as last seen; "null" when only nulls were seen
+export const SOURCE_FIELD_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "object",
+  "array",
+  "null",
+] as const;
+export type SourceFieldType = (typeof SOURCE_FIELD_TYPES)[number];
+
+export type SourceSchemaField = {
+  type: SourceFieldType;
+  firstSeenAt: string;
+  lastSeenAt: string;
+};
+
+// Inferred shape of a connector's raw records, keyed by source path
+// ("customer.name", "installments[*].amount"), tracked across runs to detect
+// schema drift
+export const connectorSourceSchemas = pgTable("connector_source_schemas", {
+  id: uuid("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  connectorId: uuid("connector_id")
+    .notNull()
+    .unique()
+    .references(() => connectors.id, { onDelete: "cascade" }),
+  fields: jsonb("fields")
+    .$type<Record<string, SourceSchemaField>>()
+    .notNull()
+    .default({}),
+  // Records sampled by the run that last updated the schema
+  sampledRecords: integer("sampled_records").notNull().default(0),
+  lastRunId: uuid("last_run_id"),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+// Object store backends for raw payloads; a null storage_backend marks a
+// legacy metadata-only row whose body was never kept
+export const RAW_STORE_BACKENDS = ["local", "supabase"] as const;
+export type RawStoreBackend = (typeof RAW_STORE_BACKENDS)[number];
+
 export const rawIngestFiles = pgTable(
   "raw_ingest_files",
   {
@@ -254,9 +369,15 @@ export const rawIngestFiles = pgTable(
     connectorId: uuid("connector_id")
       .notNull()
       .references(() => connectors.id, { onDelete: "cascade" }),
+    syncRunId: uuid("sync_run_id").references(() => syncRuns.id, {
+      onDelete: "set null",
+    }),
     bucketPath: text("bucket_path").notNull(),
     fileName: text("file_name").notNull(),
+    // Size of the uncompressed payload
     fileSize: bigint("file_size", { mode: "number" }),
+    storageBackend: varchar("storage_backend", { length: 20 }),
+    contentEncoding: varchar("content_encoding", { length: 20 }),
     processed: boolean("processed").notNull().default(false),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
@@ -265,9 +386,28 @@ export const rawIngestFiles = pgTable(
   (table) => [
     index("idx_raw_ingest_files_connector_id").on(table.connectorId),
     index("idx_raw_ingest_files_processed").on(table.processed),
+    index("idx_raw_ingest_files_sync_run_id").on(table.syncRunId),
   ]
 );
 
+// Last fully committed page of a run; a failed run resumes from here
+export type SyncRunCheckpoint = {
+  pages: number;
+  cursor: string | null;
+  offset: number;
+  page: number;
+  recordsIn: number;
+  recordsOut: number;
+  // Incremental sync state, so a resumed run keeps the same window
+  watermark: string | null;
+  maxUpdatedAt: number | null;
+  lastSyncCursor: string | null;
+  fullResync: boolean;
+  // Failed records that could not be dead-lettered; the watermark holds
+  lostRecords?: number;
+  committedAt: string;
+};
+
 export const syncRuns = pgTable(
   "sync_runs",
   {
@@ -282,9 +422,17 @@ export const syncRuns = pgTable(
       .defaultNow(),
     finishedAt: timestamp("finished_at", { withTimezone: true }),
     status: varchar("status", { length: 20 }).notNull().default("pending"),
+    kind: varchar("kind", { length: 20 }).notNull().default("sync"),
     recordsIn: integer("records_in").default(0),
     recordsOut: integer("records_out").default(0),
     error: jsonb("error").$type<Record<string, unknown>>(),
+    recordsDeleted: integer("records_deleted").default(0),
+    checkpoint: jsonb("checkpoint").$type<SyncRunCheckpoint>(),
+    // Mapping set the run applied
+    mappingVersionId: uuid("mapping_version_id").references(
+      () => connectorMappingVersions.id,
+      { onDelete: "set null" }
+    ),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -298,6 +446,34 @@ export const syncRuns = pgTable(
   ]
 );
 
+export const WATERMARK_TYPES = ["updated_since", "cursor"] as const;
+export type WatermarkType = (typeof WATERMARK_TYPES)[number];
+
+// High-water mark of the last successful incremental sync, one row per connector
+export const connectorWatermarks = pgTable(
+  "connector_watermarks",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    connectorId: uuid("connector_id")
+      .notNull()
+      .unique()
+      .references(() => connectors.id, { onDelete: "cascade" }),
+    watermarkType: varchar("watermark_type", { length: 20 }).notNull(),
+    value: text("value").notNull(),
+    lastRunId: uuid("last_run_id").references(() => syncRuns.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  }
+);
+
 export const leads = pgTable(
   "leads",
   {
@@ -317,6 +493,11 @@ export const leads = pgTable(
     stage: varchar("stage", { length: 50 }).notNull().default("new"),
     status: varchar("status", { length: 50 }).notNull().default("open"),
     lastInteraction: timestamp("last_interaction", { withTimezone: true }),
+    // Canonical columns (CANONICAL_SCHEMAS.leads), filled from the payload
+    name: text("name"),
+    email: text("email"),
+    phone: text("phone"),
+    cpf: varchar("cpf", { length: 11 }),
     payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
@@ -324,6 +505,8 @@ export const leads = pgTable(
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
+    // Set by connector reconciliation when the source no longer has the record
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
   },
   (table) => [
     index("idx_leads_school_id").on(table.schoolId),
@@ -341,6 +524,8 @@ export const leads = pgTable(
       table.lastInteraction
     ),
     index("idx_leads_seller_id").on(table.sellerId),
+    index("idx_leads_email").on(table.email),
+    index("idx_leads_phone").on(table.phone),
   ]
 );
 
@@ -384,15 +569,27 @@ export const payments = pgTable(
     schoolId: uuid("school_id").references(() => schools.id, {
       onDelete: "set null",
     }),
+    // Canonical columns (CANONICAL_SCHEMAS.payments), filled from the payload
+    amount: numeric("amount", { precision: 18, scale: 4 }),
+    status: varchar("status", { length: 20 }),
+    paymentDate: date("payment_date"),
+    paidAt: timestamp("paid_at", { withTimezone: true }),
+    enrollmentId: uuid("enrollment_id").references(() => enrollments.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
+    // Set by connector reconciliation when the source no longer has the record
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
   },
   (table) => [
     index("idx_payments_school_id").on(table.schoolId),
+    index("idx_payments_payment_date").on(table.paymentDate),
+    index("idx_payments_enrollment_id").on(table.enrollmentId),
     index("idx_payments_created_at").on(table.createdAt),
     index("idx_payments_source_id").on(table.sourceId),
     index("idx_payments_source_connector_id").on(table.sourceConnectorId),
@@ -413,31 +610,314 @@ export const enrollments = pgTable(
     schoolId: uuid("school_id").references(() => schools.id, {
       onDelete: "set null",
     }),
+    // Canonical columns (CANONICAL_SCHEMAS.enrollments), filled from the payload
+    leadId: uuid("lead_id").references(() => leads.id, {
+      onDelete: "set null",
+    }),
+    enrollmentDate: date("enrollment_date"),
+    grade: text("grade"),
+    status: varchar("status", { length: 20 }),
+    email: text("email"),
+    phone: text("phone"),
+    cpf: varchar("cpf", { length: 11 }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
+    // Set by connector reconciliation when the source no longer has the record
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
   },
   (table) => [
     index("idx_enrollments_school_id").on(table.schoolId),
+    index("idx_enrollments_lead_id").on(table.leadId),
+    index("idx_enrollments_enrollment_date").on(table.enrollmentDate),
     index("idx_enrollments_created_at").on(table.createdAt),
     index("idx_enrollments_source_id").on(table.sourceId),
     index("idx_enrollments_source_connector_id").on(table.sourceConnectorId),
   ]
 );
 
+export const RECONCILIATION_POLICIES = ["soft_delete", "tombstone"] as const;
+export type ReconciliationPolicy = (typeof RECONCILIATION_POLICIES)[number];
+
+export const NORMALIZED_TABLES = ["leads", "payments", "enrollments"] as const;
+export type NormalizedTable = (typeof NORMALIZED_TABLES)[number];
+
+// Canonical schema of the normalized tables: payload keys (as produced by the
+// connector mappings) promoted into typed columns. The payload keeps every
+// mapped field; these columns mirror the canonical ones for querying.
+export const CANONICAL_FIELD_TYPES = [
+  "text",
+  "email",
+  "phone",
+  "number",
+  "date",
+  "timestamp",
+  "uuid",
+  "cpf",
+] as const;
+export type CanonicalFieldType = (typeof CANONICAL_FIELD_TYPES)[number];
+
+export type CanonicalField = {
+  // Payload key
+  field: string;
+  // Property of the drizzle table
+  column: string;
+  type: CanonicalFieldType;
+  label: string;
+  // Length of a varchar column; longer values are invalid
+  maxLength?: number;
+};
+
+export const CANONICAL_SCHEMAS: Record<NormalizedTable, CanonicalField[]> = {
+  leads: [
+    { field: "name", column: "name", type: "text", label: "Nome" },
+    { field: "email", column: "email", type: "email", label: "E-mail" },
+    { field: "phone", column: "phone", type: "phone", label: "Telefone" },
+    { field: "cpf", column: "cpf", type: "cpf", label: "CPF" },
+  ],
+  payments: [
+    { field: "amount", column: "amount", type: "number", label: "Valor" },
+    { field: "status", column: "status", type: "text", label: "Status", maxLength: 20 },
+    { field: "payment_date", column: "paymentDate", type: "date", label: "Data do pagamento" },
+    { field: "paid_at", column: "paidAt", type: "timestamp", label: "Pago em" },
+    { field: "enrollment_id", column: "enrollmentId", type: "uuid", label: "Matrícula" },
+  ],
+  enrollments: [
+    { field: "lead_id", column: "leadId", type: "uuid", label: "Lead" },
+    { field: "enrollment_date", column: "enrollmentDate", type: "date", label: "Data da matrícula" },
+    { field: "grade", column: "grade", type: "text", label: "Série" },
+    { field: "status", column: "status", type: "text", label: "Status", maxLength: 20 },
+    // Contact of the family, used to link the enrollment to its lead
+    { field: "email", column: "email", type: "email", label: "E-mail" },
+    { field: "phone", column: "phone", type: "phone", label: "Telefone" },
+    { field: "cpf", column: "cpf", type: "cpf", label: "CPF" },
+  ],
+};
+
+// Rewrites the canonical columns of existing rows from their payload
+export const canonicalBackfillRequestSchema = z.object({
+  tables: z.array(z.enum(NORMALIZED_TABLES)).min(1).optional(),
+});
+
+export type CanonicalBackfillRequest = z.infer<typeof canonicalBackfillRequestSchema>;
+
+// Tables a connector can write mapped records to. Only the normalized tables
+// keep the raw payload as-is and support reconciliation.
+export const TARGET_TABLES = [
+  ...NORMALIZED_TABLES,
+  "contas_a_receber",
+  "nps_surveys",
+  "manual_inputs",
+] as const;
+export type TargetTable = (typeof TARGET_TABLES)[number];
+
+// connectors.config.target: a fixed table for the whole connector, or a
+// per-record route picked by the value of a raw-record field ("*" matches
+// any other value)
+export const targetRoutingSchema = z
+  .object({
+    table: z.enum(TARGET_TABLES).optional(),
+    discriminatorField: z.string().min(1, "Discriminator field is required").optional(),
+    routes: z.record(z.enum(TARGET_TABLES)).optional(),
+  })
+  .refine(
+    (data) =>
+      !data.discriminatorField || Object.keys(data.routes ?? {}).length > 0,
+    { message: "Routes are required with a discriminator field", path: ["routes"] }
+  );
+
+export type TargetRoutingConfig = z.infer<typeof targetRoutingSchema>;
+
+// History of normalized rows removed by connector reconciliation. With the
+// "tombstone" policy the row itself is deleted and this snapshot is all that
+// is left of it.
+export const connectorRecordTombstones = pgTable(
+  "connector_record_tombstones",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    connectorId: uuid("connector_id")
+      .notNull()
+      .references(() => connectors.id, { onDelete: "cascade" }),
+    syncRunId: uuid("sync_run_id").references(() => syncRuns.id, {
+      onDelete: "set null",
+    }),
+    targetTable: varchar("target_table", { length: 50 }).notNull(),
+    recordId: uuid("record_id").notNull(),
+    sourceId: text("source_id").notNull(),
+    policy: varchar("policy", { length: 20 }).notNull(),
+    snapshot: jsonb("snapshot").$type<Record<string, unknown>>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_connector_record_tombstones_sync_run_id").on(table.syncRunId),
+    index("idx_connector_record_tombstones_connector_source").on(
+      table.connectorId,
+      table.sourceId
+    ),
+  ]
+);
+
+export const DEAD_LETTER_ERROR_TYPES = ["transform", "upsert"] as const;
+export type DeadLetterErrorType = (typeof DEAD_LETTER_ERROR_TYPES)[number];
+
+export const DEAD_LETTER_STATUSES = ["pending", "replayed", "discarded"] as const;
+export type DeadLetterStatus = (typeof DEAD_LETTER_STATUSES)[number];
+
+// Raw records that failed transform or upsert during a sync, kept for
+// inspection, editing and replay once the mapping is fixed
+export const connectorDeadLetters = pgTable(
+  "connector_dead_letters",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    connectorId: uuid("connector_id")
+      .notNull()
+      .references(() => connectors.id, { onDelete: "cascade" }),
+    syncRunId: uuid("sync_run_id").references(() => syncRuns.id, {
+      onDelete: "set null",
+    }),
+    sourceId: text("source_id"),
+    rawRecord: jsonb("raw_record").$type<Record<string, unknown>>().notNull(),
+    errorType: varchar("error_type", { length: 20 }).notNull(),
+    errors: jsonb("errors").$type<string[]>().notNull().default([]),
+    mappingVersion: varchar("mapping_version", { length: 64 }),
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    replayCount: integer("replay_count").notNull().default(0),
+    lastReplayedAt: timestamp("last_replayed_at", { withTimezone: true }),
+    lastReplayError: text("last_replay_error"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_connector_dead_letters_connector_status").on(
+      table.connectorId,
+      table.status
+    ),
+    index("idx_connector_dead_letters_source_id").on(
+      table.connectorId,
+      table.sourceId
+    ),
+  ]
+);
+
+export const UPLOAD_FILE_FORMATS = ["csv", "xlsx"] as const;
+export type UploadFileFormat = (typeof UPLOAD_FILE_FORMATS)[number];
+
+// Columns that changed since the connector's previous upload
+export type HeaderDrift = {
+  previousUploadId: string;
+  added: string[];
+  removed: string[];
+  // Removed columns that a mapping reads from
+  missingMapped: string[];
+};
+
+// One file sent to a file_upload connector; each upload is ingested by its
+// own sync run
+export const connectorFileUploads = pgTable(
+  "connector_file_uploads",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    connectorId: uuid("connector_id")
+      .notNull()
+      .references(() => connectors.id, { onDelete: "cascade" }),
+    syncRunId: uuid("sync_run_id").references(() => syncRuns.id, {
+      onDelete: "set null",
+    }),
+    rawFileId: uuid("raw_file_id").references(() => rawIngestFiles.id, {
+      onDelete: "set null",
+    }),
+    fileName: text("file_name").notNull(),
+    format: varchar("format", { length: 10 }).notNull(),
+    encoding: varchar("encoding", { length: 40 }),
+    delimiter: varchar("delimiter", { length: 5 }),
+    sheetName: text("sheet_name"),
+    headers: jsonb("headers").$type<string[]>().notNull().default([]),
+    headerDrift: jsonb("header_drift").$type<HeaderDrift>(),
+    rowCount: integer("row_count").notNull().default(0),
+    uploadedBy: uuid("uploaded_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_connector_file_uploads_connector_id").on(
+      table.connectorId,
+      table.createdAt
+    ),
+  ]
+);
+
+export const WEBHOOK_EVENT_STATUSES = ["pending", "processed", "failed"] as const;
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+// Events pushed to a webhook connector. The (connector_id, event_id) unique
+// index makes redelivered events no-ops; pending events are flushed in
+// batches, each batch being one micro sync run.
+export const connectorWebhookEvents = pgTable(
+  "connector_webhook_events",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    connectorId: uuid("connector_id")
+      .notNull()
+      .references(() => connectors.id, { onDelete: "cascade" }),
+    eventId: text("event_id").notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    syncRunId: uuid("sync_run_id").references(() => syncRuns.id, {
+      onDelete: "set null",
+    }),
+    error: text("error"),
+    receivedAt: timestamp("received_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    processedAt: timestamp("processed_at", { withTimezone: true }),
+  },
+  (table) => [
+    uniqueIndex("idx_connector_webhook_events_event_id").on(
+      table.connectorId,
+      table.eventId
+    ),
+    index("idx_connector_webhook_events_status").on(
+      table.connectorId,
+      table.status
+    ),
+  ]
+);
+
 export const insertConnectorSchema = createInsertSchema(connectors)
   .omit({
     id: true,
+    lastScheduledAt: true,
+    nextScheduledAt: true,
     createdAt: true,
     updatedAt: true,
   })
   .extend({
     name: z.string().min(1, "Connector name is required"),
     type: z.enum(CONNECTOR_TYPES as unknown as [string, ...string[]]),  // includes google_sheets
-    config: z.record(z.unknown()).optional(),
+    config: z
+      .object({ target: targetRoutingSchema.optional() })
+      .passthrough()
+      .optional(),
     scheduleCron: z.string().nullable().optional(),
     ownerId: z.string().uuid("Invalid owner ID"),
     isActive: z.boolean().optional(),
@@ -453,9 +933,63 @@ export const insertConnectorMappingSchema = createInsertSchema(connectorMappings
     connectorId: z.string().uuid("Invalid connector ID"),
     sourcePath: z.string().min(1, "Source path is required"),
     targetField: z.string().min(1, "Target field is required"),
-    transform: z.record(z.unknown()).nullable().optional(),
+    transform: mappingTransformSchema.nullable().optional(),
+  });
+
+export const insertConnectorSourceSchemaSchema = createInsertSchema(
+  connectorSourceSchemas
+)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    connectorId: z.string().uuid("Invalid connector ID"),
+    fields: z.custom<Record<string, SourceSchemaField>>(),
+    sampledRecords: z.number().int().nonnegative().optional(),
+    lastRunId: z.string().uuid("Invalid sync run ID").nullable().optional(),
+  });
+
+export const insertConnectorMappingVersionSchema = createInsertSchema(
+  connectorMappingVersions
+)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    connectorId: z.string().uuid("Invalid connector ID"),
+    version: z.number().int().positive(),
+    mappings: z.custom<MappingSnapshot[]>(),
+    fingerprint: z.string().min(1),
+    reason: z.string().nullable().optional(),
+    createdBy: z.string().uuid("Invalid user ID").nullable().optional(),
+  });
+
+// Mapping sandbox: draft mappings applied to a pasted record or to the first
+// record of the latest raw ingest file. Omitted mappings = the saved ones.
+export const mappingPreviewRequestSchema = z
+  .object({
+    record: z.record(z.unknown()).optional(),
+    source: z.enum(["record", "latest_file"]).default("record"),
+    mappings: z
+      .array(
+        z.object({
+          sourcePath: z.string().min(1, "Source path is required"),
+          targetField: z.string().min(1, "Target field is required"),
+          transform: mappingTransformSchema.nullable().optional(),
+        })
+      )
+      .optional(),
+  })
+  .refine((data) => data.source === "latest_file" || !!data.record, {
+    message: "A sample record is required",
+    path: ["record"],
   });
 
+export type MappingPreviewRequest = z.infer<typeof mappingPreviewRequestSchema>;
+
 export const insertRawIngestFileSchema = createInsertSchema(rawIngestFiles)
   .omit({
     id: true,
@@ -465,10 +999,75 @@ export const insertRawIngestFileSchema = createInsertSchema(rawIngestFiles)
     connectorId: z.string().uuid("Invalid connector ID"),
     bucketPath: z.string().min(1, "Bucket path is required"),
     fileName: z.string().min(1, "File name is required"),
+    syncRunId: z.string().uuid("Invalid sync run ID").nullable().optional(),
     fileSize: z.number().int().nonnegative().nullable().optional(),
+    storageBackend: z.enum(RAW_STORE_BACKENDS).nullable().optional(),
+    contentEncoding: z.enum(["gzip"]).nullable().optional(),
     processed: z.boolean().optional(),
   });
 
+// Re-runs the current mappings over stored raw pages. Without fileIds, the
+// files of runId (or of the latest run that stored any) are used.
+export const rawReprocessRequestSchema = z.object({
+  fileIds: z.array(z.string().uuid("Invalid file ID")).min(1).optional(),
+  runId: z.string().uuid("Invalid sync run ID").optional(),
+  // By default each file is mapped with the version its run applied
+  useCurrentMappings: z.boolean().optional(),
+});
+
+export type RawReprocessRequest = z.infer<typeof rawReprocessRequestSchema>;
+
+// A config given here is tested instead of the saved one, so edits can be
+// checked before they are saved
+export const connectionTestRequestSchema = z.object({
+  config: z.record(z.unknown()).optional(),
+});
+
+export type ConnectionTestRequest = z.infer<typeof connectionTestRequestSchema>;
+
+// Reusable connector setup: a config skeleton without secrets or school, the
+// source ID field and default mappings. Shipped in the template catalog or
+// exported from an existing connector as JSON.
+export const connectorTemplateSchema = z.object({
+  formatVersion: z.literal(1).default(1),
+  // Catalog templates only
+  key: z.string().min(1).optional(),
+  name: z.string().min(1, "Template name is required"),
+  description: z.string().optional(),
+  type: z.enum(CONNECTOR_TYPES),
+  sourceIdField: z.string().min(1, "Source ID field is required"),
+  config: z.record(z.unknown()).default({}),
+  mappings: z
+    .array(
+      z.object({
+        sourcePath: z.string().min(1, "Source path is required"),
+        targetField: z.string().min(1, "Target field is required"),
+        transform: mappingTransformSchema.nullable().optional(),
+      })
+    )
+    .default([]),
+  scheduleCron: z.string().nullable().optional(),
+});
+
+export type ConnectorTemplate = z.infer<typeof connectorTemplateSchema>;
+
+// A catalog template by key, or an exported one given inline; config is
+// merged over the template's (base URL, spreadsheet, credentials...)
+export const createConnectorFromTemplateSchema = z
+  .object({
+    templateKey: z.string().min(1).optional(),
+    template: connectorTemplateSchema.optional(),
+    name: z.string().min(1, "Connector name is required"),
+    schoolId: z.string().uuid("Invalid school ID").nullable().optional(),
+    config: z.record(z.unknown()).optional(),
+    scheduleCron: z.string().nullable().optional(),
+  })
+  .refine((data) => !!data.templateKey !== !!data.template, {
+    message: "Provide either templateKey or template",
+  });
+
+export type CreateConnectorFromTemplate = z.infer<typeof createConnectorFromTemplateSchema>;
+
 export const insertSyncRunSchema = createInsertSchema(syncRuns)
   .omit({
     id: true,
@@ -477,18 +1076,36 @@ export const insertSyncRunSchema = createInsertSchema(syncRuns)
   .extend({
     connectorId: z.string().uuid("Invalid connector ID"),
     status: z.enum(SYNC_RUN_STATUSES).default("pending"),
+    kind: z.enum(SYNC_RUN_KINDS).optional(),
     recordsIn: z.number().int().nonnegative().optional(),
     recordsOut: z.number().int().nonnegative().optional(),
+    recordsDeleted: z.number().int().nonnegative().optional(),
     error: z.record(z.unknown()).nullable().optional(),
+    checkpoint: z.custom<SyncRunCheckpoint>().nullable().optional(),
+    mappingVersionId: z.string().uuid("Invalid mapping version ID").nullable().optional(),
     startedAt: z.date().optional(),
     finishedAt: z.date().nullable().optional(),
   });
 
+export const insertConnectorWatermarkSchema = createInsertSchema(connectorWatermarks)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    connectorId: z.string().uuid("Invalid connector ID"),
+    watermarkType: z.enum(WATERMARK_TYPES),
+    value: z.string().min(1, "Watermark value is required"),
+    lastRunId: z.string().uuid("Invalid run ID").nullable().optional(),
+  });
+
 export const insertLeadSchema = createInsertSchema(leads)
   .omit({
     id: true,
     createdAt: true,
     updatedAt: true,
+    deletedAt: true,
   })
   .extend({
     sourceConnectorId: z.string().uuid("Invalid connector ID"),
@@ -506,6 +1123,7 @@ export const insertPaymentSchema = createInsertSchema(payments)
     id: true,
     createdAt: true,
     updatedAt: true,
+    deletedAt: true,
   })
   .extend({
     sourceConnectorId: z.string().uuid("Invalid connector ID"),
@@ -519,6 +1137,7 @@ export const insertEnrollmentSchema = createInsertSchema(enrollments)
     id: true,
     createdAt: true,
     updatedAt: true,
+    deletedAt: true,
   })
   .extend({
     sourceConnectorId: z.string().uuid("Invalid connector ID"),
@@ -527,18 +1146,106 @@ export const insertEnrollmentSchema = createInsertSchema(enrollments)
     schoolId: z.string().uuid("Invalid school ID").nullable().optional(),
   });
 
+export const insertConnectorRecordTombstoneSchema = createInsertSchema(connectorRecordTombstones)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    connectorId: z.string().uuid("Invalid connector ID"),
+    syncRunId: z.string().uuid("Invalid run ID").nullable().optional(),
+    targetTable: z.enum(NORMALIZED_TABLES),
+    recordId: z.string().uuid("Invalid record ID"),
+    sourceId: z.string().min(1, "Source ID is required"),
+    policy: z.enum(RECONCILIATION_POLICIES),
+    snapshot: z.record(z.unknown()),
+  });
+
+export const insertConnectorDeadLetterSchema = createInsertSchema(connectorDeadLetters)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    connectorId: z.string().uuid("Invalid connector ID"),
+    syncRunId: z.string().uuid("Invalid run ID").nullable().optional(),
+    sourceId: z.string().nullable().optional(),
+    rawRecord: z.record(z.unknown()),
+    errorType: z.enum(DEAD_LETTER_ERROR_TYPES),
+    errors: z.array(z.string()).optional(),
+    mappingVersion: z.string().max(64).nullable().optional(),
+    status: z.enum(DEAD_LETTER_STATUSES).default("pending"),
+    replayCount: z.number().int().nonnegative().optional(),
+    lastReplayedAt: z.date().nullable().optional(),
+    lastReplayError: z.string().nullable().optional(),
+  });
+
+export const insertConnectorFileUploadSchema = createInsertSchema(connectorFileUploads)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    connectorId: z.string().uuid("Invalid connector ID"),
+    syncRunId: z.string().uuid("Invalid run ID").nullable().optional(),
+    rawFileId: z.string().uuid("Invalid file ID").nullable().optional(),
+    fileName: z.string().min(1, "File name is required"),
+    format: z.enum(UPLOAD_FILE_FORMATS),
+    encoding: z.string().max(40).nullable().optional(),
+    delimiter: z.string().max(5).nullable().optional(),
+    sheetName: z.string().nullable().optional(),
+    headers: z.array(z.string()).optional(),
+    headerDrift: z.custom<HeaderDrift>().nullable().optional(),
+    rowCount: z.number().int().nonnegative().optional(),
+    uploadedBy: z.string().uuid("Invalid user ID").nullable().optional(),
+  });
+
+export const insertConnectorWebhookEventSchema = createInsertSchema(connectorWebhookEvents)
+  .omit({
+    id: true,
+    receivedAt: true,
+  })
+  .extend({
+    connectorId: z.string().uuid("Invalid connector ID"),
+    eventId: z.string().min(1, "Event ID is required").max(255),
+    payload: z.record(z.unknown()),
+    status: z.enum(WEBHOOK_EVENT_STATUSES).default("pending"),
+    syncRunId: z.string().uuid("Invalid run ID").nullable().optional(),
+    error: z.string().nullable().optional(),
+    processedAt: z.date().nullable().optional(),
+  });
+
+// Per-upload overrides of the connector's parsing config (multipart fields)
+export const fileUploadOptionsSchema = z.object({
+  delimiter: z.string().min(1).max(5, "Delimiter is too long").optional(),
+  encoding: z.string().min(1).max(40, "Encoding is too long").optional(),
+  sheetName: z.string().min(1).optional(),
+});
+
+export type FileUploadOptions = z.infer<typeof fileUploadOptionsSchema>;
+
 export type InsertConnector = z.infer<typeof insertConnectorSchema>;
 export type Connector = typeof connectors.$inferSelect;
 
 export type InsertConnectorMapping = z.infer<typeof insertConnectorMappingSchema>;
 export type ConnectorMapping = typeof connectorMappings.$inferSelect;
 
+export type InsertConnectorMappingVersion = z.infer<typeof insertConnectorMappingVersionSchema>;
+export type ConnectorMappingVersion = typeof connectorMappingVersions.$inferSelect;
+
+export type InsertConnectorSourceSchema = z.infer<typeof insertConnectorSourceSchemaSchema>;
+export type ConnectorSourceSchema = typeof connectorSourceSchemas.$inferSelect;
+
 export type InsertRawIngestFile = z.infer<typeof insertRawIngestFileSchema>;
 export type RawIngestFile = typeof rawIngestFiles.$inferSelect;
 
 export type InsertSyncRun = z.infer<typeof insertSyncRunSchema>;
 export type SyncRun = typeof syncRuns.$inferSelect;
 
+export type InsertConnectorWatermark = z.infer<typeof insertConnectorWatermarkSchema>;
+export type ConnectorWatermark = typeof connectorWatermarks.$inferSelect;
+
 export type InsertLead = z.infer<typeof insertLeadSchema>;
 export type Lead = typeof leads.$inferSelect;
 
@@ -550,6 +1257,18 @@ export type Payment = typeof payments.$inferSelect;
 export type InsertEnrollment = z.infer<typeof insertEnrollmentSchema>;
 export type Enrollment = typeof enrollments.$inferSelect;
 
+export type ConnectorRecordTombstone = typeof connectorRecordTombstones.$inferSelect;
+export type InsertConnectorDeadLetter = z.infer<typeof insertConnectorDeadLetterSchema>;
+export type ConnectorDeadLetter = typeof connectorDeadLetters.$inferSelect;
+
+export type InsertConnectorWebhookEvent = z.infer<typeof insertConnectorWebhookEventSchema>;
+export type ConnectorWebhookEvent = typeof connectorWebhookEvents.$inferSelect;
+
+export type InsertConnectorFileUpload = z.infer<typeof insertConnectorFileUploadSchema>;
+export type ConnectorFileUpload = typeof connectorFileUploads.$inferSelect;
+
+export type InsertConnectorRecordTombstone = z.infer<typeof insertConnectorRecordTombstoneSchema>;
+
 export const KPI_CALC_TYPES = ["sql", "js", "materialized"] as const;
 export type KpiCalcType = (typeof KPI_CALC_TYPES)[number];
 
@@ -1084,6 +1803,11 @@ export const connectorMetrics = pgTable(
     recordsIn: integer("records_in").notNull().default(0),
     recordsOut: integer("records_out").notNull().default(0),
     error: jsonb("error").$type<Record<string, unknown>>(),
+    // Time spent waiting on rate limits, and 429 responses received
+    throttledMs: integer("throttled_ms").notNull().default(0),
+    rateLimitedResponses: integer("rate_limited_responses").notNull().default(0),
+    // Fetch time of each page, rate-limit waits excluded
+    pageLatenciesMs: jsonb("page_latencies_ms").$type<number[]>().notNull().default([]),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => [index("idx_connector_metrics_connector_time").on(table.connectorId, table.createdAt)]
@@ -1094,6 +1818,7 @@ export const insertConnectorMetricSchema = createInsertSchema(connectorMetrics)
   .extend({
     status: z.enum(["success", "failed", "partial"]),
     connectorId: z.string().uuid("Invalid connector ID"),
+    pageLatenciesMs: z.array(z.number()).optional(),
   });
 
 export const connectorSlas = pgTable(
@@ -1109,6 +1834,10 @@ export const connectorSlas = pgTable(
     maxLatencyMs: integer("max_latency_ms").notNull().default(5000),
     successRateThreshold: numeric("success_rate_threshold", { precision: 5, scale: 2 }).notNull().default("95.00"),
     escalationEmails: jsonb("escalation_emails").$type<string[]>().notNull().default([]),
+    // Metrics the health evaluator looks back over
+    windowMinutes: integer("window_minutes").notNull().default(15),
+    // Hours without a successful sync run before the data is stale; null = no check
+    maxStalenessHours: integer("max_staleness_hours"),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
   }
@@ -1119,6 +1848,8 @@ export const insertConnectorSlaSchema = createInsertSchema(connectorSlas)
   .extend({
     connectorId: z.string().uuid("Invalid connector ID"),
     successRateThreshold: z.number().or(z.string()).transform(val => String(val)),
+    windowMinutes: z.number().int().min(1).max(7 * 24 * 60).optional(),
+    maxStalenessHours: z.number().int().min(1).max(90 * 24).nullable().optional(),
     escalationEmails: z.array(z.string().email("Invalid email format")).default([])
   });
 
@@ -1138,7 +1869,10 @@ export const integrationAlerts = pgTable(
     resolvedAt: timestamp("resolved_at", { withTimezone: true }),
     createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
   },
-  (table) => [index("idx_integration_alerts_status_time").on(table.status, table.createdAt)]
+  (table) => [
+    index("idx_integration_alerts_status_time").on(table.status, table.createdAt),
+    index("idx_integration_alerts_connector_type").on(table.connectorId, table.alertType, table.status),
+  ]
 );
 
 export const insertIntegrationAlertSchema = createInsertSchema(integrationAlerts)
@@ -1213,6 +1947,11 @@ export const manualInputs = pgTable(
     createdBy: uuid("created_by").references(() => users.id, {
       onDelete: "set null",
     }),
+    // Set when the value was written by a connector
+    sourceConnectorId: uuid("source_connector_id").references(() => connectors.id, {
+      onDelete: "cascade",
+    }),
+    sourceId: text("source_id"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -1224,6 +1963,7 @@ export const manualInputs = pgTable(
     index("idx_manual_inputs_school_date").on(table.schoolId, table.dataReferencia),
     index("idx_manual_inputs_chave").on(table.chaveMetrica),
     index("idx_manual_inputs_created_by").on(table.createdBy),
+    uniqueIndex("idx_manual_inputs_source").on(table.sourceConnectorId, table.sourceId),
   ]
 );
 
@@ -1244,6 +1984,8 @@ export const insertManualInputSchema = createInsertSchema(manualInputs)
       .transform((v) => String(v)),
     notas: z.string().nullable().optional(),
     createdBy: z.string().uuid("Invalid user ID").nullable().optional(),
+    sourceConnectorId: z.string().uuid("Invalid connector ID").nullable().optional(),
+    sourceId: z.string().nullable().optional(),
   });
 
 export type InsertManualInput = z.infer<typeof insertManualInputSchema>;
@@ -1334,6 +2076,11 @@ export const npsSurveys = pgTable(
     createdBy: uuid("created_by").references(() => users.id, {
       onDelete: "set null",
     }),
+    // Set when the response was written by a connector
+    sourceConnectorId: uuid("source_connector_id").references(() => connectors.id, {
+      onDelete: "cascade",
+    }),
+    sourceId: text("source_id"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -1341,6 +2088,7 @@ export const npsSurveys = pgTable(
   (table) => [
     index("idx_nps_school_date").on(table.schoolId, table.surveyDate),
     index("idx_nps_enrollment").on(table.enrollmentId),
+    uniqueIndex("idx_nps_source").on(table.sourceConnectorId, table.sourceId),
   ]
 );
 
@@ -1357,6 +2105,8 @@ export const insertNpsSurveySchema = createInsertSchema(npsSurveys)
     comment: z.string().nullable().optional(),
     surveyDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
     createdBy: z.string().uuid("Invalid user ID").nullable().optional(),
+    sourceConnectorId: z.string().uuid("Invalid connector ID").nullable().optional(),
+    sourceId: z.string().nullable().optional(),
   });
 
 export type InsertNpsSurvey = z.infer<typeof insertNpsSurveySchema>;
@@ -1368,3 +2118,123 @@ export function npsCategoryFromScore(score: number): NpsCategory {
   if (score >= 7) return "passive";
   return "detractor";
 }
+
+// ─── Identity Resolution ──────────────────────────────────────────────────────
+
+// Normalized contact keys leads and enrollments are matched on
+export const IDENTITY_KEY_TYPES = ["email", "phone", "cpf"] as const;
+export type IdentityKeyType = (typeof IDENTITY_KEY_TYPES)[number];
+
+export const IDENTITY_LINK_SOURCES = ["auto", "manual"] as const;
+export type IdentityLinkSource = (typeof IDENTITY_LINK_SOURCES)[number];
+
+// One row per key type; active rules are tried in priority order (lowest
+// first) and the first one with a match decides the link
+export const identityMatchRules = pgTable(
+  "identity_match_rules",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    keyType: varchar("key_type", { length: 10 }).notNull(),
+    isActive: boolean("is_active").notNull().default(true),
+    priority: integer("priority").notNull().default(0),
+    // Only match leads of the same school
+    sameSchoolOnly: boolean("same_school_only").notNull().default(true),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_identity_match_rules_key_type").on(table.keyType),
+  ]
+);
+
+// Normalized keys of each lead / enrollment (exactly one of the two is set)
+export const identityKeys = pgTable(
+  "identity_keys",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    leadId: uuid("lead_id").references(() => leads.id, { onDelete: "cascade" }),
+    enrollmentId: uuid("enrollment_id").references(() => enrollments.id, {
+      onDelete: "cascade",
+    }),
+    keyType: varchar("key_type", { length: 10 }).notNull(),
+    value: text("value").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("idx_identity_keys_lookup").on(table.keyType, table.value),
+    index("idx_identity_keys_lead_id").on(table.leadId),
+    index("idx_identity_keys_enrollment_id").on(table.enrollmentId),
+  ]
+);
+
+// Golden-record links: each duplicate lead points to the lead kept as the
+// golden record. A lead without a link (or linked to itself) is golden.
+// Locked links come from a manual merge/unmerge and are never changed by
+// automatic matching.
+export const leadIdentityLinks = pgTable(
+  "lead_identity_links",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    leadId: uuid("lead_id")
+      .notNull()
+      .references(() => leads.id, { onDelete: "cascade" }),
+    goldenLeadId: uuid("golden_lead_id")
+      .notNull()
+      .references(() => leads.id, { onDelete: "cascade" }),
+    source: varchar("source", { length: 10 }).notNull(),
+    keyType: varchar("key_type", { length: 10 }),
+    matchedValue: text("matched_value"),
+    locked: boolean("locked").notNull().default(false),
+    linkedBy: uuid("linked_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_lead_identity_links_lead_id").on(table.leadId),
+    index("idx_lead_identity_links_golden").on(table.goldenLeadId),
+  ]
+);
+
+export const updateIdentityMatchRuleSchema = z.object({
+  isActive: z.boolean().optional(),
+  priority: z.number().int().min(0).max(100).optional(),
+  sameSchoolOnly: z.boolean().optional(),
+});
+
+export const insertLeadIdentityLinkSchema = createInsertSchema(leadIdentityLinks)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    leadId: z.string().uuid("Invalid lead ID"),
+    goldenLeadId: z.string().uuid("Invalid lead ID"),
+    source: z.enum(IDENTITY_LINK_SOURCES),
+    keyType: z.enum(IDENTITY_KEY_TYPES).nullable().optional(),
+    matchedValue: z.string().nullable().optional(),
+    locked: z.boolean().optional(),
+    linkedBy: z.string().uuid("Invalid user ID").nullable().optional(),
+  });
+
+export const leadMergeRequestSchema = z.object({
+  leadIds: z.array(z.string().uuid("Invalid lead ID")).min(1, "Select at least one lead"),
+});
+
+export type UpdateIdentityMatchRule = z.infer<typeof updateIdentityMatchRuleSchema>;
+export type IdentityMatchRule = typeof identityMatchRules.$inferSelect;
+export type IdentityKey = typeof identityKeys.$inferSelect;
+export type InsertLeadIdentityLink = z.infer<typeof insertLeadIdentityLinkSchema>;
+export type LeadIdentityLink = typeof leadIdentityLinks.$inferSelect;
+export type LeadMergeRequest = z.infer<typeof leadMergeRequestSchema>;